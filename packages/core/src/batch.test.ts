@@ -0,0 +1,96 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createBatcher, createBatchMessage } from './batch'
+import type { EventMessage } from './types'
+
+describe('createBatcher', () => {
+	beforeEach(() => {
+		vi.useFakeTimers()
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it('should send items added in the same microtask together', async () => {
+		// GIVEN: Batcher with the default window
+		const send = vi.fn()
+		const batcher = createBatcher<number>(send)
+
+		// WHEN: Adding three items synchronously
+		batcher.add(1)
+		batcher.add(2)
+		batcher.add(3)
+
+		// THEN: Nothing sent until the microtask, then one batch in order
+		expect(send).not.toHaveBeenCalled()
+		await Promise.resolve()
+		expect(send).toHaveBeenCalledTimes(1)
+		expect(send).toHaveBeenCalledWith([1, 2, 3])
+		expect(batcher.size).toBe(0)
+	})
+
+	it('should collect items for the configured window', () => {
+		// GIVEN: Batcher with a 16ms window
+		const send = vi.fn()
+		const batcher = createBatcher<number>(send, { window: 16 })
+
+		// WHEN: Adding items 10ms apart
+		batcher.add(1)
+		vi.advanceTimersByTime(10)
+		batcher.add(2)
+		vi.advanceTimersByTime(6)
+
+		// THEN: Both sent once the window elapses
+		expect(send).toHaveBeenCalledTimes(1)
+		expect(send).toHaveBeenCalledWith([1, 2])
+	})
+
+	it('should send as soon as the batch reaches maxSize', () => {
+		// GIVEN: Batcher holding at most two items
+		const send = vi.fn()
+		const batcher = createBatcher<number>(send, { window: 100, maxSize: 2 })
+
+		// WHEN: Adding three items
+		batcher.add(1)
+		batcher.add(2)
+		batcher.add(3)
+
+		// THEN: First two sent right away, third after the window
+		expect(send).toHaveBeenCalledWith([1, 2])
+		vi.advanceTimersByTime(100)
+		expect(send).toHaveBeenLastCalledWith([3])
+		expect(send).toHaveBeenCalledTimes(2)
+	})
+
+	it('should discard items on clear', () => {
+		// GIVEN: Batcher with pending items
+		const send = vi.fn()
+		const batcher = createBatcher<number>(send, { window: 16 })
+		batcher.add(1)
+
+		// WHEN: Clearing, then letting the window elapse
+		batcher.clear()
+		vi.advanceTimersByTime(16)
+
+		// THEN: Nothing sent
+		expect(send).not.toHaveBeenCalled()
+		expect(batcher.size).toBe(0)
+	})
+})
+
+describe('createBatchMessage', () => {
+	it('should wrap messages in a batch envelope', () => {
+		// GIVEN: Two events
+		const events: EventMessage[] = [
+			{ id: '1', type: 'event', event: 'scroll', data: { y: 10 } },
+			{ id: '2', type: 'event', event: 'scroll', data: { y: 20 } },
+		]
+
+		// WHEN: Creating a batch
+		const batch = createBatchMessage(events)
+
+		// THEN: Envelope carrying the messages in order
+		expect(batch).toMatchObject({ type: 'batch', messages: events })
+		expect(batch.id).toEqual(expect.any(String))
+	})
+})
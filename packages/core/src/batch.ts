@@ -0,0 +1,152 @@
+/**
+ * Batching of outbound messages into a single envelope
+ * @module batch
+ */
+
+import { generateCorrelationId } from './message'
+import type { BatchMessage, Message } from './types'
+
+/**
+ * Options for batching outbound messages
+ */
+export interface BatchOptions {
+	/**
+	 * Milliseconds to collect messages before sending them together
+	 * (default: 0, messages posted within the same microtask)
+	 */
+	window?: number
+
+	/**
+	 * Send the batch as soon as it holds this many messages (default: 50)
+	 */
+	maxSize?: number
+}
+
+/**
+ * Collector coalescing items added close together into one delivery
+ */
+export interface Batcher<T> {
+	/**
+	 * Number of items waiting to be sent
+	 */
+	readonly size: number
+
+	/**
+	 * Add an item to the current batch, scheduling its delivery
+	 */
+	add: (item: T) => void
+
+	/**
+	 * Deliver the current batch now
+	 */
+	flush: () => void
+
+	/**
+	 * Discard the current batch without delivering it
+	 */
+	clear: () => void
+}
+
+/**
+ * Creates a batcher handing the items added within a window to `send` in one
+ * call, in the order they were added.
+ *
+ * With the default window of 0, the batch is delivered in a microtask, so
+ * everything posted synchronously crosses the bridge together.
+ *
+ * @param send - Receives each non-empty batch
+ * @param options - Batch configuration
+ * @returns Batcher instance
+ *
+ * @example
+ * ```typescript
+ * const batcher = createBatcher<Message>(
+ *   (messages) => transport.send(createBatchMessage(messages)),
+ *   { window: 16 },
+ * )
+ *
+ * batcher.add(event)
+ * ```
+ */
+export function createBatcher<T>(
+	send: (items: T[]) => void,
+	options: BatchOptions = {},
+): Batcher<T> {
+	const window = options.window ?? 0
+	const maxSize = options.maxSize ?? 50
+	let items: T[] = []
+	let scheduled = false
+	let timeoutId: ReturnType<typeof setTimeout> | undefined
+
+	const unschedule = (): void => {
+		scheduled = false
+		if (timeoutId !== undefined) {
+			clearTimeout(timeoutId)
+			timeoutId = undefined
+		}
+	}
+
+	const flush = (): void => {
+		unschedule()
+		if (items.length === 0) {
+			return
+		}
+
+		const batch = items
+		items = []
+		send(batch)
+	}
+
+	const add = (item: T): void => {
+		items.push(item)
+
+		if (items.length >= maxSize) {
+			flush()
+			return
+		}
+
+		if (scheduled) {
+			return
+		}
+		scheduled = true
+		if (window > 0) {
+			timeoutId = setTimeout(flush, window)
+		} else {
+			Promise.resolve().then(flush)
+		}
+	}
+
+	const clear = (): void => {
+		unschedule()
+		items = []
+	}
+
+	return {
+		get size() {
+			return items.length
+		},
+		add,
+		flush,
+		clear,
+	}
+}
+
+/**
+ * Wrap messages in a batch envelope, unpacked in order by the receiving peer
+ *
+ * @param messages - Messages to send together
+ * @returns Batch message
+ *
+ * @example
+ * ```typescript
+ * transport.send(createBatchMessage([scrollEvent, analyticsEvent]))
+ * ```
+ */
+export function createBatchMessage(messages: Message[]): BatchMessage {
+	return {
+		id: generateCorrelationId(),
+		type: 'batch',
+		messages,
+		timestamp: Date.now(),
+	}
+}
@@ -0,0 +1,9 @@
+#!/usr/bin/env node
+/**
+ * Executable of the documentation command line interface
+ * @module bin
+ */
+
+import { runCli } from './cli'
+
+process.exitCode = await runCli(process.argv.slice(2))
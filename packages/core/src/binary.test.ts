@@ -0,0 +1,161 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+	binaryDeserializer,
+	binarySerializer,
+	containsBlob,
+	decodeBinary,
+	encodeBinary,
+	fromBase64,
+	readBlobs,
+	toBase64,
+} from './binary'
+
+describe('toBase64 / fromBase64', () => {
+	it('should round-trip bytes of every padding length', () => {
+		// GIVEN: Byte arrays of length 0 to 4
+		for (const length of [0, 1, 2, 3, 4]) {
+			const bytes = Uint8Array.from({ length }, (_, index) => 250 + index)
+
+			// WHEN: Encoding and decoding
+			const base64 = toBase64(bytes)
+
+			// THEN: Same as the platform encoding, bytes restored
+			expect(base64).toBe(Buffer.from(bytes).toString('base64'))
+			expect(fromBase64(base64)).toEqual(bytes)
+		}
+	})
+
+	it('should reject invalid characters', () => {
+		expect(() => fromBase64('ab$d')).toThrow(SyntaxError)
+	})
+})
+
+describe('binarySerializer / binaryDeserializer', () => {
+	it('should restore binary values anywhere in a payload', () => {
+		// GIVEN: Payload nesting several binary types
+		const payload = {
+			pdf: new Uint8Array([37, 80, 68, 70]),
+			pages: [{ samples: new Float32Array([0.5, -1]) }],
+			raw: new Uint16Array([1, 65535]).buffer,
+			view: new DataView(new Uint8Array([1, 2]).buffer),
+			name: 'scan.pdf',
+		}
+
+		// WHEN: Round-tripping
+		const serialized = binarySerializer(payload)
+		const restored = binaryDeserializer(serialized) as typeof payload
+
+		// THEN: Same types and bytes, other values untouched
+		expect(serialized).toContain('"$binary":"Uint8Array"')
+		expect(restored.pdf).toBeInstanceOf(Uint8Array)
+		expect(restored.pdf).toEqual(payload.pdf)
+		expect(restored.pages[0].samples).toBeInstanceOf(Float32Array)
+		expect(Array.from(restored.pages[0].samples)).toEqual([0.5, -1])
+		expect(restored.raw).toBeInstanceOf(ArrayBuffer)
+		expect(Array.from(new Uint16Array(restored.raw))).toEqual([1, 65535])
+		expect(restored.view).toBeInstanceOf(DataView)
+		expect(restored.view.getUint8(1)).toBe(2)
+		expect(restored.name).toBe('scan.pdf')
+	})
+
+	it('should encode only the bytes covered by a view', () => {
+		// GIVEN: View over the middle of a buffer
+		const bytes = new Uint8Array([1, 2, 3, 4]).subarray(1, 3)
+
+		// WHEN: Round-tripping
+		const restored = binaryDeserializer(binarySerializer(bytes))
+
+		// THEN: Only the viewed bytes
+		expect(restored).toEqual(new Uint8Array([2, 3]))
+	})
+
+	it('should send a Buffer as the typed array it extends', () => {
+		// GIVEN: Node Buffer, which JSON turns into { type, data } through toJSON
+		const payload = { file: Buffer.from([37, 80]) }
+
+		// WHEN: Round-tripping
+		const restored = binaryDeserializer(binarySerializer(payload)) as {
+			file: Uint8Array
+		}
+
+		// THEN: Bytes restored
+		expect(restored.file).toBeInstanceOf(Uint8Array)
+		expect(Array.from(restored.file)).toEqual([37, 80])
+	})
+
+	it('should keep payload objects that look like encoded values', () => {
+		// GIVEN: Objects with keys of their own matching the tag
+		const payload = {
+			lookalike: { $binary: 'Uint8Array', base64: 'JVBERg==' },
+			escaped: { $$binary: 'Blob', base64: '' },
+			encoded: encodeBinary(new Uint8Array([1])),
+		}
+
+		// WHEN: Round-tripping
+		const restored = binaryDeserializer(binarySerializer(payload))
+
+		// THEN: Objects restored as they were, encoded values decoded
+		expect(restored).toEqual({
+			lookalike: { $binary: 'Uint8Array', base64: 'JVBERg==' },
+			escaped: { $$binary: 'Blob', base64: '' },
+			encoded: new Uint8Array([1]),
+		})
+	})
+})
+
+describe('readBlobs', () => {
+	it('should replace Blobs with encoded bytes restored as Blobs', async () => {
+		// GIVEN: Payload holding a Blob
+		const file = new Blob(['%PDF'], { type: 'application/pdf' })
+		const payload = { name: 'scan.pdf', files: [file] }
+
+		// WHEN: Reading, then round-tripping
+		const read = await readBlobs(payload)
+		const restored = binaryDeserializer(binarySerializer(read)) as {
+			files: Blob[]
+		}
+
+		// THEN: Payload untouched, Blob restored with its type and bytes
+		expect(containsBlob(payload)).toBe(true)
+		expect(containsBlob(read)).toBe(false)
+		expect(payload.files[0]).toBe(file)
+		expect(restored.files[0]).toBeInstanceOf(Blob)
+		expect(restored.files[0].type).toBe('application/pdf')
+		expect(await restored.files[0].text()).toBe('%PDF')
+	})
+
+	it('should return payloads without Blobs as they are', async () => {
+		// GIVEN: Payload without Blobs
+		const payload = { bytes: new Uint8Array([1]) }
+
+		// WHEN / THEN: Same reference returned
+		expect(await readBlobs(payload)).toBe(payload)
+	})
+})
+
+describe('decodeBinary', () => {
+	it('should restore Blobs as Uint8Array where no Blob can be built from bytes', () => {
+		// GIVEN: React Native Blob constructor, rejecting byte parts
+		vi.stubGlobal(
+			'Blob',
+			class {
+				constructor() {
+					throw new Error('Creating blobs from ArrayBuffer is not supported')
+				}
+			},
+		)
+
+		// WHEN: Decoding a Blob
+		const restored = decodeBinary({ $binary: 'Blob', base64: 'JVBERg==' })
+		vi.unstubAllGlobals()
+
+		// THEN: Bytes instead
+		expect(restored).toEqual(new Uint8Array([37, 80, 68, 70]))
+	})
+
+	it('should reject unknown kinds', () => {
+		expect(() =>
+			decodeBinary({ $binary: 'Complex64Array' as 'Uint8Array', base64: '' }),
+		).toThrow(TypeError)
+	})
+})
@@ -0,0 +1,428 @@
+/**
+ * Codec for binary values, which JSON cannot carry
+ * @module binary
+ */
+
+import type { Deserializer, Serializer } from './transport'
+
+/**
+ * Binary values the codec carries: ArrayBuffer, typed arrays, DataView and Blob
+ */
+export type BinaryData = ArrayBuffer | ArrayBufferView | Blob
+
+/**
+ * Kind of binary value, restored on the other side
+ */
+export type BinaryKind =
+	| 'ArrayBuffer'
+	| 'DataView'
+	| 'Int8Array'
+	| 'Uint8Array'
+	| 'Uint8ClampedArray'
+	| 'Int16Array'
+	| 'Uint16Array'
+	| 'Int32Array'
+	| 'Uint32Array'
+	| 'Float32Array'
+	| 'Float64Array'
+	| 'BigInt64Array'
+	| 'BigUint64Array'
+	| 'Blob'
+
+/**
+ * Binary value encoded as base64 with a type tag. Only the codec writes a
+ * `$binary` key: payload objects with one of their own are escaped on the wire.
+ */
+export interface EncodedBinary {
+	$binary: BinaryKind
+
+	/**
+	 * Bytes of the value, base64 encoded
+	 */
+	base64: string
+
+	/**
+	 * MIME type of a Blob
+	 */
+	type?: string
+}
+
+const TYPED_ARRAY_KINDS = [
+	'Int8Array',
+	'Uint8Array',
+	'Uint8ClampedArray',
+	'Int16Array',
+	'Uint16Array',
+	'Int32Array',
+	'Uint32Array',
+	'Float32Array',
+	'Float64Array',
+	'BigInt64Array',
+	'BigUint64Array',
+] as const
+
+type TypedArrayConstructor = new (buffer: ArrayBufferLike) => ArrayBufferView
+
+/**
+ * Marks the encoded values made by `encodeBinary` and `readBlobs`, which the
+ * serializer writes as they are
+ */
+const ENCODED = Symbol('encodedBinary')
+
+/**
+ * Keys the codec escapes in payload objects: `$binary`, `$$binary` and so on.
+ * Each gains a `$` on the wire and loses it when read.
+ */
+const BINARY_KEY = /^\$+binary$/
+
+/**
+ * Keys of payload objects escaped on the wire
+ */
+const ESCAPED_BINARY_KEY = /^\$\$+binary$/
+
+/**
+ * Look up a typed array constructor, missing on engines without BigInt arrays
+ */
+function typedArrayConstructor(kind: string): TypedArrayConstructor | undefined {
+	return (
+		globalThis as unknown as Record<string, TypedArrayConstructor | undefined>
+	)[kind]
+}
+
+const BASE64_ALPHABET =
+	'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/'
+
+const BASE64_LOOKUP = new Map(
+	Array.from(BASE64_ALPHABET, (char, index) => [char, index]),
+)
+
+/**
+ * Encode bytes as base64, without relying on `btoa` or `Buffer`
+ *
+ * @param bytes - Bytes to encode
+ * @returns Base64 string
+ */
+export function toBase64(bytes: Uint8Array): string {
+	let output = ''
+	for (let i = 0; i < bytes.length; i += 3) {
+		const a = bytes[i]
+		const b = bytes[i + 1]
+		const c = bytes[i + 2]
+		output += BASE64_ALPHABET[a >> 2]
+		output += BASE64_ALPHABET[((a & 0x03) << 4) | ((b ?? 0) >> 4)]
+		output +=
+			b === undefined
+				? '='
+				: BASE64_ALPHABET[((b & 0x0f) << 2) | ((c ?? 0) >> 6)]
+		output += c === undefined ? '=' : BASE64_ALPHABET[c & 0x3f]
+	}
+	return output
+}
+
+/**
+ * Decode a base64 string, without relying on `atob` or `Buffer`
+ *
+ * @param base64 - Base64 string
+ * @returns Decoded bytes
+ */
+export function fromBase64(base64: string): Uint8Array<ArrayBuffer> {
+	const clean = base64.replace(/=+$/, '')
+	const bytes = new Uint8Array(Math.floor((clean.length * 3) / 4))
+	let bits = 0
+	let buffer = 0
+	let index = 0
+
+	for (const char of clean) {
+		const value = BASE64_LOOKUP.get(char)
+		if (value === undefined) {
+			throw new SyntaxError(`Invalid base64 character: ${char}`)
+		}
+		buffer = (buffer << 6) | value
+		bits += 6
+		if (bits >= 8) {
+			bits -= 8
+			bytes[index++] = (buffer >> bits) & 0xff
+		}
+	}
+	return bytes
+}
+
+/**
+ * Check whether a value is a Blob (including File)
+ */
+function isBlob(value: unknown): value is Blob {
+	return typeof Blob !== 'undefined' && value instanceof Blob
+}
+
+/**
+ * Check whether a value is an ArrayBuffer, a typed array or a DataView
+ */
+function isBuffer(value: unknown): value is ArrayBuffer | ArrayBufferView {
+	return value instanceof ArrayBuffer || ArrayBuffer.isView(value)
+}
+
+/**
+ * Check whether a value read from the wire is a binary value encoded by the
+ * codec
+ *
+ * @param value - Value to check
+ * @returns True if the value is an encoded binary value
+ */
+export function isEncodedBinary(value: unknown): value is EncodedBinary {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		typeof (value as EncodedBinary).$binary === 'string' &&
+		typeof (value as EncodedBinary).base64 === 'string'
+	)
+}
+
+/**
+ * Encode an ArrayBuffer, typed array or DataView with its type tag.
+ * Blobs are read asynchronously by `readBlobs` instead.
+ *
+ * @param value - Binary value
+ * @returns Encoded value
+ */
+export function encodeBinary(value: ArrayBuffer | ArrayBufferView): EncodedBinary {
+	if (value instanceof ArrayBuffer) {
+		return markEncoded({
+			$binary: 'ArrayBuffer',
+			base64: toBase64(new Uint8Array(value)),
+		})
+	}
+
+	// Subclasses such as Node's Buffer are sent as the typed array they extend
+	const kind =
+		value instanceof DataView
+			? 'DataView'
+			: (TYPED_ARRAY_KINDS.find((name) => {
+					const TypedArray = typedArrayConstructor(name)
+					return TypedArray !== undefined && value instanceof TypedArray
+				}) ?? 'Uint8Array')
+	const bytes = new Uint8Array(value.buffer, value.byteOffset, value.byteLength)
+	return markEncoded({ $binary: kind, base64: toBase64(bytes) })
+}
+
+/**
+ * Mark an encoded value as made by the codec, so it is not escaped
+ */
+function markEncoded(encoded: EncodedBinary): EncodedBinary {
+	return Object.assign(encoded, { [ENCODED]: true })
+}
+
+/**
+ * Copy of an object with the keys matching a pattern renamed
+ */
+function renameKeys(
+	value: object,
+	pattern: RegExp,
+	rename: (key: string) => string,
+): Record<string, unknown> {
+	return Object.fromEntries(
+		Object.entries(value).map(([key, entry]) => [
+			pattern.test(key) ? rename(key) : key,
+			entry,
+		]),
+	)
+}
+
+/**
+ * Check whether a value is an object with a key matching a pattern
+ */
+function hasKey(value: unknown, pattern: RegExp): value is object {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		!Array.isArray(value) &&
+		Object.keys(value).some((key) => pattern.test(key))
+	)
+}
+
+/**
+ * Restore a binary value encoded by the codec.
+ *
+ * Blobs are restored as Blob where the platform can build one from bytes. React Native
+ * cannot, so there they arrive as Uint8Array.
+ *
+ * @param encoded - Encoded value
+ * @returns Restored binary value
+ */
+export function decodeBinary(encoded: EncodedBinary): BinaryData {
+	const bytes = fromBase64(encoded.base64)
+
+	switch (encoded.$binary) {
+		case 'ArrayBuffer':
+			return bytes.buffer
+		case 'DataView':
+			return new DataView(bytes.buffer)
+		case 'Blob':
+			try {
+				// React Native typings only allow strings and Blobs as parts, matching its runtime
+				const { Blob: BlobFromParts } = globalThis as unknown as {
+					Blob: new (parts: unknown[], options?: { type?: string }) => Blob
+				}
+				return new BlobFromParts([bytes], { type: encoded.type })
+			} catch {
+				return bytes
+			}
+		default: {
+			const TypedArray = typedArrayConstructor(encoded.$binary)
+			if (!TypedArray) {
+				throw new TypeError(`Unknown binary kind: ${encoded.$binary}`)
+			}
+			return new TypedArray(bytes.buffer)
+		}
+	}
+}
+
+/**
+ * FileReader as far as reading a Blob as a data URL goes, which core's DOM-less
+ * typings lack
+ */
+interface DataUrlReader {
+	result: unknown
+	error: unknown
+	onload: (() => void) | null
+	onerror: (() => void) | null
+	readAsDataURL: (blob: Blob) => void
+}
+
+/**
+ * Read the bytes of a Blob
+ */
+async function readBlob(blob: Blob): Promise<Uint8Array> {
+	const readable = blob as Blob & { arrayBuffer?: () => Promise<ArrayBuffer> }
+	if (typeof readable.arrayBuffer === 'function') {
+		return new Uint8Array(await readable.arrayBuffer())
+	}
+
+	// React Native Blobs can only be read as data URLs
+	const dataUrl = await new Promise<string>((resolve, reject) => {
+		const { FileReader } = globalThis as unknown as {
+			FileReader: new () => DataUrlReader
+		}
+		const reader = new FileReader()
+		reader.onload = () => resolve(reader.result as string)
+		reader.onerror = () => reject(reader.error)
+		reader.readAsDataURL(blob)
+	})
+	return fromBase64(dataUrl.slice(dataUrl.indexOf(',') + 1))
+}
+
+/**
+ * Check whether a value is an object literal or created without a prototype
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	if (typeof value !== 'object' || value === null) {
+		return false
+	}
+	const prototype = Object.getPrototypeOf(value)
+	return prototype === Object.prototype || prototype === null
+}
+
+/**
+ * Check whether a payload contains a Blob in a nested array or plain object
+ *
+ * @param value - Payload
+ * @returns True if a Blob was found
+ */
+export function containsBlob(value: unknown): boolean {
+	if (isBlob(value)) {
+		return true
+	}
+	if (Array.isArray(value)) {
+		return value.some(containsBlob)
+	}
+	if (isPlainObject(value)) {
+		return Object.values(value).some(containsBlob)
+	}
+	return false
+}
+
+/**
+ * Replace the Blobs of a payload with their encoded bytes, as serializers run
+ * synchronously and cannot wait for a Blob to be read. Arrays and plain objects
+ * holding a Blob are copied; the payload itself is left untouched.
+ *
+ * @param value - Payload
+ * @returns Payload ready for `binarySerializer`
+ *
+ * @example
+ * ```typescript
+ * const data = await readBlobs({ name: 'scan.pdf', file })
+ * // { name: 'scan.pdf', file: { $binary: 'Blob', type: 'application/pdf', base64: '...' } }
+ * ```
+ */
+export async function readBlobs(value: unknown): Promise<unknown> {
+	if (!containsBlob(value)) {
+		return value
+	}
+	if (isBlob(value)) {
+		const encoded = markEncoded({
+			$binary: 'Blob',
+			base64: toBase64(await readBlob(value)),
+		})
+		if (value.type) {
+			encoded.type = value.type
+		}
+		return encoded
+	}
+	if (Array.isArray(value)) {
+		return Promise.all(value.map(readBlobs))
+	}
+
+	const entries = await Promise.all(
+		Object.entries(value as Record<string, unknown>).map(
+			async ([key, entry]) => [key, await readBlobs(entry)] as const,
+		),
+	)
+	return Object.fromEntries(entries)
+}
+
+/**
+ * Serializer encoding ArrayBuffers, typed arrays and DataViews anywhere in a
+ * message as base64 with type tags, on top of JSON. Keys of payload objects
+ * that would pass for a tag are escaped.
+ *
+ * @example
+ * ```typescript
+ * binarySerializer({ pdf: new Uint8Array([37, 80, 68, 70]) })
+ * // '{"pdf":{"$binary":"Uint8Array","base64":"JVBERg=="}}'
+ * ```
+ */
+export const binarySerializer: Serializer = (data: unknown): string =>
+	JSON.stringify(
+		data,
+		function (this: Record<string, unknown>, key: string, value: unknown) {
+			// The holder keeps the value toJSON replaced, such as Node's Buffer
+			const raw = this[key]
+			if (isBuffer(raw)) {
+				return encodeBinary(raw)
+			}
+			if (hasKey(value, BINARY_KEY) && !(ENCODED in value)) {
+				return renameKeys(value, BINARY_KEY, (name) => `$${name}`)
+			}
+			return value
+		},
+	)
+
+/**
+ * Deserializer restoring the binary values encoded by `binarySerializer`
+ *
+ * @example
+ * ```typescript
+ * binaryDeserializer('{"pdf":{"$binary":"Uint8Array","base64":"JVBERg=="}}')
+ * // { pdf: Uint8Array [37, 80, 68, 70] }
+ * ```
+ */
+export const binaryDeserializer: Deserializer = (data: string): unknown =>
+	JSON.parse(data, (_key, value: unknown) => {
+		if (isEncodedBinary(value)) {
+			return decodeBinary(value)
+		}
+		if (hasKey(value, ESCAPED_BINARY_KEY)) {
+			return renameKeys(value, ESCAPED_BINARY_KEY, (name) => name.slice(1))
+		}
+		return value
+	})
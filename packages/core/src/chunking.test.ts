@@ -0,0 +1,142 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+	createReassembler,
+	isChunkFrame,
+	splitMessage,
+} from './chunking'
+
+const serialized = JSON.stringify({
+	id: 'req-1',
+	type: 'request',
+	procedure: 'upload',
+	data: { image: 'a'.repeat(100) },
+})
+
+describe('splitMessage', () => {
+	it('should split a message into sequenced frames of the chunk size', () => {
+		// WHEN: Splitting into 40 character frames
+		const frames = splitMessage(serialized, 'req-1', 40)
+
+		// THEN: Frames share the transfer, length and checksum, and rebuild the message
+		expect(frames).toHaveLength(Math.ceil(serialized.length / 40))
+		expect(frames.every(isChunkFrame)).toBe(true)
+		expect(new Set(frames.map((frame) => frame.id)).size).toBe(1)
+		expect(frames.map((frame) => frame.index)).toEqual(
+			frames.map((_, index) => index),
+		)
+		expect(frames[0]).toMatchObject({
+			messageId: 'req-1',
+			count: frames.length,
+			length: serialized.length,
+			checksum: expect.stringMatching(/^[0-9a-f]{8}$/),
+		})
+		expect(frames.map((frame) => frame.data).join('')).toBe(serialized)
+	})
+})
+
+describe('createReassembler', () => {
+	beforeEach(() => {
+		vi.useFakeTimers()
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it('should rebuild a message from frames received in any order', () => {
+		// GIVEN: Frames delivered in reverse, the first one twice
+		const frames = splitMessage(serialized, 'req-1', 40)
+		const reversed = [...frames].reverse()
+		const onProgress = vi.fn()
+		const reassembler = createReassembler({ onProgress })
+
+		// WHEN: Receiving them
+		const results = [reversed[0], ...reversed].map((frame) =>
+			reassembler.receive(frame),
+		)
+
+		// THEN: Message returned once, after the last missing frame
+		expect(results.filter((result) => result !== undefined)).toEqual([
+			serialized,
+		])
+		expect(onProgress).toHaveBeenCalledTimes(frames.length)
+		expect(onProgress).toHaveBeenLastCalledWith({
+			id: 'req-1',
+			direction: 'inbound',
+			loaded: serialized.length,
+			total: serialized.length,
+		})
+	})
+
+	it('should throw CHUNK_INTEGRITY when the rebuilt message does not match its checksum', () => {
+		// GIVEN: A frame altered in transit
+		const frames = splitMessage(serialized, 'req-1', 40)
+		frames[1] = { ...frames[1], data: frames[1].data.replace('a', 'b') }
+		const reassembler = createReassembler()
+
+		// WHEN: Receiving every frame
+		const receiveAll = () => {
+			for (const frame of frames) {
+				reassembler.receive(frame)
+			}
+		}
+
+		// THEN: Integrity error
+		expect(receiveAll).toThrow(
+			expect.objectContaining({ code: 'CHUNK_INTEGRITY' }),
+		)
+	})
+
+	it('should throw CHUNK_INTEGRITY for frames disagreeing with their transfer', () => {
+		// GIVEN: Second frame claiming a different frame count
+		const frames = splitMessage(serialized, 'req-1', 40)
+		const reassembler = createReassembler()
+		reassembler.receive(frames[0])
+
+		// WHEN / THEN: Integrity error
+		expect(() => reassembler.receive({ ...frames[1], count: 99 })).toThrow(
+			expect.objectContaining({ code: 'CHUNK_INTEGRITY' }),
+		)
+	})
+
+	it('should throw CHUNK_INTEGRITY for malformed frames', () => {
+		// GIVEN: Frames with counts and positions no transfer can have
+		const [frame] = splitMessage(serialized, 'req-1', 40)
+		const malformed = [
+			{ ...frame, count: 2 ** 40 },
+			{ ...frame, count: -1 },
+			{ ...frame, count: 1.5 },
+			{ ...frame, count: 100, length: 10 },
+			{ ...frame, length: Number.NaN },
+			{ ...frame, index: frame.count },
+			{ ...frame, index: -1 },
+			{ ...frame, data: 42 as unknown as string },
+		]
+		const reassembler = createReassembler()
+
+		// WHEN / THEN: Each is refused
+		for (const bad of malformed) {
+			expect(() => reassembler.receive(bad)).toThrow(
+				expect.objectContaining({ code: 'CHUNK_INTEGRITY' }),
+			)
+		}
+	})
+
+	it('should discard incomplete messages after the timeout with CHUNK_TIMEOUT', () => {
+		// GIVEN: Reassembler with a 1s timeout and one frame of three received
+		const frames = splitMessage(serialized, 'req-1', 60)
+		const onError = vi.fn()
+		const reassembler = createReassembler({ timeout: 1000, onError })
+		reassembler.receive(frames[0])
+
+		// WHEN: The remaining frames arrive too late
+		vi.advanceTimersByTime(1000)
+		const late = frames.slice(1).map((frame) => reassembler.receive(frame))
+
+		// THEN: Timeout reported, late frames never complete the message
+		expect(onError).toHaveBeenCalledWith(
+			expect.objectContaining({ code: 'CHUNK_TIMEOUT' }),
+		)
+		expect(late.every((result) => result === undefined)).toBe(true)
+	})
+})
@@ -0,0 +1,362 @@
+/**
+ * Chunked transfer of serialized messages too large for one bridge crossing
+ * @module chunking
+ */
+
+import { WebViewRPCError } from './errors'
+import { hashString } from './fingerprint'
+import { generateCorrelationId } from './message'
+import type { MessageDirection } from './middleware'
+
+/**
+ * Serialized length above which messages are split when chunking is enabled
+ */
+export const DEFAULT_CHUNK_THRESHOLD: number = 64 * 1024
+
+/**
+ * Most frames a received transfer may announce, bounding what a malformed
+ * frame can make the reassembler allocate
+ */
+const MAX_FRAMES = 65536
+
+/**
+ * Options for splitting large messages into chunk frames
+ */
+export interface ChunkingOptions {
+	/**
+	 * Serialized length in characters above which a message is split
+	 * (default: 65536)
+	 */
+	threshold?: number
+
+	/**
+	 * Characters of the serialized message carried by each frame
+	 * (default: the threshold)
+	 */
+	chunkSize?: number
+
+	/**
+	 * Milliseconds to wait for the missing frames of a message before
+	 * discarding it (default: 30000)
+	 */
+	reassemblyTimeout?: number
+}
+
+/**
+ * Slice of a serialized message, sent in place of the message itself
+ */
+export interface ChunkFrame {
+	type: 'chunk'
+
+	/**
+	 * Transfer the frame belongs to
+	 */
+	id: string
+
+	/**
+	 * ID of the message being transferred
+	 */
+	messageId: string
+
+	/**
+	 * Position of the frame in the transfer, from 0
+	 */
+	index: number
+
+	/**
+	 * Number of frames in the transfer
+	 */
+	count: number
+
+	/**
+	 * Length of the complete serialized message
+	 */
+	length: number
+
+	/**
+	 * FNV-1a hash of the complete serialized message
+	 */
+	checksum: string
+
+	/**
+	 * Slice of the serialized message
+	 */
+	data: string
+
+	/**
+	 * Channel tag added by the bridge transports
+	 */
+	channel?: string
+}
+
+/**
+ * Progress of a message sent or received in chunks
+ */
+export interface TransferProgress {
+	/**
+	 * ID of the message being transferred, shared by a request and its response
+	 */
+	id: string
+
+	/**
+	 * Whether the message is being sent or received
+	 */
+	direction: MessageDirection
+
+	/**
+	 * Characters of the serialized message transferred so far
+	 */
+	loaded: number
+
+	/**
+	 * Length of the serialized message
+	 */
+	total: number
+}
+
+/**
+ * Check whether deserialized data is a chunk frame
+ *
+ * @param data - Deserialized data
+ * @returns True if the data is a chunk frame
+ */
+export function isChunkFrame(data: unknown): data is ChunkFrame {
+	return (
+		typeof data === 'object' &&
+		data !== null &&
+		(data as { type?: unknown }).type === 'chunk'
+	)
+}
+
+/**
+ * Split a serialized message into sequenced frames carrying its length and
+ * checksum
+ *
+ * @param serialized - Serialized message
+ * @param messageId - ID of the message, reported with its progress
+ * @param chunkSize - Characters per frame
+ * @returns Frames in order
+ *
+ * @example
+ * ```typescript
+ * for (const frame of splitMessage(serialized, message.id, 65536)) {
+ *   bridge.postMessage(JSON.stringify(frame))
+ * }
+ * ```
+ */
+export function splitMessage(
+	serialized: string,
+	messageId: string,
+	chunkSize: number,
+): ChunkFrame[] {
+	const id = generateCorrelationId()
+	const count = Math.max(1, Math.ceil(serialized.length / chunkSize))
+	const checksum = hashString(serialized)
+	const frames: ChunkFrame[] = []
+
+	for (let index = 0; index < count; index++) {
+		frames.push({
+			type: 'chunk',
+			id,
+			messageId,
+			index,
+			count,
+			length: serialized.length,
+			checksum,
+			data: serialized.slice(index * chunkSize, (index + 1) * chunkSize),
+		})
+	}
+	return frames
+}
+
+/**
+ * Options for reassembling chunked messages
+ */
+export interface ReassemblerOptions {
+	/**
+	 * Milliseconds to wait for the missing frames of a message (default: 30000)
+	 */
+	timeout?: number
+
+	/**
+	 * Called as each frame arrives
+	 */
+	onProgress?: (progress: TransferProgress) => void
+
+	/**
+	 * Called when a message is discarded because its frames stopped arriving
+	 */
+	onError?: (error: WebViewRPCError) => void
+}
+
+/**
+ * Collector of chunk frames, rebuilding the messages they were split from
+ */
+export interface Reassembler {
+	/**
+	 * Store a frame. Frames may arrive in any order; duplicates are ignored.
+	 * Throws a CHUNK_INTEGRITY error if the frame is malformed, the frames of a
+	 * message disagree or the rebuilt message does not match its length and
+	 * checksum.
+	 *
+	 * @returns The serialized message once its last frame arrived
+	 */
+	receive: (frame: ChunkFrame) => string | undefined
+
+	/**
+	 * Discard incomplete messages
+	 */
+	clear: () => void
+}
+
+/**
+ * Frames received so far for one message
+ */
+interface Transfer {
+	first: ChunkFrame
+	parts: Array<string | undefined>
+	received: number
+	loaded: number
+	timeoutId: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Check whether a value read from the wire is a non-negative safe integer
+ */
+function isCount(value: unknown): value is number {
+	return Number.isSafeInteger(value) && (value as number) >= 0
+}
+
+/**
+ * Why a received frame cannot belong to any transfer, checked before its
+ * numbers are used to allocate or index anything
+ *
+ * @returns The reason, or undefined for a well-formed frame
+ */
+function findMalformation(frame: ChunkFrame): string | undefined {
+	const { index, count, length } = frame
+	if (!isCount(count) || count < 1 || count > MAX_FRAMES) {
+		return `frame count ${count} is not between 1 and ${MAX_FRAMES}`
+	}
+	if (!isCount(length) || count > Math.max(1, length)) {
+		return `length ${length} does not fit ${count} frames`
+	}
+	if (!isCount(index) || index >= count) {
+		return `frame index ${index} is not below ${count}`
+	}
+	if (typeof frame.data !== 'string') {
+		return `frame ${index} carries no text`
+	}
+	return undefined
+}
+
+/**
+ * Creates a reassembler for chunk frames sent by `splitMessage`
+ *
+ * @param options - Timeout and progress reporting
+ * @returns Reassembler instance
+ *
+ * @example
+ * ```typescript
+ * const reassembler = createReassembler({ onError: console.warn })
+ *
+ * const serialized = reassembler.receive(frame)
+ * if (serialized !== undefined) {
+ *   deliver(JSON.parse(serialized))
+ * }
+ * ```
+ */
+export function createReassembler(
+	options: ReassemblerOptions = {},
+): Reassembler {
+	const timeout = options.timeout ?? 30000
+	const transfers = new Map<string, Transfer>()
+
+	const discard = (id: string): void => {
+		const transfer = transfers.get(id)
+		if (transfer) {
+			clearTimeout(transfer.timeoutId)
+			transfers.delete(id)
+		}
+	}
+
+	const integrityError = (frame: ChunkFrame, reason: string): WebViewRPCError =>
+		new WebViewRPCError(
+			`Chunked message ${frame.messageId} is corrupt: ${reason}`,
+			'CHUNK_INTEGRITY',
+		)
+
+	const start = (frame: ChunkFrame): Transfer => {
+		const transfer: Transfer = {
+			first: frame,
+			parts: new Array(frame.count).fill(undefined),
+			received: 0,
+			loaded: 0,
+			timeoutId: setTimeout(() => {
+				transfers.delete(frame.id)
+				options.onError?.(
+					new WebViewRPCError(
+						`Chunked message ${frame.messageId} incomplete after ${timeout}ms (${transfer.received} of ${frame.count} frames)`,
+						'CHUNK_TIMEOUT',
+					),
+				)
+			}, timeout),
+		}
+		transfers.set(frame.id, transfer)
+		return transfer
+	}
+
+	const receive = (frame: ChunkFrame): string | undefined => {
+		const malformation = findMalformation(frame)
+		if (malformation) {
+			discard(frame.id)
+			throw integrityError(frame, malformation)
+		}
+
+		const transfer = transfers.get(frame.id) ?? start(frame)
+		const { first } = transfer
+
+		if (
+			frame.count !== first.count ||
+			frame.length !== first.length ||
+			frame.checksum !== first.checksum
+		) {
+			discard(frame.id)
+			throw integrityError(frame, `frame ${frame.index} does not match`)
+		}
+		if (transfer.parts[frame.index] !== undefined) {
+			return undefined
+		}
+
+		transfer.parts[frame.index] = frame.data
+		transfer.received++
+		transfer.loaded += frame.data.length
+		options.onProgress?.({
+			id: frame.messageId,
+			direction: 'inbound',
+			loaded: transfer.loaded,
+			total: first.length,
+		})
+		if (transfer.received < first.count) {
+			return undefined
+		}
+
+		discard(frame.id)
+		const serialized = transfer.parts.join('')
+		if (
+			serialized.length !== first.length ||
+			hashString(serialized) !== first.checksum
+		) {
+			throw integrityError(frame, 'checksum mismatch')
+		}
+		return serialized
+	}
+
+	const clear = (): void => {
+		for (const id of Array.from(transfers.keys())) {
+			discard(id)
+		}
+	}
+
+	return { receive, clear }
+}
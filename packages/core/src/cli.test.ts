@@ -0,0 +1,116 @@
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import { runCli } from './cli'
+
+// Contract module as built JavaScript, as procedure() leaves procedures
+const CONTRACT_MODULE = `
+const schema = (jsonSchema) => ({
+	'~standard': {
+		version: 1,
+		vendor: 'test',
+		validate: (value) => ({ value }),
+		jsonSchema: { input: () => jsonSchema, output: () => jsonSchema },
+	},
+})
+
+const share = schema({ type: 'object' })
+share.returns = () => share
+share._returnSchema = schema({ type: 'boolean' })
+
+export const contract = {
+	web: { pathChanged: schema({ type: 'string' }) },
+	native: { share },
+}
+
+export default { native: { other: schema({}) } }
+`
+
+function createOutput() {
+	const output = { stdout: '', stderr: '' }
+	return {
+		output,
+		io: {
+			stdout: (text: string) => {
+				output.stdout += text
+			},
+			stderr: (text: string) => {
+				output.stderr += text
+			},
+		},
+	}
+}
+
+describe('runCli', () => {
+	let directory: string
+	let modulePath: string
+
+	beforeAll(async () => {
+		directory = await mkdtemp(join(tmpdir(), 'webview-rpc-docs-'))
+		modulePath = join(directory, 'contract.mjs')
+		await writeFile(modulePath, CONTRACT_MODULE)
+	})
+
+	afterAll(async () => {
+		await rm(directory, { recursive: true, force: true })
+	})
+
+	it('should print Markdown for the contract export', async () => {
+		// GIVEN: Captured output
+		const { output, io } = createOutput()
+
+		// WHEN: Running on the module
+		const code = await runCli([modulePath, '--title', 'Bridge'], io)
+
+		// THEN: Markdown reference of the contract export
+		expect(code).toBe(0)
+		expect(output.stdout).toMatch(/^# Bridge\n/)
+		expect(output.stdout).toContain(
+			'| `native.share` | procedure | web → native |',
+		)
+		expect(output.stdout).toContain(
+			'| `web.pathChanged` | event | web → native |',
+		)
+	})
+
+	it('should pick the format from the output file', async () => {
+		// WHEN: Writing to an HTML file
+		const out = join(directory, 'bridge.html')
+		const code = await runCli([modulePath, '--out', out], createOutput().io)
+
+		// THEN: HTML written
+		expect(code).toBe(0)
+		expect(await readFile(out, 'utf8')).toMatch(/^<!DOCTYPE html>/)
+	})
+
+	it('should read another export as JSON', async () => {
+		// GIVEN: Captured output
+		const { output, io } = createOutput()
+
+		// WHEN: Documenting the default export as JSON
+		await runCli([modulePath, '-e', 'default', '-f', 'json'], io)
+
+		// THEN: Serialized documentation of that export
+		expect(JSON.parse(output.stdout).procedures).toEqual([])
+		expect(JSON.parse(output.stdout).events).toEqual([
+			expect.objectContaining({ side: 'native', name: 'other' }),
+		])
+	})
+
+	it('should fail with usage on bad arguments', async () => {
+		// GIVEN: Captured output
+		const { output, io } = createOutput()
+
+		// THEN: Missing module, unknown format and missing export fail
+		expect(await runCli([], io)).toBe(1)
+		expect(await runCli([modulePath, '--format', 'pdf'], io)).toBe(1)
+		expect(await runCli([modulePath, '--export', 'missing'], io)).toBe(1)
+		expect(await runCli([join(directory, 'missing.mjs')], io)).toBe(1)
+		expect(output.stderr).toContain('Usage: webview-rpc-docs')
+		expect(output.stderr).toContain('Unknown format: pdf')
+		expect(output.stderr).toContain('No contract exported as missing')
+		expect(output.stderr).toContain('Cannot import')
+		expect(output.stdout).toBe('')
+	})
+})
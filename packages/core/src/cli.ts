@@ -0,0 +1,176 @@
+/**
+ * Command line interface writing the reference documentation of a contract
+ * @module cli
+ */
+
+import { writeFile } from 'node:fs/promises'
+import { extname, resolve } from 'node:path'
+import { pathToFileURL } from 'node:url'
+import { parseArgs } from 'node:util'
+import {
+	type ContractDocsOptions,
+	generateContractDocs,
+	renderHtml,
+	renderMarkdown,
+} from './docs'
+import type { Contract } from './types'
+
+/**
+ * Output format of the documentation
+ */
+export type DocsFormat = 'markdown' | 'html' | 'json'
+
+/**
+ * Where the command line interface writes its output
+ */
+export interface CliOutput {
+	stdout: (text: string) => void
+	stderr: (text: string) => void
+}
+
+const USAGE = `Usage: webview-rpc-docs <contract-module> [options]
+
+Writes a reference of every procedure and event of a contract.
+
+Options:
+  -e, --export <name>    Export holding the contract (default: contract, then default)
+  -f, --format <format>  markdown, html or json (default: from --out, else markdown)
+  -o, --out <file>       Write to a file instead of stdout
+  -t, --title <title>    Heading of the reference
+  -h, --help             Show this help
+
+The module is imported as is: point at built JavaScript, or run through a
+TypeScript loader such as tsx. A function exported as \`toJSONSchema\` converts
+schemas whose library has no built-in JSON Schema support.
+`
+
+const FORMATS: DocsFormat[] = ['markdown', 'html', 'json']
+
+/**
+ * Format implied by the extension of an output file
+ */
+function formatOf(file: string | undefined): DocsFormat {
+	switch (file && extname(file).toLowerCase()) {
+		case '.html':
+		case '.htm':
+			return 'html'
+		case '.json':
+			return 'json'
+		default:
+			return 'markdown'
+	}
+}
+
+/**
+ * Parse the command line arguments
+ */
+function parse(args: string[]) {
+	return parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			export: { type: 'string', short: 'e' },
+			format: { type: 'string', short: 'f' },
+			out: { type: 'string', short: 'o' },
+			title: { type: 'string', short: 't' },
+			help: { type: 'boolean', short: 'h' },
+		},
+	})
+}
+
+/**
+ * Check whether a module export looks like a contract
+ */
+function isContract(value: unknown): value is Contract {
+	return (
+		typeof value === 'object' &&
+		value !== null &&
+		('web' in value || 'native' in value)
+	)
+}
+
+/**
+ * Runs the documentation command line interface.
+ *
+ * @param args - Arguments after the executable
+ * @param output - Where to write the documentation and errors (default: the
+ * process streams)
+ * @returns Exit code
+ *
+ * @example
+ * ```sh
+ * npx webview-rpc-docs ./dist/contract.js --out bridge.html --title "Bridge API"
+ * ```
+ */
+export async function runCli(
+	args: string[],
+	output: CliOutput = {
+		stdout: (text) => process.stdout.write(text),
+		stderr: (text) => process.stderr.write(text),
+	},
+): Promise<number> {
+	let parsed: ReturnType<typeof parse>
+	try {
+		parsed = parse(args)
+	} catch (error) {
+		output.stderr(`${(error as Error).message}\n\n${USAGE}`)
+		return 1
+	}
+
+	const { values, positionals } = parsed
+	if (values.help) {
+		output.stdout(USAGE)
+		return 0
+	}
+	if (positionals.length !== 1) {
+		output.stderr(USAGE)
+		return 1
+	}
+
+	const format = (values.format ?? formatOf(values.out)) as DocsFormat
+	if (!FORMATS.includes(format)) {
+		output.stderr(`Unknown format: ${format}\n`)
+		return 1
+	}
+
+	const path = resolve(positionals[0])
+	let module: Record<string, unknown>
+	try {
+		module = await import(pathToFileURL(path).href)
+	} catch (error) {
+		output.stderr(`Cannot import ${path}: ${(error as Error).message}\n`)
+		return 1
+	}
+
+	const exportName =
+		values.export ?? ('contract' in module ? 'contract' : 'default')
+	const contract = module[exportName]
+	if (!isContract(contract)) {
+		output.stderr(`No contract exported as ${exportName} by ${path}\n`)
+		return 1
+	}
+
+	const options: ContractDocsOptions = {}
+	if (values.title) {
+		options.title = values.title
+	}
+	if (typeof module.toJSONSchema === 'function') {
+		options.toJSONSchema =
+			module.toJSONSchema as ContractDocsOptions['toJSONSchema']
+	}
+
+	const docs = generateContractDocs(contract, options)
+	const rendered =
+		format === 'html'
+			? renderHtml(docs)
+			: format === 'json'
+				? `${JSON.stringify(docs, null, 2)}\n`
+				: renderMarkdown(docs)
+
+	if (values.out) {
+		await writeFile(values.out, rendered)
+	} else {
+		output.stdout(rendered)
+	}
+	return 0
+}
@@ -0,0 +1,327 @@
+import { describe, expect, it } from 'vitest'
+import type { StandardSchemaV1 } from '@standard-schema/spec'
+import { z } from 'zod'
+import { compareContracts } from './compatibility'
+import { type DescribeOptions, describeContract } from './fingerprint'
+import { procedure } from './procedure'
+import { stream } from './stream'
+
+const options: DescribeOptions = {
+	toJSONSchema: (schema, io) => z.toJSONSchema(schema as z.ZodType, { io }),
+}
+
+// Schema without JSON Schema
+const createMockSchema = (vendor = 'test'): StandardSchemaV1 => ({
+	'~standard': {
+		version: 1,
+		vendor,
+		validate: (value: unknown) => ({ value }),
+	},
+})
+
+const share = procedure(
+	z.object({ url: z.string(), title: z.string().optional() }),
+).returns(z.object({ success: z.boolean() }))
+
+const base = {
+	web: { pathChanged: z.object({ path: z.string() }) },
+	native: { share },
+}
+
+describe('compareContracts', () => {
+	it('should report no changes for the same contract', () => {
+		expect(compareContracts(base, base, options)).toEqual({
+			compatible: true,
+			changes: [],
+		})
+	})
+
+	it('should treat added names as compatible and removed names as breaking', () => {
+		// GIVEN: Next version adding scan and dropping pathChanged
+		const next = {
+			web: {},
+			native: {
+				share,
+				scan: procedure(z.object({})).returns(z.string()),
+			},
+		}
+
+		// WHEN: Comparing
+		const { compatible, changes } = compareContracts(base, next, options)
+
+		// THEN: Removal breaks, addition does not
+		expect(compatible).toBe(false)
+		expect(changes).toEqual([
+			expect.objectContaining({
+				side: 'web',
+				name: 'pathChanged',
+				type: 'removed',
+				breaking: true,
+			}),
+			expect.objectContaining({
+				side: 'native',
+				name: 'scan',
+				type: 'added',
+				breaking: false,
+			}),
+		])
+	})
+
+	it('should treat kind changes as breaking', () => {
+		// GIVEN: share turned into a stream
+		const next = {
+			...base,
+			native: {
+				share: stream(z.object({ url: z.string() })).yields(z.string()),
+			},
+		}
+
+		// THEN: Breaking kind change only
+		expect(compareContracts(base, next, options).changes).toEqual([
+			{
+				side: 'native',
+				name: 'share',
+				type: 'kind',
+				breaking: true,
+				message: 'native.share changed from procedure to stream',
+			},
+		])
+	})
+
+	it('should classify input changes by what callers already send', () => {
+		// GIVEN: New optional and required properties, and a property made required
+		const next = {
+			...base,
+			native: {
+				share: procedure(
+					z.object({
+						url: z.string(),
+						title: z.string(),
+						tags: z.array(z.string()).optional(),
+						dialog: z.boolean(),
+					}),
+				).returns(z.object({ success: z.boolean() })),
+			},
+		}
+
+		// WHEN: Comparing
+		const { changes } = compareContracts(base, next, options)
+
+		// THEN: Only what older callers do not send breaks
+		expect(
+			changes.map(({ path, breaking, message }) => ({
+				path,
+				breaking,
+				message,
+			})),
+		).toEqual([
+			{
+				path: 'dialog',
+				breaking: true,
+				message: 'native.share input dialog: required property added',
+			},
+			{
+				path: 'tags',
+				breaking: false,
+				message: 'native.share input tags: optional property added',
+			},
+			{
+				path: 'title',
+				breaking: true,
+				message: 'native.share input title: became required',
+			},
+		])
+	})
+
+	it('should classify output changes by what callers already handle', () => {
+		// GIVEN: Return value gaining a property and an optional one
+		const next = {
+			...base,
+			native: {
+				share: procedure(
+					z.object({ url: z.string(), title: z.string().optional() }),
+				).returns(
+					z.object({
+						success: z.boolean().optional(),
+						activity: z.string(),
+					}),
+				),
+			},
+		}
+
+		// WHEN: Comparing
+		const { compatible, changes } = compareContracts(base, next, options)
+
+		// THEN: Added output is fine, a value that may be missing is not
+		expect(compatible).toBe(false)
+		expect(changes).toEqual([
+			expect.objectContaining({
+				type: 'output',
+				path: 'activity',
+				breaking: false,
+			}),
+			expect.objectContaining({
+				type: 'output',
+				path: 'success',
+				breaking: true,
+				message: 'native.share output success: became optional',
+			}),
+		])
+	})
+
+	it('should treat widened enums as breaking only for outputs and events', () => {
+		// GIVEN: Enum gaining a value as input, output and event data
+		const before = {
+			web: { stateChanged: z.object({ state: z.enum(['on', 'off']) }) },
+			native: {
+				toggle: procedure(z.enum(['on', 'off'])).returns(
+					z.enum(['on', 'off']),
+				),
+			},
+		}
+		const after = {
+			web: {
+				stateChanged: z.object({ state: z.enum(['on', 'off', 'idle']) }),
+			},
+			native: {
+				toggle: procedure(z.enum(['on', 'off', 'idle'])).returns(
+					z.enum(['on', 'off', 'idle']),
+				),
+			},
+		}
+
+		// WHEN: Comparing
+		const { changes } = compareContracts(before, after, options)
+
+		// THEN: New event and return values break, new input values do not
+		expect(
+			changes.map(({ side, name, type, breaking }) => ({
+				side,
+				name,
+				type,
+				breaking,
+			})),
+		).toEqual([
+			{ side: 'web', name: 'stateChanged', type: 'input', breaking: true },
+			{ side: 'native', name: 'toggle', type: 'input', breaking: false },
+			{ side: 'native', name: 'toggle', type: 'output', breaking: true },
+		])
+	})
+
+	it('should compare items of arrays', () => {
+		// GIVEN: Array items losing a value
+		const before = {
+			native: {
+				tag: procedure(
+					z.object({ tags: z.array(z.enum(['new', 'sale'])) }),
+				),
+			},
+		}
+		const after = {
+			native: {
+				tag: procedure(z.object({ tags: z.array(z.enum(['new'])) })),
+			},
+		}
+
+		// THEN: Breaking change inside the items
+		expect(compareContracts(before, after, options).changes).toEqual([
+			expect.objectContaining({
+				path: 'tags[]',
+				breaking: true,
+				message: 'native.tag input tags[]: no longer allows value "sale"',
+			}),
+		])
+	})
+
+	it('should treat declared errors as compatible unless their data changes', () => {
+		// GIVEN: Error added, and data of an existing error widened
+		const before = {
+			native: {
+				pay: procedure(z.object({ amount: z.number() }))
+					.returns(z.object({ id: z.string() }))
+					.errors({ DECLINED: z.object({ reason: z.string() }) }),
+			},
+		}
+		const after = {
+			native: {
+				pay: procedure(z.object({ amount: z.number() }))
+					.returns(z.object({ id: z.string() }))
+					.errors({
+						DECLINED: z.object({ reason: z.string().optional() }),
+						LIMIT: z.object({ limit: z.number() }),
+					}),
+			},
+		}
+
+		// WHEN: Comparing
+		const { changes } = compareContracts(before, after, options)
+
+		// THEN: Widened data breaks, the new code does not
+		expect(changes).toEqual([
+			expect.objectContaining({
+				type: 'errors',
+				path: 'reason',
+				breaking: true,
+			}),
+			expect.objectContaining({
+				type: 'errors',
+				breaking: false,
+				message: 'native.pay error LIMIT declared',
+			}),
+		])
+	})
+
+	it('should ignore annotations and flag other keywords', () => {
+		// GIVEN: Description added and minimum changed
+		const before = {
+			native: { rate: procedure(z.object({ stars: z.number().min(1) })) },
+		}
+		const after = {
+			native: {
+				rate: procedure(
+					z.object({ stars: z.number().min(0).describe('Star count') }),
+				),
+			},
+		}
+
+		// THEN: Only the constraint reported, as breaking
+		expect(compareContracts(before, after, options).changes).toEqual([
+			expect.objectContaining({
+				path: 'stars',
+				breaking: true,
+				message: 'native.rate input stars: minimum changed',
+			}),
+		])
+	})
+
+	it('should compare schemas without JSON Schema by vendor', () => {
+		// GIVEN: Same vendor, then another vendor
+		const before = { web: { ping: createMockSchema() } }
+		const same = { web: { ping: createMockSchema() } }
+		const other = { web: { ping: createMockSchema('other') } }
+
+		// THEN: Same vendor unchanged, another vendor breaking
+		expect(compareContracts(before, same).changes).toEqual([])
+		expect(compareContracts(before, other).changes).toEqual([
+			expect.objectContaining({
+				breaking: true,
+				message: 'web.ping data: schema cannot be compared',
+			}),
+		])
+	})
+
+	it('should accept stored descriptions', () => {
+		// GIVEN: Description of the released contract, stored as JSON
+		const released = JSON.parse(
+			JSON.stringify(describeContract(base, options)),
+		)
+
+		// WHEN: Comparing the current contract against it
+		const next = { ...base, native: { ...base.native, scan: share } }
+
+		// THEN: Same result as comparing contracts
+		expect(compareContracts(released, next, options)).toEqual(
+			compareContracts(base, next, options),
+		)
+	})
+})
@@ -0,0 +1,539 @@
+/**
+ * Compatibility checking between two versions of a contract
+ * @module compatibility
+ */
+
+import {
+	type ContractDescription,
+	type DefinitionDescription,
+	type DescribeOptions,
+	type JSONSchema,
+	type SchemaDescription,
+	describeContract,
+	stableStringify,
+} from './fingerprint'
+import type { PeerSide } from './peer'
+import type { Contract } from './types'
+
+/**
+ * Part of a definition a change affects
+ * - `added` / `removed` the name itself
+ * - `kind` turned into a different kind, e.g. an event into a procedure
+ * - `input` the input of a procedure, stream or subscription, or the data of an event
+ * - `output` the return value, chunks or emitted data
+ * - `errors` the data of a declared error
+ */
+export type ContractChangeType =
+	| 'added'
+	| 'removed'
+	| 'kind'
+	| 'input'
+	| 'output'
+	| 'errors'
+
+/**
+ * Difference between two versions of a contract
+ */
+export interface ContractChange {
+	side: PeerSide
+	name: string
+	type: ContractChangeType
+
+	/**
+	 * Location of the change inside the schema, e.g. `items[].price`
+	 */
+	path?: string
+
+	/**
+	 * Whether code built against the first contract could fail against a peer
+	 * built from the second
+	 */
+	breaking: boolean
+
+	/**
+	 * Human readable description
+	 */
+	message: string
+}
+
+/**
+ * Result of comparing two versions of a contract
+ */
+export interface ContractComparison {
+	/**
+	 * True when no change is breaking
+	 */
+	compatible: boolean
+
+	/**
+	 * Every difference found, breaking or not
+	 */
+	changes: ContractChange[]
+}
+
+/**
+ * Which values a schema may change to without breaking
+ * - `input` data received: the new schema must accept everything the old one did
+ * - `output` data sent: the new schema must only produce what the old one did
+ */
+type Variance = 'input' | 'output'
+
+/**
+ * Difference inside a schema
+ */
+interface SchemaChange {
+	path: string
+	breaking: boolean
+	message: string
+}
+
+// Keywords that document a schema without restricting its values
+const ANNOTATIONS = new Set([
+	'title',
+	'description',
+	'examples',
+	'default',
+	'deprecated',
+	'$comment',
+])
+
+// Keywords compared one by one instead of as a whole
+const COMPARED = new Set([
+	'type',
+	'enum',
+	'const',
+	'properties',
+	'required',
+	'items',
+])
+
+/**
+ * Check whether a value is a contract description rather than a contract
+ */
+function isDescription(
+	value: Contract | ContractDescription,
+): value is ContractDescription {
+	return (['web', 'native'] as const).every((side) =>
+		Object.values(value[side] ?? {}).every(
+			(definition) =>
+				typeof (definition as DefinitionDescription).kind === 'string' &&
+				!('~standard' in (definition as object)),
+		),
+	)
+}
+
+/**
+ * Types a schema allows, or undefined if it does not restrict them
+ */
+function typesOf(schema: JSONSchema): string[] | undefined {
+	if (Array.isArray(schema.type)) {
+		return schema.type as string[]
+	}
+	return typeof schema.type === 'string' ? [schema.type] : undefined
+}
+
+/**
+ * Values a schema allows, or undefined if it does not enumerate them
+ */
+function valuesOf(schema: JSONSchema): string[] | undefined {
+	if (Array.isArray(schema.enum)) {
+		return schema.enum.map(stableStringify)
+	}
+	return 'const' in schema ? [stableStringify(schema.const)] : undefined
+}
+
+/**
+ * Classify widening and narrowing of a set of allowed values
+ */
+function compareSets(
+	previous: string[],
+	next: string[],
+	variance: Variance,
+	path: string,
+	label: string,
+): SchemaChange[] {
+	const added = next.filter((item) => !previous.includes(item))
+	const removed = previous.filter((item) => !next.includes(item))
+	const changes: SchemaChange[] = []
+
+	if (removed.length > 0) {
+		changes.push({
+			path,
+			breaking: variance === 'input',
+			message: `no longer allows ${label} ${removed.join(', ')}`,
+		})
+	}
+	if (added.length > 0) {
+		changes.push({
+			path,
+			breaking: variance === 'output',
+			message: `now allows ${label} ${added.join(', ')}`,
+		})
+	}
+	return changes
+}
+
+/**
+ * Join a property name to a schema path
+ */
+function join(path: string, key: string): string {
+	return path ? `${path}.${key}` : key
+}
+
+/**
+ * Compare the properties of two object schemas
+ */
+function compareProperties(
+	previous: JSONSchema,
+	next: JSONSchema,
+	variance: Variance,
+	path: string,
+): SchemaChange[] {
+	const previousProperties = (previous.properties ?? {}) as Record<
+		string,
+		JSONSchema
+	>
+	const nextProperties = (next.properties ?? {}) as Record<string, JSONSchema>
+	const previousRequired = (previous.required ?? []) as string[]
+	const nextRequired = (next.required ?? []) as string[]
+	const keys = Array.from(
+		new Set([
+			...Object.keys(previousProperties),
+			...Object.keys(nextProperties),
+		]),
+	).sort()
+	const changes: SchemaChange[] = []
+
+	for (const key of keys) {
+		const property = join(path, key)
+		const wasRequired = previousRequired.includes(key)
+		const isRequired = nextRequired.includes(key)
+
+		if (!(key in nextProperties)) {
+			changes.push({
+				path: property,
+				// Strict objects reject what older callers still send
+				breaking:
+					variance === 'input'
+						? next.additionalProperties === false
+						: wasRequired,
+				message: `${wasRequired ? 'required' : 'optional'} property removed`,
+			})
+			continue
+		}
+		if (!(key in previousProperties)) {
+			changes.push({
+				path: property,
+				breaking: variance === 'input' && isRequired,
+				message: `${isRequired ? 'required' : 'optional'} property added`,
+			})
+			continue
+		}
+
+		if (wasRequired !== isRequired) {
+			changes.push({
+				path: property,
+				breaking: variance === 'input' ? isRequired : wasRequired,
+				message: isRequired ? 'became required' : 'became optional',
+			})
+		}
+		changes.push(
+			...compareSchemas(
+				previousProperties[key],
+				nextProperties[key],
+				variance,
+				property,
+			),
+		)
+	}
+	return changes
+}
+
+/**
+ * Compare two JSON Schemas, classifying each difference
+ */
+function compareSchemas(
+	previous: JSONSchema,
+	next: JSONSchema,
+	variance: Variance,
+	path: string,
+): SchemaChange[] {
+	if (stableStringify(previous) === stableStringify(next)) {
+		return []
+	}
+
+	const changes: SchemaChange[] = []
+
+	const previousTypes = typesOf(previous)
+	const nextTypes = typesOf(next)
+	if (previousTypes && nextTypes) {
+		changes.push(
+			...compareSets(previousTypes, nextTypes, variance, path, 'type'),
+		)
+	} else if (previousTypes || nextTypes) {
+		changes.push({
+			path,
+			breaking: variance === 'input' ? Boolean(nextTypes) : !nextTypes,
+			message: nextTypes ? 'type restricted' : 'type no longer restricted',
+		})
+	}
+
+	const previousValues = valuesOf(previous)
+	const nextValues = valuesOf(next)
+	if (previousValues && nextValues) {
+		changes.push(
+			...compareSets(previousValues, nextValues, variance, path, 'value'),
+		)
+	} else if (previousValues || nextValues) {
+		changes.push({
+			path,
+			breaking: variance === 'input' ? Boolean(nextValues) : !nextValues,
+			message: nextValues
+				? 'values restricted'
+				: 'values no longer restricted',
+		})
+	}
+
+	if (previous.properties || next.properties) {
+		changes.push(...compareProperties(previous, next, variance, path))
+	}
+
+	if (previous.items || next.items) {
+		changes.push(
+			...compareSchemas(
+				(previous.items ?? {}) as JSONSchema,
+				(next.items ?? {}) as JSONSchema,
+				variance,
+				`${path}[]`,
+			),
+		)
+	}
+
+	// Constraints, unions and references are not analysed further
+	const keywords = new Set([...Object.keys(previous), ...Object.keys(next)])
+	for (const keyword of Array.from(keywords).sort()) {
+		if (ANNOTATIONS.has(keyword) || COMPARED.has(keyword)) {
+			continue
+		}
+		if (stableStringify(previous[keyword]) !== stableStringify(next[keyword])) {
+			changes.push({
+				path,
+				breaking: true,
+				message: `${keyword} changed`,
+			})
+		}
+	}
+
+	return changes
+}
+
+/**
+ * Compare two schema descriptions. Schemas without JSON Schema can only be
+ * compared by vendor, and any difference then counts as breaking.
+ */
+function compareDescriptions(
+	previous: SchemaDescription | undefined,
+	next: SchemaDescription | undefined,
+	variance: Variance,
+): SchemaChange[] {
+	if (!previous || !next) {
+		if (!previous && !next) {
+			return []
+		}
+		return [
+			{
+				path: '',
+				breaking: variance === 'input' ? Boolean(next) : !next,
+				message: next ? 'schema declared' : 'schema no longer declared',
+			},
+		]
+	}
+
+	if (previous.jsonSchema && next.jsonSchema) {
+		return compareSchemas(previous.jsonSchema, next.jsonSchema, variance, '')
+	}
+	if (
+		previous.jsonSchema ||
+		next.jsonSchema ||
+		previous.vendor !== next.vendor
+	) {
+		return [{ path: '', breaking: true, message: 'schema cannot be compared' }]
+	}
+	return []
+}
+
+/**
+ * Compare two versions of one definition
+ */
+function compareDefinitions(
+	side: PeerSide,
+	name: string,
+	previous: DefinitionDescription,
+	next: DefinitionDescription,
+): ContractChange[] {
+	const label = `${side}.${name}`
+	if (previous.kind !== next.kind) {
+		return [
+			{
+				side,
+				name,
+				type: 'kind',
+				breaking: true,
+				message: `${label} changed from ${previous.kind} to ${next.kind}`,
+			},
+		]
+	}
+
+	const changes: ContractChange[] = []
+	const collect = (
+		type: ContractChangeType,
+		schemaChanges: SchemaChange[],
+		subject: string,
+	): void => {
+		for (const change of schemaChanges) {
+			const contractChange: ContractChange = {
+				side,
+				name,
+				type,
+				breaking: change.breaking,
+				message: `${label} ${subject}${change.path ? ` ${change.path}` : ''}: ${change.message}`,
+			}
+			if (change.path) {
+				contractChange.path = change.path
+			}
+			changes.push(contractChange)
+		}
+	}
+
+	// Event data travels like a return value: from the defining side to the other
+	const isEvent = next.kind === 'event'
+	collect(
+		'input',
+		compareDescriptions(
+			previous.input,
+			next.input,
+			isEvent ? 'output' : 'input',
+		),
+		isEvent ? 'data' : 'input',
+	)
+	collect(
+		'output',
+		compareDescriptions(previous.output, next.output, 'output'),
+		'output',
+	)
+
+	const previousErrors = previous.errors ?? {}
+	const nextErrors = next.errors ?? {}
+	const codes = new Set([
+		...Object.keys(previousErrors),
+		...Object.keys(nextErrors),
+	])
+	for (const code of Array.from(codes).sort()) {
+		if (!(code in previousErrors) || !(code in nextErrors)) {
+			// Callers already handle errors they do not know as plain remote errors
+			changes.push({
+				side,
+				name,
+				type: 'errors',
+				breaking: false,
+				message: `${label} error ${code} ${code in nextErrors ? 'declared' : 'no longer declared'}`,
+			})
+			continue
+		}
+		collect(
+			'errors',
+			compareDescriptions(previousErrors[code], nextErrors[code], 'output'),
+			`error ${code}`,
+		)
+	}
+
+	return changes
+}
+
+/**
+ * Compares two versions of a contract, classifying every difference per
+ * procedure and event.
+ *
+ * A change is breaking when code built against `previous` could fail against
+ * a peer built from `next`: a name removed or changing kind, an input
+ * accepting less (a new required property, a narrower type), or an output,
+ * stream chunk or event producing more (a property that may be missing, new
+ * enum values). Additions are not breaking. Differences the comparison cannot
+ * classify, such as changed constraints or schemas without JSON Schema, are
+ * reported as breaking.
+ *
+ * Either argument may be a description saved from another build with
+ * `describeContract`.
+ *
+ * @param previous - Contract, or description, that code was built against
+ * @param next - Contract, or description, of the other build
+ * @param options - JSON Schema conversion for contracts
+ * @returns Whether the contracts are compatible, and every change
+ *
+ * @example
+ * ```typescript
+ * const released = JSON.parse(await readFile('contract.v3.json', 'utf8'))
+ * const { compatible, changes } = compareContracts(released, contract)
+ *
+ * for (const change of changes.filter((change) => change.breaking)) {
+ *   console.error(change.message)
+ *   // native.share input url: became required
+ * }
+ * ```
+ */
+export function compareContracts(
+	previous: Contract | ContractDescription,
+	next: Contract | ContractDescription,
+	options?: DescribeOptions,
+): ContractComparison {
+	const before = isDescription(previous)
+		? previous
+		: describeContract(previous, options)
+	const after = isDescription(next) ? next : describeContract(next, options)
+	const changes: ContractChange[] = []
+
+	for (const side of ['web', 'native'] as const) {
+		const previousDefinitions = before[side] ?? {}
+		const nextDefinitions = after[side] ?? {}
+		const names = new Set([
+			...Object.keys(previousDefinitions),
+			...Object.keys(nextDefinitions),
+		])
+
+		for (const name of Array.from(names).sort()) {
+			const previousDefinition = previousDefinitions[name]
+			const nextDefinition = nextDefinitions[name]
+			if (!nextDefinition) {
+				changes.push({
+					side,
+					name,
+					type: 'removed',
+					breaking: true,
+					message: `${side}.${name} ${previousDefinition.kind} removed`,
+				})
+			} else if (!previousDefinition) {
+				changes.push({
+					side,
+					name,
+					type: 'added',
+					breaking: false,
+					message: `${side}.${name} ${nextDefinition.kind} added`,
+				})
+			} else {
+				changes.push(
+					...compareDefinitions(
+						side,
+						name,
+						previousDefinition,
+						nextDefinition,
+					),
+				)
+			}
+		}
+	}
+
+	return {
+		compatible: changes.every((change) => !change.breaking),
+		changes,
+	}
+}
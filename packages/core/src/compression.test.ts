@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest'
+import {
+	COMPRESSION_ENCODING,
+	type CompressedFrame,
+	compressText,
+	createCompressor,
+	decompressText,
+	isCompressedFrame,
+} from './compression'
+
+const catalog = JSON.stringify(
+	Array.from({ length: 500 }, (_, index) => ({
+		id: index,
+		name: `Product ${index}`,
+		price: index * 1.25,
+		tags: ['catalog', 'featured'],
+	})),
+)
+
+describe('compressText / decompressText', () => {
+	it('should round-trip text of any length and script', () => {
+		// GIVEN: Empty, short, repetitive and non-Latin text
+		const samples = [
+			'',
+			'a',
+			'abababababababababab',
+			'Grüße, 世界 😀 '.repeat(40),
+			catalog,
+		]
+
+		for (const sample of samples) {
+			// WHEN: Compressing and decompressing
+			const compressed = compressText(sample)
+
+			// THEN: Original text restored
+			expect(decompressText(compressed)).toBe(sample)
+		}
+	})
+
+	it('should keep working once the code table is full', () => {
+		// GIVEN: Text varied enough to define more than 65536 codes
+		let text = ''
+		for (let i = 0; i < 200000; i++) {
+			text += String.fromCharCode(32 + ((i * 7919) % 95))
+		}
+
+		// THEN: Restored exactly
+		expect(decompressText(compressText(text))).toBe(text)
+	})
+
+	it('should shrink repetitive JSON', () => {
+		expect(compressText(catalog).length).toBeLessThan(catalog.length / 3)
+	})
+
+	it('should reject codes that were never defined', () => {
+		// GIVEN: First code above the single-byte range
+		const invalid = btoa(String.fromCharCode(0xff, 0x01))
+
+		// THEN: Rejected
+		expect(() => decompressText(invalid)).toThrow(SyntaxError)
+	})
+})
+
+describe('createCompressor', () => {
+	it('should compress only once the other side announced the encoding', () => {
+		// GIVEN: Enabled compressor
+		const compressor = createCompressor({ threshold: 100 })
+
+		// WHEN: Compressing before and after the other side announced lzw
+		const before = compressor.compress(catalog, 'id-1')
+		compressor.setRemoteEncodings([COMPRESSION_ENCODING])
+		const after = compressor.compress(catalog, 'id-1')
+
+		// THEN: Only the second compressed
+		expect(before).toBeUndefined()
+		expect(after).toMatchObject({
+			type: 'compressed',
+			id: 'id-1',
+			encoding: COMPRESSION_ENCODING,
+		})
+		expect(isCompressedFrame(after)).toBe(true)
+		expect(compressor.decompress(after as CompressedFrame)).toBe(catalog)
+	})
+
+	it('should stop compressing for a side that announced no encodings', () => {
+		// GIVEN: Compressor talking to a compressing side
+		const compressor = createCompressor({ threshold: 100 })
+		compressor.setRemoteEncodings([COMPRESSION_ENCODING])
+
+		// WHEN: An older side takes over
+		compressor.setRemoteEncodings([])
+
+		// THEN: Messages sent as is
+		expect(compressor.compress(catalog, 'id-1')).toBeUndefined()
+	})
+
+	it('should leave small and incompressible messages alone', () => {
+		// GIVEN: Compressor with the default threshold
+		const compressor = createCompressor({})
+		compressor.setRemoteEncodings([COMPRESSION_ENCODING])
+		let noise = ''
+		for (let i = 0; i < 2000; i++) {
+			noise += String.fromCharCode(0x4e00 + ((i * 7919) % 20000))
+		}
+
+		// THEN: Neither compressed
+		expect(compressor.compress('{"type":"event"}', 'id-1')).toBeUndefined()
+		expect(compressor.compress(noise, 'id-2')).toBeUndefined()
+		expect(compressor.stats.messages).toBe(0)
+	})
+
+	it('should only read frames when created without options', () => {
+		// GIVEN: Decode-only compressor and a frame from an enabled one
+		const reader = createCompressor()
+		const writer = createCompressor({ threshold: 100 })
+		writer.setRemoteEncodings(reader.encodings)
+		const frame = writer.compress(catalog, 'id-1')
+		reader.setRemoteEncodings([COMPRESSION_ENCODING])
+
+		// THEN: Reads the frame, never compresses
+		expect(reader.decompress(frame as CompressedFrame)).toBe(catalog)
+		expect(reader.compress(catalog, 'id-2')).toBeUndefined()
+	})
+
+	it('should total the bytes saved', () => {
+		// GIVEN: Compressor sending two large messages
+		const compressor = createCompressor({ threshold: 100 })
+		compressor.setRemoteEncodings([COMPRESSION_ENCODING])
+
+		// WHEN: Compressing them
+		const first = compressor.compress(catalog, 'id-1')
+		const second = compressor.compress(`${catalog} `, 'id-2')
+
+		// THEN: Totals cover both
+		const { stats } = compressor
+		expect(stats.messages).toBe(2)
+		expect(stats.originalBytes).toBe(catalog.length * 2 + 1)
+		expect(stats.compressedBytes).toBe(
+			(first?.data.length ?? 0) + (second?.data.length ?? 0),
+		)
+		expect(stats.bytesSaved).toBe(stats.originalBytes - stats.compressedBytes)
+	})
+
+	it('should reject encodings it cannot read', () => {
+		const compressor = createCompressor()
+
+		expect(() =>
+			compressor.decompress({
+				type: 'compressed',
+				id: 'id-1',
+				encoding: 'brotli',
+				data: '',
+			}),
+		).toThrow(expect.objectContaining({ code: 'UNSUPPORTED_ENCODING' }))
+	})
+})
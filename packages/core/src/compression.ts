@@ -0,0 +1,408 @@
+/**
+ * Compression of large serialized messages, negotiated during the handshake
+ * @module compression
+ */
+
+import { fromBase64, toBase64 } from './binary'
+import { WebViewRPCError } from './errors'
+
+/**
+ * Encoding of compressed frames: LZW over the UTF-8 bytes of the serialized
+ * message, with codes of 9 to 16 bits, sent as base64. Implemented in plain
+ * JavaScript, so it runs on Hermes and in browsers alike.
+ */
+export const COMPRESSION_ENCODING = 'lzw'
+
+/**
+ * Serialized length above which messages are compressed when compression is
+ * enabled
+ */
+export const DEFAULT_COMPRESSION_THRESHOLD: number = 1024
+
+/**
+ * Options for compressing large messages
+ */
+export interface CompressionOptions {
+	/**
+	 * Serialized length in characters above which a message is compressed
+	 * (default: 1024)
+	 */
+	threshold?: number
+}
+
+/**
+ * Compressed serialized message, sent in place of the message itself
+ */
+export interface CompressedFrame {
+	type: 'compressed'
+
+	/**
+	 * ID of the compressed message
+	 */
+	id: string
+
+	/**
+	 * Encoding of `data`
+	 */
+	encoding: string
+
+	/**
+	 * Compressed serialized message
+	 */
+	data: string
+
+	/**
+	 * Channel tag added by the bridge transports
+	 */
+	channel?: string
+}
+
+/**
+ * Totals of the messages a transport sent compressed
+ */
+export interface CompressionStats {
+	/**
+	 * Number of messages sent compressed
+	 */
+	messages: number
+
+	/**
+	 * UTF-8 bytes of those messages before compression
+	 */
+	originalBytes: number
+
+	/**
+	 * Bytes of those messages as sent
+	 */
+	compressedBytes: number
+
+	/**
+	 * `originalBytes` minus `compressedBytes`
+	 */
+	bytesSaved: number
+}
+
+const MAX_CODES = 1 << 16
+
+/**
+ * Width in bits of the next code, once `entries` codes are defined
+ */
+function codeWidth(entries: number): number {
+	return Math.max(9, 32 - Math.clz32(entries - 1))
+}
+
+/**
+ * Encode a string as UTF-8, without relying on `TextEncoder`
+ */
+function encodeUtf8(text: string): Uint8Array {
+	const bytes: number[] = []
+	for (const char of text) {
+		const code = char.codePointAt(0) as number
+		if (code < 0x80) {
+			bytes.push(code)
+		} else if (code < 0x800) {
+			bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f))
+		} else if (code < 0x10000) {
+			bytes.push(
+				0xe0 | (code >> 12),
+				0x80 | ((code >> 6) & 0x3f),
+				0x80 | (code & 0x3f),
+			)
+		} else {
+			bytes.push(
+				0xf0 | (code >> 18),
+				0x80 | ((code >> 12) & 0x3f),
+				0x80 | ((code >> 6) & 0x3f),
+				0x80 | (code & 0x3f),
+			)
+		}
+	}
+	return Uint8Array.from(bytes)
+}
+
+/**
+ * Decode UTF-8 bytes, without relying on `TextDecoder`
+ */
+function decodeUtf8(bytes: ArrayLike<number>): string {
+	let text = ''
+	let i = 0
+	while (i < bytes.length) {
+		const byte = bytes[i]
+		let code: number
+		if (byte < 0x80) {
+			code = byte
+			i += 1
+		} else if (byte < 0xe0) {
+			code = ((byte & 0x1f) << 6) | (bytes[i + 1] & 0x3f)
+			i += 2
+		} else if (byte < 0xf0) {
+			code =
+				((byte & 0x0f) << 12) |
+				((bytes[i + 1] & 0x3f) << 6) |
+				(bytes[i + 2] & 0x3f)
+			i += 3
+		} else {
+			code =
+				((byte & 0x07) << 18) |
+				((bytes[i + 1] & 0x3f) << 12) |
+				((bytes[i + 2] & 0x3f) << 6) |
+				(bytes[i + 3] & 0x3f)
+			i += 4
+		}
+		text += String.fromCodePoint(code)
+	}
+	return text
+}
+
+/**
+ * Compress a string with the `lzw` encoding
+ *
+ * @param text - String to compress
+ * @returns Base64 of the compressed UTF-8 bytes
+ *
+ * @example
+ * ```typescript
+ * const compressed = compressText(JSON.stringify(catalog))
+ * decompressText(compressed) // the JSON again
+ * ```
+ */
+export function compressText(text: string): string {
+	const bytes = encodeUtf8(text)
+	if (bytes.length === 0) {
+		return ''
+	}
+
+	const output: number[] = []
+	let buffer = 0
+	let bits = 0
+	let entries = 256
+	const write = (code: number): void => {
+		buffer |= code << bits
+		bits += codeWidth(entries)
+		while (bits >= 8) {
+			output.push(buffer & 0xff)
+			buffer >>>= 8
+			bits -= 8
+		}
+	}
+
+	// Keyed by prefix code and next byte
+	const dictionary = new Map<number, number>()
+	let prefix = bytes[0]
+	for (let i = 1; i < bytes.length; i++) {
+		const key = prefix * 256 + bytes[i]
+		const code = dictionary.get(key)
+		if (code !== undefined) {
+			prefix = code
+			continue
+		}
+
+		write(prefix)
+		if (entries < MAX_CODES) {
+			dictionary.set(key, entries++)
+		}
+		prefix = bytes[i]
+	}
+	write(prefix)
+	if (bits > 0) {
+		output.push(buffer & 0xff)
+	}
+	return toBase64(Uint8Array.from(output))
+}
+
+/**
+ * Decompress a string compressed by `compressText`
+ *
+ * @param data - Base64 of the compressed UTF-8 bytes
+ * @returns Original string
+ */
+export function decompressText(data: string): string {
+	const input = fromBase64(data)
+	const output: number[] = []
+
+	// Codes above 255 point at their prefix code and add one byte
+	const prefixes: number[] = []
+	const suffixes: number[] = []
+	const firstBytes: number[] = []
+	const first = (code: number): number =>
+		code < 256 ? code : firstBytes[code - 256]
+	const emit = (code: number): void => {
+		const start = output.length
+		let current = code
+		while (current >= 256) {
+			output.push(suffixes[current - 256])
+			current = prefixes[current - 256]
+		}
+		output.push(current)
+		// Bytes were pushed last to first
+		let end = output.length - 1
+		for (let i = start; i < end; i++, end--) {
+			const byte = output[i]
+			output[i] = output[end]
+			output[end] = byte
+		}
+	}
+
+	let buffer = 0
+	let bits = 0
+	let offset = 0
+	let previous = -1
+	// Codes defined on the writing side when it wrote the code being read
+	let entries = 256
+	for (;;) {
+		const width = codeWidth(entries)
+		while (bits < width && offset < input.length) {
+			buffer |= input[offset++] << bits
+			bits += 8
+		}
+		if (bits < width) {
+			break
+		}
+		const code = buffer & ((1 << width) - 1)
+		buffer >>>= width
+		bits -= width
+
+		// The table runs one entry behind the writer, which may use that entry
+		const defined = 256 + prefixes.length
+		if (previous === -1 ? code > 255 : code > defined) {
+			throw new SyntaxError(`Invalid ${COMPRESSION_ENCODING} code: ${code}`)
+		}
+		if (previous !== -1 && defined < MAX_CODES) {
+			prefixes.push(previous)
+			suffixes.push(code === defined ? first(previous) : first(code))
+			firstBytes.push(first(previous))
+		}
+		emit(code)
+		previous = code
+		if (entries < MAX_CODES) {
+			entries++
+		}
+	}
+	return decodeUtf8(output)
+}
+
+/**
+ * Check whether deserialized data is a compressed frame
+ *
+ * @param data - Deserialized data
+ * @returns True if the data is a compressed frame
+ */
+export function isCompressedFrame(data: unknown): data is CompressedFrame {
+	return (
+		typeof data === 'object' &&
+		data !== null &&
+		(data as { type?: unknown }).type === 'compressed'
+	)
+}
+
+/**
+ * Compression state of a transport: what it can read, what the other side can
+ * read, and what was saved so far
+ */
+export interface Compressor {
+	/**
+	 * Encodings the transport can read, announced during the handshake
+	 */
+	readonly encodings: string[]
+
+	/**
+	 * Totals of the messages sent compressed
+	 */
+	readonly stats: CompressionStats
+
+	/**
+	 * Record the encodings the other side announced. Nothing is compressed
+	 * until the other side announced an encoding this build writes.
+	 */
+	setRemoteEncodings: (encodings: string[]) => void
+
+	/**
+	 * Compress a serialized message if compression is enabled, the other side
+	 * can read it, the message is above the threshold and compressing shrinks it
+	 *
+	 * @returns Frame to send instead of the message, or undefined to send the
+	 * message as is
+	 */
+	compress: (serialized: string, messageId: string) => CompressedFrame | undefined
+
+	/**
+	 * Restore the serialized message carried by a frame.
+	 * Throws an UNSUPPORTED_ENCODING error for encodings this build cannot read.
+	 */
+	decompress: (frame: CompressedFrame) => string
+}
+
+/**
+ * Creates the compression state of a transport. Without options, the
+ * compressor only reads frames compressed by the other side.
+ *
+ * @param options - Enable compression above a threshold
+ * @returns Compressor instance
+ *
+ * @example
+ * ```typescript
+ * const compressor = createCompressor({ threshold: 4096 })
+ *
+ * const serialized = serializer(message)
+ * const frame = compressor.compress(serialized, message.id)
+ * bridge.postMessage(frame ? serializer(frame) : serialized)
+ * ```
+ */
+export function createCompressor(options?: CompressionOptions): Compressor {
+	const threshold = options?.threshold ?? DEFAULT_COMPRESSION_THRESHOLD
+	let remoteReads = false
+	const stats: CompressionStats = {
+		messages: 0,
+		originalBytes: 0,
+		compressedBytes: 0,
+		bytesSaved: 0,
+	}
+
+	const compress = (
+		serialized: string,
+		messageId: string,
+	): CompressedFrame | undefined => {
+		if (!options || !remoteReads || serialized.length <= threshold) {
+			return undefined
+		}
+
+		const data = compressText(serialized)
+		const originalBytes = encodeUtf8(serialized).length
+		if (data.length >= originalBytes) {
+			return undefined
+		}
+
+		stats.messages++
+		stats.originalBytes += originalBytes
+		stats.compressedBytes += data.length
+		stats.bytesSaved = stats.originalBytes - stats.compressedBytes
+		return {
+			type: 'compressed',
+			id: messageId,
+			encoding: COMPRESSION_ENCODING,
+			data,
+		}
+	}
+
+	const decompress = (frame: CompressedFrame): string => {
+		if (frame.encoding !== COMPRESSION_ENCODING) {
+			throw new WebViewRPCError(
+				`Unsupported compression encoding: ${frame.encoding}`,
+				'UNSUPPORTED_ENCODING',
+			)
+		}
+		return decompressText(frame.data)
+	}
+
+	return {
+		encodings: [COMPRESSION_ENCODING],
+		get stats() {
+			return { ...stats }
+		},
+		setRemoteEncodings: (encodings) => {
+			remoteReads = encodings.includes(COMPRESSION_ENCODING)
+		},
+		compress,
+		decompress,
+	}
+}
@@ -1,5 +1,8 @@
 import { describe, it, expect, expectTypeOf } from 'vitest'
-import { defineContract } from './contract'
+import { z } from 'zod'
+import { defineContract, mergeContracts } from './contract'
+import { createTestHarness } from './harness'
+import { procedure } from './procedure'
 import type { Contract, ProcedureSchema } from './types'
 import type { StandardSchemaV1 } from '@standard-schema/spec'
 
@@ -447,4 +450,168 @@ describe('defineContract', () => {
 			expect(contract.web?.testEvent).toBeDefined()
 		})
 	})
+
+	describe('namespaces', () => {
+		it('should flatten nested namespaces into dotted names', () => {
+			// GIVEN: Procedures grouped by feature
+			const charge = createMockProcedure()
+			const add = createMockSchema()
+			const share = createMockProcedure()
+
+			// WHEN: Defining contract
+			const contract = defineContract({
+				native: {
+					share,
+					payments: { charge, cards: { add } },
+				},
+			})
+
+			// THEN: Each definition under its dotted path
+			expect(contract.native).toEqual({
+				share,
+				'payments.charge': charge,
+				'payments.cards.add': add,
+			})
+			expectTypeOf<keyof typeof contract.native>().toEqualTypeOf<
+				'share' | 'payments.charge' | 'payments.cards.add'
+			>()
+		})
+
+		it('should reject a name defined both nested and dotted', () => {
+			expect(() =>
+				defineContract({
+					native: {
+						'payments.charge': createMockProcedure(),
+						payments: { charge: createMockProcedure() },
+					},
+				}),
+			).toThrow(expect.objectContaining({ code: 'DUPLICATE_NAME' }))
+		})
+
+		it('should reject entries that are neither schemas nor namespaces', () => {
+			expect(() =>
+				defineContract({ web: { broken: 42 } } as never),
+			).toThrow(
+				expect.objectContaining({
+					code: 'INVALID_CONTRACT',
+					message: 'Contract entry broken is neither a schema nor a namespace',
+				}),
+			)
+		})
+
+		it('should keep names plain objects inherit or treat specially', () => {
+			// GIVEN: Names Object.prototype also has, next to a namespace
+			const native: Record<string, unknown> = {
+				toString: createMockProcedure(),
+				valueOf: { get: createMockProcedure() },
+			}
+			Object.defineProperty(native, '__proto__', {
+				value: createMockProcedure(),
+				enumerable: true,
+			})
+
+			// WHEN: Flattening
+			const contract = defineContract({ native } as never) as {
+				native: Record<string, unknown>
+			}
+
+			// THEN: Each is a definition of its own
+			expect(Object.keys(contract.native)).toEqual([
+				'toString',
+				'valueOf.get',
+				'__proto__',
+			])
+		})
+
+		it('should call namespaced procedures by their dotted name', async () => {
+			// GIVEN: Namespaced procedure handled on native
+			const contract = defineContract({
+				native: {
+					payments: {
+						charge: procedure(z.object({ amount: z.number() })).returns(
+							z.object({ id: z.string() }),
+						),
+					},
+				},
+			})
+			const harness = createTestHarness(contract)
+			harness.native.handle('payments.charge', async ({ amount }) => ({
+				id: `charge-${amount}`,
+			}))
+
+			// WHEN: Calling it from web
+			const result = await harness.web.call('payments.charge', { amount: 5 })
+
+			// THEN: Routed and typed by its dotted name
+			expect(result).toEqual({ id: 'charge-5' })
+			expectTypeOf(result).toEqualTypeOf<{ id: string }>()
+			harness.close()
+		})
+	})
+
+	describe('mergeContracts', () => {
+		const payments = defineContract({
+			native: { payments: { charge: createMockProcedure() } },
+		})
+		const profile = defineContract({
+			web: { profileChanged: createMockSchema() },
+			native: { profile: { get: createMockProcedure() } },
+		})
+
+		it('should combine the definitions of each side', () => {
+			// WHEN: Merging feature contracts
+			const contract = mergeContracts(payments, profile)
+
+			// THEN: All definitions on their side
+			expect(Object.keys(contract.native)).toEqual([
+				'payments.charge',
+				'profile.get',
+			])
+			expect(contract.web.profileChanged).toBe(profile.web.profileChanged)
+			expectTypeOf<keyof typeof contract.native>().toEqualTypeOf<
+				'payments.charge' | 'profile.get'
+			>()
+		})
+
+		it('should reject names defined by several contracts', () => {
+			// GIVEN: Second contract defining payments.charge again
+			const duplicate = defineContract({
+				native: { 'payments.charge': createMockProcedure() },
+			})
+
+			// THEN: Rejected when type-checking and at runtime
+			expect(() =>
+				// @ts-expect-error payments.charge is defined twice
+				mergeContracts(payments, profile, duplicate),
+			).toThrow(
+				expect.objectContaining({
+					code: 'DUPLICATE_NAME',
+					message: 'Contracts both define native.payments.charge',
+				}),
+			)
+		})
+
+		it('should not count inherited names as duplicates', () => {
+			// GIVEN: Contracts defining names Object.prototype also has
+			const first = defineContract({
+				native: {
+					toString: createMockProcedure(),
+					constructor: createMockProcedure(),
+				},
+			})
+			const second = defineContract({
+				native: { valueOf: createMockProcedure() },
+			})
+
+			// WHEN: Merging
+			const contract = mergeContracts(first, second)
+
+			// THEN: All kept
+			expect(Object.keys(contract.native)).toEqual([
+				'toString',
+				'constructor',
+				'valueOf',
+			])
+		})
+	})
 })
@@ -3,7 +3,71 @@
  * @module contract
  */
 
-import type { Contract } from './types'
+import { WebViewRPCError } from './errors'
+import type {
+	Contract,
+	ContractNamespace,
+	FlattenContract,
+	MergeContracts,
+	SchemaDefinition,
+	UniqueNames,
+} from './types'
+
+/**
+ * Check whether a contract entry is a schema rather than a namespace.
+ * Some libraries, such as ArkType, implement schemas as functions.
+ */
+function isSchema(value: unknown): value is SchemaDefinition {
+	return (
+		(typeof value === 'object' || typeof value === 'function') &&
+		value !== null &&
+		'~standard' in value
+	)
+}
+
+/**
+ * Check whether a side of a contract groups definitions into namespaces
+ */
+function hasNamespaces(definitions: ContractNamespace | undefined): boolean {
+	return Object.values(definitions ?? {}).some((value) => !isSchema(value))
+}
+
+/**
+ * Definitions of one side keyed by name. Without a prototype, names such as
+ * `toString` or `__proto__` are stored like any other.
+ */
+function createDefinitions(): Record<string, SchemaDefinition> {
+	return Object.create(null)
+}
+
+/**
+ * Copy the definitions of a namespace under their dotted names
+ */
+function flattenNamespace(
+	namespace: ContractNamespace,
+	path: string,
+	into: Record<string, SchemaDefinition>,
+): void {
+	for (const [key, value] of Object.entries(namespace)) {
+		const name = `${path}${key}`
+		if (isSchema(value)) {
+			if (Object.hasOwn(into, name)) {
+				throw new WebViewRPCError(
+					`Contract defines ${name} more than once`,
+					'DUPLICATE_NAME',
+				)
+			}
+			into[name] = value
+		} else if (typeof value === 'object' && value !== null) {
+			flattenNamespace(value, `${name}.`, into)
+		} else {
+			throw new WebViewRPCError(
+				`Contract entry ${name} is neither a schema nor a namespace`,
+				'INVALID_CONTRACT',
+			)
+		}
+	}
+}
 
 /**
  * Defines a type-safe RPC contract for WebView communication.
@@ -12,6 +76,10 @@ import type { Contract } from './types'
  * (web and native). Procedures are schemas with a `.returns()` method, while
  * events are plain schemas without returns.
  *
+ * Definitions may be grouped into nested namespaces. Each is then sent, and
+ * called, under its dotted path: `native.payments.charge` becomes
+ * `payments.charge`. A contract without namespaces is returned as is.
+ *
  * @param schema - Contract schema with optional web and native definitions
  * @returns Typed contract object
  *
@@ -32,18 +100,85 @@ import type { Contract } from './types'
  *   native: {
  *     share: z.object({ url: z.string() })
  *       .returns(z.object({ success: z.boolean() })),
+ *
+ *     // Called as 'payments.charge'
+ *     payments: {
+ *       charge: procedure(z.object({ amount: z.number() }))
+ *         .returns(z.object({ id: z.string() })),
+ *     },
  *   }
  * })
  * ```
  */
-export function defineContract<T extends Contract>(schema: T): T {
+export function defineContract<T extends Contract>(
+	schema: T,
+): FlattenContract<T> {
 	// Validate that the schema has at least web or native
 	if (!schema.web && !schema.native) {
 		throw new Error('Contract must define at least one of: web, native')
 	}
 
-	// Return the schema as-is for type inference
-	// The actual validation of Standard Schema compliance happens at runtime
-	// when handlers are invoked
-	return schema
+	const sides = schema as Contract<ContractNamespace>
+	if (!hasNamespaces(sides.web) && !hasNamespaces(sides.native)) {
+		// Return the schema as-is for type inference
+		// The actual validation of Standard Schema compliance happens at runtime
+		// when handlers are invoked
+		return schema as FlattenContract<T>
+	}
+
+	const flattened: Contract<Record<string, SchemaDefinition>> = {}
+	for (const side of ['web', 'native'] as const) {
+		const definitions = sides[side]
+		if (definitions) {
+			flattened[side] = createDefinitions()
+			flattenNamespace(definitions, '', flattened[side])
+		}
+	}
+	return flattened as FlattenContract<T>
+}
+
+/**
+ * Merges contracts, such as the sub-contracts of several features, into one.
+ * Every name must be defined by only one of them on each side: duplicates
+ * fail to type-check and throw a DUPLICATE_NAME error.
+ *
+ * @param contracts - Contracts returned by `defineContract`
+ * @returns Contract with the definitions of all of them
+ *
+ * @example
+ * ```typescript
+ * const contract = mergeContracts(paymentsContract, profileContract)
+ *
+ * await client.native.call('payments.charge', { amount: 10 })
+ * ```
+ */
+export function mergeContracts<T extends readonly Contract[]>(
+	...contracts: T & UniqueNames<T>
+): MergeContracts<T> {
+	const merged: Contract<Record<string, SchemaDefinition>> = {}
+
+	for (const contract of contracts as readonly Contract[]) {
+		for (const side of ['web', 'native'] as const) {
+			const definitions = contract[side] as
+				| Record<string, SchemaDefinition>
+				| undefined
+			if (!definitions) {
+				continue
+			}
+
+			const target = merged[side] ?? createDefinitions()
+			merged[side] = target
+			for (const name of Object.keys(definitions)) {
+				if (Object.hasOwn(target, name)) {
+					throw new WebViewRPCError(
+						`Contracts both define ${side}.${name}`,
+						'DUPLICATE_NAME',
+					)
+				}
+				target[name] = definitions[name]
+			}
+		}
+	}
+
+	return merged as MergeContracts<T>
 }
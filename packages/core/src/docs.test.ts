@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest'
+import type { StandardSchemaV1 } from '@standard-schema/spec'
+import { z } from 'zod'
+import { defineContract } from './contract'
+import {
+	type ContractDocsOptions,
+	generateContractDocs,
+	renderHtml,
+	renderMarkdown,
+} from './docs'
+import { procedure } from './procedure'
+import { stream } from './stream'
+
+const options: ContractDocsOptions = {
+	toJSONSchema: (schema, io) => z.toJSONSchema(schema as z.ZodType, { io }),
+}
+
+// Schema without JSON Schema
+const createMockSchema = (): StandardSchemaV1 => ({
+	'~standard': {
+		version: 1,
+		vendor: 'test',
+		validate: (value: unknown) => ({ value }),
+	},
+})
+
+const contract = defineContract({
+	web: {
+		navigate: procedure(z.object({ path: z.string() })).returns(
+			z.object({ success: z.boolean() }),
+		),
+		pathChanged: z.object({ path: z.string() }),
+	},
+	native: {
+		share: procedure(z.object({ url: z.string() }))
+			.returns(z.boolean())
+			.errors({ CANCELLED: z.object({ reason: z.string() }) }),
+		search: stream(z.object({ query: z.string() })).yields(z.string()),
+		appStateChange: createMockSchema(),
+	},
+})
+
+describe('generateContractDocs', () => {
+	it('should separate procedures from events with their direction', () => {
+		// WHEN: Documenting the contract
+		const docs = generateContractDocs(contract, options)
+
+		// THEN: Calls go to the defining side, events come from it
+		expect(
+			docs.procedures.map(({ side, name, kind, from, to }) => ({
+				side,
+				name,
+				kind,
+				from,
+				to,
+			})),
+		).toEqual([
+			{
+				side: 'web',
+				name: 'navigate',
+				kind: 'procedure',
+				from: 'native',
+				to: 'web',
+			},
+			{
+				side: 'native',
+				name: 'search',
+				kind: 'stream',
+				from: 'web',
+				to: 'native',
+			},
+			{
+				side: 'native',
+				name: 'share',
+				kind: 'procedure',
+				from: 'web',
+				to: 'native',
+			},
+		])
+		expect(
+			docs.events.map(({ side, name, from, to }) => ({ side, name, from, to })),
+		).toEqual([
+			{ side: 'web', name: 'pathChanged', from: 'web', to: 'native' },
+			{ side: 'native', name: 'appStateChange', from: 'native', to: 'web' },
+		])
+	})
+
+	it('should export JSON Schema for inputs, returns and errors', () => {
+		// WHEN: Documenting the contract
+		const docs = generateContractDocs(contract, options)
+		const share = docs.procedures.find((entry) => entry.name === 'share')
+
+		// THEN: Each schema exported
+		expect(share?.input.jsonSchema).toEqual({
+			type: 'object',
+			properties: { url: { type: 'string' } },
+			required: ['url'],
+		})
+		expect(share?.output?.jsonSchema).toEqual({ type: 'boolean' })
+		expect(share?.errors?.CANCELLED.jsonSchema).toMatchObject({
+			required: ['reason'],
+		})
+	})
+
+	it('should default the title', () => {
+		expect(generateContractDocs(contract).title).toBe('Contract reference')
+		expect(generateContractDocs(contract, { title: 'Bridge' }).title).toBe(
+			'Bridge',
+		)
+	})
+})
+
+describe('renderMarkdown', () => {
+	it('should list every name with its kind and direction', () => {
+		// WHEN: Rendering
+		const markdown = renderMarkdown(generateContractDocs(contract, options))
+
+		// THEN: Tables and sections
+		expect(markdown).toMatch(/^# Contract reference\n/)
+		expect(markdown).toContain('| `native.share` | procedure | web → native |')
+		expect(markdown).toContain(
+			'| `native.appStateChange` | event | native → web |',
+		)
+		expect(markdown).toContain('**Returns**\n\n```json\n{\n  "type": "boolean"\n}')
+		expect(markdown).toContain('**Yields**')
+		expect(markdown).toContain('**Error `CANCELLED`**')
+	})
+
+	it('should note schemas without JSON Schema', () => {
+		const markdown = renderMarkdown(generateContractDocs(contract, options))
+
+		expect(markdown).toContain(
+			'### `native.appStateChange`\n\nevent, native → web\n\n**Data**\n\n_No JSON Schema available (test)_',
+		)
+	})
+
+	it('should leave out empty sections', () => {
+		// GIVEN: Contract with events only
+		const docs = generateContractDocs({ web: { ping: createMockSchema() } })
+
+		// THEN: No procedures heading
+		const markdown = renderMarkdown(docs)
+		expect(markdown).not.toContain('## Procedures')
+		expect(markdown).toContain('## Events')
+	})
+})
+
+describe('renderHtml', () => {
+	it('should render a standalone page with escaped content', () => {
+		// GIVEN: Title and schema needing escaping
+		const docs = generateContractDocs(
+			{ native: { tag: procedure(z.object({ label: z.literal('<b>') })) } },
+			{ ...options, title: 'Bridge & co' },
+		)
+
+		// WHEN: Rendering
+		const html = renderHtml(docs)
+
+		// THEN: Complete, escaped document
+		expect(html).toMatch(/^<!DOCTYPE html>/)
+		expect(html).toContain('<title>Bridge &amp; co</title>')
+		expect(html).toContain('<section id="native-tag">')
+		expect(html).toContain('&quot;const&quot;: &quot;&lt;b&gt;&quot;')
+		expect(html).not.toContain('<b>')
+	})
+})
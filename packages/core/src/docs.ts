@@ -0,0 +1,340 @@
+/**
+ * Reference documentation generated from a contract
+ * @module docs
+ */
+
+import {
+	type DefinitionDescription,
+	type DefinitionKind,
+	type DescribeOptions,
+	type SchemaDescription,
+	describeContract,
+} from './fingerprint'
+import type { PeerSide } from './peer'
+import type { Contract } from './types'
+
+/**
+ * Options for generating contract documentation
+ */
+export interface ContractDocsOptions extends DescribeOptions {
+	/**
+	 * Heading of the rendered reference (default: 'Contract reference')
+	 */
+	title?: string
+}
+
+/**
+ * Documented procedure, stream, subscription or event
+ */
+export interface DocsEntry {
+	/**
+	 * Side of the contract defining the name
+	 */
+	side: PeerSide
+	name: string
+	kind: DefinitionKind
+
+	/**
+	 * Side sending the call or event
+	 */
+	from: PeerSide
+
+	/**
+	 * Side handling the call or receiving the event
+	 */
+	to: PeerSide
+
+	/**
+	 * Input of a procedure, stream or subscription, or data of an event
+	 */
+	input: SchemaDescription
+
+	/**
+	 * Return value, chunks or emitted data, if declared
+	 */
+	output?: SchemaDescription
+
+	/**
+	 * Data of the declared errors, by error code
+	 */
+	errors?: Record<string, SchemaDescription>
+}
+
+/**
+ * Reference documentation of a contract, ready to render or to serialize
+ */
+export interface ContractDocs {
+	title: string
+
+	/**
+	 * Procedures, streams and subscriptions, web side first, by name
+	 */
+	procedures: DocsEntry[]
+
+	/**
+	 * Events, web side first, by name
+	 */
+	events: DocsEntry[]
+}
+
+const OUTPUT_LABELS: Record<DefinitionKind, string> = {
+	procedure: 'Returns',
+	stream: 'Yields',
+	subscription: 'Emits',
+	event: 'Data',
+}
+
+/**
+ * Document one definition
+ */
+function documentDefinition(
+	side: PeerSide,
+	name: string,
+	description: DefinitionDescription,
+): DocsEntry {
+	const other: PeerSide = side === 'web' ? 'native' : 'web'
+	// Calls go to the side defining them, events come from it
+	const isEvent = description.kind === 'event'
+	const entry: DocsEntry = {
+		side,
+		name,
+		kind: description.kind,
+		from: isEvent ? side : other,
+		to: isEvent ? other : side,
+		input: description.input,
+	}
+	if (description.output) {
+		entry.output = description.output
+	}
+	if (description.errors) {
+		entry.errors = description.errors
+	}
+	return entry
+}
+
+/**
+ * Collects the reference documentation of a contract: every procedure, stream,
+ * subscription and event, the direction it travels in, and the JSON Schema of
+ * its input, output and declared errors where the schema library exposes one
+ * (see `describeContract`).
+ *
+ * @param contract - Contract to document
+ * @param options - Title and JSON Schema conversion
+ * @returns Documentation to render with `renderMarkdown` or `renderHtml`
+ *
+ * @example
+ * ```typescript
+ * const docs = generateContractDocs(contract, { title: 'Bridge API' })
+ * await writeFile('bridge.md', renderMarkdown(docs))
+ * ```
+ */
+export function generateContractDocs(
+	contract: Contract,
+	options: ContractDocsOptions = {},
+): ContractDocs {
+	const description = describeContract(contract, options)
+	const docs: ContractDocs = {
+		title: options.title ?? 'Contract reference',
+		procedures: [],
+		events: [],
+	}
+
+	for (const side of ['web', 'native'] as const) {
+		for (const [name, definition] of Object.entries(description[side])) {
+			const entry = documentDefinition(side, name, definition)
+			if (entry.kind === 'event') {
+				docs.events.push(entry)
+			} else {
+				docs.procedures.push(entry)
+			}
+		}
+	}
+
+	return docs
+}
+
+/**
+ * Qualified name of an entry, e.g. `native.share`
+ */
+function qualifiedName(entry: DocsEntry): string {
+	return `${entry.side}.${entry.name}`
+}
+
+/**
+ * Direction of an entry, e.g. `web → native`
+ */
+function direction(entry: DocsEntry): string {
+	return `${entry.from} → ${entry.to}`
+}
+
+/**
+ * Label of the input of an entry
+ */
+function inputLabel(entry: DocsEntry): string {
+	return entry.kind === 'event' ? 'Data' : 'Input'
+}
+
+/**
+ * Schemas of an entry, labelled in display order
+ */
+function schemasOf(entry: DocsEntry): [string, SchemaDescription][] {
+	const schemas: [string, SchemaDescription][] = [
+		[inputLabel(entry), entry.input],
+	]
+	if (entry.output) {
+		schemas.push([OUTPUT_LABELS[entry.kind], entry.output])
+	}
+	for (const [code, schema] of Object.entries(entry.errors ?? {})) {
+		schemas.push([`Error \`${code}\``, schema])
+	}
+	return schemas
+}
+
+/**
+ * Render one schema as Markdown
+ */
+function markdownSchema(label: string, schema: SchemaDescription): string {
+	const body = schema.jsonSchema
+		? `\`\`\`json\n${JSON.stringify(schema.jsonSchema, null, 2)}\n\`\`\``
+		: `_No JSON Schema available${schema.vendor ? ` (${schema.vendor})` : ''}_`
+	return `**${label}**\n\n${body}`
+}
+
+/**
+ * Render one section of entries as Markdown
+ */
+function markdownSection(heading: string, entries: DocsEntry[]): string[] {
+	if (entries.length === 0) {
+		return []
+	}
+
+	const lines = [
+		`## ${heading}`,
+		'',
+		'| Name | Kind | Direction |',
+		'| --- | --- | --- |',
+		...entries.map(
+			(entry) =>
+				`| \`${qualifiedName(entry)}\` | ${entry.kind} | ${direction(entry)} |`,
+		),
+	]
+	for (const entry of entries) {
+		lines.push(
+			'',
+			`### \`${qualifiedName(entry)}\``,
+			'',
+			`${entry.kind}, ${direction(entry)}`,
+		)
+		for (const [label, schema] of schemasOf(entry)) {
+			lines.push('', markdownSchema(label, schema))
+		}
+	}
+	return ['', ...lines]
+}
+
+/**
+ * Renders contract documentation as Markdown: a table of every procedure and
+ * event with its direction, followed by the JSON Schema of each.
+ *
+ * @param docs - Documentation from `generateContractDocs`
+ * @returns Markdown document
+ */
+export function renderMarkdown(docs: ContractDocs): string {
+	return `${[
+		`# ${docs.title}`,
+		...markdownSection('Procedures', docs.procedures),
+		...markdownSection('Events', docs.events),
+	].join('\n')}\n`
+}
+
+/**
+ * Escape text for HTML
+ */
+function escapeHtml(text: string): string {
+	return text
+		.replace(/&/g, '&amp;')
+		.replace(/</g, '&lt;')
+		.replace(/>/g, '&gt;')
+		.replace(/"/g, '&quot;')
+}
+
+/**
+ * Anchor of an entry in the HTML reference
+ */
+function anchor(entry: DocsEntry): string {
+	return escapeHtml(`${entry.side}-${entry.name}`)
+}
+
+/**
+ * Render one section of entries as HTML
+ */
+function htmlSection(heading: string, entries: DocsEntry[]): string[] {
+	if (entries.length === 0) {
+		return []
+	}
+
+	const lines = [
+		`<h2>${heading}</h2>`,
+		'<table>',
+		'<thead><tr><th>Name</th><th>Kind</th><th>Direction</th></tr></thead>',
+		'<tbody>',
+		...entries.map(
+			(entry) =>
+				`<tr><td><a href="#${anchor(entry)}"><code>${escapeHtml(qualifiedName(entry))}</code></a></td><td>${entry.kind}</td><td>${direction(entry)}</td></tr>`,
+		),
+		'</tbody>',
+		'</table>',
+	]
+	for (const entry of entries) {
+		lines.push(
+			`<section id="${anchor(entry)}">`,
+			`<h3><code>${escapeHtml(qualifiedName(entry))}</code></h3>`,
+			`<p>${entry.kind}, ${direction(entry)}</p>`,
+		)
+		for (const [label, schema] of schemasOf(entry)) {
+			const title = escapeHtml(label).replace(
+				/`([^`]*)`/g,
+				'<code>$1</code>',
+			)
+			lines.push(
+				`<h4>${title}</h4>`,
+				schema.jsonSchema
+					? `<pre><code>${escapeHtml(JSON.stringify(schema.jsonSchema, null, 2))}</code></pre>`
+					: `<p><em>No JSON Schema available${schema.vendor ? ` (${escapeHtml(schema.vendor)})` : ''}</em></p>`,
+			)
+		}
+		lines.push('</section>')
+	}
+	return lines
+}
+
+/**
+ * Renders contract documentation as a standalone HTML page, with the same
+ * content as `renderMarkdown`.
+ *
+ * @param docs - Documentation from `generateContractDocs`
+ * @returns HTML document
+ */
+export function renderHtml(docs: ContractDocs): string {
+	const title = escapeHtml(docs.title)
+	return `${[
+		'<!DOCTYPE html>',
+		'<html lang="en">',
+		'<head>',
+		'<meta charset="utf-8">',
+		`<title>${title}</title>`,
+		'<style>',
+		'body { font-family: system-ui, sans-serif; max-width: 60rem; margin: 2rem auto; padding: 0 1rem; }',
+		'table { border-collapse: collapse; }',
+		'th, td { border: 1px solid #ccc; padding: 0.25rem 0.75rem; text-align: left; }',
+		'pre { background: #f5f5f5; padding: 0.75rem; overflow-x: auto; }',
+		'</style>',
+		'</head>',
+		'<body>',
+		`<h1>${title}</h1>`,
+		...htmlSection('Procedures', docs.procedures),
+		...htmlSection('Events', docs.events),
+		'</body>',
+		'</html>',
+	].join('\n')}\n`
+}
@@ -1,9 +1,22 @@
 import { describe, it, expect } from 'vitest'
 import {
 	NotImplementedError,
+	RemoteError,
 	WebViewRPCError,
 	WebViewRPCTimeoutError,
+	WebViewRPCValidationError,
+	isRemoteError,
 } from './errors'
+import { procedure } from './procedure'
+import type { StandardSchemaV1 } from '@standard-schema/spec'
+
+const createMockSchema = (): StandardSchemaV1 => ({
+	'~standard': {
+		version: 1,
+		vendor: 'test',
+		validate: (value: unknown) => ({ value }),
+	},
+})
 
 describe('NotImplementedError', () => {
 	describe('construction', () => {
@@ -317,3 +330,71 @@ describe('WebViewRPCTimeoutError', () => {
 		})
 	})
 })
+
+describe('WebViewRPCValidationError', () => {
+	describe('construction', () => {
+		it('should create validation error with message and issues', () => {
+			// GIVEN: Creating WebViewRPCValidationError with issues
+			const issues = [{ message: 'Expected string', path: ['url'] }]
+			const error = new WebViewRPCValidationError('Invalid input', issues)
+
+			// THEN: Should have message, code, and issues
+			expect(error.message).toBe('Invalid input')
+			expect(error.code).toBe('VALIDATION_ERROR')
+			expect(error.issues).toEqual(issues)
+			expect(error.name).toBe('WebViewRPCValidationError')
+		})
+
+		it('should have correct prototype chain', () => {
+			// GIVEN: A WebViewRPCValidationError instance
+			const error = new WebViewRPCValidationError('test', [])
+
+			// THEN: Should pass instanceof for all parent classes
+			expect(Object.getPrototypeOf(error)).toBe(
+				WebViewRPCValidationError.prototype,
+			)
+			expect(error).toBeInstanceOf(WebViewRPCError)
+			expect(error).toBeInstanceOf(Error)
+		})
+	})
+})
+
+describe('RemoteError', () => {
+	describe('construction', () => {
+		it('should carry code and data, defaulting the message to the code', () => {
+			// GIVEN: A RemoteError with data
+			const error = new RemoteError('NOT_FOUND', { id: '1' })
+
+			// THEN: Code, data and message set
+			expect(error.code).toBe('NOT_FOUND')
+			expect(error.data).toEqual({ id: '1' })
+			expect(error.message).toBe('NOT_FOUND')
+			expect(error.name).toBe('RemoteError')
+			expect(error).toBeInstanceOf(WebViewRPCError)
+		})
+	})
+
+	describe('isRemoteError', () => {
+		it('should accept any RemoteError without a schema', () => {
+			// GIVEN: A RemoteError and a plain error
+			const error = new RemoteError('NOT_FOUND', undefined)
+
+			// THEN: Only the RemoteError matches
+			expect(isRemoteError(error)).toBe(true)
+			expect(isRemoteError(new WebViewRPCError('Failed', 'HANDLER_ERROR'))).toBe(
+				false,
+			)
+		})
+
+		it('should accept only codes declared by the procedure', () => {
+			// GIVEN: A procedure declaring NOT_FOUND
+			const getNote = procedure(createMockSchema())
+				.returns(createMockSchema())
+				.errors({ NOT_FOUND: createMockSchema() })
+
+			// THEN: Undeclared codes do not match
+			expect(isRemoteError(new RemoteError('NOT_FOUND', {}), getNote)).toBe(true)
+			expect(isRemoteError(new RemoteError('CONFLICT', {}), getNote)).toBe(false)
+		})
+	})
+})
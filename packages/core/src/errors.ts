@@ -3,6 +3,9 @@
  * @module errors
  */
 
+import type { StandardSchemaV1 } from '@standard-schema/spec'
+import type { InferOutput, ProcedureSchema } from './types'
+
 /**
  * Error thrown when a function is not yet implemented (used during TDD)
  */
@@ -41,3 +44,98 @@ export class WebViewRPCTimeoutError extends WebViewRPCError {
 		Object.setPrototypeOf(this, WebViewRPCTimeoutError.prototype)
 	}
 }
+
+/**
+ * Error thrown when a payload fails Standard Schema validation
+ */
+export class WebViewRPCValidationError extends WebViewRPCError {
+	issues: ReadonlyArray<StandardSchemaV1.Issue>
+
+	constructor(message: string, issues: ReadonlyArray<StandardSchemaV1.Issue>) {
+		super(message, 'VALIDATION_ERROR')
+		this.name = 'WebViewRPCValidationError'
+		this.issues = issues
+		Object.setPrototypeOf(this, WebViewRPCValidationError.prototype)
+	}
+}
+
+/**
+ * Typed error thrown by a procedure handler and rebuilt on the calling side.
+ *
+ * The code and data travel to the caller, which can narrow on the code with
+ * `isRemoteError`. Codes declared with `.errors()` on the procedure have their
+ * data validated like return values.
+ *
+ * @example
+ * ```typescript
+ * client.native.handle('getNote', async ({ id }) => {
+ *   const note = await db.find(id)
+ *   if (!note) throw new RemoteError('NOT_FOUND', { id }, `No note ${id}`)
+ *   return note
+ * })
+ * ```
+ */
+export class RemoteError<
+	TCode extends string = string,
+	TData = unknown,
+> extends WebViewRPCError {
+	declare code: TCode
+	data: TData
+
+	constructor(code: TCode, data: TData, message: string = code) {
+		super(message, code)
+		this.name = 'RemoteError'
+		this.data = data
+		Object.setPrototypeOf(this, RemoteError.prototype)
+	}
+}
+
+/**
+ * Discriminated union of the errors a procedure declares with `.errors()`,
+ * narrowed on `code`
+ */
+export type InferErrors<T> = T extends ProcedureSchema<
+	infer _TInput,
+	infer _TOutput,
+	infer TErrors
+>
+	? TErrors extends Record<string, StandardSchemaV1>
+		? {
+				[K in keyof TErrors & string]: RemoteError<K, InferOutput<TErrors[K]>>
+			}[keyof TErrors & string]
+		: RemoteError
+	: RemoteError
+
+/**
+ * Check whether a call failed with a `RemoteError`, optionally one declared by
+ * the given procedure, narrowing it to that procedure's error union.
+ *
+ * @param error - Error a call rejected with
+ * @param schema - Procedure whose declared error codes to accept
+ * @returns True if the error is a matching RemoteError
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await client.native.call('getNote', { id })
+ * } catch (error) {
+ *   if (isRemoteError(error, contract.native.getNote) && error.code === 'NOT_FOUND') {
+ *     showMissing(error.data.id)
+ *   }
+ * }
+ * ```
+ */
+export function isRemoteError<T = unknown>(
+	error: unknown,
+	schema?: T,
+): error is InferErrors<T> {
+	if (!(error instanceof RemoteError)) {
+		return false
+	}
+
+	const declared = (
+		schema as { _errorSchemas?: Record<string, unknown> } | undefined
+	)?._errorSchemas
+	return !declared || Object.prototype.hasOwnProperty.call(declared, error.code)
+}
+
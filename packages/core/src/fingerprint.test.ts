@@ -0,0 +1,217 @@
+import { describe, it, expect } from 'vitest'
+import type { StandardSchemaV1 } from '@standard-schema/spec'
+import { z } from 'zod'
+import {
+	describeContract,
+	getContractFingerprint,
+	getDescriptionFingerprint,
+} from './fingerprint'
+import { procedure } from './procedure'
+import { stream } from './stream'
+import { subscription } from './subscription'
+
+// Mock schemas for testing
+const createMockSchema = (): StandardSchemaV1 => ({
+	'~standard': {
+		version: 1,
+		vendor: 'test',
+		validate: (value: unknown) => ({ value }),
+	},
+})
+
+// Schema implementing the Standard JSON Schema interface
+const createDescribedSchema = (
+	jsonSchema: Record<string, unknown>,
+): StandardSchemaV1 =>
+	({
+		'~standard': {
+			version: 1,
+			vendor: 'test',
+			validate: (value: unknown) => ({ value }),
+			jsonSchema: {
+				input: () => ({
+					$schema: 'https://json-schema.org/draft/2020-12/schema',
+					...jsonSchema,
+				}),
+				output: () => jsonSchema,
+			},
+		},
+	}) as StandardSchemaV1
+
+describe('getContractFingerprint', () => {
+	it('should return an 8 character hex string', () => {
+		// GIVEN: A contract
+		const contract = { web: { pathChanged: createMockSchema() } }
+
+		// THEN: Fingerprint is hexadecimal
+		expect(getContractFingerprint(contract)).toMatch(/^[0-9a-f]{8}$/)
+	})
+
+	it('should match the fingerprint of the description', () => {
+		// GIVEN: A contract and its description
+		const contract = { web: { pathChanged: createMockSchema() } }
+
+		// THEN: Same fingerprint either way
+		expect(getDescriptionFingerprint(describeContract(contract))).toBe(
+			getContractFingerprint(contract),
+		)
+	})
+
+	it('should not depend on declaration order', () => {
+		// GIVEN: Same contract declared in different order
+		const a = {
+			web: { a: createMockSchema(), b: createMockSchema() },
+			native: { c: createMockSchema() },
+		}
+		const b = {
+			native: { c: createMockSchema() },
+			web: { b: createMockSchema(), a: createMockSchema() },
+		}
+
+		// THEN: Fingerprints match
+		expect(getContractFingerprint(a)).toBe(getContractFingerprint(b))
+	})
+
+	it('should change when a name is added or moved between sides', () => {
+		// GIVEN: Variations of a contract
+		const base = getContractFingerprint({ web: { a: createMockSchema() } })
+		const added = getContractFingerprint({
+			web: { a: createMockSchema(), b: createMockSchema() },
+		})
+		const moved = getContractFingerprint({ native: { a: createMockSchema() } })
+
+		// THEN: All differ
+		expect(added).not.toBe(base)
+		expect(moved).not.toBe(base)
+	})
+
+	it('should distinguish procedures from events', () => {
+		// GIVEN: Same name as event and as procedure
+		const event = getContractFingerprint({ web: { a: createMockSchema() } })
+		const proc = getContractFingerprint({
+			web: { a: procedure(createMockSchema()).returns(createMockSchema()) },
+		})
+
+		// THEN: Fingerprints differ
+		expect(proc).not.toBe(event)
+	})
+
+	it('should distinguish streams from procedures and events', () => {
+		// GIVEN: Same name as stream and as procedure
+		const proc = getContractFingerprint({
+			web: { a: procedure(createMockSchema()).returns(createMockSchema()) },
+		})
+		const streamed = getContractFingerprint({
+			web: { a: stream(createMockSchema()).yields(createMockSchema()) },
+		})
+
+		// THEN: Fingerprints differ
+		expect(streamed).not.toBe(proc)
+	})
+
+	it('should distinguish subscriptions from streams', () => {
+		// GIVEN: Same name as subscription and as stream
+		const streamed = getContractFingerprint({
+			web: { a: stream(createMockSchema()).yields(createMockSchema()) },
+		})
+		const subscribed = getContractFingerprint({
+			web: { a: subscription(createMockSchema()).emits(createMockSchema()) },
+		})
+
+		// THEN: Fingerprints differ
+		expect(subscribed).not.toBe(streamed)
+	})
+})
+
+
+describe('getContractFingerprint with JSON Schema', () => {
+	it('should change when a schema changes shape', () => {
+		// GIVEN: Same procedure with a required property added
+		const before = getContractFingerprint({
+			native: {
+				share: createDescribedSchema({
+					type: 'object',
+					properties: { url: { type: 'string' } },
+				}),
+			},
+		})
+		const after = getContractFingerprint({
+			native: {
+				share: createDescribedSchema({
+					type: 'object',
+					properties: { url: { type: 'string' } },
+					required: ['url'],
+				}),
+			},
+		})
+
+		// THEN: Fingerprints differ
+		expect(after).not.toBe(before)
+	})
+
+	it('should not depend on the key order of JSON Schemas', () => {
+		const a = createDescribedSchema({ type: 'string', minLength: 1 })
+		const b = createDescribedSchema({ minLength: 1, type: 'string' })
+
+		expect(getContractFingerprint({ web: { a } })).toBe(
+			getContractFingerprint({ web: { a: b } }),
+		)
+	})
+
+	it('should convert schemas with the given converter', () => {
+		// GIVEN: Zod schemas, converted with z.toJSONSchema
+		const contract = {
+			native: {
+				share: procedure(z.object({ url: z.string() })).returns(
+					z.object({ success: z.boolean() }),
+				),
+			},
+		}
+
+		// WHEN: Describing
+		const description = describeContract(contract, {
+			toJSONSchema: (schema, io) =>
+				z.toJSONSchema(schema as z.ZodType, { io }),
+		})
+
+		// THEN: Input and return value described without $schema
+		expect(description.native.share).toEqual({
+			kind: 'procedure',
+			input: {
+				vendor: 'zod',
+				jsonSchema: {
+					type: 'object',
+					properties: { url: { type: 'string' } },
+					required: ['url'],
+				},
+			},
+			output: {
+				vendor: 'zod',
+				jsonSchema: {
+					type: 'object',
+					properties: { success: { type: 'boolean' } },
+					required: ['success'],
+					additionalProperties: false,
+				},
+			},
+		})
+	})
+
+	it('should describe schemas without JSON Schema by vendor only', () => {
+		// GIVEN: Converter failing, as for schemas with transforms
+		const description = describeContract(
+			{ web: { pathChanged: createMockSchema() } },
+			{
+				toJSONSchema: () => {
+					throw new Error('Transforms cannot be represented')
+				},
+			},
+		)
+
+		// THEN: Vendor only
+		expect(description.web.pathChanged).toEqual({
+			kind: 'event',
+			input: { vendor: 'test' },
+		})
+	})
+})
@@ -0,0 +1,292 @@
+/**
+ * Contract fingerprinting utilities
+ * @module fingerprint
+ */
+
+import type { StandardSchemaV1 } from '@standard-schema/spec'
+import type { Contract, SchemaDefinition } from './types'
+import { isProcedure } from './types'
+import {
+	getChunkSchema,
+	getEmitSchema,
+	getKind,
+	getReturnSchema,
+} from './validation'
+
+/**
+ * Hash a string with 32-bit FNV-1a.
+ * Not cryptographic: only used to detect accidental mismatches.
+ *
+ * @param input - String to hash
+ * @returns 8 character hexadecimal hash
+ */
+export function hashString(input: string): string {
+	let hash = 0x811c9dc5
+	for (let i = 0; i < input.length; i++) {
+		hash ^= input.charCodeAt(i)
+		hash = Math.imul(hash, 0x01000193)
+	}
+	return (hash >>> 0).toString(16).padStart(8, '0')
+}
+
+/**
+ * JSON Schema document describing a schema
+ */
+export type JSONSchema = { [keyword: string]: unknown }
+
+/**
+ * Structural description of a Standard Schema: its JSON Schema where the
+ * library exposes one, otherwise only the library it comes from
+ */
+export interface SchemaDescription {
+	/**
+	 * Library implementing the schema
+	 */
+	vendor?: string
+
+	/**
+	 * JSON Schema of the values the schema accepts, without `$schema`
+	 */
+	jsonSchema?: JSONSchema
+}
+
+/**
+ * Kind of a name defined by a contract
+ */
+export type DefinitionKind = 'procedure' | 'stream' | 'subscription' | 'event'
+
+/**
+ * Structural description of a procedure, stream, subscription or event
+ */
+export interface DefinitionDescription {
+	kind: DefinitionKind
+
+	/**
+	 * Input of a procedure, stream or subscription, or data of an event
+	 */
+	input: SchemaDescription
+
+	/**
+	 * Return value, chunks or emitted data, if declared
+	 */
+	output?: SchemaDescription
+
+	/**
+	 * Data of the errors a procedure declares, by error code
+	 */
+	errors?: Record<string, SchemaDescription>
+}
+
+/**
+ * Structural description of a contract, stable across builds and safe to
+ * store as JSON
+ */
+export interface ContractDescription {
+	web: Record<string, DefinitionDescription>
+	native: Record<string, DefinitionDescription>
+}
+
+/**
+ * Options for describing the schemas of a contract
+ */
+export interface DescribeOptions {
+	/**
+	 * Convert a schema to JSON Schema, for libraries that only offer a
+	 * standalone converter, such as `z.toJSONSchema` in Zod 4.1. `io` tells
+	 * whether the schema describes values received (input) or produced (output).
+	 */
+	toJSONSchema?: (schema: StandardSchemaV1, io: 'input' | 'output') => unknown
+}
+
+/**
+ * Standard Schema optionally implementing the Standard JSON Schema interface
+ * or a `toJSONSchema` method
+ */
+type ConvertibleSchema = StandardSchemaV1 & {
+	'~standard': {
+		jsonSchema?: Partial<
+			Record<'input' | 'output', (options: { target: string }) => unknown>
+		>
+	}
+	toJSONSchema?: () => unknown
+	toJsonSchema?: () => unknown
+}
+
+/**
+ * Convert a schema to JSON Schema with the first converter available
+ */
+function toJSONSchema(
+	schema: StandardSchemaV1,
+	io: 'input' | 'output',
+	options: DescribeOptions,
+): unknown {
+	const convertible = schema as ConvertibleSchema
+	try {
+		if (options.toJSONSchema) {
+			return options.toJSONSchema(schema, io)
+		}
+		const standard = convertible['~standard'].jsonSchema?.[io]
+		if (standard) {
+			return standard({ target: 'draft-2020-12' })
+		}
+		// Zod 4.2+ and ArkType
+		return convertible.toJSONSchema?.() ?? convertible.toJsonSchema?.()
+	} catch {
+		// Schemas with transforms or custom checks may have no JSON Schema
+		return undefined
+	}
+}
+
+/**
+ * Describe one schema
+ */
+function describeSchema(
+	schema: StandardSchemaV1,
+	io: 'input' | 'output',
+	options: DescribeOptions,
+): SchemaDescription {
+	const description: SchemaDescription = {
+		vendor: schema['~standard'].vendor,
+	}
+	const jsonSchema = toJSONSchema(schema, io, options)
+	if (typeof jsonSchema === 'object' && jsonSchema !== null) {
+		const { $schema: _draft, ...rest } = jsonSchema as JSONSchema
+		description.jsonSchema = rest
+	}
+	return description
+}
+
+/**
+ * Describe a procedure, stream, subscription or event
+ */
+function describeDefinition(
+	schema: SchemaDefinition,
+	options: DescribeOptions,
+): DefinitionDescription {
+	const description: DefinitionDescription = {
+		kind: getKind(schema),
+		input: describeSchema(schema, 'input', options),
+	}
+
+	const output =
+		getReturnSchema(schema) ?? getChunkSchema(schema) ?? getEmitSchema(schema)
+	if (output) {
+		description.output = describeSchema(output, 'output', options)
+	}
+	if (isProcedure(schema) && schema._errorSchemas) {
+		description.errors = {}
+		for (const code of Object.keys(schema._errorSchemas)) {
+			description.errors[code] = describeSchema(
+				schema._errorSchemas[code],
+				'output',
+				options,
+			)
+		}
+	}
+	return description
+}
+
+/**
+ * Describes the structure of a contract: the kind of every name on each side
+ * and the schemas it carries.
+ *
+ * Schemas are described by their JSON Schema, taken from the Standard JSON
+ * Schema interface, a `toJSONSchema` method or `options.toJSONSchema`.
+ * Schemas without one are only described by their vendor.
+ *
+ * @param contract - Contract to describe
+ * @param options - JSON Schema conversion
+ * @returns Contract description
+ *
+ * @example
+ * ```typescript
+ * import { z } from 'zod'
+ *
+ * // Store with the native release, compare against later web builds
+ * const description = describeContract(contract, {
+ *   toJSONSchema: (schema, io) => z.toJSONSchema(schema as z.ZodType, { io }),
+ * })
+ * ```
+ */
+export function describeContract(
+	contract: Contract,
+	options: DescribeOptions = {},
+): ContractDescription {
+	const description: ContractDescription = { web: {}, native: {} }
+
+	for (const side of ['web', 'native'] as const) {
+		const definitions = contract[side] as
+			| Record<string, SchemaDefinition>
+			| undefined
+		if (!definitions) {
+			continue
+		}
+
+		for (const name of Object.keys(definitions).sort()) {
+			description[side][name] = describeDefinition(definitions[name], options)
+		}
+	}
+
+	return description
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted, so equal structures
+ * always serialize the same
+ *
+ * @param value - JSON value
+ * @returns Canonical JSON string
+ */
+export function stableStringify(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(stableStringify).join(',')}]`
+	}
+	if (typeof value === 'object' && value !== null) {
+		const entries = Object.keys(value)
+			.sort()
+			.filter((key) => (value as JSONSchema)[key] !== undefined)
+			.map(
+				(key) =>
+					`${JSON.stringify(key)}:${stableStringify((value as JSONSchema)[key])}`,
+			)
+		return `{${entries.join(',')}}`
+	}
+	return JSON.stringify(value) ?? 'null'
+}
+
+/**
+ * Derives a stable fingerprint from the structure of a contract.
+ *
+ * The fingerprint covers every name on each side, whether it is a procedure,
+ * a stream, a subscription or an event, and the JSON Schema of each of its
+ * schemas where available (see `describeContract`). It does not depend on
+ * declaration order, so two bundles built from the same contract always agree.
+ *
+ * @param contract - Contract to fingerprint
+ * @param options - JSON Schema conversion
+ * @returns Hexadecimal fingerprint string
+ *
+ * @example
+ * ```typescript
+ * const fingerprint = getContractFingerprint(contract) // "9b1c3f0a"
+ * ```
+ */
+export function getContractFingerprint(
+	contract: Contract,
+	options?: DescribeOptions,
+): string {
+	return getDescriptionFingerprint(describeContract(contract, options))
+}
+
+/**
+ * Derives the fingerprint of a contract from its description, for callers
+ * that already described the contract
+ *
+ * @param description - Description returned by `describeContract`
+ * @returns Hexadecimal fingerprint string, as `getContractFingerprint` returns
+ */
+export function getDescriptionFingerprint(
+	description: ContractDescription,
+): string {
+	return hashString(stableStringify(description))
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest'
+import { WebViewRPCError } from './errors'
+import type { ContractDescription } from './fingerprint'
+import {
+	PROTOCOL_VERSION,
+	createHandshakeMessage,
+	verifyHandshake,
+} from './handshake'
+
+// Local web build: navigate served, share called
+const description: ContractDescription = {
+	web: { navigate: { kind: 'procedure', input: {} } },
+	native: { share: { kind: 'procedure', input: {} } },
+}
+
+describe('handshake', () => {
+	describe('createHandshakeMessage', () => {
+		it('should create hello message with protocol version and fingerprint', () => {
+			// WHEN: Creating a hello
+			const hello = createHandshakeMessage('hello', 'abc')
+
+			// THEN: Should carry version and fingerprint
+			expect(hello).toMatchObject({
+				type: 'hello',
+				version: PROTOCOL_VERSION,
+				fingerprint: 'abc',
+			})
+			expect(hello.id).toBeTypeOf('string')
+			expect(hello.timestamp).toBeTypeOf('number')
+		})
+
+		it('should reuse provided id for ready replies', () => {
+			// WHEN: Creating a ready reply
+			const ready = createHandshakeMessage('ready', 'abc', 'hello-id')
+
+			// THEN: Should echo hello id
+			expect(ready.id).toBe('hello-id')
+			expect(ready.type).toBe('ready')
+		})
+
+		it('should announce encodings and names only when given', () => {
+			// WHEN: Creating handshakes with and without details
+			const hello = createHandshakeMessage('hello', 'abc', undefined, {
+				encodings: ['lzw'],
+				names: ['share'],
+			})
+			const plain = createHandshakeMessage('hello', 'abc')
+
+			// THEN: Details carried only by the first
+			expect(hello.encodings).toEqual(['lzw'])
+			expect(hello.names).toEqual(['share'])
+			expect(plain).not.toHaveProperty('encodings')
+			expect(plain).not.toHaveProperty('names')
+		})
+	})
+
+	describe('verifyHandshake', () => {
+		it('should accept matching version and fingerprint', () => {
+			// GIVEN: Matching handshake
+			const message = createHandshakeMessage('ready', 'abc')
+
+			// THEN: No error
+			expect(verifyHandshake(message, 'abc')).toBeUndefined()
+		})
+
+		it('should report PROTOCOL_MISMATCH for different versions', () => {
+			// GIVEN: Handshake from a newer protocol
+			const message = {
+				...createHandshakeMessage('hello', 'abc'),
+				version: PROTOCOL_VERSION + 1,
+			}
+
+			// WHEN: Verifying
+			const error = verifyHandshake(message, 'abc')
+
+			// THEN: Mismatch error
+			expect(error).toBeInstanceOf(WebViewRPCError)
+			expect(error?.code).toBe('PROTOCOL_MISMATCH')
+			expect(error?.message).toContain('Protocol version mismatch')
+		})
+
+		it('should accept different fingerprints without descriptions', () => {
+			// GIVEN: Handshake with another fingerprint, from an older build
+			const message = createHandshakeMessage('hello', 'def')
+
+			// WHEN: Verifying
+			// THEN: No error
+			expect(verifyHandshake(message, 'abc')).toBeUndefined()
+		})
+
+		it('should accept names only one side defines', () => {
+			// GIVEN: Other side defining an extra procedure
+			const message = createHandshakeMessage('hello', 'def', undefined, {
+				contract: {
+					web: { navigate: { kind: 'procedure', input: {} } },
+					native: {
+						share: { kind: 'procedure', input: {} },
+						print: { kind: 'procedure', input: {} },
+					},
+				},
+			})
+
+			// WHEN: Verifying
+			const error = verifyHandshake(message, 'abc', {
+				side: 'web',
+				description,
+			})
+
+			// THEN: No error
+			expect(error).toBeUndefined()
+		})
+
+		it('should report PROTOCOL_MISMATCH for breaking changes to shared names', () => {
+			// GIVEN: Other side where share became an event
+			const message = createHandshakeMessage('hello', 'def', undefined, {
+				contract: {
+					web: { navigate: { kind: 'procedure', input: {} } },
+					native: { share: { kind: 'event', input: {} } },
+				},
+			})
+
+			// WHEN: Verifying
+			const error = verifyHandshake(message, 'abc', {
+				side: 'web',
+				description,
+			})
+
+			// THEN: Mismatch error naming the change
+			expect(error?.code).toBe('PROTOCOL_MISMATCH')
+			expect(error?.message).toMatch(/^Contract mismatch: .*native\.share/)
+		})
+	})
+})
@@ -0,0 +1,158 @@
+/**
+ * Handshake protocol between the web and native clients
+ * @module handshake
+ */
+
+import { type ContractChange, compareContracts } from './compatibility'
+import { WebViewRPCError } from './errors'
+import type { ContractDescription } from './fingerprint'
+import { generateCorrelationId } from './message'
+import type { PeerSide } from './peer'
+import type { HandshakeMessage } from './types'
+
+/**
+ * Version of the wire protocol spoken by this build.
+ * Bumped whenever the message envelope changes incompatibly.
+ */
+export const PROTOCOL_VERSION = 1
+
+/**
+ * Optional capabilities announced in a handshake message
+ */
+export interface HandshakeDetails {
+	/**
+	 * Compression encodings the transport can read
+	 */
+	encodings?: string[]
+
+	/**
+	 * Names the local side of the contract defines
+	 */
+	names?: string[]
+
+	/**
+	 * Description of the local contract, compared by the other side when the
+	 * fingerprints differ
+	 */
+	contract?: ContractDescription
+}
+
+/**
+ * Local build a handshake message is checked against
+ */
+export interface LocalContract {
+	/**
+	 * Side of the contract this build implements
+	 */
+	side: PeerSide
+
+	/**
+	 * Description of the local contract
+	 */
+	description: ContractDescription
+}
+
+/**
+ * Creates a handshake message announcing this client's protocol version, contract
+ * fingerprint and, optionally, the compression encodings it can read, the names it
+ * defines and the description of its contract.
+ *
+ * @param type - 'hello' to initiate the handshake, 'ready' to acknowledge one
+ * @param fingerprint - Fingerprint of the local contract
+ * @param id - Correlation ID (a 'ready' reply reuses the id of the 'hello')
+ * @param details - Encodings and names to announce
+ * @returns Handshake message
+ *
+ * @example
+ * ```typescript
+ * const hello = createHandshakeMessage('hello', getContractFingerprint(contract))
+ * const ready = createHandshakeMessage('ready', fingerprint, hello.id)
+ * ```
+ */
+export function createHandshakeMessage<TType extends HandshakeMessage['type']>(
+	type: TType,
+	fingerprint: string,
+	id: string = generateCorrelationId(),
+	details: HandshakeDetails = {},
+): Extract<HandshakeMessage, { type: TType }> {
+	const message = {
+		id,
+		type,
+		version: PROTOCOL_VERSION,
+		fingerprint,
+		timestamp: Date.now(),
+	} as Extract<HandshakeMessage, { type: TType }>
+	if (details.encodings) {
+		message.encodings = details.encodings
+	}
+	if (details.names) {
+		message.names = details.names
+	}
+	if (details.contract) {
+		message.contract = details.contract
+	}
+	return message
+}
+
+/**
+ * Breaking changes between two builds, judged for what each side sends: calls
+ * and events of this side's code against the other side's definitions, and the
+ * other way round. Names only one side defines are left out, as calls to them
+ * are checked one by one against the names the other side announced.
+ */
+function findBreakingChanges(
+	local: LocalContract,
+	remote: ContractDescription,
+): ContractChange[] {
+	const remoteSide: PeerSide = local.side === 'web' ? 'native' : 'web'
+	const used = compareContracts(local.description, remote).changes.filter(
+		(change) => change.side === remoteSide,
+	)
+	const served = compareContracts(remote, local.description).changes.filter(
+		(change) => change.side === local.side,
+	)
+	return [...used, ...served].filter(
+		(change) =>
+			change.breaking && change.type !== 'added' && change.type !== 'removed',
+	)
+}
+
+/**
+ * Checks a handshake message received from the other side against the local build.
+ *
+ * Different protocol versions cannot talk. Different contracts usually can, so
+ * when the fingerprints differ the two descriptions are compared, and only
+ * breaking changes to a name both sides define fail the handshake. Without a
+ * description on either side the difference cannot be judged and is accepted.
+ *
+ * @param message - Handshake message from the other side
+ * @param fingerprint - Fingerprint of the local contract
+ * @param local - Side and description of the local contract
+ * @returns A PROTOCOL_MISMATCH error if the two sides cannot talk, otherwise undefined
+ */
+export function verifyHandshake(
+	message: HandshakeMessage,
+	fingerprint: string,
+	local?: LocalContract,
+): WebViewRPCError | undefined {
+	if (message.version !== PROTOCOL_VERSION) {
+		return new WebViewRPCError(
+			`Protocol version mismatch: local ${PROTOCOL_VERSION}, remote ${message.version}`,
+			'PROTOCOL_MISMATCH',
+		)
+	}
+
+	if (message.fingerprint === fingerprint || !local || !message.contract) {
+		return undefined
+	}
+
+	const breaking = findBreakingChanges(local, message.contract)
+	if (breaking.length > 0) {
+		return new WebViewRPCError(
+			`Contract mismatch: ${breaking.map((change) => change.message).join('; ')}`,
+			'PROTOCOL_MISMATCH',
+		)
+	}
+
+	return undefined
+}
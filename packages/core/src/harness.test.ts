@@ -0,0 +1,128 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { StandardSchemaV1 } from '@standard-schema/spec'
+import { defineContract } from './contract'
+import { WebViewRPCTimeoutError } from './errors'
+import { createTestHarness } from './harness'
+import { type PeerSide, createPeer } from './peer'
+import { procedure } from './procedure'
+import type { Transport } from './transport'
+
+// Typed schema without runtime validation
+const createMockSchema = <T>(): StandardSchemaV1<T> => ({
+	'~standard': {
+		version: 1,
+		vendor: 'test',
+		validate: (value: unknown) => ({ value: value as T }),
+	},
+})
+
+const contract = defineContract({
+	web: {
+		navigate: procedure(createMockSchema<{ path: string }>()).returns(
+			createMockSchema<{ success: boolean }>(),
+		),
+	},
+	native: {
+		share: procedure(createMockSchema<{ url: string }>()).returns(
+			createMockSchema<{ success: boolean }>(),
+		),
+		appStateChange: createMockSchema<{ state: string }>(),
+	},
+})
+
+describe('createTestHarness', () => {
+	it('should complete the handshake between both peers', async () => {
+		// GIVEN: Harness
+		const harness = createTestHarness(contract)
+
+		// THEN: Both sides ready
+		await expect(harness.ready).resolves.toBeUndefined()
+		expect(harness.transport.traffic.map((entry) => entry.message.type)).toEqual([
+			'hello',
+			'ready',
+		])
+		harness.close()
+	})
+
+	it('should call procedures in both directions', async () => {
+		// GIVEN: Handlers on each side
+		const harness = createTestHarness(contract)
+		harness.native.handle('share', ({ url }) => ({ success: url !== '' }))
+		harness.web.handle('navigate', async () => ({ success: true }))
+
+		// THEN: Calls resolve across the link
+		await expect(
+			harness.web.call('share', { url: 'https://example.com' }),
+		).resolves.toEqual({ success: true })
+		await expect(
+			harness.native.call('navigate', { path: '/home' }),
+		).resolves.toEqual({ success: true })
+		harness.close()
+	})
+
+	it('should deliver events', async () => {
+		// GIVEN: Web listening to native events
+		const harness = createTestHarness(contract)
+		const listener = vi.fn()
+		harness.web.on('appStateChange', listener)
+
+		// WHEN: Native emits
+		harness.native.emit('appStateChange', { state: 'active' })
+		await harness.transport.settle()
+
+		// THEN: Listener notified
+		expect(listener).toHaveBeenCalledWith({ state: 'active' })
+		harness.close()
+	})
+
+	it('should pass options to each peer and the link', async () => {
+		// GIVEN: Responses dropped and a short web timeout
+		vi.useFakeTimers()
+		const harness = createTestHarness(contract, {
+			web: { timeout: 50 },
+			transport: { drop: (message) => message.type === 'response' },
+		})
+		harness.native.handle('share', () => ({ success: true }))
+
+		// WHEN: Calling
+		const promise = harness.web.call('share', { url: 'https://example.com' })
+		const assertion = expect(promise).rejects.toBeInstanceOf(
+			WebViewRPCTimeoutError,
+		)
+		await vi.advanceTimersByTimeAsync(51)
+
+		// THEN: Times out, response logged as dropped
+		await assertion
+		expect(
+			harness.transport.traffic.find(
+				(entry) => entry.message.type === 'response',
+			)?.status,
+		).toBe('dropped')
+		harness.close()
+		vi.useRealTimers()
+	})
+
+	it('should link clients created on each end of the link', async () => {
+		// GIVEN: Client factories wrapping peers
+		const createClient =
+			<TSide extends PeerSide>(side: TSide) =>
+			(transport: Transport) => {
+				const peer = createPeer(contract, { transport, side })
+				return { peer, ready: peer.ready, cleanup: vi.fn(peer.close) }
+			}
+		const harness = createTestHarness(contract, {
+			clients: { web: createClient('web'), native: createClient('native') },
+		})
+		harness.native.peer.handle('share', () => ({ success: true }))
+
+		// WHEN: Calling through the clients
+		await harness.ready
+		const result = await harness.web.peer.call('share', { url: '/a' })
+		harness.close()
+
+		// THEN: Clients linked and cleaned up
+		expect(result).toEqual({ success: true })
+		expect(harness.web.cleanup).toHaveBeenCalled()
+		expect(harness.native.cleanup).toHaveBeenCalled()
+	})
+})
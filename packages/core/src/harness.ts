@@ -0,0 +1,228 @@
+/**
+ * Test harness wiring the web and native sides together in memory
+ * @module harness
+ */
+
+import {
+	type MemoryTransportOptions,
+	type MemoryTransportPair,
+	createMemoryTransportPair,
+} from './memory'
+import { type Peer, type PeerOptions, createPeer } from './peer'
+import type { Transport } from './transport'
+import type { Contract } from './types'
+
+/**
+ * Peer options for one side of a test harness
+ */
+export type HarnessPeerOptions = Omit<PeerOptions, 'transport' | 'side'>
+
+/**
+ * Client the harness links in place of a bare peer, such as the clients
+ * returned by `createWebClient` and `createNativeClient`
+ */
+export interface HarnessClient {
+	/**
+	 * Resolves once the client completed the handshake
+	 */
+	readonly ready: Promise<void>
+
+	/**
+	 * Close the client
+	 */
+	cleanup: () => void
+}
+
+/**
+ * Factories creating each side's client on its end of the link, typically by
+ * passing the end as the client's `transport` option
+ */
+export interface HarnessClients<
+	TWeb extends HarnessClient,
+	TNative extends HarnessClient,
+> {
+	/**
+	 * Creates the web client
+	 */
+	web: (transport: Transport) => TWeb
+
+	/**
+	 * Creates the native client
+	 */
+	native: (transport: Transport) => TNative
+}
+
+/**
+ * Options for creating a test harness
+ */
+export interface TestHarnessOptions {
+	/**
+	 * Options of the web peer
+	 */
+	web?: HarnessPeerOptions
+
+	/**
+	 * Options of the native peer
+	 */
+	native?: HarnessPeerOptions
+
+	/**
+	 * Latency, drop filter, serialization and error handler of the link
+	 */
+	transport?: MemoryTransportOptions
+}
+
+/**
+ * Options for creating a test harness around clients
+ */
+export interface ClientTestHarnessOptions<
+	TWeb extends HarnessClient,
+	TNative extends HarnessClient,
+> {
+	/**
+	 * Factories of the clients to link
+	 */
+	clients: HarnessClients<TWeb, TNative>
+
+	/**
+	 * Latency, drop filter, serialization and error handler of the link
+	 */
+	transport?: MemoryTransportOptions
+}
+
+/**
+ * Web and native sides linked in memory
+ */
+export interface TestHarness<
+	TContract extends Contract,
+	TWeb = Peer<TContract, 'web'>,
+	TNative = Peer<TContract, 'native'>,
+> {
+	/**
+	 * Peer or client implementing the web side of the contract
+	 */
+	web: TWeb
+
+	/**
+	 * Peer or client implementing the native side of the contract
+	 */
+	native: TNative
+
+	/**
+	 * Link between the sides, with traffic log and fault injection controls
+	 */
+	transport: MemoryTransportPair
+
+	/**
+	 * Resolves once both sides completed the handshake
+	 */
+	ready: Promise<void>
+
+	/**
+	 * Close both sides
+	 */
+	close: () => void
+}
+
+/**
+ * Creates the web and native sides of a contract, linked by an in-memory
+ * transport pair, to test handlers and calls without a DOM or a device.
+ *
+ * Pass `clients` to link the real clients: each factory receives its end of
+ * the link to use as the client's `transport`, so kind checks, handler
+ * registries, duplicate handler policies and reload handling all take part.
+ * Without `clients`, the harness links the bare peers the clients are built on.
+ *
+ * @param contract - The shared RPC contract
+ * @param options - Client factories or options of each peer, and options of
+ * the link
+ * @returns Test harness
+ *
+ * @example
+ * ```typescript
+ * const harness = createTestHarness(contract, {
+ *   clients: {
+ *     web: (transport) => createWebClient(contract, { transport }),
+ *     native: (transport) =>
+ *       createNativeClient({ contract, webViewRef: { current: null }, transport }),
+ *   },
+ * })
+ *
+ * harness.native.native.handle('share', async ({ url }) => ({ success: true }))
+ *
+ * await expect(harness.web.native.call('share', { url: 'https://example.com' }))
+ *   .resolves.toEqual({ success: true })
+ *
+ * harness.close()
+ * ```
+ */
+export function createTestHarness<
+	TContract extends Contract,
+	TWeb extends HarnessClient,
+	TNative extends HarnessClient,
+>(
+	contract: TContract,
+	options: ClientTestHarnessOptions<TWeb, TNative>,
+): TestHarness<TContract, TWeb, TNative>
+export function createTestHarness<TContract extends Contract>(
+	contract: TContract,
+	options?: TestHarnessOptions,
+): TestHarness<TContract>
+export function createTestHarness(
+	contract: Contract,
+	options:
+		| TestHarnessOptions
+		| ClientTestHarnessOptions<HarnessClient, HarnessClient> = {},
+): TestHarness<Contract, unknown, unknown> {
+	const transport = createMemoryTransportPair(options.transport)
+
+	if ('clients' in options) {
+		const native = options.clients.native(transport.native)
+		const web = options.clients.web(transport.web)
+
+		return {
+			web,
+			native,
+			transport,
+			ready: whenReady(web.ready, native.ready),
+			close: () => {
+				web.cleanup()
+				native.cleanup()
+			},
+		}
+	}
+
+	const native = createPeer(contract, {
+		serializer: options.transport?.serializer,
+		...options.native,
+		transport: transport.native,
+		side: 'native',
+	})
+	const web = createPeer(contract, {
+		serializer: options.transport?.serializer,
+		...options.web,
+		transport: transport.web,
+		side: 'web',
+	})
+
+	return {
+		web,
+		native,
+		transport,
+		ready: whenReady(web.ready, native.ready),
+		close: () => {
+			web.close()
+			native.close()
+		},
+	}
+}
+
+/**
+ * Resolves once both sides are ready
+ */
+function whenReady(web: Promise<void>, native: Promise<void>): Promise<void> {
+	const ready = Promise.all([web, native]).then(() => {})
+	// Avoid unhandled rejections when nobody awaits `ready`
+	ready.catch(() => {})
+	return ready
+}
@@ -9,43 +9,255 @@
  */
 
 // Contract definition
-export { defineContract } from './contract'
+export { defineContract, mergeContracts } from './contract'
 export { procedure } from './procedure'
+export { stream } from './stream'
+export { subscription } from './subscription'
 
 // Message utilities
 export { generateCorrelationId } from './message'
 
+// Handshake utilities
+export {
+	PROTOCOL_VERSION,
+	createHandshakeMessage,
+	verifyHandshake,
+	type HandshakeDetails,
+	type LocalContract,
+} from './handshake'
+export {
+	describeContract,
+	getContractFingerprint,
+	getDescriptionFingerprint,
+	type ContractDescription,
+	type DefinitionDescription,
+	type DefinitionKind,
+	type DescribeOptions,
+	type JSONSchema,
+	type SchemaDescription,
+} from './fingerprint'
+export {
+	compareContracts,
+	type ContractChange,
+	type ContractChangeType,
+	type ContractComparison,
+} from './compatibility'
+
+// Documentation
+export {
+	generateContractDocs,
+	renderHtml,
+	renderMarkdown,
+	type ContractDocs,
+	type ContractDocsOptions,
+	type DocsEntry,
+} from './docs'
+
 // Error classes
 export {
 	NotImplementedError,
+	RemoteError,
+	isRemoteError,
+	type InferErrors,
 	WebViewRPCError,
 	WebViewRPCTimeoutError,
+	WebViewRPCValidationError,
 } from './errors'
 
+// Outbound queue
+export {
+	createOutboundQueue,
+	type OutboundQueue,
+	type QueueDropPolicy,
+	type QueueOptions,
+} from './queue'
+
+// Batching
+export {
+	createBatcher,
+	createBatchMessage,
+	type Batcher,
+	type BatchOptions,
+} from './batch'
+
+// Chunked transfer
+export {
+	DEFAULT_CHUNK_THRESHOLD,
+	createReassembler,
+	isChunkFrame,
+	splitMessage,
+	type ChunkFrame,
+	type ChunkingOptions,
+	type Reassembler,
+	type ReassemblerOptions,
+	type TransferProgress,
+} from './chunking'
+
+// Compression
+export {
+	COMPRESSION_ENCODING,
+	DEFAULT_COMPRESSION_THRESHOLD,
+	compressText,
+	createCompressor,
+	decompressText,
+	isCompressedFrame,
+	type CompressedFrame,
+	type CompressionOptions,
+	type CompressionStats,
+	type Compressor,
+} from './compression'
+
+// Middleware
+export type {
+	MessageDirection,
+	Middleware,
+	MiddlewareContext,
+	MiddlewareHook,
+} from './middleware'
+
+// Peer
+export {
+	createPeer,
+	type CallOptions,
+	type HandlerContext,
+	type Peer,
+	type PeerHandler,
+	type PeerOptions,
+	type PeerSide,
+	type RemoteSide,
+	type StreamHandler,
+	type StreamOptions,
+	type SubscribeOptions,
+	type SubscriptionContext,
+	type SubscriptionHandler,
+	type UnknownProcedurePolicy,
+} from './peer'
+
+// Proxy API
+export {
+	createEmitProxy,
+	createProcedureProxy,
+	type EmitProxy,
+	type ProcedureProxy,
+	type ProxyMethod,
+	type ProxyTarget,
+} from './proxy'
+
+// Testing utilities
+export {
+	createMemoryTransportPair,
+	type MemoryTransportOptions,
+	type MemoryTransportPair,
+	type MessageFilter,
+	type TrafficEntry,
+	type TrafficStatus,
+} from './memory'
+export {
+	createTestHarness,
+	type ClientTestHarnessOptions,
+	type HarnessClient,
+	type HarnessClients,
+	type HarnessPeerOptions,
+	type TestHarness,
+	type TestHarnessOptions,
+} from './harness'
+
+// Validation utilities
+export {
+	checkKind,
+	getChunkSchema,
+	getEmitSchema,
+	getErrorSchema,
+	getKind,
+	getReturnSchema,
+	getSchema,
+	shouldValidate,
+	validateSchema,
+	type ValidationOptions,
+	type ValidationSetting,
+	type ValidationStage,
+} from './validation'
+
+// Binary payloads
+export {
+	binaryDeserializer,
+	binarySerializer,
+	containsBlob,
+	decodeBinary,
+	encodeBinary,
+	fromBase64,
+	isEncodedBinary,
+	readBlobs,
+	toBase64,
+	type BinaryData,
+	type BinaryKind,
+	type EncodedBinary,
+} from './binary'
+
+// Rich serialization (also available from '@webview-rpc/core/transport')
+export {
+	RICH_FORMAT_VERSION,
+	createRichSerializer,
+	richDeserializer,
+	richSerializer,
+	type RichSerializerOptions,
+	type RichSerializerPair,
+	type RichType,
+} from './rich'
+
 // Transport utilities
 export {
+	DEFAULT_CHANNEL,
+	isChannelMessage,
 	defaultSerializer,
 	defaultDeserializer,
 	type Serializer,
 	type Deserializer,
+	type Transport,
 } from './transport'
 
 // Type definitions
 export type {
 	Contract,
+	ContractNamespace,
+	FlattenContract,
+	FlattenDefinitions,
+	MergeContracts,
+	UniqueNames,
 	Message,
 	MessageType,
 	RequestMessage,
 	ResponseMessage,
 	EventMessage,
+	HelloMessage,
+	ReadyMessage,
+	HandshakeMessage,
+	CancelMessage,
+	StreamChunkMessage,
+	StreamEndMessage,
+	StreamErrorMessage,
+	StreamCreditMessage,
+	StreamMessage,
+	BatchMessage,
+	ErrorPayload,
+	ErrorSchemas,
 	SchemaDefinition,
 	ProcedureSchema,
+	StreamSchema,
+	SubscriptionSchema,
+	ProcedureNames,
+	StreamNames,
+	SubscriptionNames,
+	EventNames,
 	BaseMessage,
 	InferInput,
 	InferOutput,
 	InferReturns,
+	InferChunk,
+	InferEmits,
+	ReceivedBlobs,
 } from './types'
 
 export type { StandardSchemaV1 } from '@standard-schema/spec'
 
-export { isProcedure } from './types'
+export { isProcedure, isStream, isSubscription } from './types'
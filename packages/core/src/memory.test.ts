@@ -0,0 +1,168 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { createMemoryTransportPair } from './memory'
+import type { EventMessage, Message } from './types'
+
+const createEvent = (id: string): EventMessage => ({
+	id,
+	type: 'event',
+	event: 'pathChanged',
+	data: { path: `/${id}` },
+})
+
+describe('createMemoryTransportPair', () => {
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it('should deliver messages to the other end on the next microtask', async () => {
+		// GIVEN: Listener on the native end
+		const link = createMemoryTransportPair()
+		const listener = vi.fn()
+		link.native.subscribe(listener)
+
+		// WHEN: Web sends
+		link.web.send(createEvent('1'))
+
+		// THEN: Delivered asynchronously as a copy
+		expect(listener).not.toHaveBeenCalled()
+		await link.settle()
+		expect(listener).toHaveBeenCalledWith(createEvent('1'))
+		expect(listener.mock.calls[0][0]).not.toBe(link.traffic[0].message)
+		expect(link.traffic[0]).toMatchObject({
+			from: 'web',
+			to: 'native',
+			status: 'delivered',
+		})
+	})
+
+	it('should fail on send when the message cannot be serialized', () => {
+		// GIVEN: Message with a circular reference
+		const link = createMemoryTransportPair()
+		const data: Record<string, unknown> = {}
+		data.self = data
+
+		// THEN: Send throws like the real bridge
+		expect(() =>
+			link.web.send({ id: '1', type: 'event', event: 'x', data }),
+		).toThrow()
+	})
+
+	it('should delay delivery by the configured latency', () => {
+		// GIVEN: Link with latency
+		vi.useFakeTimers()
+		const link = createMemoryTransportPair({ latency: 100 })
+		const listener = vi.fn()
+		link.web.subscribe(listener)
+
+		// WHEN: Native sends
+		link.native.send(createEvent('1'))
+		vi.advanceTimersByTime(99)
+
+		// THEN: Delivered only after latency
+		expect(listener).not.toHaveBeenCalled()
+		vi.advanceTimersByTime(1)
+		expect(listener).toHaveBeenCalledTimes(1)
+	})
+
+	it('should drop messages matching the drop filter', async () => {
+		// GIVEN: Filter dropping the second message
+		const link = createMemoryTransportPair({
+			drop: (message) => message.id === '2',
+		})
+		const received: Message[] = []
+		link.native.subscribe((message) => received.push(message))
+
+		// WHEN: Sending three messages, then clearing the filter
+		link.web.send(createEvent('1'))
+		link.web.send(createEvent('2'))
+		link.drop()
+		link.web.send(createEvent('2'))
+		await link.settle()
+
+		// THEN: Dropped message logged
+		expect(received.map((message) => message.id)).toEqual(['1', '2'])
+		expect(link.traffic.map((entry) => entry.status)).toEqual([
+			'delivered',
+			'dropped',
+			'delivered',
+		])
+	})
+
+	it('should hold messages and release them reordered', async () => {
+		// GIVEN: Held messages
+		const link = createMemoryTransportPair()
+		const received: Message[] = []
+		link.native.subscribe((message) => received.push(message))
+		link.hold()
+		link.web.send(createEvent('1'))
+		link.web.send(createEvent('2'))
+		link.web.send(createEvent('3'))
+		await link.settle()
+		expect(received).toHaveLength(0)
+
+		// WHEN: Releasing in reverse without the middle message
+		link.release((held) => held.reverse().filter((entry) => entry.message.id !== '2'))
+		await link.settle()
+
+		// THEN: Delivered reordered, the omitted message dropped
+		expect(received.map((message) => message.id)).toEqual(['3', '1'])
+		expect(link.traffic[1].status).toBe('dropped')
+	})
+
+	it('should stop delivering to a closed end', async () => {
+		// GIVEN: Subscribed native end
+		const link = createMemoryTransportPair()
+		const listener = vi.fn()
+		link.native.subscribe(listener)
+
+		// WHEN: Closing before delivery
+		link.web.send(createEvent('1'))
+		link.native.close()
+		await link.settle()
+
+		// THEN: Not delivered, end not ready
+		expect(listener).not.toHaveBeenCalled()
+		expect(link.native.isReady()).toBe(false)
+		expect(link.traffic[0].status).toBe('dropped')
+	})
+
+	it('should report listeners that throw to onError and keep delivering', async () => {
+		// GIVEN: Two native listeners, the first throwing
+		const onError = vi.fn()
+		const link = createMemoryTransportPair({ onError })
+		const listener = vi.fn()
+		link.native.subscribe(() => {
+			throw new Error('listener failed')
+		})
+		link.native.subscribe(listener)
+
+		// WHEN: Web sends
+		link.web.send(createEvent('1'))
+		await link.settle()
+
+		// THEN: Error reported, other listener still notified
+		expect(onError).toHaveBeenCalledWith(new Error('listener failed'))
+		expect(listener).toHaveBeenCalledWith(createEvent('1'))
+	})
+
+	it('should report messages that cannot be deserialized to onError', async () => {
+		// GIVEN: Deserializer that fails
+		const onError = vi.fn()
+		const link = createMemoryTransportPair({
+			onError,
+			deserializer: () => {
+				throw new Error('bad payload')
+			},
+		})
+		const listener = vi.fn()
+		link.native.subscribe(listener)
+
+		// WHEN: Web sends
+		link.web.send(createEvent('1'))
+		await link.settle()
+
+		// THEN: Error reported, nothing delivered
+		expect(onError).toHaveBeenCalledWith(new Error('bad payload'))
+		expect(listener).not.toHaveBeenCalled()
+	})
+})
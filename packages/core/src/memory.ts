@@ -0,0 +1,305 @@
+/**
+ * In-memory transport pair linking two peers in the same process
+ * @module memory
+ */
+
+import type { PeerSide } from './peer'
+import {
+	type Deserializer,
+	type Serializer,
+	type Transport,
+	defaultDeserializer,
+	defaultSerializer,
+} from './transport'
+import type { Message } from './types'
+
+/**
+ * Delivery state of a message sent over a memory transport
+ * - `in-flight` scheduled for delivery
+ * - `held` buffered until `release()` is called
+ * - `delivered` handed to the listeners of the other end
+ * - `dropped` discarded by a drop filter, `release()` or a closed end
+ */
+export type TrafficStatus = 'in-flight' | 'held' | 'delivered' | 'dropped'
+
+/**
+ * Entry of the traffic log of a memory transport pair
+ */
+export interface TrafficEntry {
+	/**
+	 * End that sent the message
+	 */
+	from: PeerSide
+
+	/**
+	 * End the message is addressed to
+	 */
+	to: PeerSide
+
+	/**
+	 * Message as sent
+	 */
+	message: Message
+
+	/**
+	 * Current delivery state
+	 */
+	status: TrafficStatus
+}
+
+/**
+ * Predicate selecting messages to drop
+ */
+export type MessageFilter = (message: Message, from: PeerSide) => boolean
+
+/**
+ * Options for creating a memory transport pair
+ */
+export interface MemoryTransportOptions {
+	/**
+	 * Delay in milliseconds before a message is delivered (default: 0, delivered
+	 * on the next microtask). Uses `setTimeout`, so fake timers apply.
+	 */
+	latency?: number
+
+	/**
+	 * Drop messages matching this filter
+	 */
+	drop?: MessageFilter
+
+	/**
+	 * Serializer applied on send, so data that would not survive the real bridge
+	 * fails the same way (default: JSON.stringify)
+	 */
+	serializer?: Serializer
+
+	/**
+	 * Deserializer applied on delivery (default: JSON.parse)
+	 */
+	deserializer?: Deserializer
+
+	/**
+	 * Error handler for messages that cannot be deserialized and for listeners
+	 * that throw while a message is delivered
+	 */
+	onError?: (error: Error) => void
+}
+
+/**
+ * Two linked transports plus controls over the traffic between them
+ */
+export interface MemoryTransportPair {
+	/**
+	 * End used by the web peer
+	 */
+	web: Transport
+
+	/**
+	 * End used by the native peer
+	 */
+	native: Transport
+
+	/**
+	 * Every message sent by either end, in send order
+	 */
+	readonly traffic: ReadonlyArray<TrafficEntry>
+
+	/**
+	 * Change the delivery delay of messages sent from now on
+	 */
+	setLatency: (latency: number) => void
+
+	/**
+	 * Drop messages matching the filter from now on. Pass nothing to stop dropping.
+	 */
+	drop: (filter?: MessageFilter) => void
+
+	/**
+	 * Buffer messages sent from now on instead of delivering them
+	 */
+	hold: () => void
+
+	/**
+	 * Stop holding and deliver held messages.
+	 *
+	 * @param order - Reorders (or filters) the held entries before delivery.
+	 * Entries left out are dropped.
+	 */
+	release: (order?: (held: TrafficEntry[]) => TrafficEntry[]) => void
+
+	/**
+	 * Resolves once no message is in flight. Work a handler starts after a
+	 * delivery, such as an async procedure, is not awaited.
+	 */
+	settle: () => Promise<void>
+}
+
+interface QueuedEntry extends TrafficEntry {
+	payload: string
+}
+
+/**
+ * Creates two linked in-memory transports, one per side of a contract.
+ *
+ * Messages are serialized on send and deserialized on delivery like on the real
+ * bridge, and every message is recorded in the traffic log.
+ *
+ * @param options - Latency, drop filter, serialization and error handling options
+ * @returns Transport pair with traffic controls
+ *
+ * @example
+ * ```typescript
+ * const link = createMemoryTransportPair({ latency: 20 })
+ * const web = createPeer(contract, { transport: link.web, side: 'web' })
+ * const native = createPeer(contract, { transport: link.native, side: 'native' })
+ *
+ * link.drop((message) => message.type === 'response')
+ * ```
+ */
+export function createMemoryTransportPair(
+	options: MemoryTransportOptions = {},
+): MemoryTransportPair {
+	const serializer = options.serializer ?? defaultSerializer
+	const deserializer = options.deserializer ?? defaultDeserializer
+	const onError = options.onError
+	let latency = options.latency ?? 0
+	let dropFilter = options.drop
+	let holding = false
+
+	const traffic: QueuedEntry[] = []
+	const held: QueuedEntry[] = []
+	const listeners: Record<PeerSide, Set<(message: Message) => void>> = {
+		web: new Set(),
+		native: new Set(),
+	}
+	const closed: Record<PeerSide, boolean> = { web: false, native: false }
+
+	// Messages scheduled but not yet delivered, and callers waiting for zero
+	let inFlight = 0
+	let settleWaiters: Array<() => void> = []
+
+	const deliver = (entry: QueuedEntry): void => {
+		if (closed[entry.to]) {
+			entry.status = 'dropped'
+			return
+		}
+
+		entry.status = 'delivered'
+		let message: Message
+		try {
+			message = deserializer(entry.payload) as Message
+		} catch (error) {
+			onError?.(error as Error)
+			return
+		}
+
+		// Delivery runs on a microtask or timer, where a throw would go unhandled
+		for (const listener of Array.from(listeners[entry.to])) {
+			try {
+				listener(message)
+			} catch (error) {
+				onError?.(error as Error)
+			}
+		}
+	}
+
+	const schedule = (entry: QueuedEntry): void => {
+		entry.status = 'in-flight'
+		inFlight++
+
+		const run = (): void => {
+			inFlight--
+			try {
+				deliver(entry)
+			} finally {
+				if (inFlight === 0) {
+					const waiters = settleWaiters
+					settleWaiters = []
+					for (const resolve of waiters) {
+						resolve()
+					}
+				}
+			}
+		}
+
+		if (latency > 0) {
+			setTimeout(run, latency)
+		} else {
+			Promise.resolve().then(run)
+		}
+	}
+
+	const send = (from: PeerSide, message: Message): void => {
+		const entry: QueuedEntry = {
+			from,
+			to: from === 'web' ? 'native' : 'web',
+			message,
+			status: 'in-flight',
+			payload: serializer(message),
+		}
+		traffic.push(entry)
+
+		if (closed[from] || dropFilter?.(message, from)) {
+			entry.status = 'dropped'
+		} else if (holding) {
+			entry.status = 'held'
+			held.push(entry)
+		} else {
+			schedule(entry)
+		}
+	}
+
+	const createEnd = (side: PeerSide): Transport => ({
+		send: (message) => send(side, message),
+		subscribe: (listener) => {
+			listeners[side].add(listener)
+			return () => {
+				listeners[side].delete(listener)
+			}
+		},
+		close: () => {
+			closed[side] = true
+			listeners[side].clear()
+		},
+		isReady: () => !closed[side],
+	})
+
+	const release = (
+		order?: (held: TrafficEntry[]) => TrafficEntry[],
+	): void => {
+		holding = false
+		const entries = held.splice(0, held.length)
+		const ordered = (order ? order([...entries]) : entries) as QueuedEntry[]
+
+		for (const entry of entries) {
+			if (!ordered.includes(entry)) {
+				entry.status = 'dropped'
+			}
+		}
+		for (const entry of ordered) {
+			schedule(entry)
+		}
+	}
+
+	return {
+		web: createEnd('web'),
+		native: createEnd('native'),
+		traffic,
+		setLatency: (value) => {
+			latency = value
+		},
+		drop: (filter) => {
+			dropFilter = filter
+		},
+		hold: () => {
+			holding = true
+		},
+		release,
+		settle: () =>
+			inFlight === 0
+				? Promise.resolve()
+				: new Promise<void>((resolve) => {
+						settleWaiters.push(resolve)
+					}),
+	}
+}
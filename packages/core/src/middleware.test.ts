@@ -0,0 +1,106 @@
+import { describe, expect, it, vi } from 'vitest'
+import { type Middleware, runMiddleware } from './middleware'
+import type { EventMessage, Message, RequestMessage } from './types'
+
+const request: RequestMessage = {
+	id: 'req-1',
+	type: 'request',
+	procedure: 'share',
+	data: { url: 'https://example.com' },
+}
+
+const event: EventMessage = {
+	id: 'evt-1',
+	type: 'event',
+	event: 'pathChanged',
+	data: { path: '/' },
+}
+
+const outbound = { direction: 'outbound', side: 'web' } as const
+
+describe('runMiddleware', () => {
+	it('should run hooks of the direction in registration order', () => {
+		// GIVEN: Two middleware recording the order they run in
+		const calls: string[] = []
+		const middleware: Middleware[] = [
+			{
+				outbound: () => {
+					calls.push('first')
+				},
+				inbound: () => {
+					calls.push('inbound')
+				},
+			},
+			{
+				outbound: () => {
+					calls.push('second')
+				},
+			},
+		]
+
+		// WHEN: Running an outbound message
+		const outcome = runMiddleware(middleware, { ...event }, outbound)
+
+		// THEN: Outbound hooks only, in order
+		expect(calls).toEqual(['first', 'second'])
+		expect(outcome).toEqual({ action: 'pass', message: event })
+	})
+
+	it('should pass mutated and replaced messages on', () => {
+		// GIVEN: One hook mutating, the next replacing the message
+		const middleware: Middleware[] = [
+			{
+				outbound: (message) => {
+					;(message as RequestMessage).meta = { token: 'abc' }
+				},
+			},
+			{
+				outbound: (message): Message => ({
+					...(message as RequestMessage),
+					procedure: 'shareV2',
+				}),
+			},
+		]
+
+		// WHEN: Running a request
+		const outcome = runMiddleware(middleware, { ...request }, outbound)
+
+		// THEN: Both changes applied
+		expect(outcome).toEqual({
+			action: 'pass',
+			message: { ...request, procedure: 'shareV2', meta: { token: 'abc' } },
+		})
+	})
+
+	it('should stop at a short-circuit response', () => {
+		// GIVEN: A hook answering requests and a hook after it
+		const after = vi.fn()
+		const middleware: Middleware[] = [
+			{ outbound: (_message, context) => context.respond({ data: 'cached' }) },
+			{ outbound: after },
+		]
+
+		// WHEN: Running a request
+		const outcome = runMiddleware(middleware, { ...request }, outbound)
+
+		// THEN: Response for the request, later hooks skipped
+		expect(outcome).toMatchObject({
+			action: 'respond',
+			message: { id: 'req-1', type: 'response', data: 'cached' },
+		})
+		expect(after).not.toHaveBeenCalled()
+	})
+
+	it('should stop at a dropped message', () => {
+		// GIVEN: A hook dropping events and a hook after it
+		const after = vi.fn()
+		const middleware: Middleware[] = [{ outbound: () => null }, { outbound: after }]
+
+		// WHEN: Running an event
+		const outcome = runMiddleware(middleware, { ...event }, outbound)
+
+		// THEN: Dropped
+		expect(outcome).toEqual({ action: 'drop' })
+		expect(after).not.toHaveBeenCalled()
+	})
+})
@@ -0,0 +1,126 @@
+/**
+ * Middleware pipeline run by a peer on the messages it sends and receives
+ * @module middleware
+ */
+
+import type { Message, RequestMessage, ResponseMessage } from './types'
+
+/**
+ * Whether a message is about to be sent or was just received
+ */
+export type MessageDirection = 'inbound' | 'outbound'
+
+/**
+ * Context passed to middleware hooks alongside the message
+ */
+export interface MiddlewareContext {
+	/**
+	 * Whether the message is about to be sent or was just received
+	 */
+	direction: MessageDirection
+
+	/**
+	 * Side of the contract the peer running the middleware implements
+	 */
+	side: 'web' | 'native'
+
+	/**
+	 * Request answered by a response, stream or subscription message, while the
+	 * peer still tracks it
+	 */
+	request?: RequestMessage
+
+	/**
+	 * Build a response answering the message. Returned from a hook for a request,
+	 * it short-circuits the request: an outbound call settles without being
+	 * sent, an inbound request is answered without reaching its handler. Streams
+	 * and subscriptions end with the response, or fail with its error.
+	 */
+	respond: (outcome: Pick<ResponseMessage, 'data' | 'error'>) => ResponseMessage
+}
+
+/**
+ * Hook run on each message. The message may be mutated in place. Returning a
+ * message passes it on instead, and returning null drops the message.
+ * Hooks run synchronously so messages keep their order.
+ */
+export type MiddlewareHook = (
+	message: Message,
+	context: MiddlewareContext,
+	// biome-ignore lint/suspicious/noConfusingVoidType: Hooks that only observe or mutate return nothing
+) => Message | null | void
+
+/**
+ * Interceptor for the messages of a peer. Handshake messages bypass middleware.
+ */
+export interface Middleware {
+	/**
+	 * Run before a request, response, event or stream message is sent
+	 */
+	outbound?: MiddlewareHook
+
+	/**
+	 * Run when a message arrives, before it is dispatched to handlers, listeners
+	 * or pending calls
+	 */
+	inbound?: MiddlewareHook
+}
+
+/**
+ * Result of running a message through middleware
+ * - `pass` with the message to send or dispatch
+ * - `respond` with the response short-circuiting a request
+ * - `drop` when a hook dropped the message
+ */
+export type MiddlewareOutcome =
+	| { action: 'pass'; message: Message }
+	| { action: 'respond'; message: ResponseMessage }
+	| { action: 'drop' }
+
+/**
+ * Run a message through the hooks of one direction, in registration order.
+ * The pipeline stops at the first hook that drops the message or answers a
+ * request with a response.
+ *
+ * @param middleware - Registered middleware
+ * @param message - Message to run through the hooks
+ * @param context - Direction, side and answered request
+ * @returns What the peer should do with the message
+ */
+export function runMiddleware(
+	middleware: ReadonlyArray<Middleware>,
+	message: Message,
+	context: Omit<MiddlewareContext, 'respond'>,
+): MiddlewareOutcome {
+	let current = message
+
+	for (const entry of middleware) {
+		const hook = entry[context.direction]
+		if (!hook) {
+			continue
+		}
+
+		const respond = (
+			outcome: Pick<ResponseMessage, 'data' | 'error'>,
+		): ResponseMessage => ({
+			id: current.id,
+			type: 'response',
+			...outcome,
+			timestamp: Date.now(),
+		})
+		const result = hook(current, { ...context, respond })
+		if (result === null) {
+			return { action: 'drop' }
+		}
+		if (!result) {
+			continue
+		}
+
+		if (current.type === 'request' && result.type === 'response') {
+			return { action: 'respond', message: result }
+		}
+		current = result
+	}
+
+	return { action: 'pass', message: current }
+}
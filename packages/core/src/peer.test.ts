@@ -0,0 +1,1729 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { StandardSchemaV1 } from '@standard-schema/spec'
+import { defineContract } from './contract'
+import {
+	RemoteError,
+	WebViewRPCError,
+	WebViewRPCTimeoutError,
+	isRemoteError,
+} from './errors'
+import { getContractFingerprint } from './fingerprint'
+import { createHandshakeMessage } from './handshake'
+import { binaryDeserializer, binarySerializer } from './binary'
+import { createTestHarness } from './harness'
+import type { Middleware } from './middleware'
+import { type PeerOptions, createPeer } from './peer'
+import { procedure } from './procedure'
+import { richSerializer } from './rich'
+import { stream } from './stream'
+import { subscription } from './subscription'
+import type { Transport } from './transport'
+import type { Message, RequestMessage, ResponseMessage } from './types'
+
+// Typed schema without runtime validation
+const createMockSchema = <T>(): StandardSchemaV1<T> => ({
+	'~standard': {
+		version: 1,
+		vendor: 'test',
+		validate: (value: unknown) => ({ value: value as T }),
+	},
+})
+
+const contract = defineContract({
+	web: {
+		navigate: procedure(createMockSchema<{ path: string }>()).returns(
+			createMockSchema<{ success: boolean }>(),
+		),
+		pathChanged: createMockSchema<{ path: string }>(),
+	},
+	native: {
+		share: procedure(createMockSchema<{ url: string }>()).returns(
+			createMockSchema<{ success: boolean }>(),
+		),
+		appStateChange: createMockSchema<{ state: string }>(),
+		search: stream(createMockSchema<{ query: string }>()).yields(
+			createMockSchema<{ title: string }>(),
+		),
+		location: subscription(
+			createMockSchema<{ accuracy: string }>(),
+		).emits(createMockSchema<{ latitude: number }>()),
+	},
+})
+
+interface LinkedTransport extends Transport {
+	sent: Message[]
+	connected: boolean
+}
+
+// Two transports delivering to each other on a microtask
+function createLinkedTransports(): [LinkedTransport, LinkedTransport] {
+	const create = (): LinkedTransport & {
+		listeners: Set<(message: Message) => void>
+	} => {
+		const listeners = new Set<(message: Message) => void>()
+		return {
+			sent: [],
+			connected: true,
+			listeners,
+			send(message) {
+				this.sent.push(message)
+				const target = this === a ? b : a
+				queueMicrotask(() => {
+					for (const listener of target.listeners) {
+						listener(message)
+					}
+				})
+			},
+			subscribe(listener) {
+				listeners.add(listener)
+				return () => listeners.delete(listener)
+			},
+			close: vi.fn(),
+			isReady() {
+				return this.connected
+			},
+		}
+	}
+
+	const a = create()
+	const b = create()
+	return [a, b]
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0))
+
+describe('createPeer', () => {
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	it('should complete the handshake with the web side saying hello', async () => {
+		// GIVEN: Two peers over linked transports
+		const [webTransport, nativeTransport] = createLinkedTransports()
+		const native = createPeer(contract, {
+			transport: nativeTransport,
+			side: 'native',
+		})
+		const web = createPeer(contract, { transport: webTransport, side: 'web' })
+
+		// THEN: Both become ready, web initiated
+		await expect(web.ready).resolves.toBeUndefined()
+		await expect(native.ready).resolves.toBeUndefined()
+		expect(webTransport.sent[0].type).toBe('hello')
+		expect(nativeTransport.sent[0].type).toBe('ready')
+	})
+
+	it('should exchange compression encodings during the handshake', async () => {
+		// GIVEN: Web transport reading lzw, native transport from an older build
+		const [webTransport, nativeTransport] = createLinkedTransports()
+		Object.assign(webTransport, {
+			encodings: ['lzw'],
+			setRemoteEncodings: vi.fn(),
+		})
+		nativeTransport.setRemoteEncodings = vi.fn()
+		const native = createPeer(contract, {
+			transport: nativeTransport,
+			side: 'native',
+		})
+		const web = createPeer(contract, { transport: webTransport, side: 'web' })
+
+		// WHEN: Handshake completes
+		await web.ready
+		await native.ready
+
+		// THEN: Each side learns what the other reads, nothing for the older one
+		expect(webTransport.sent[0]).toMatchObject({ encodings: ['lzw'] })
+		expect(nativeTransport.sent[0]).not.toHaveProperty('encodings')
+		expect(nativeTransport.setRemoteEncodings).toHaveBeenCalledWith(['lzw'])
+		expect(webTransport.setRemoteEncodings).toHaveBeenCalledWith([])
+	})
+
+	it('should call procedures on the other side', async () => {
+		// GIVEN: Native handling share
+		const [webTransport, nativeTransport] = createLinkedTransports()
+		const native = createPeer(contract, {
+			transport: nativeTransport,
+			side: 'native',
+		})
+		const web = createPeer(contract, { transport: webTransport, side: 'web' })
+		native.handle('share', async ({ url }) => ({ success: url.length > 0 }))
+
+		// WHEN: Web calls share
+		const result = await web.call('share', { url: 'https://example.com' })
+
+		// THEN: Result returned
+		expect(result).toEqual({ success: true })
+	})
+
+	it('should deliver events to every listener', async () => {
+		// GIVEN: Web listening to appStateChange twice
+		const [webTransport, nativeTransport] = createLinkedTransports()
+		const native = createPeer(contract, {
+			transport: nativeTransport,
+			side: 'native',
+		})
+		const web = createPeer(contract, { transport: webTransport, side: 'web' })
+		const listener1 = vi.fn()
+		const listener2 = vi.fn()
+		web.on('appStateChange', listener1)
+		const off = web.on('appStateChange', listener2)
+		off()
+
+		// WHEN: Native emits
+		native.emit('appStateChange', { state: 'active' })
+		await flush()
+
+		// THEN: Remaining listener notified
+		expect(listener1).toHaveBeenCalledWith({ state: 'active' })
+		expect(listener2).not.toHaveBeenCalled()
+	})
+
+	it('should replace procedure handlers and ignore stale unregister calls', async () => {
+		// GIVEN: Two handlers registered in turn
+		const [webTransport, nativeTransport] = createLinkedTransports()
+		const native = createPeer(contract, {
+			transport: nativeTransport,
+			side: 'native',
+		})
+		const web = createPeer(contract, { transport: webTransport, side: 'web' })
+		const unregisterFirst = web.handle('navigate', () => ({ success: false }))
+		web.handle('navigate', () => ({ success: true }))
+
+		// WHEN: Unregistering the replaced handler
+		unregisterFirst()
+
+		// THEN: The current handler still answers
+		await expect(native.call('navigate', { path: '/' })).resolves.toEqual({
+			success: true,
+		})
+	})
+
+	it('should answer NO_HANDLER for unknown procedures', async () => {
+		// GIVEN: Native without handlers
+		const [webTransport, nativeTransport] = createLinkedTransports()
+		createPeer(contract, { transport: nativeTransport, side: 'native' })
+		const web = createPeer(contract, { transport: webTransport, side: 'web' })
+
+		// THEN: Call rejected with NO_HANDLER
+		await expect(
+			web.call('share', { url: 'https://example.com' }),
+		).rejects.toMatchObject({ code: 'NO_HANDLER' })
+	})
+
+	it('should reject with a timeout when the other side never answers', async () => {
+		// GIVEN: Transport with nobody on the other end
+		vi.useFakeTimers()
+		const [webTransport] = createLinkedTransports()
+		const web = createPeer(contract, {
+			transport: webTransport,
+			side: 'web',
+			timeout: 100,
+		})
+
+		// WHEN: Timeout elapses
+		const promise = web.call('share', { url: 'https://example.com' })
+		vi.advanceTimersByTime(101)
+
+		// THEN: Rejected with timeout
+		await expect(promise).rejects.toBeInstanceOf(WebViewRPCTimeoutError)
+	})
+
+	it('should fail requests the transport cannot deliver', async () => {
+		// GIVEN: Transport throwing on send
+		const onError = vi.fn()
+		const [webTransport] = createLinkedTransports()
+		webTransport.send = () => {
+			throw new Error('Channel closed')
+		}
+		const web = createPeer(contract, {
+			transport: webTransport,
+			side: 'web',
+			onError,
+		})
+
+		// THEN: Request rejected and error reported
+		await expect(
+			web.call('share', { url: 'https://example.com' }),
+		).rejects.toThrow('Channel closed')
+		expect(onError).toHaveBeenCalled()
+	})
+
+	it('should wait for the transport before saying hello', async () => {
+		// GIVEN: Web transport not yet ready, queueing enabled
+		const [webTransport, nativeTransport] = createLinkedTransports()
+		webTransport.connected = false
+		const native = createPeer(contract, {
+			transport: nativeTransport,
+			side: 'native',
+		})
+		native.handle('share', () => ({ success: true }))
+		const web = createPeer(contract, {
+			transport: webTransport,
+			side: 'web',
+			queue: true,
+		})
+
+		// WHEN: Calling before the transport is ready
+		const promise = web.call('share', { url: 'https://example.com' })
+		expect(webTransport.sent).toHaveLength(0)
+
+		// WHEN: Transport becomes ready and a message arrives
+		webTransport.connected = true
+		native.emit('appStateChange', { state: 'active' })
+
+		// THEN: Handshake runs and the queued call completes
+		await expect(promise).resolves.toEqual({ success: true })
+		expect(webTransport.sent.map((message) => message.type)).toEqual([
+			'hello',
+			'request',
+		])
+	})
+
+	it('should reject pending requests and close the transport on close', async () => {
+		// GIVEN: Pending request
+		const [webTransport] = createLinkedTransports()
+		const web = createPeer(contract, { transport: webTransport, side: 'web' })
+		const promise = web.call('share', { url: 'https://example.com' })
+
+		// WHEN: Closing
+		web.close()
+
+		// THEN: Request rejected with CLEANUP and transport closed
+		await expect(promise).rejects.toBeInstanceOf(WebViewRPCError)
+		await expect(promise).rejects.toMatchObject({ code: 'CLEANUP' })
+		await expect(web.ready).rejects.toMatchObject({ code: 'CLEANUP' })
+		expect(webTransport.close).toHaveBeenCalled()
+	})
+
+	describe('cancellation', () => {
+		it('should reject immediately when the signal is already aborted', async () => {
+			// GIVEN: Aborted signal
+			const harness = createTestHarness(contract)
+			await harness.ready
+			const controller = new AbortController()
+			controller.abort()
+
+			// WHEN: Calling with it
+			const promise = harness.web.call(
+				'share',
+				{ url: 'https://example.com' },
+				{ signal: controller.signal },
+			)
+
+			// THEN: Rejected without sending a request
+			await expect(promise).rejects.toMatchObject({ code: 'ABORTED' })
+			expect(
+				harness.transport.traffic.some(
+					(entry) => entry.message.type === 'request',
+				),
+			).toBe(false)
+			harness.close()
+		})
+
+		it('should send cancel and abort the remote handler signal', async () => {
+			// GIVEN: Native handler waiting for abort
+			const harness = createTestHarness(contract)
+			const onAbort = vi.fn()
+			let handlerStarted: () => void = () => {}
+			const started = new Promise<void>((resolve) => {
+				handlerStarted = resolve
+			})
+			harness.native.handle('share', (_data, { signal }) => {
+				signal.addEventListener('abort', onAbort)
+				handlerStarted()
+				return new Promise<{ success: boolean }>(() => {})
+			})
+			const controller = new AbortController()
+			const promise = harness.web.call(
+				'share',
+				{ url: 'https://example.com' },
+				{ signal: controller.signal },
+			)
+			await started
+
+			// WHEN: Aborting
+			controller.abort()
+
+			// THEN: Rejected locally, cancel delivered, handler signal aborted
+			await expect(promise).rejects.toMatchObject({ code: 'ABORTED' })
+			await harness.transport.settle()
+			expect(onAbort).toHaveBeenCalled()
+			expect(harness.transport.traffic.at(-1)?.message.type).toBe('cancel')
+			harness.close()
+		})
+
+		it('should not answer requests aborted while being handled', async () => {
+			// GIVEN: Native handler that resolves after abort
+			const harness = createTestHarness(contract)
+			let finish: () => void = () => {}
+			harness.native.handle(
+				'share',
+				() =>
+					new Promise<{ success: boolean }>((resolve) => {
+						finish = () => resolve({ success: true })
+					}),
+			)
+			await harness.ready
+			const controller = new AbortController()
+			const promise = harness.web.call(
+				'share',
+				{ url: 'https://example.com' },
+				{ signal: controller.signal },
+			)
+			promise.catch(() => {})
+			await harness.transport.settle()
+
+			// WHEN: Aborting, then the handler finishes
+			controller.abort()
+			await harness.transport.settle()
+			finish()
+			await harness.transport.settle()
+
+			// THEN: No response sent
+			expect(
+				harness.transport.traffic.some(
+					(entry) => entry.message.type === 'response',
+				),
+			).toBe(false)
+			harness.close()
+		})
+
+		it('should remove queued requests without sending cancel', async () => {
+			// GIVEN: Queued request on a web peer whose handshake never completes
+			const [webTransport] = createLinkedTransports()
+			const web = createPeer(contract, {
+				transport: webTransport,
+				side: 'web',
+				queue: true,
+			})
+			const controller = new AbortController()
+			const promise = web.call(
+				'share',
+				{ url: 'https://example.com' },
+				{ signal: controller.signal },
+			)
+
+			// WHEN: Aborting
+			controller.abort()
+
+			// THEN: Rejected, only the hello was ever sent
+			await expect(promise).rejects.toMatchObject({ code: 'ABORTED' })
+			expect(webTransport.sent.map((message) => message.type)).toEqual([
+				'hello',
+			])
+			web.close()
+		})
+	})
+
+	describe('call options', () => {
+		it('should pass meta headers and the deadline to the handler', async () => {
+			// GIVEN: Native handler recording its context
+			vi.useFakeTimers({ now: 1000, toFake: ['Date'] })
+			const harness = createTestHarness(contract)
+			const handler = vi.fn(() => ({ success: true }))
+			harness.native.handle('share', handler)
+
+			// WHEN: Calling with meta and a timeout override
+			await harness.web.call(
+				'share',
+				{ url: 'https://example.com' },
+				{ meta: { traceId: 'abc' }, timeout: 250 },
+			)
+
+			// THEN: Context carries both
+			expect(handler).toHaveBeenCalledWith(
+				{ url: 'https://example.com' },
+				expect.objectContaining({ meta: { traceId: 'abc' }, deadline: 1250 }),
+			)
+			harness.close()
+		})
+
+		it('should time out after the per-call timeout', async () => {
+			// GIVEN: Peer with a long default timeout
+			vi.useFakeTimers()
+			const [webTransport] = createLinkedTransports()
+			const web = createPeer(contract, {
+				transport: webTransport,
+				side: 'web',
+				timeout: 60000,
+			})
+
+			// WHEN: Calling with a short timeout
+			const promise = web.call(
+				'share',
+				{ url: 'https://example.com' },
+				{ timeout: 500 },
+			)
+			vi.advanceTimersByTime(501)
+
+			// THEN: Rejected with the per-call timeout
+			await expect(promise).rejects.toMatchObject({ timeout: 500 })
+			web.close()
+		})
+
+		it('should abort the handler signal when the deadline passes', async () => {
+			// GIVEN: Slow native handler
+			vi.useFakeTimers()
+			const harness = createTestHarness(contract)
+			let signal: AbortSignal | undefined
+			harness.native.handle('share', (_data, context) => {
+				signal = context.signal
+				return new Promise<{ success: boolean }>(() => {})
+			})
+
+			// WHEN: The caller's timeout elapses
+			const promise = harness.web.call(
+				'share',
+				{ url: 'https://example.com' },
+				{ timeout: 100 },
+			)
+			promise.catch(() => {})
+			await vi.advanceTimersByTimeAsync(0)
+			expect(signal?.aborted).toBe(false)
+			await vi.advanceTimersByTimeAsync(100)
+
+			// THEN: Handler told to give up
+			expect(signal?.aborted).toBe(true)
+			harness.close()
+		})
+	})
+
+	describe('streams', () => {
+		const collect = async <T>(iterable: AsyncIterable<T>): Promise<T[]> => {
+			const chunks: T[] = []
+			for await (const chunk of iterable) {
+				chunks.push(chunk)
+			}
+			return chunks
+		}
+
+		it('should deliver every chunk yielded by the handler, then complete', async () => {
+			// GIVEN: Async generator handler
+			const harness = createTestHarness(contract)
+			harness.native.handle('search', async function* ({ query }) {
+				yield { title: `${query} 1` }
+				yield { title: `${query} 2` }
+			})
+
+			// WHEN: Reading the stream
+			const chunks = await collect(harness.web.stream('search', { query: 'cat' }))
+
+			// THEN: Chunks in order, then stream-end
+			expect(chunks).toEqual([{ title: 'cat 1' }, { title: 'cat 2' }])
+			expect(
+				harness.transport.traffic.map((entry) => entry.message.type),
+			).toContain('stream-end')
+			harness.close()
+		})
+
+		it('should stop sending chunks when the caller runs out of credits', async () => {
+			// GIVEN: Endless handler and a window of four chunks
+			const harness = createTestHarness(contract)
+			let produced = 0
+			harness.native.handle('search', async function* () {
+				while (true) {
+					produced++
+					yield { title: String(produced) }
+				}
+			})
+			const iterator = harness.web.stream(
+				'search',
+				{ query: 'x' },
+				{ credits: 4 },
+			)
+			const chunkCount = () =>
+				harness.transport.traffic.filter(
+					(entry) => entry.message.type === 'stream-chunk',
+				).length
+
+			// WHEN: Nothing is read
+			await iterator.next()
+			await flush()
+
+			// THEN: Only the window was sent
+			expect(chunkCount()).toBe(4)
+
+			// WHEN: Reading half the window hands credits back
+			await iterator.next()
+			await flush()
+
+			// THEN: The handler sent one more batch
+			expect(chunkCount()).toBe(6)
+			await iterator.return?.()
+			harness.close()
+		})
+
+		it('should cancel the handler when the caller stops reading', async () => {
+			// GIVEN: Endless handler recording its cleanup
+			const harness = createTestHarness(contract)
+			const cleanup = vi.fn()
+			let signal: AbortSignal | undefined
+			harness.native.handle('search', async function* (_data, context) {
+				signal = context.signal
+				try {
+					while (true) {
+						yield { title: 'result' }
+					}
+				} finally {
+					cleanup()
+				}
+			})
+
+			// WHEN: Breaking out after the first chunk
+			for await (const _chunk of harness.web.stream('search', { query: 'x' })) {
+				break
+			}
+			await flush()
+
+			// THEN: Cancel sent, handler aborted and cleaned up
+			expect(
+				harness.transport.traffic.some((entry) => entry.message.type === 'cancel'),
+			).toBe(true)
+			expect(signal?.aborted).toBe(true)
+			expect(cleanup).toHaveBeenCalled()
+			harness.close()
+		})
+
+		it('should fail the stream when the handler throws', async () => {
+			// GIVEN: Handler failing after one chunk
+			const onError = vi.fn()
+			const harness = createTestHarness(contract, { native: { onError } })
+			harness.native.handle('search', async function* () {
+				yield { title: 'first' }
+				throw new Error('Database closed')
+			})
+			const chunks: unknown[] = []
+
+			// WHEN: Reading the stream
+			const read = async () => {
+				for await (const chunk of harness.web.stream('search', { query: 'x' })) {
+					chunks.push(chunk)
+				}
+			}
+
+			// THEN: Chunks before the failure arrive, then the error
+			await expect(read()).rejects.toMatchObject({
+				message: 'Database closed',
+				code: 'HANDLER_ERROR',
+			})
+			expect(chunks).toEqual([{ title: 'first' }])
+			expect(onError).toHaveBeenCalled()
+			harness.close()
+		})
+
+		it('should fail with NO_HANDLER when nothing handles the stream', async () => {
+			// GIVEN: No handler
+			const harness = createTestHarness(contract)
+
+			// THEN: First read fails
+			await expect(
+				harness.web.stream('search', { query: 'x' }).next(),
+			).rejects.toMatchObject({ code: 'NO_HANDLER' })
+			harness.close()
+		})
+
+		it('should validate chunks before sending them', async () => {
+			// GIVEN: Chunk schema rejecting everything
+			const strict = defineContract({
+				native: {
+					search: stream(createMockSchema<{ query: string }>()).yields({
+						'~standard': {
+							version: 1,
+							vendor: 'test',
+							validate: () => ({ issues: [{ message: 'Bad chunk' }] }),
+						},
+					} as StandardSchemaV1<{ title: string }>),
+				},
+			})
+			const harness = createTestHarness(strict, { native: { validate: true } })
+			harness.native.handle('search', async function* () {
+				yield { title: 'invalid' }
+			})
+
+			// THEN: Caller receives the validation error
+			await expect(
+				harness.web.stream('search', { query: 'x' }).next(),
+			).rejects.toMatchObject({ code: 'VALIDATION_ERROR' })
+			harness.close()
+		})
+
+		it('should time out when the first chunk does not arrive in time', async () => {
+			// GIVEN: Stream requests dropped
+			vi.useFakeTimers()
+			const harness = createTestHarness(contract, {
+				transport: { drop: (message) => message.type === 'request' },
+			})
+
+			// WHEN: Waiting past the timeout
+			const read = harness.web.stream('search', { query: 'x' }, { timeout: 100 }).next()
+			const assertion = expect(read).rejects.toBeInstanceOf(WebViewRPCTimeoutError)
+			await vi.advanceTimersByTimeAsync(101)
+
+			// THEN: Rejected with a timeout
+			await assertion
+			harness.close()
+		})
+
+		it('should fail with ABORTED when the signal aborts', async () => {
+			// GIVEN: Handler that never yields
+			const harness = createTestHarness(contract)
+			harness.native.handle('search', async function* () {
+				await new Promise(() => {})
+			})
+			const controller = new AbortController()
+
+			// WHEN: Aborting while waiting for a chunk
+			const read = harness.web
+				.stream('search', { query: 'x' }, { signal: controller.signal })
+				.next()
+			controller.abort()
+
+			// THEN: Read rejects
+			await expect(read).rejects.toMatchObject({ code: 'ABORTED' })
+			harness.close()
+		})
+
+		it('should fail open streams with CLEANUP on close', async () => {
+			// GIVEN: Open stream
+			const harness = createTestHarness(contract)
+			harness.native.handle('search', async function* () {
+				await new Promise(() => {})
+			})
+			const read = harness.web.stream('search', { query: 'x' }).next()
+
+			// WHEN: Closing the caller
+			harness.web.close()
+
+			// THEN: Read rejects
+			await expect(read).rejects.toMatchObject({ code: 'CLEANUP' })
+			harness.close()
+		})
+	})
+
+	describe('subscriptions', () => {
+		it('should start the handler once for subscribers with the same input', async () => {
+			// GIVEN: Subscription handler pushing data
+			const harness = createTestHarness(contract)
+			let emit: ((data: { latitude: number }) => void) | undefined
+			const start = vi.fn()
+			harness.native.handle('location', ({ accuracy }, context) => {
+				start(accuracy)
+				emit = context.emit
+				return undefined
+			})
+
+			// WHEN: Two subscribers with the same input
+			const first = vi.fn()
+			const second = vi.fn()
+			harness.web.subscribe('location', { accuracy: 'high' }, first)
+			harness.web.subscribe('location', { accuracy: 'high' }, second)
+			await vi.waitFor(() => expect(emit).toBeDefined())
+			emit?.({ latitude: 52 })
+			await harness.transport.settle()
+
+			// THEN: One handler, data delivered to both
+			expect(start).toHaveBeenCalledTimes(1)
+			expect(start).toHaveBeenCalledWith('high')
+			expect(first).toHaveBeenCalledWith({ latitude: 52 })
+			expect(second).toHaveBeenCalledWith({ latitude: 52 })
+			harness.close()
+		})
+
+		it('should tear the handler down after the last subscriber leaves', async () => {
+			// GIVEN: Handler with a teardown
+			const harness = createTestHarness(contract)
+			const teardown = vi.fn()
+			let signal: AbortSignal | undefined
+			harness.native.handle('location', (_data, context) => {
+				signal = context.signal
+				return teardown
+			})
+			const unsubscribeFirst = harness.web.subscribe(
+				'location',
+				{ accuracy: 'low' },
+				vi.fn(),
+			)
+			const unsubscribeSecond = harness.web.subscribe(
+				'location',
+				{ accuracy: 'low' },
+				vi.fn(),
+			)
+			await vi.waitFor(() => expect(signal).toBeDefined())
+
+			// WHEN: Unsubscribing one, then the other
+			unsubscribeFirst()
+			await harness.transport.settle()
+			expect(teardown).not.toHaveBeenCalled()
+			unsubscribeSecond()
+			await harness.transport.settle()
+
+			// THEN: Handler torn down
+			await vi.waitFor(() => expect(teardown).toHaveBeenCalledTimes(1))
+			expect(signal?.aborted).toBe(true)
+			harness.close()
+		})
+
+		it('should tear the handler down when the page starts over', async () => {
+			// GIVEN: Active subscription
+			const harness = createTestHarness(contract)
+			const teardown = vi.fn()
+			harness.native.handle('location', () => teardown)
+			harness.web.subscribe('location', { accuracy: 'low' }, vi.fn())
+			await harness.transport.settle()
+
+			// WHEN: A fresh page says hello
+			harness.transport.web.send(
+				createHandshakeMessage('hello', getContractFingerprint(contract)),
+			)
+			await harness.transport.settle()
+
+			// THEN: Old subscription torn down
+			await vi.waitFor(() => expect(teardown).toHaveBeenCalledTimes(1))
+			harness.close()
+		})
+
+		it('should report subscriptions nothing handles to the subscriber', async () => {
+			// GIVEN: No handler
+			const harness = createTestHarness(contract)
+			const onError = vi.fn()
+
+			// WHEN: Subscribing
+			harness.web.subscribe('location', { accuracy: 'low' }, vi.fn(), {
+				onError,
+			})
+
+			// THEN: Subscriber told
+			await vi.waitFor(() =>
+				expect(onError).toHaveBeenCalledWith(
+					expect.objectContaining({ code: 'NO_HANDLER' }),
+				),
+			)
+			harness.close()
+		})
+
+		it('should end the subscription when emitted data is invalid', async () => {
+			// GIVEN: Data schema rejecting everything
+			const strict = defineContract({
+				native: {
+					location: subscription(createMockSchema<{ accuracy: string }>()).emits({
+						'~standard': {
+							version: 1,
+							vendor: 'test',
+							validate: () => ({ issues: [{ message: 'Bad data' }] }),
+						},
+					} as StandardSchemaV1<{ latitude: number }>),
+				},
+			})
+			const harness = createTestHarness(strict, {
+				native: { validate: true, onError: vi.fn() },
+			})
+			const teardown = vi.fn()
+			harness.native.handle('location', (_data, { emit }) => {
+				emit({ latitude: 1 })
+				return teardown
+			})
+			const onData = vi.fn()
+			const onError = vi.fn()
+
+			// WHEN: Subscribing
+			harness.web.subscribe('location', { accuracy: 'low' }, onData, { onError })
+
+			// THEN: Nothing delivered, subscriber told, handler torn down
+			await vi.waitFor(() =>
+				expect(onError).toHaveBeenCalledWith(
+					expect.objectContaining({ code: 'VALIDATION_ERROR' }),
+				),
+			)
+			await vi.waitFor(() => expect(teardown).toHaveBeenCalled())
+			expect(onData).not.toHaveBeenCalled()
+			harness.close()
+		})
+
+		it('should share subscriptions by the input the serializer writes', async () => {
+			// GIVEN: Web writing messages with the rich serializer
+			const [webTransport] = createLinkedTransports()
+			const web = createPeer(contract, {
+				transport: webTransport,
+				side: 'web',
+				serializer: richSerializer,
+			})
+			const input = (accuracy: unknown) =>
+				({ accuracy }) as unknown as { accuracy: string }
+
+			// WHEN: Subscribing with Map and BigInt inputs
+			web.subscribe('location', input(new Map([['a', 1]])), vi.fn())
+			web.subscribe('location', input(new Map([['b', 2]])), vi.fn())
+			web.subscribe('location', input(1n), vi.fn())
+			web.subscribe('location', input(1n), vi.fn())
+
+			// THEN: One request per distinct input
+			const requests = webTransport.sent.filter(
+				(message) => message.type === 'request',
+			)
+			expect(requests).toHaveLength(3)
+			web.close()
+		})
+
+		it('should not throw for inputs the serializer cannot write', () => {
+			// GIVEN: Web writing messages as JSON
+			const [webTransport] = createLinkedTransports()
+			const web = createPeer(contract, { transport: webTransport, side: 'web' })
+			const input = { accuracy: 1n } as unknown as { accuracy: string }
+
+			// WHEN: Subscribing with a BigInt input
+			const subscribe = () => web.subscribe('location', input, vi.fn())
+
+			// THEN: Subscribed, the transport reports what it cannot send
+			expect(subscribe).not.toThrow()
+			web.close()
+		})
+
+		it('should tell the subscriber when the queue refuses the request', async () => {
+			// GIVEN: Queue already full, refusing new messages
+			const harness = createTestHarness(contract, {
+				web: { queue: { maxSize: 1, dropPolicy: 'drop-newest' } },
+			})
+			const start = vi.fn()
+			harness.native.handle('location', () => {
+				start()
+				return undefined
+			})
+			harness.web.emit('pathChanged', { path: '/home' })
+			const onError = vi.fn()
+
+			// WHEN: Subscribing before the handshake
+			harness.web.subscribe('location', { accuracy: 'low' }, vi.fn(), { onError })
+
+			// THEN: Subscriber told, nothing started once the queue flushes
+			expect(onError).toHaveBeenCalledWith(
+				expect.objectContaining({ code: 'QUEUE_FULL' }),
+			)
+			await harness.ready
+			await harness.transport.settle()
+			expect(start).not.toHaveBeenCalled()
+
+			// A later subscriber starts over
+			harness.web.subscribe('location', { accuracy: 'low' }, vi.fn())
+			await vi.waitFor(() => expect(start).toHaveBeenCalledTimes(1))
+			harness.close()
+		})
+	})
+
+	describe('typed errors', () => {
+		// Error data schema accepting only objects with a string id
+		const notFound: StandardSchemaV1<{ id: string }> = {
+			'~standard': {
+				version: 1,
+				vendor: 'test',
+				validate: (value: unknown) =>
+					typeof (value as { id?: unknown })?.id === 'string'
+						? { value: value as { id: string } }
+						: { issues: [{ message: 'Expected id' }] },
+			},
+		}
+		const errorContract = defineContract({
+			native: {
+				getNote: procedure(createMockSchema<{ id: string }>())
+					.returns(createMockSchema<{ text: string }>())
+					.errors({ NOT_FOUND: notFound }),
+			},
+		})
+
+		it('should reject the caller with the declared error and its data', async () => {
+			// GIVEN: Handler failing with a declared error
+			const onError = vi.fn()
+			const harness = createTestHarness(errorContract, {
+				native: { onError },
+			})
+			harness.native.handle('getNote', ({ id }) => {
+				throw new RemoteError('NOT_FOUND', { id }, `No note ${id}`)
+			})
+
+			// WHEN: Calling
+			const error = await harness.web.call('getNote', { id: '7' }).catch((e) => e)
+
+			// THEN: Caller narrows the error, which is not reported as unhandled
+			expect(isRemoteError(error, errorContract.native.getNote)).toBe(true)
+			expect(error).toMatchObject({
+				code: 'NOT_FOUND',
+				data: { id: '7' },
+				message: 'No note 7',
+			})
+			expect(onError).not.toHaveBeenCalled()
+			harness.close()
+		})
+
+		it('should fail with a validation error when the error data is invalid', async () => {
+			// GIVEN: Handler failing with data the declared schema rejects
+			const harness = createTestHarness(errorContract, {
+				native: { validate: true },
+			})
+			harness.native.handle('getNote', () => {
+				throw new RemoteError('NOT_FOUND', { missing: true })
+			})
+
+			// WHEN: Calling
+			const error = await harness.web.call('getNote', { id: '7' }).catch((e) => e)
+
+			// THEN: Validation error instead of the RemoteError
+			expect(error).not.toBeInstanceOf(RemoteError)
+			expect(error.code).toBe('VALIDATION_ERROR')
+			harness.close()
+		})
+
+		it('should forward stack and cause only when enabled', async () => {
+			// GIVEN: Handler throwing a wrapped error, with and without forwarding
+			const throwWrapped = () => {
+				throw new Error('Query failed', { cause: new Error('Disk full') })
+			}
+			const plain = createTestHarness(errorContract)
+			const detailed = createTestHarness(errorContract, {
+				native: { forwardErrorDetails: true },
+			})
+			plain.native.handle('getNote', throwWrapped)
+			detailed.native.handle('getNote', throwWrapped)
+
+			// WHEN: Calling both
+			const hidden = await plain.web.call('getNote', { id: '7' }).catch((e) => e)
+			const shown = await detailed.web
+				.call('getNote', { id: '7' })
+				.catch((e) => e)
+
+			// THEN: Only the detailed side sends the handler's stack and cause
+			expect(hidden.cause).toBeUndefined()
+			expect(hidden.stack).not.toContain('throwWrapped')
+			expect(shown.cause).toMatchObject({ message: 'Disk full' })
+			expect(shown.stack).toContain('throwWrapped')
+			plain.close()
+			detailed.close()
+		})
+	})
+
+	describe('middleware', () => {
+		it('should let outbound hooks add headers the handler sees', async () => {
+			// GIVEN: Web middleware adding an auth header to requests
+			const auth: Middleware = {
+				outbound: (message) => {
+					if (message.type === 'request') {
+						message.meta = { ...message.meta, token: 'secret' }
+					}
+				},
+			}
+			const harness = createTestHarness(contract, { web: { middleware: [auth] } })
+			const handler = vi.fn(() => ({ success: true }))
+			harness.native.handle('share', handler)
+
+			// WHEN: Calling
+			await harness.web.call('share', { url: 'https://example.com' })
+
+			// THEN: Handler sees the header
+			expect(handler).toHaveBeenCalledWith(
+				{ url: 'https://example.com' },
+				expect.objectContaining({ meta: { token: 'secret' } }),
+			)
+			harness.close()
+		})
+
+		it('should refuse inbound requests before the handler runs', async () => {
+			// GIVEN: Native middleware rejecting requests without a token
+			const onError = vi.fn()
+			const guard: Middleware = {
+				inbound: (message) => {
+					if (message.type === 'request' && !message.meta?.token) {
+						throw new RemoteError('UNAUTHORIZED', undefined, 'Missing token')
+					}
+				},
+			}
+			const harness = createTestHarness(contract, {
+				native: { middleware: [guard], onError },
+			})
+			const handler = vi.fn(() => ({ success: true }))
+			harness.native.handle('share', handler)
+
+			// WHEN: Calling without a token
+			const promise = harness.web.call('share', { url: 'https://example.com' })
+
+			// THEN: Caller rejected, handler never runs
+			await expect(promise).rejects.toMatchObject({ code: 'UNAUTHORIZED' })
+			expect(handler).not.toHaveBeenCalled()
+			expect(onError).not.toHaveBeenCalled()
+			harness.close()
+		})
+
+		it('should settle a call short-circuited by an outbound hook without sending it', async () => {
+			// GIVEN: Web middleware answering share from a cache
+			const cache: Middleware = {
+				outbound: (message, context) => {
+					if (message.type === 'request' && message.procedure === 'share') {
+						return context.respond({ data: { success: true } })
+					}
+				},
+			}
+			const harness = createTestHarness(contract, { web: { middleware: [cache] } })
+			const handler = vi.fn()
+			harness.native.handle('share', handler)
+
+			// WHEN: Calling
+			const result = await harness.web.call('share', { url: 'https://example.com' })
+
+			// THEN: Cached result, nothing reached native
+			expect(result).toEqual({ success: true })
+			expect(handler).not.toHaveBeenCalled()
+			harness.close()
+		})
+
+		it('should end streams and subscriptions short-circuited by a hook', async () => {
+			// GIVEN: Web middleware answering search and failing location
+			const stub: Middleware = {
+				outbound: (message, context) => {
+					if (message.type !== 'request') {
+						return
+					}
+					const error = { message: 'Denied', code: 'DENIED' }
+					return message.procedure === 'search'
+						? context.respond({ data: null })
+						: context.respond({ error })
+				},
+			}
+			const harness = createTestHarness(contract, { web: { middleware: [stub] } })
+			const onError = vi.fn()
+
+			// WHEN: Streaming and subscribing
+			const chunks: unknown[] = []
+			for await (const chunk of harness.web.stream('search', { query: 'a' })) {
+				chunks.push(chunk)
+			}
+			harness.web.subscribe('location', { accuracy: 'low' }, vi.fn(), {
+				onError,
+			})
+
+			// THEN: Stream ended without chunks, subscriber told why it failed
+			expect(chunks).toEqual([])
+			expect(onError).toHaveBeenCalledWith(
+				expect.objectContaining({ code: 'DENIED' }),
+			)
+			harness.close()
+		})
+
+		it('should answer a request short-circuited by an inbound hook', async () => {
+			// GIVEN: Native middleware answering share itself
+			const stub: Middleware = {
+				inbound: (message, context) => {
+					if (message.type === 'request') {
+						return context.respond({ data: { success: false } })
+					}
+				},
+			}
+			const harness = createTestHarness(contract, {
+				native: { middleware: [stub] },
+			})
+			const handler = vi.fn()
+			harness.native.handle('share', handler)
+
+			// WHEN: Calling
+			const result = await harness.web.call('share', { url: 'https://example.com' })
+
+			// THEN: Stubbed result
+			expect(result).toEqual({ success: false })
+			expect(handler).not.toHaveBeenCalled()
+			harness.close()
+		})
+
+		it('should reject a call whose request an outbound hook drops', async () => {
+			// GIVEN: Web middleware dropping every request
+			const harness = createTestHarness(contract, {
+				web: {
+					middleware: [
+						{ outbound: (message) => (message.type === 'request' ? null : undefined) },
+					],
+				},
+			})
+
+			// WHEN: Calling
+			const promise = harness.web.call('share', { url: 'https://example.com' })
+
+			// THEN: Rejected at once
+			await expect(promise).rejects.toMatchObject({ code: 'MIDDLEWARE_DROPPED' })
+			harness.close()
+		})
+
+		it('should let hooks observe results with the request they answer', async () => {
+			// GIVEN: Middleware logging responses on both sides
+			const responses: Array<[string, ResponseMessage, RequestMessage | undefined]> =
+				[]
+			const logger = (side: string): Middleware => ({
+				inbound: (message, context) => {
+					if (message.type === 'response') {
+						responses.push([`${side} in`, message, context.request])
+					}
+				},
+				outbound: (message, context) => {
+					if (message.type === 'response') {
+						responses.push([`${side} out`, message, context.request])
+					}
+				},
+			})
+			const harness = createTestHarness(contract, {
+				web: { middleware: [logger('web')] },
+				native: { middleware: [logger('native')] },
+			})
+			harness.native.handle('share', () => {
+				throw new RemoteError('DENIED', undefined)
+			})
+
+			// WHEN: Calling
+			await harness.web.call('share', { url: 'https://example.com' }).catch(() => {})
+
+			// THEN: Both sides saw the error with the originating request
+			expect(responses.map(([label]) => label)).toEqual(['native out', 'web in'])
+			for (const [, response, request] of responses) {
+				expect(response.error).toMatchObject({ code: 'DENIED' })
+				expect(request).toMatchObject({ procedure: 'share' })
+			}
+			harness.close()
+		})
+
+		it('should run hooks on events and skip dropped ones', async () => {
+			// GIVEN: Native middleware dropping events for the home page
+			const harness = createTestHarness(contract, {
+				native: {
+					middleware: [
+						{
+							inbound: (message) =>
+								message.type === 'event' &&
+								(message.data as { path: string }).path === '/'
+									? null
+									: undefined,
+						},
+					],
+				},
+			})
+			const listener = vi.fn()
+			harness.native.on('pathChanged', listener)
+
+			// WHEN: Emitting twice
+			harness.web.emit('pathChanged', { path: '/' })
+			harness.web.emit('pathChanged', { path: '/settings' })
+			await flush()
+
+			// THEN: Only the second one arrives
+			expect(listener).toHaveBeenCalledTimes(1)
+			expect(listener).toHaveBeenCalledWith({ path: '/settings' })
+			harness.close()
+		})
+	})
+
+	describe('reset', () => {
+		const reloaded = () => new WebViewRPCError('Page reloaded', 'PEER_RELOADED')
+
+		it('should fail sent requests, streams and subscriptions with the error', async () => {
+			// GIVEN: Native handlers that never answer
+			const harness = createTestHarness(contract)
+			harness.native.handle('share', () => new Promise(() => {}))
+			harness.native.handle('search', async function* () {
+				await new Promise(() => {})
+			})
+			harness.native.handle('location', () => undefined)
+			const onError = vi.fn()
+
+			// WHEN: Web starts each, then resets
+			const call = harness.web.call('share', { url: 'https://example.com' })
+			const stream = harness.web.stream('search', { query: 'a' })
+			const read = stream.next()
+			harness.web.subscribe('location', { accuracy: 'high' }, vi.fn(), {
+				onError,
+			})
+			await flush()
+			harness.web.reset(reloaded())
+
+			// THEN: All failed with the reset error
+			await expect(call).rejects.toMatchObject({ code: 'PEER_RELOADED' })
+			await expect(read).rejects.toMatchObject({ code: 'PEER_RELOADED' })
+			expect(onError).toHaveBeenCalledWith(
+				expect.objectContaining({ code: 'PEER_RELOADED' }),
+			)
+			harness.close()
+		})
+
+		it('should keep queued requests for the new peer and repeat the handshake', async () => {
+			// GIVEN: Web peer with a queue, ready once
+			const harness = createTestHarness(contract, { web: { queue: true } })
+			harness.native.handle('share', () => ({ success: true }))
+			await harness.web.ready
+			const firstReady = harness.web.ready
+
+			// WHEN: Resetting, then calling before the new handshake
+			harness.web.reset(reloaded())
+			const call = harness.web.call('share', { url: 'https://example.com' })
+
+			// THEN: New handshake, then the queued call goes through
+			expect(harness.web.ready).not.toBe(firstReady)
+			await expect(harness.web.ready).resolves.toBeUndefined()
+			await expect(call).resolves.toEqual({ success: true })
+			harness.close()
+		})
+
+		it('should abort handlers still serving the old peer', async () => {
+			// GIVEN: Native handler in progress
+			const harness = createTestHarness(contract)
+			let signal: AbortSignal | undefined
+			harness.native.handle('share', (_data, context) => {
+				signal = context.signal
+				return new Promise<{ success: boolean }>(() => {})
+			})
+			harness.web.call('share', { url: 'https://example.com' }).catch(() => {})
+			await flush()
+
+			// WHEN: Native resets
+			harness.native.reset(reloaded())
+
+			// THEN: Handler told to stop
+			expect(signal?.aborted).toBe(true)
+			harness.close()
+		})
+
+		it('should forget the encodings of the old peer', () => {
+			// GIVEN: Transport that learned the encodings of the old peer
+			const [webTransport] = createLinkedTransports()
+			webTransport.setRemoteEncodings = vi.fn()
+			const web = createPeer(contract, { transport: webTransport, side: 'web' })
+
+			// WHEN: Resetting
+			web.reset(reloaded())
+
+			// THEN: Nothing compressed until the new peer announces its encodings
+			expect(webTransport.setRemoteEncodings).toHaveBeenLastCalledWith([])
+			web.close()
+		})
+	})
+
+	describe('batching', () => {
+		it('should send messages posted together in one batch envelope', async () => {
+			// GIVEN: Web peer batching, ready
+			const harness = createTestHarness(contract, { web: { batch: true } })
+			const listener = vi.fn()
+			harness.native.on('pathChanged', listener)
+			await harness.ready
+			const before = harness.transport.traffic.length
+
+			// WHEN: Emitting three events synchronously
+			harness.web.emit('pathChanged', { path: '/a' })
+			harness.web.emit('pathChanged', { path: '/b' })
+			harness.web.emit('pathChanged', { path: '/c' })
+			await flush()
+
+			// THEN: One crossing, unpacked in order
+			const sent = harness.transport.traffic.slice(before)
+			expect(sent).toHaveLength(1)
+			expect(sent[0].message).toMatchObject({
+				type: 'batch',
+				messages: [{ type: 'event' }, { type: 'event' }, { type: 'event' }],
+			})
+			expect(listener.mock.calls.map(([data]) => data.path)).toEqual([
+				'/a',
+				'/b',
+				'/c',
+			])
+			harness.close()
+		})
+
+		it('should send a lone message without an envelope', async () => {
+			// GIVEN: Both peers batching
+			const harness = createTestHarness(contract, {
+				web: { batch: true },
+				native: { batch: true },
+			})
+			harness.native.handle('share', () => ({ success: true }))
+			await harness.ready
+			const before = harness.transport.traffic.length
+
+			// WHEN: Calling
+			const result = await harness.web.call('share', {
+				url: 'https://example.com',
+			})
+
+			// THEN: Request and response sent as they are
+			expect(result).toEqual({ success: true })
+			expect(
+				harness.transport.traffic.slice(before).map((entry) => entry.message.type),
+			).toEqual(['request', 'response'])
+			harness.close()
+		})
+
+		it('should run middleware on each message before it is batched', async () => {
+			// GIVEN: Web batching with middleware dropping one event
+			const outbound = vi.fn((message: Message) =>
+				message.type === 'event' &&
+				(message.data as { path: string }).path === '/skip'
+					? null
+					: undefined,
+			)
+			const harness = createTestHarness(contract, {
+				web: { batch: true, middleware: [{ outbound }] },
+			})
+			const listener = vi.fn()
+			harness.native.on('pathChanged', listener)
+			await harness.ready
+
+			// WHEN: Emitting twice
+			harness.web.emit('pathChanged', { path: '/skip' })
+			harness.web.emit('pathChanged', { path: '/kept' })
+			await flush()
+
+			// THEN: Hooks saw both events, only the kept one arrived
+			expect(outbound).toHaveBeenCalledTimes(2)
+			expect(listener).toHaveBeenCalledTimes(1)
+			expect(listener).toHaveBeenCalledWith({ path: '/kept' })
+			harness.close()
+		})
+
+		it('should fail every request of a batch the transport cannot deliver', async () => {
+			// GIVEN: Web batching over a transport that throws
+			const onError = vi.fn()
+			const transport: Transport = {
+				send: vi.fn((message: Message) => {
+					if (message.type === 'batch') {
+						throw new WebViewRPCError('Bridge gone', 'BRIDGE_UNAVAILABLE')
+					}
+				}),
+				subscribe: () => () => {},
+				close: vi.fn(),
+				isReady: () => true,
+			}
+			const web = createPeer(contract, {
+				transport,
+				side: 'web',
+				batch: true,
+				onError,
+			})
+
+			// WHEN: Calling twice in the same tick
+			const first = web.call('share', { url: 'https://a.com' })
+			const second = web.call('share', { url: 'https://b.com' })
+
+			// THEN: Both rejected, error reported once
+			await expect(first).rejects.toMatchObject({ code: 'BRIDGE_UNAVAILABLE' })
+			await expect(second).rejects.toMatchObject({ code: 'BRIDGE_UNAVAILABLE' })
+			expect(onError).toHaveBeenCalledTimes(1)
+			web.close()
+		})
+
+		it('should send pending messages when closing', () => {
+			// GIVEN: Web batching with a 1s window and an emitted event
+			const transport: Transport = {
+				send: vi.fn(),
+				subscribe: () => () => {},
+				close: vi.fn(),
+				isReady: () => true,
+			}
+			const web = createPeer(contract, {
+				transport,
+				side: 'web',
+				batch: { window: 1000 },
+			})
+			web.emit('pathChanged', { path: '/' })
+
+			// WHEN: Closing
+			web.close()
+
+			// THEN: Event sent before the transport closed
+			expect(transport.send).toHaveBeenLastCalledWith(
+				expect.objectContaining({ type: 'event', event: 'pathChanged' }),
+			)
+		})
+	})
+
+	describe('binary payloads', () => {
+		const binaryContract = defineContract({
+			native: {
+				scanDocument: procedure(
+					createMockSchema<{ image: Blob; name: string }>(),
+				).returns(createMockSchema<{ pdf: Uint8Array; preview: Blob }>()),
+				scanned: createMockSchema<{ pages: Blob[] }>(),
+			},
+		})
+		const codec = {
+			transport: {
+				serializer: binarySerializer,
+				deserializer: binaryDeserializer,
+			},
+		}
+
+		it('should read Blobs of calls and results before sending them', async () => {
+			// GIVEN: Native handler returning bytes and a Blob
+			const harness = createTestHarness(binaryContract, codec)
+			const handler = vi.fn(async ({ image }: { image: Blob | Uint8Array }) => ({
+				pdf:
+					image instanceof Blob ? new Uint8Array(await image.arrayBuffer()) : image,
+				preview: new Blob(['png'], { type: 'image/png' }),
+			}))
+			harness.native.handle('scanDocument', handler)
+
+			// WHEN: Calling with a Blob
+			const result = await harness.web.call('scanDocument', {
+				image: new Blob(['%PDF'], { type: 'image/jpeg' }),
+				name: 'scan',
+			})
+
+			// THEN: Blob and bytes restored on each side
+			const [[input]] = handler.mock.calls
+			expect(input.image).toBeInstanceOf(Blob)
+			expect((input.image as Blob).type).toBe('image/jpeg')
+			expect(result.pdf).toEqual(new Uint8Array([37, 80, 68, 70]))
+			expect(await (result.preview as Blob).text()).toBe('png')
+			harness.close()
+		})
+
+		it('should read Blobs of events before emitting them', async () => {
+			// GIVEN: Web listening to scanned
+			const harness = createTestHarness(binaryContract, codec)
+			const listener = vi.fn()
+			harness.web.on('scanned', listener)
+
+			// WHEN: Native emits Blobs
+			harness.native.emit('scanned', { pages: [new Blob(['page 1'])] })
+
+			// THEN: Delivered as Blobs
+			await vi.waitFor(() => expect(listener).toHaveBeenCalled())
+			expect(await listener.mock.calls[0][0].pages[0].text()).toBe('page 1')
+			harness.close()
+		})
+	})
+
+	describe('unknown procedures', () => {
+		// Older native build, without share
+		const olderContract = defineContract({
+			web: contract.web,
+			native: { appStateChange: contract.native.appStateChange },
+		})
+
+		const connect = async (options: Partial<PeerOptions> = {}) => {
+			const [webTransport, nativeTransport] = createLinkedTransports()
+			const native = createPeer(olderContract, {
+				transport: nativeTransport,
+				side: 'native',
+			})
+			const web = createPeer(contract, {
+				...options,
+				transport: webTransport,
+				side: 'web',
+			})
+			await web.ready
+			return { web, native, webTransport }
+		}
+
+		it('should announce the names of the local side', async () => {
+			// WHEN: Handshake with the older build
+			const { web, native, webTransport } = await connect()
+
+			// THEN: Each side announced its own names
+			expect(webTransport.sent[0]).toMatchObject({
+				names: ['navigate', 'pathChanged'],
+			})
+			web.close()
+			native.close()
+		})
+
+		it('should reject calls the other side does not define without sending them', async () => {
+			// GIVEN: Web connected to the older build
+			const { web, native, webTransport } = await connect()
+
+			// WHEN: Calling share
+			const call = web.call('share', { url: 'https://example.com' })
+
+			// THEN: Rejected, nothing sent past the handshake
+			await expect(call).rejects.toMatchObject({ code: 'UNKNOWN_PROCEDURE' })
+			expect(webTransport.sent.map((message) => message.type)).toEqual([
+				'hello',
+				'ready',
+			])
+			web.close()
+			native.close()
+		})
+
+		it('should report and send calls when warning', async () => {
+			// GIVEN: Web warning about unknown procedures
+			const onError = vi.fn()
+			const { web, native, webTransport } = await connect({
+				unknownProcedures: 'warn',
+				onError,
+			})
+
+			// WHEN: Calling share
+			web.call('share', { url: 'https://example.com' }).catch(() => {})
+
+			// THEN: Reported, then sent
+			expect(onError).toHaveBeenCalledWith(
+				expect.objectContaining({ code: 'UNKNOWN_PROCEDURE' }),
+			)
+			expect(webTransport.sent.at(-1)).toMatchObject({
+				type: 'request',
+				procedure: 'share',
+			})
+			web.close()
+			native.close()
+		})
+
+		it('should not check calls to builds that announce no names', async () => {
+			// GIVEN: Other side answering like an older build
+			const [webTransport, nativeTransport] = createLinkedTransports()
+			nativeTransport.subscribe((message) => {
+				if (message.type === 'hello') {
+					nativeTransport.send(
+						createHandshakeMessage(
+							'ready',
+							getContractFingerprint(contract),
+							message.id,
+						),
+					)
+				}
+			})
+			const web = createPeer(contract, { transport: webTransport, side: 'web' })
+			await web.ready
+
+			// WHEN: Calling share
+			web.call('share', { url: 'https://example.com' }).catch(() => {})
+
+			// THEN: Sent
+			expect(webTransport.sent[1]).toMatchObject({ procedure: 'share' })
+			web.close()
+		})
+
+		it('should flush queued calls when the other side adds a procedure', async () => {
+			// GIVEN: Newer native build with an extra procedure
+			const newerContract = defineContract({
+				web: contract.web,
+				native: {
+					...contract.native,
+					print: procedure(createMockSchema<{ url: string }>()).returns(
+						createMockSchema<{ success: boolean }>(),
+					),
+				},
+			})
+			const [webTransport, nativeTransport] = createLinkedTransports()
+			const native = createPeer(newerContract, {
+				transport: nativeTransport,
+				side: 'native',
+			})
+			native.handle('share', () => ({ success: true }))
+			const web = createPeer(contract, {
+				transport: webTransport,
+				side: 'web',
+				queue: true,
+			})
+
+			// WHEN: Calling before the handshake completes
+			const call = web.call('share', { url: 'https://example.com' })
+
+			// THEN: Ready resolves and the queued call goes through
+			await expect(web.ready).resolves.toBeUndefined()
+			await expect(call).resolves.toEqual({ success: true })
+			web.close()
+			native.close()
+		})
+
+		it('should reject ready when a shared name changes kind', async () => {
+			// GIVEN: Native build where share became an event
+			const changedContract = defineContract({
+				web: contract.web,
+				native: {
+					share: createMockSchema<{ url: string }>(),
+					appStateChange: contract.native.appStateChange,
+				},
+			})
+			const [webTransport, nativeTransport] = createLinkedTransports()
+			const native = createPeer(changedContract, {
+				transport: nativeTransport,
+				side: 'native',
+			})
+			const web = createPeer(contract, { transport: webTransport, side: 'web' })
+
+			// WHEN: Handshaking
+			// THEN: Both sides reject ready with the breaking change
+			await expect(web.ready).rejects.toMatchObject({
+				code: 'PROTOCOL_MISMATCH',
+				message: expect.stringContaining('native.share'),
+			})
+			await expect(native.ready).rejects.toMatchObject({
+				code: 'PROTOCOL_MISMATCH',
+				message: expect.stringContaining('native.share'),
+			})
+			web.close()
+			native.close()
+		})
+
+		it('should describe contracts only once the fingerprints differ', async () => {
+			// GIVEN: Same contract on both sides
+			const [webTransport, nativeTransport] = createLinkedTransports()
+			const native = createPeer(contract, {
+				transport: nativeTransport,
+				side: 'native',
+			})
+			const web = createPeer(contract, { transport: webTransport, side: 'web' })
+			await web.ready
+
+			// THEN: No description exchanged
+			for (const message of [...webTransport.sent, ...nativeTransport.sent]) {
+				expect(message).not.toHaveProperty('contract')
+			}
+			web.close()
+			native.close()
+
+			// WHEN: Handshaking with the older build
+			const older = await connect()
+			await older.native.ready
+
+			// THEN: Native describes its contract in its ready, web in return
+			expect(older.webTransport.sent[0]).not.toHaveProperty('contract')
+			expect(older.webTransport.sent[1]).toMatchObject({
+				type: 'ready',
+				contract: { native: { share: { kind: 'procedure' } } },
+			})
+			older.web.close()
+			older.native.close()
+		})
+
+		it('should compare the JSON Schema from toJSONSchema', async () => {
+			// GIVEN: Native build requiring a new input property
+			const toJSONSchema = (schema: StandardSchemaV1) =>
+				(schema as unknown as { jsonSchema: unknown }).jsonSchema
+			const withJSONSchema = <T>(jsonSchema: unknown) =>
+				Object.assign(createMockSchema<T>(), { jsonSchema })
+			const share = (required: string[]) =>
+				defineContract({
+					native: {
+						share: procedure(
+							withJSONSchema<{ url: string }>({
+								type: 'object',
+								properties: {
+									url: { type: 'string' },
+									title: { type: 'string' },
+								},
+								required,
+							}),
+						).returns(createMockSchema<{ success: boolean }>()),
+					},
+				})
+			const [webTransport, nativeTransport] = createLinkedTransports()
+			const native = createPeer(share(['url', 'title']), {
+				transport: nativeTransport,
+				side: 'native',
+				toJSONSchema,
+			})
+			const web = createPeer(share(['url']), {
+				transport: webTransport,
+				side: 'web',
+				toJSONSchema,
+			})
+
+			// WHEN: Handshaking
+			// THEN: Ready rejects with the schema change
+			await expect(web.ready).rejects.toMatchObject({
+				code: 'PROTOCOL_MISMATCH',
+				message: expect.stringContaining('native.share input'),
+			})
+			web.close()
+			native.close()
+		})
+	})
+})
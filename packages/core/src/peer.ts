@@ -0,0 +1,1918 @@
+/**
+ * Transport-agnostic RPC peer shared by the web and native clients
+ * @module peer
+ */
+
+import { type BatchOptions, createBatcher, createBatchMessage } from './batch'
+import { containsBlob, readBlobs } from './binary'
+import {
+	RemoteError,
+	WebViewRPCError,
+	WebViewRPCTimeoutError,
+	WebViewRPCValidationError,
+} from './errors'
+import {
+	type DescribeOptions,
+	describeContract,
+	getDescriptionFingerprint,
+} from './fingerprint'
+import {
+	PROTOCOL_VERSION,
+	createHandshakeMessage,
+	verifyHandshake,
+} from './handshake'
+import { generateCorrelationId } from './message'
+import {
+	type MessageDirection,
+	type Middleware,
+	runMiddleware,
+} from './middleware'
+import { createOutboundQueue, type QueueOptions } from './queue'
+import { createStreamReader, type StreamReader } from './stream'
+import type { TransferProgress } from './chunking'
+import {
+	type Serializer,
+	type Transport,
+	defaultSerializer,
+} from './transport'
+import type {
+	CancelMessage,
+	Contract,
+	ErrorPayload,
+	EventMessage,
+	HandshakeMessage,
+	InferChunk,
+	InferEmits,
+	InferInput,
+	InferReturns,
+	Message,
+	RequestMessage,
+	ResponseMessage,
+	SchemaDefinition,
+	StreamCreditMessage,
+	StreamMessage,
+} from './types'
+import {
+	getChunkSchema,
+	getEmitSchema,
+	getErrorSchema,
+	getReturnSchema,
+	getSchema,
+	shouldValidate,
+	validateSchema,
+	type ValidationSetting,
+} from './validation'
+
+/**
+ * Side of the contract a peer implements
+ */
+export type PeerSide = 'web' | 'native'
+
+/**
+ * What to do with calls to names the other side did not announce
+ * - `reject` fail the call with an UNKNOWN_PROCEDURE error without sending it
+ * - `warn` report an UNKNOWN_PROCEDURE error to onError and send the call anyway
+ * - `ignore` send the call
+ */
+export type UnknownProcedurePolicy = 'reject' | 'warn' | 'ignore'
+
+/**
+ * Side of the contract the other peer implements
+ */
+export type RemoteSide<TSide extends PeerSide> = TSide extends 'web'
+	? 'native'
+	: 'web'
+
+type LocalDefinitions<
+	TContract extends Contract,
+	TSide extends PeerSide,
+> = NonNullable<TContract[TSide]>
+
+type RemoteDefinitions<
+	TContract extends Contract,
+	TSide extends PeerSide,
+> = NonNullable<TContract[RemoteSide<TSide>]>
+
+/**
+ * Per-call options
+ */
+export interface CallOptions {
+	/**
+	 * Abort the call. The promise rejects with an ABORTED error and the other
+	 * side's handler sees its own signal abort.
+	 */
+	signal?: AbortSignal
+
+	/**
+	 * Timeout of this call in milliseconds, overriding the peer timeout
+	 */
+	timeout?: number
+
+	/**
+	 * Headers sent along with the request and exposed to the handler
+	 */
+	meta?: Record<string, unknown>
+
+	/**
+	 * Called as the request is sent and its response received in chunks, when
+	 * the transport splits large messages
+	 */
+	onProgress?: (progress: TransferProgress) => void
+}
+
+/**
+ * Options of a stream call
+ */
+export interface StreamOptions extends CallOptions {
+	/**
+	 * Time in milliseconds to wait for the first chunk, overriding the peer
+	 * timeout. Once the stream has started it stays open until it ends, fails
+	 * or is aborted.
+	 */
+	timeout?: number
+
+	/**
+	 * Chunks the other side may send before the caller reads them (default: 16).
+	 * Read chunks are handed back as credits in batches of half this window.
+	 */
+	credits?: number
+}
+
+/**
+ * Options of a subscription
+ */
+export interface SubscribeOptions {
+	/**
+	 * Called when the subscription fails or cannot be started (default: the
+	 * peer's onError)
+	 */
+	onError?: (error: Error) => void
+}
+
+/**
+ * Context passed to procedure handlers alongside the request data
+ */
+export interface HandlerContext {
+	/**
+	 * Aborted when the caller cancels the request, its deadline passes or the
+	 * peer is closed
+	 */
+	signal: AbortSignal
+
+	/**
+	 * Headers sent by the caller (empty when none were sent)
+	 */
+	meta: Record<string, unknown>
+
+	/**
+	 * Time in milliseconds since the epoch after which the caller stops waiting,
+	 * if the caller sent one
+	 */
+	deadline?: number
+}
+
+/**
+ * Handler answering procedure calls from the other side
+ */
+export type PeerHandler<TInput = unknown, TOutput = unknown> = (
+	data: TInput,
+	context: HandlerContext,
+) => TOutput | Promise<TOutput>
+
+/**
+ * Handler answering stream calls from the other side, usually an async generator
+ */
+export type StreamHandler<TInput = unknown, TChunk = unknown> = (
+	data: TInput,
+	context: HandlerContext,
+) => AsyncIterable<TChunk>
+
+/**
+ * Context passed to subscription handlers
+ */
+export interface SubscriptionContext<TData = unknown> extends HandlerContext {
+	/**
+	 * Push data to the subscriber, ignored once the subscription is torn down
+	 */
+	emit: (data: TData) => void
+}
+
+/**
+ * Handler starting a subscription for the other side. The function it
+ * returns, if any, is called on teardown.
+ */
+export type SubscriptionHandler<TInput = unknown, TData = unknown> = (
+	data: TInput,
+	context: SubscriptionContext<TData>,
+) => (() => void) | undefined | Promise<(() => void) | undefined>
+
+/**
+ * Handler of a local procedure, stream or subscription, depending on its schema
+ */
+type LocalHandler<TDefinition> = TDefinition extends { yields: unknown }
+	? StreamHandler<InferInput<TDefinition>, InferChunk<TDefinition>>
+	: TDefinition extends { emits: unknown }
+		? SubscriptionHandler<InferInput<TDefinition>, InferEmits<TDefinition>>
+		: PeerHandler<InferInput<TDefinition>, InferReturns<TDefinition>>
+
+/**
+ * Options for creating a peer
+ */
+export interface PeerOptions {
+	/**
+	 * Channel used to exchange messages with the other side
+	 */
+	transport: Transport
+
+	/**
+	 * Side of the contract implemented locally. Procedures of this side are
+	 * handled and its events emitted; the other side is called and listened to.
+	 */
+	side: PeerSide
+
+	/**
+	 * Request timeout in milliseconds (default: 5000)
+	 */
+	timeout?: number
+
+	/**
+	 * Send a hello once the transport is ready instead of waiting for the other
+	 * side's hello (default: true for the web side)
+	 */
+	initiateHandshake?: boolean
+
+	/**
+	 * Reject `ready` if the other side does not answer our hello within this many
+	 * milliseconds (default: wait indefinitely)
+	 */
+	handshakeTimeout?: number
+
+	/**
+	 * Buffer requests and events until the handshake completes (default: disabled)
+	 */
+	queue?: boolean | QueueOptions
+
+	/**
+	 * Error handler for errors that cannot be reported to a caller
+	 */
+	onError?: (error: Error) => void
+
+	/**
+	 * Runtime validation against the contract schemas (default: false)
+	 */
+	validate?: ValidationSetting
+
+	/**
+	 * Send the stack trace and cause chain of handler errors to the caller
+	 * (default: false). Meant for development builds, as stacks reveal source
+	 * paths.
+	 */
+	forwardErrorDetails?: boolean
+
+	/**
+	 * Hooks run in order on every message sent and received, except the
+	 * handshake (default: none)
+	 */
+	middleware?: Middleware[]
+
+	/**
+	 * Coalesce messages posted close together into a single `batch` envelope,
+	 * reducing bridge crossings under load (default: disabled). Handshake
+	 * messages are never batched.
+	 */
+	batch?: boolean | BatchOptions
+
+	/**
+	 * Handling of calls to procedures, streams and subscriptions missing from
+	 * the contract of the other side, as announced in its handshake
+	 * (default: 'reject'). Older builds announce nothing, so calls to them are
+	 * never checked.
+	 */
+	unknownProcedures?: UnknownProcedurePolicy
+
+	/**
+	 * Convert schemas to JSON Schema for the contract fingerprint and the
+	 * description compared during the handshake, for libraries that only offer
+	 * a standalone converter, such as `z.toJSONSchema` in Zod 4.1. Without a
+	 * JSON Schema, changes to a schema cannot be told apart in the handshake.
+	 */
+	toJSONSchema?: DescribeOptions['toJSONSchema']
+
+	/**
+	 * Serializer the transport writes messages with (default: JSON.stringify).
+	 * Subscribers whose inputs it writes the same share one subscription.
+	 */
+	serializer?: Serializer
+}
+
+/**
+ * RPC endpoint implementing one side of a contract over a transport
+ */
+export interface Peer<TContract extends Contract, TSide extends PeerSide> {
+	/**
+	 * Call a procedure on the other side
+	 */
+	call: <K extends keyof RemoteDefinitions<TContract, TSide>>(
+		procedure: K,
+		data: InferInput<RemoteDefinitions<TContract, TSide>[K]>,
+		options?: CallOptions,
+	) => Promise<InferReturns<RemoteDefinitions<TContract, TSide>[K]>>
+
+	/**
+	 * Call a stream on the other side. Chunks are read with `for await`;
+	 * breaking out of the loop cancels the stream.
+	 */
+	stream: <K extends keyof RemoteDefinitions<TContract, TSide>>(
+		procedure: K,
+		data: InferInput<RemoteDefinitions<TContract, TSide>[K]>,
+		options?: StreamOptions,
+	) => AsyncIterableIterator<InferChunk<RemoteDefinitions<TContract, TSide>[K]>>
+
+	/**
+	 * Subscribe to a subscription on the other side. Its handler starts with the
+	 * first subscriber to the same input and is torn down after the last one
+	 * unsubscribes.
+	 *
+	 * @returns Function unsubscribing
+	 */
+	subscribe: <K extends keyof RemoteDefinitions<TContract, TSide>>(
+		procedure: K,
+		data: InferInput<RemoteDefinitions<TContract, TSide>[K]>,
+		onData: (data: InferEmits<RemoteDefinitions<TContract, TSide>[K]>) => void,
+		options?: SubscribeOptions,
+	) => () => void
+
+	/**
+	 * Emit an event to the other side
+	 */
+	emit: <K extends keyof LocalDefinitions<TContract, TSide>>(
+		event: K,
+		data: InferInput<LocalDefinitions<TContract, TSide>[K]>,
+	) => void
+
+	/**
+	 * Register the handler of a local procedure, stream or subscription,
+	 * replacing any previous handler
+	 *
+	 * @returns Function unregistering the handler
+	 */
+	handle: <K extends keyof LocalDefinitions<TContract, TSide>>(
+		procedure: K,
+		handler: LocalHandler<LocalDefinitions<TContract, TSide>[K]>,
+	) => () => void
+
+	/**
+	 * Listen to an event from the other side
+	 *
+	 * @returns Function removing the listener
+	 */
+	on: <K extends keyof RemoteDefinitions<TContract, TSide>>(
+		event: K,
+		listener: (data: InferInput<RemoteDefinitions<TContract, TSide>[K]>) => void,
+	) => () => void
+
+	/**
+	 * Resolves once the handshake completes, rejects with PROTOCOL_MISMATCH if
+	 * the two sides disagree on the protocol version or on a name both define.
+	 * Replaced by a new promise when `reset` is called after the handshake
+	 * settled.
+	 */
+	readonly ready: Promise<void>
+
+	/**
+	 * Forget whatever the other side had in flight because it went away, e.g. a
+	 * page reload, and wait for a new handshake. Sent requests, streams and
+	 * subscriptions fail with the error; queued ones are kept for the new peer.
+	 */
+	reset: (error: WebViewRPCError) => void
+
+	/**
+	 * Reject pending requests, drop handlers and close the transport
+	 */
+	close: () => void
+}
+
+/**
+ * Request awaiting a response from the other side
+ */
+interface PendingRequest {
+	// Request as the caller made it, before outbound middleware
+	request: RequestMessage
+	resolve: (value: unknown) => void
+	reject: (error: Error) => void
+	// Timeout of this request in milliseconds
+	timeout: number
+	// Time the caller stops waiting, set when the timeout starts
+	deadline?: number
+	// Unset while the timeout waits for the request to leave the outbound queue
+	timeoutId?: ReturnType<typeof setTimeout>
+	// Removes the request from the outbound queue if it is still queued
+	dequeue?: () => void
+	// Set once the request has been handed to the transport
+	sent?: boolean
+	// Detaches the abort listener of the caller's signal
+	detach?: () => void
+	// Progress callback of the caller
+	onProgress?: (progress: TransferProgress) => void
+}
+
+/**
+ * Stream called on the other side whose chunks are being read
+ */
+interface OpenStream {
+	reader: StreamReader<unknown>
+	// Start of the stream, tracked as a request until the first chunk arrives
+	pending: PendingRequest
+	// Detaches the abort listener of the caller's signal
+	detach?: () => void
+}
+
+/**
+ * Stream handled locally, sending chunks while the caller has credits left
+ */
+interface StreamWriter {
+	credits: number
+	// Resumes a handler waiting for credits
+	resume?: () => void
+}
+
+/**
+ * Subscriber to a subscription on the other side
+ */
+interface SubscriptionListener {
+	onData: (data: unknown) => void
+	onError?: (error: Error) => void
+}
+
+/**
+ * Subscription to the other side, shared by subscribers with the same input
+ */
+interface Subscription {
+	id: string
+	key: string
+	listeners: Set<SubscriptionListener>
+	// Set once the subscribe request has been handed to the transport
+	sent?: boolean
+	// Removes the subscribe request from the outbound queue if it is still queued
+	dequeue?: () => void
+}
+
+/**
+ * Chunks a stream caller accepts ahead of reading them, unless configured
+ */
+const DEFAULT_STREAM_CREDITS = 16
+
+/**
+ * Error rejecting a call aborted through its signal
+ */
+function abortError(): WebViewRPCError {
+	return new WebViewRPCError('Request aborted', 'ABORTED')
+}
+
+/**
+ * Causes forwarded along with a handler error, deep enough for wrapped errors
+ * without following cycles forever
+ */
+const MAX_CAUSE_DEPTH = 5
+
+/**
+ * Convert a handler failure into the error payload of a response message
+ *
+ * @param forwardDetails - Include the stack trace and cause chain
+ */
+function toResponseError(
+	error: Error,
+	forwardDetails = false,
+	depth = 0,
+): ErrorPayload {
+	const payload: ErrorPayload =
+		error instanceof WebViewRPCValidationError
+			? { message: error.message, code: error.code, issues: error.issues }
+			: error instanceof RemoteError
+				? {
+						message: error.message,
+						code: error.code,
+						name: error.name,
+						data: error.data,
+					}
+				: { message: error.message, code: 'HANDLER_ERROR' }
+
+	if (forwardDetails) {
+		payload.name = error.name
+		payload.stack = error.stack
+		if (error.cause instanceof Error && depth < MAX_CAUSE_DEPTH) {
+			payload.cause = toResponseError(error.cause, true, depth + 1)
+		}
+	}
+
+	return payload
+}
+
+/**
+ * Reconstruct an error from the error payload of a response message
+ */
+function fromResponseError(error: ErrorPayload): WebViewRPCError {
+	const rebuilt =
+		error.code === 'VALIDATION_ERROR'
+			? new WebViewRPCValidationError(error.message, error.issues ?? [])
+			: error.name === 'RemoteError'
+				? new RemoteError(error.code, error.data, error.message)
+				: new WebViewRPCError(error.message, error.code)
+
+	// Forwarded details replace the local stack, which only shows message handling
+	if (error.stack !== undefined) {
+		rebuilt.stack = error.stack
+	}
+	if (error.cause) {
+		rebuilt.cause = fromResponseError(error.cause)
+	}
+
+	return rebuilt
+}
+
+/**
+ * Creates an RPC peer for one side of a contract.
+ *
+ * The peer owns request correlation, timeouts, validation, the handshake and
+ * the outbound queue; the transport only moves messages. Closing the peer
+ * closes its transport.
+ *
+ * @param contract - The shared RPC contract
+ * @param options - Transport, local side and behaviour options
+ * @returns Peer instance
+ *
+ * @example
+ * ```typescript
+ * const peer = createPeer(contract, { transport, side: 'web' })
+ *
+ * peer.handle('navigate', async ({ path }) => {
+ *   router.push(path)
+ *   return { success: true }
+ * })
+ *
+ * const result = await peer.call('share', { url: 'https://example.com' })
+ * ```
+ */
+export function createPeer<
+	TContract extends Contract,
+	TSide extends PeerSide,
+>(
+	contract: TContract,
+	options: PeerOptions & { side: TSide },
+): Peer<TContract, TSide> {
+	const { transport, side, onError, validate, forwardErrorDetails } = options
+	const middleware = options.middleware ?? []
+	const timeout = options.timeout ?? 5000
+	const initiateHandshake = options.initiateHandshake ?? side === 'web'
+	const queueOptions = options.queue === true ? {} : options.queue || undefined
+	const batchOptions = options.batch === true ? {} : options.batch || undefined
+	const unknownProcedures = options.unknownProcedures ?? 'reject'
+	const serializeInput = options.serializer ?? defaultSerializer
+	const localSide = side as PeerSide
+	const remoteSide: PeerSide = localSide === 'web' ? 'native' : 'web'
+
+	// Contract fingerprint, description and names exchanged during the handshake
+	const description = describeContract(contract, {
+		toJSONSchema: options.toJSONSchema,
+	})
+	const fingerprint = getDescriptionFingerprint(description)
+	const localNames = Object.keys(contract[localSide] ?? {})
+
+	// Names the other side announced, unknown until it answers or for older builds
+	let remoteNames: Set<string> | undefined
+
+	// Handshake state, settled once the other side answers
+	let handshakeStarted = false
+	let handshakeSettled = false
+	let descriptionSent = false
+	let peerReady = false
+	let handshakeTimeoutId: ReturnType<typeof setTimeout> | undefined
+	let resolveReady: () => void = () => {}
+	let rejectReady: (error: Error) => void = () => {}
+	const createReady = (): Promise<void> => {
+		const promise = new Promise<void>((resolve, reject) => {
+			resolveReady = resolve
+			rejectReady = reject
+		})
+		// Avoid unhandled rejections when nobody awaits `ready`
+		promise.catch(() => {})
+		return promise
+	}
+	let ready = createReady()
+
+	// Pending requests by correlation ID
+	const pendingRequests = new Map<string, PendingRequest>()
+
+	// Outbound messages held until the other side is ready (only when queueing is enabled)
+	const outboundQueue = queueOptions
+		? createOutboundQueue<RequestMessage | EventMessage>(queueOptions)
+		: undefined
+
+	// Abort controllers of requests from the other side still being handled
+	const activeRequests = new Map<string, AbortController>()
+
+	// Streams being read locally and streams being written to the other side
+	const openStreams = new Map<string, OpenStream>()
+	const streamWriters = new Map<string, StreamWriter>()
+
+	// Subscriptions to the other side by request id and by name and input
+	const subscriptions = new Map<string, Subscription>()
+	const subscriptionsByKey = new Map<string, Subscription>()
+
+	// Handlers for local procedures, streams and subscriptions, and listeners for remote events
+	const procedureHandlers = new Map<
+		string,
+		PeerHandler | StreamHandler | SubscriptionHandler
+	>()
+	const eventListeners = new Map<string, Set<(data: unknown) => void>>()
+
+	/**
+	 * Remove a pending request, clearing its timeout and abort listener
+	 */
+	const takePending = (id: string): PendingRequest | undefined => {
+		const pending = pendingRequests.get(id)
+		if (!pending) {
+			return undefined
+		}
+
+		if (pending.timeoutId !== undefined) {
+			clearTimeout(pending.timeoutId)
+		}
+		pending.detach?.()
+		pendingRequests.delete(id)
+		return pending
+	}
+
+	/**
+	 * Settle a pending request with an error
+	 */
+	const rejectPending = (id: string, error: Error): void => {
+		takePending(id)?.reject(error)
+	}
+
+	/**
+	 * Run a message through middleware, carrying out a short-circuit response
+	 * or a dropped request
+	 *
+	 * @param request - Request answered by the message
+	 * @returns The message to send or dispatch, or undefined if it was handled
+	 */
+	const intercept = (
+		direction: MessageDirection,
+		message: Message,
+		request?: RequestMessage,
+	): Message | undefined => {
+		if (
+			middleware.length === 0 ||
+			message.type === 'hello' ||
+			message.type === 'ready'
+		) {
+			return message
+		}
+
+		// Hooks may mutate the envelope, which stays private to this delivery
+		const outcome = runMiddleware(middleware, { ...message }, {
+			direction,
+			side: localSide,
+			request,
+		})
+		if (outcome.action === 'pass') {
+			return outcome.message
+		}
+
+		if (outcome.action === 'respond') {
+			if (direction === 'outbound') {
+				handleResponse(outcome.message)
+			} else {
+				post(outcome.message, message as RequestMessage)
+			}
+		} else if (direction === 'outbound' && message.type === 'request') {
+			dropOutbound(
+				message,
+				new WebViewRPCError(
+					`Request dropped by middleware: ${message.procedure}`,
+					'MIDDLEWARE_DROPPED',
+				),
+			)
+		}
+
+		return undefined
+	}
+
+	/**
+	 * Report a delivery failure, failing the requests that were not delivered
+	 */
+	const failDelivery = (messages: Message[], error: Error): void => {
+		onError?.(error)
+
+		for (const message of messages) {
+			if (message.type === 'request') {
+				rejectPending(message.id, error)
+			}
+		}
+	}
+
+	/**
+	 * Send collected messages, wrapped in a batch envelope when there are several
+	 */
+	const sendBatch = (messages: Message[]): void => {
+		try {
+			transport.send(
+				messages.length === 1 ? messages[0] : createBatchMessage(messages),
+			)
+		} catch (error) {
+			failDelivery(messages, error as Error)
+		}
+	}
+
+	// Messages collected for the next batch (only when batching is enabled)
+	const batcher = batchOptions
+		? createBatcher<Message>(sendBatch, batchOptions)
+		: undefined
+
+	/**
+	 * Hand a message to the transport after outbound middleware, failing the
+	 * request if delivery fails
+	 *
+	 * @param request - Request answered by the message
+	 */
+	const post = (message: Message, request?: RequestMessage): void => {
+		try {
+			const outgoing = intercept('outbound', message, request)
+			if (!outgoing) {
+				return
+			}
+
+			if (batcher && outgoing.type !== 'hello' && outgoing.type !== 'ready') {
+				batcher.add(outgoing)
+				return
+			}
+
+			// Keep messages in order when the handshake overtakes a batch
+			batcher?.flush()
+			transport.send(outgoing)
+		} catch (error) {
+			failDelivery([message], error as Error)
+		}
+	}
+
+	/**
+	 * Start the timeout of a pending request and fix its deadline
+	 */
+	const armTimeout = (id: string, pending: PendingRequest): void => {
+		pending.deadline = Date.now() + pending.timeout
+		pending.timeoutId = setTimeout(() => {
+			takePending(id)
+			pending.dequeue?.()
+			pending.reject(
+				new WebViewRPCTimeoutError(
+					`Request timed out after ${pending.timeout}ms`,
+					pending.timeout,
+				),
+			)
+		}, pending.timeout)
+	}
+
+	/**
+	 * Post a request or event, starting deferred request timeouts
+	 */
+	const dispatchOutbound = (message: RequestMessage | EventMessage): void => {
+		if (
+			message.type === 'request' &&
+			remoteNames &&
+			!remoteNames.has(message.procedure) &&
+			unknownProcedures !== 'ignore'
+		) {
+			const error = new WebViewRPCError(
+				`Procedure not defined by the other side: ${message.procedure}`,
+				'UNKNOWN_PROCEDURE',
+			)
+			if (unknownProcedures === 'reject') {
+				dropOutbound(message, error)
+				return
+			}
+			onError?.(error)
+		}
+
+		const pending =
+			message.type === 'request' ? pendingRequests.get(message.id) : undefined
+		if (pending) {
+			if (pending.timeoutId === undefined) {
+				armTimeout(message.id, pending)
+			}
+			// A stream outlives the timeout of its start, so it has no deadline
+			post(
+				message.type === 'request' && message.credits === undefined
+					? { ...message, deadline: pending.deadline }
+					: message,
+			)
+			// Left unset when the transport failed and the request was rejected
+			pending.sent = pendingRequests.has(message.id)
+			return
+		}
+
+		post(message)
+
+		const subscription = subscriptions.get(message.id)
+		if (subscription) {
+			subscription.sent = true
+		}
+	}
+
+	/**
+	 * Fail a request or report an event dropped from the outbound queue
+	 */
+	const dropOutbound = (
+		message: RequestMessage | EventMessage,
+		error: WebViewRPCError,
+	): void => {
+		if (message.type === 'event') {
+			onError?.(error)
+			return
+		}
+
+		rejectPending(message.id, error)
+		endSubscription(message.id, error)
+	}
+
+	/**
+	 * Say hello and arm the handshake timeout
+	 */
+	const startHandshake = (): void => {
+		handshakeStarted = true
+		descriptionSent = false
+		post(
+			createHandshakeMessage('hello', fingerprint, undefined, {
+				encodings: transport.encodings,
+				names: localNames,
+			}),
+		)
+
+		if (options.handshakeTimeout !== undefined) {
+			const handshakeTimeout = options.handshakeTimeout
+			handshakeTimeoutId = setTimeout(() => {
+				settleHandshake(
+					new WebViewRPCTimeoutError(
+						`Handshake timed out after ${handshakeTimeout}ms`,
+						handshakeTimeout,
+					),
+				)
+			}, handshakeTimeout)
+		}
+	}
+
+	/**
+	 * Start the handshake and flush queued messages as soon as the transport allows
+	 */
+	const connect = (): void => {
+		if (!transport.isReady()) {
+			return
+		}
+
+		if (initiateHandshake && !handshakeStarted) {
+			startHandshake()
+		}
+
+		if (peerReady) {
+			outboundQueue?.flush(dispatchOutbound)
+		}
+	}
+
+	/**
+	 * Resolve or reject `ready` exactly once, flushing or failing queued messages
+	 */
+	const settleHandshake = (error?: WebViewRPCError): void => {
+		if (handshakeSettled) {
+			return
+		}
+
+		handshakeSettled = true
+		if (handshakeTimeoutId !== undefined) {
+			clearTimeout(handshakeTimeoutId)
+		}
+
+		if (error) {
+			outboundQueue?.clear(error)
+			rejectReady(error)
+		} else {
+			peerReady = true
+			connect()
+			resolveReady()
+		}
+	}
+
+	/**
+	 * Send a request or event now, or queue it until the other side is ready
+	 *
+	 * @returns Function removing the message from the queue, if it was queued
+	 */
+	const sendOrQueue = (
+		message: RequestMessage | EventMessage,
+	): (() => void) | undefined => {
+		if (!outboundQueue) {
+			dispatchOutbound(message)
+			return undefined
+		}
+
+		const dequeue = outboundQueue.enqueue(message, (error) =>
+			dropOutbound(message, error),
+		)
+		const pending =
+			message.type === 'request' ? pendingRequests.get(message.id) : undefined
+		if (pending) {
+			pending.dequeue = dequeue
+		}
+
+		connect()
+		return dequeue
+	}
+
+	/**
+	 * Handle handshake message (hello from the other side, or ready in reply to ours)
+	 */
+	const handleHandshake = (message: HandshakeMessage): void => {
+		// Older builds announce no encodings and only read uncompressed messages
+		transport.setRemoteEncodings?.(message.encodings ?? [])
+		remoteNames = message.names ? new Set(message.names) : undefined
+
+		// Contracts are only described once the fingerprints tell them apart
+		const differs = message.fingerprint !== fingerprint
+		const reply = (): void => {
+			descriptionSent = differs
+			post(
+				createHandshakeMessage('ready', fingerprint, message.id, {
+					encodings: transport.encodings,
+					names: localNames,
+					contract: differs ? description : undefined,
+				}),
+			)
+		}
+
+		if (message.type === 'hello') {
+			// A hello means the other side started over, e.g. after a page reload,
+			// so whatever it asked for before is no longer wanted
+			for (const controller of Array.from(activeRequests.values())) {
+				controller.abort()
+			}
+			reply()
+			if (
+				differs &&
+				!message.contract &&
+				message.names &&
+				message.version === PROTOCOL_VERSION
+			) {
+				// The other side describes its contract in return to ours. Builds
+				// announcing no names predate descriptions and are not waited for.
+				return
+			}
+		} else if (differs && message.contract && !descriptionSent) {
+			// Describe ours in return, so the other side can judge the difference too
+			reply()
+		}
+
+		const error = verifyHandshake(message, fingerprint, {
+			side: localSide,
+			description,
+		})
+		if (error) {
+			onError?.(error)
+		}
+		settleHandshake(error)
+	}
+
+	/**
+	 * Handle response message (completes a pending request)
+	 */
+	const handleResponse = (message: ResponseMessage): void => {
+		if (subscriptions.has(message.id)) {
+			// A plain response, e.g. from middleware, ends the subscription
+			endSubscription(
+				message.id,
+				message.error ? fromResponseError(message.error) : undefined,
+			)
+			return
+		}
+
+		const pending = takePending(message.id)
+		if (!pending) {
+			// Response for unknown, timed out or aborted request, ignore
+			return
+		}
+
+		if (message.error) {
+			pending.reject(fromResponseError(message.error))
+		} else {
+			pending.resolve(message.data)
+		}
+	}
+
+	/**
+	 * Send the response to a request
+	 */
+	const respond = (
+		request: RequestMessage,
+		outcome: Pick<ResponseMessage, 'data' | 'error'>,
+	): void => {
+		post(
+			{ id: request.id, type: 'response', ...outcome, timestamp: Date.now() },
+			request,
+		)
+	}
+
+	/**
+	 * Report the failure of a request, as a stream error for stream and
+	 * subscription requests
+	 */
+	const fail = (message: RequestMessage, error: ErrorPayload): void => {
+		if (message.credits === undefined && !message.subscribe) {
+			respond(message, { error })
+			return
+		}
+
+		post(
+			{ id: message.id, type: 'stream-error', error, timestamp: Date.now() },
+			message,
+		)
+	}
+
+	/**
+	 * Send the chunks of a stream handler while the caller has credits left
+	 */
+	const writeStream = async (
+		message: RequestMessage,
+		source: unknown,
+		schema: SchemaDefinition | undefined,
+		signal: AbortSignal,
+	): Promise<void> => {
+		if (
+			typeof source !== 'object' ||
+			source === null ||
+			!(Symbol.asyncIterator in source)
+		) {
+			throw new WebViewRPCError(
+				`Handler for stream ${message.procedure} did not return an async iterable`,
+				'HANDLER_ERROR',
+			)
+		}
+
+		const iterator = (source as AsyncIterable<unknown>)[Symbol.asyncIterator]()
+		const writer: StreamWriter = { credits: message.credits ?? 0 }
+		streamWriters.set(message.id, writer)
+		const resume = (): void => writer.resume?.()
+		signal.addEventListener('abort', resume)
+
+		const chunkSchema = getChunkSchema(schema)
+		const validateChunks =
+			chunkSchema !== undefined &&
+			shouldValidate(validate, 'output', message.procedure)
+		let completed = false
+
+		try {
+			while (!signal.aborted) {
+				if (writer.credits <= 0) {
+					await new Promise<void>((resolve) => {
+						writer.resume = resolve
+					})
+					writer.resume = undefined
+					continue
+				}
+
+				const result = await iterator.next()
+				if (result.done) {
+					completed = true
+					if (!signal.aborted) {
+						post(
+							{ id: message.id, type: 'stream-end', timestamp: Date.now() },
+							message,
+						)
+					}
+					return
+				}
+
+				let chunk = result.value
+				if (chunkSchema && validateChunks) {
+					chunk = await validateSchema(
+						chunkSchema,
+						chunk,
+						`Invalid chunk for stream: ${message.procedure}`,
+					)
+				}
+
+				if (!signal.aborted) {
+					writer.credits--
+					post(
+						{
+							id: message.id,
+							type: 'stream-chunk',
+							data: chunk,
+							timestamp: Date.now(),
+						},
+						message,
+					)
+				}
+			}
+		} finally {
+			signal.removeEventListener('abort', resume)
+			streamWriters.delete(message.id)
+			// Run the generator's cleanup when the caller went away or a chunk was invalid
+			if (!completed) {
+				await iterator.return?.()
+			}
+		}
+	}
+
+	/**
+	 * Send a handler failure to the caller. A RemoteError is meant for the
+	 * caller, so only other errors are reported locally, as are RemoteErrors
+	 * whose data does not match the schema declared for their code.
+	 */
+	const reportFailure = async (
+		message: RequestMessage,
+		error: Error,
+		schema: SchemaDefinition | undefined,
+	): Promise<void> => {
+		let failure = error
+		const errorSchema =
+			error instanceof RemoteError ? getErrorSchema(schema, error.code) : undefined
+		if (
+			error instanceof RemoteError &&
+			errorSchema &&
+			shouldValidate(validate, 'output', message.procedure)
+		) {
+			try {
+				error.data = await validateSchema(
+					errorSchema,
+					error.data,
+					`Invalid data for error ${error.code} of procedure: ${message.procedure}`,
+				)
+			} catch (validationError) {
+				failure = validationError as Error
+			}
+		}
+
+		fail(message, toResponseError(failure, forwardErrorDetails))
+		if (!(failure instanceof RemoteError)) {
+			onError?.(failure)
+		}
+	}
+
+	/**
+	 * Run a subscription handler until the caller unsubscribes, sending what it emits
+	 */
+	const runSubscription = async (
+		message: RequestMessage,
+		handler: SubscriptionHandler,
+		data: unknown,
+		context: HandlerContext,
+		schema: SchemaDefinition | undefined,
+		controller: AbortController,
+	): Promise<void> => {
+		const { signal } = controller
+		const dataSchema = getEmitSchema(schema)
+		const validateData =
+			dataSchema !== undefined &&
+			shouldValidate(validate, 'output', message.procedure)
+
+		// Emitted data is validated in order, so validation never reorders it
+		let emitted = Promise.resolve()
+		const send = (value: unknown): void => {
+			if (!signal.aborted) {
+				post(
+					{
+						id: message.id,
+						type: 'stream-chunk',
+						data: value,
+						timestamp: Date.now(),
+					},
+					message,
+				)
+			}
+		}
+		const emit = (value: unknown): void => {
+			if (signal.aborted) {
+				return
+			}
+			if (!dataSchema || !validateData) {
+				send(value)
+				return
+			}
+
+			emitted = emitted
+				.then(() =>
+					validateSchema(
+						dataSchema,
+						value,
+						`Invalid data for subscription: ${message.procedure}`,
+					),
+				)
+				.then(send, (error) => {
+					// An invalid emission ends the subscription like a handler error
+					if (!signal.aborted) {
+						fail(message, toResponseError(error as Error, forwardErrorDetails))
+						onError?.(error as Error)
+						controller.abort()
+					}
+				})
+		}
+
+		const teardown = await handler(data, { ...context, emit })
+
+		if (!signal.aborted) {
+			await new Promise<void>((resolve) => {
+				signal.addEventListener('abort', () => resolve(), { once: true })
+			})
+		}
+
+		if (typeof teardown === 'function') {
+			try {
+				teardown()
+			} catch (error) {
+				onError?.(error as Error)
+			}
+		}
+	}
+
+	/**
+	 * Handle request message (invoke local handler and send response or chunks)
+	 */
+	const handleRequest = async (message: RequestMessage): Promise<void> => {
+		const handler = procedureHandlers.get(message.procedure)
+
+		if (!handler) {
+			fail(message, {
+				message: `No handler registered for procedure: ${message.procedure}`,
+				code: 'NO_HANDLER',
+			})
+			return
+		}
+
+		const schema = getSchema(contract[localSide], message.procedure)
+		let data = message.data
+
+		if (schema && shouldValidate(validate, 'input', message.procedure)) {
+			try {
+				data = await validateSchema(
+					schema,
+					message.data,
+					`Invalid input for procedure: ${message.procedure}`,
+				)
+			} catch (error) {
+				// The caller receives the validation issues, so there is nothing to report locally
+				fail(message, toResponseError(error as Error, forwardErrorDetails))
+				return
+			}
+		}
+
+		// The caller may cancel while the handler runs, or stop waiting at its deadline
+		const controller = new AbortController()
+		activeRequests.set(message.id, controller)
+		const deadlineId =
+			message.deadline !== undefined
+				? setTimeout(
+						() => controller.abort(),
+						Math.max(0, message.deadline - Date.now()),
+					)
+				: undefined
+		const context = {
+			signal: controller.signal,
+			meta: message.meta ?? {},
+			deadline: message.deadline,
+		}
+
+		try {
+			if (message.subscribe) {
+				await runSubscription(
+					message,
+					handler as SubscriptionHandler,
+					data,
+					context,
+					schema,
+					controller,
+				)
+				return
+			}
+
+			if (message.credits !== undefined) {
+				await writeStream(
+					message,
+					(handler as StreamHandler)(data, context),
+					schema,
+					controller.signal,
+				)
+				return
+			}
+
+			let result = await (handler as PeerHandler)(data, context)
+
+			const returnSchema = getReturnSchema(schema)
+			if (
+				returnSchema &&
+				shouldValidate(validate, 'output', message.procedure)
+			) {
+				result = await validateSchema(
+					returnSchema,
+					result,
+					`Invalid return value for procedure: ${message.procedure}`,
+				)
+			}
+
+			if (containsBlob(result)) {
+				result = await readBlobs(result)
+			}
+
+			if (!controller.signal.aborted) {
+				respond(message, { data: result })
+			}
+		} catch (error) {
+			// Nobody is waiting for an aborted request, and handlers commonly throw on abort
+			if (!controller.signal.aborted) {
+				await reportFailure(message, error as Error, schema)
+			}
+		} finally {
+			if (deadlineId !== undefined) {
+				clearTimeout(deadlineId)
+			}
+			activeRequests.delete(message.id)
+		}
+	}
+
+	/**
+	 * Handle cancel message (abort the signal of a request being handled)
+	 */
+	const handleCancel = (message: CancelMessage): void => {
+		activeRequests.get(message.id)?.abort()
+	}
+
+	/**
+	 * Handle stream credit message (let a stream handler send more chunks)
+	 */
+	const handleStreamCredit = (message: StreamCreditMessage): void => {
+		const writer = streamWriters.get(message.id)
+		if (!writer) {
+			return
+		}
+
+		writer.credits += message.credits
+		writer.resume?.()
+	}
+
+	/**
+	 * Stop reading a stream, telling the other side if it may still be sending
+	 */
+	const closeStream = (id: string, error?: Error): void => {
+		const open = openStreams.get(id)
+		if (!open) {
+			return
+		}
+
+		openStreams.delete(id)
+		open.detach?.()
+		takePending(id)
+		open.pending.dequeue?.()
+		if (open.pending.sent) {
+			post({ id, type: 'cancel', timestamp: Date.now() })
+		}
+
+		if (error) {
+			open.reader.fail(error)
+		} else {
+			open.reader.end()
+		}
+	}
+
+	/**
+	 * Forget a subscription to the other side, reporting why it ended if it failed
+	 */
+	const endSubscription = (id: string, error?: Error): void => {
+		const subscription = subscriptions.get(id)
+		if (!subscription) {
+			return
+		}
+
+		subscriptions.delete(id)
+		subscriptionsByKey.delete(subscription.key)
+		if (!error) {
+			return
+		}
+
+		for (const listener of subscription.listeners) {
+			const report = listener.onError ?? onError
+			report?.(error)
+		}
+	}
+
+	/**
+	 * Pass data of a subscription to each of its subscribers
+	 */
+	const dispatchSubscription = (
+		subscription: Subscription,
+		data: unknown,
+	): void => {
+		for (const listener of Array.from(subscription.listeners)) {
+			try {
+				listener.onData(data)
+			} catch (error) {
+				onError?.(error as Error)
+			}
+		}
+	}
+
+	/**
+	 * Handle chunk, end and error messages of a stream being read or a subscription
+	 */
+	const handleStreamMessage = (
+		message: Exclude<StreamMessage, StreamCreditMessage>,
+	): void => {
+		const subscription = subscriptions.get(message.id)
+		if (subscription) {
+			if (message.type === 'stream-chunk') {
+				dispatchSubscription(subscription, message.data)
+			} else {
+				endSubscription(
+					message.id,
+					message.type === 'stream-error'
+						? fromResponseError(message.error)
+						: undefined,
+				)
+			}
+			return
+		}
+
+		const open = openStreams.get(message.id)
+		if (!open) {
+			// Stream unknown, timed out or cancelled, ignore
+			return
+		}
+
+		// The first message starts the stream, ending the timeout of its start
+		takePending(message.id)
+
+		if (message.type === 'stream-chunk') {
+			open.reader.push(message.data)
+			return
+		}
+
+		openStreams.delete(message.id)
+		open.detach?.()
+		if (message.type === 'stream-error') {
+			open.reader.fail(fromResponseError(message.error))
+		} else {
+			open.reader.end()
+		}
+	}
+
+	/**
+	 * Invoke every listener registered for an event
+	 */
+	const dispatchEvent = (
+		listeners: Set<(data: unknown) => void>,
+		data: unknown,
+	): void => {
+		for (const listener of listeners) {
+			try {
+				listener(data)
+			} catch (error) {
+				onError?.(error as Error)
+			}
+		}
+	}
+
+	/**
+	 * Handle event message (invoke all registered listeners)
+	 */
+	const handleEvent = (message: EventMessage): void => {
+		const listeners = eventListeners.get(message.event)
+		if (!listeners || listeners.size === 0) {
+			return
+		}
+
+		const schema = getSchema(contract[remoteSide], message.event)
+		if (!schema || !shouldValidate(validate, 'events', message.event)) {
+			dispatchEvent(listeners, message.data)
+			return
+		}
+
+		validateSchema(
+			schema,
+			message.data,
+			`Invalid data for event: ${message.event}`,
+		).then(
+			(data) => dispatchEvent(listeners, data),
+			(error) => onError?.(error as Error),
+		)
+	}
+
+	/**
+	 * Route a message received from the transport
+	 */
+	const handleMessage = (received: Message): void => {
+		if (received.type === 'batch') {
+			for (const message of received.messages) {
+				handleMessage(message)
+			}
+			return
+		}
+
+		// An incoming message means the other side is alive, send anything held back
+		connect()
+
+		let message: Message | undefined
+		try {
+			message = intercept(
+				'inbound',
+				received,
+				pendingRequests.get(received.id)?.request,
+			)
+		} catch (error) {
+			// A request refused by middleware fails like a handler error, and a
+			// RemoteError is meant for the caller only
+			if (received.type === 'request') {
+				fail(received, toResponseError(error as Error, forwardErrorDetails))
+			}
+			if (received.type !== 'request' || !(error instanceof RemoteError)) {
+				onError?.(error as Error)
+			}
+		}
+		if (!message) {
+			return
+		}
+
+		if (message.type === 'response') {
+			handleResponse(message)
+		} else if (message.type === 'request') {
+			handleRequest(message)
+		} else if (message.type === 'event') {
+			handleEvent(message)
+		} else if (message.type === 'cancel') {
+			handleCancel(message)
+		} else if (message.type === 'stream-credit') {
+			handleStreamCredit(message)
+		} else if (
+			message.type === 'stream-chunk' ||
+			message.type === 'stream-end' ||
+			message.type === 'stream-error'
+		) {
+			handleStreamMessage(message)
+		} else if (message.type === 'hello' || message.type === 'ready') {
+			handleHandshake(message)
+		}
+	}
+
+	const unsubscribe = transport.subscribe(handleMessage)
+
+	// Streams stay open after their start, so their progress is still reported
+	const unsubscribeProgress = transport.subscribeProgress?.((progress) => {
+		const pending =
+			pendingRequests.get(progress.id) ?? openStreams.get(progress.id)?.pending
+		pending?.onProgress?.(progress)
+	})
+
+	const call = (
+		procedure: PropertyKey,
+		data: unknown,
+		callOptions?: CallOptions,
+	): Promise<unknown> => {
+		const signal = callOptions?.signal
+		if (signal?.aborted) {
+			return Promise.reject(abortError())
+		}
+
+		const id = generateCorrelationId()
+		const message: RequestMessage = {
+			id,
+			type: 'request',
+			procedure: procedure as string,
+			data,
+			timestamp: Date.now(),
+		}
+		if (callOptions?.meta) {
+			message.meta = callOptions.meta
+		}
+
+		return new Promise((resolve, reject) => {
+			// Start the timeout now unless it starts when the request leaves the queue
+			const pending: PendingRequest = {
+				request: message,
+				resolve,
+				reject,
+				timeout: callOptions?.timeout ?? timeout,
+				onProgress: callOptions?.onProgress,
+			}
+			if (queueOptions?.timeoutFrom !== 'flush') {
+				armTimeout(id, pending)
+			}
+			pendingRequests.set(id, pending)
+
+			if (signal) {
+				const onAbort = (): void => {
+					const aborted = takePending(id)
+					if (!aborted) {
+						return
+					}
+
+					// Still queued requests never reached the other side
+					aborted.dequeue?.()
+					if (aborted.sent) {
+						post({ id, type: 'cancel', timestamp: Date.now() })
+					}
+					aborted.reject(abortError())
+				}
+				signal.addEventListener('abort', onAbort)
+				pending.detach = () => signal.removeEventListener('abort', onAbort)
+			}
+
+			// Serializers run synchronously, so Blobs are read before the request is sent
+			if (containsBlob(data)) {
+				readBlobs(data).then(
+					(read) => {
+						if (pendingRequests.has(id)) {
+							sendOrQueue({ ...message, data: read })
+						}
+					},
+					(error) => rejectPending(id, error as Error),
+				)
+				return
+			}
+
+			sendOrQueue(message)
+		})
+	}
+
+	const openStream = (
+		procedure: PropertyKey,
+		data: unknown,
+		streamOptions?: StreamOptions,
+	): AsyncIterableIterator<unknown> => {
+		const id = generateCorrelationId()
+		const credits = streamOptions?.credits ?? DEFAULT_STREAM_CREDITS
+		const reader = createStreamReader<unknown>({
+			creditBatch: Math.max(1, Math.ceil(credits / 2)),
+			onCredit: (granted) =>
+				post({
+					id,
+					type: 'stream-credit',
+					credits: granted,
+					timestamp: Date.now(),
+				}),
+			onReturn: () => closeStream(id),
+		})
+
+		const signal = streamOptions?.signal
+		if (signal?.aborted) {
+			reader.fail(abortError())
+			return reader.iterator
+		}
+
+		const message: RequestMessage = {
+			id,
+			type: 'request',
+			procedure: procedure as string,
+			data,
+			credits,
+			timestamp: Date.now(),
+		}
+		if (streamOptions?.meta) {
+			message.meta = streamOptions.meta
+		}
+
+		// Until the first chunk arrives the stream is a pending request, so it
+		// shares the timeout, queueing and cleanup of calls
+		const pending: PendingRequest = {
+			request: message,
+			// A plain response, e.g. from middleware, ends the stream without chunks
+			resolve: () => {
+				openStreams.delete(id)
+				open.detach?.()
+				reader.end()
+			},
+			reject: (error) => closeStream(id, error),
+			timeout: streamOptions?.timeout ?? timeout,
+			onProgress: streamOptions?.onProgress,
+		}
+		const open: OpenStream = { reader, pending }
+		openStreams.set(id, open)
+		if (queueOptions?.timeoutFrom !== 'flush') {
+			armTimeout(id, pending)
+		}
+		pendingRequests.set(id, pending)
+
+		if (signal) {
+			const onAbort = (): void => closeStream(id, abortError())
+			signal.addEventListener('abort', onAbort)
+			open.detach = () => signal.removeEventListener('abort', onAbort)
+		}
+
+		sendOrQueue(message)
+		return reader.iterator
+	}
+
+	/**
+	 * Key shared by subscribers whose inputs reach the other side the same.
+	 * Inputs the serializer cannot write get a subscription of their own, which
+	 * fails once sent.
+	 */
+	const subscriptionKey = (name: string, data: unknown): string => {
+		try {
+			return `${name}:${serializeInput(data)}`
+		} catch {
+			return `${name}#${generateCorrelationId()}`
+		}
+	}
+
+	const subscribe = (
+		procedure: PropertyKey,
+		data: unknown,
+		onData: (data: unknown) => void,
+		subscribeOptions?: SubscribeOptions,
+	): (() => void) => {
+		const name = procedure as string
+		const key = subscriptionKey(name, data)
+		const listener: SubscriptionListener = {
+			onData,
+			onError: subscribeOptions?.onError,
+		}
+
+		let subscription = subscriptionsByKey.get(key)
+		if (!subscription) {
+			const id = generateCorrelationId()
+			// The listener is in place before sending, so a refused request reaches it
+			const created: Subscription = {
+				id,
+				key,
+				listeners: new Set([listener]),
+			}
+			subscription = created
+			subscriptions.set(id, created)
+			subscriptionsByKey.set(key, created)
+			created.dequeue = sendOrQueue({
+				id,
+				type: 'request',
+				procedure: name,
+				data,
+				subscribe: true,
+				timestamp: Date.now(),
+			})
+		}
+		subscription.listeners.add(listener)
+
+		const current = subscription
+		return () => {
+			if (!current.listeners.delete(listener) || current.listeners.size > 0) {
+				return
+			}
+
+			// Last subscriber gone, tear the handler down on the other side
+			const wasActive = subscriptions.has(current.id)
+			endSubscription(current.id)
+			current.dequeue?.()
+			if (wasActive && current.sent) {
+				post({ id: current.id, type: 'cancel', timestamp: Date.now() })
+			}
+		}
+	}
+
+	const emit = (event: PropertyKey, data: unknown): void => {
+		const message: EventMessage = {
+			id: generateCorrelationId(),
+			type: 'event',
+			event: event as string,
+			data,
+			timestamp: Date.now(),
+		}
+
+		if (containsBlob(data)) {
+			readBlobs(data).then(
+				(read) => sendOrQueue({ ...message, data: read }),
+				(error) => onError?.(error as Error),
+			)
+			return
+		}
+
+		sendOrQueue(message)
+	}
+
+	const handle = (
+		procedure: PropertyKey,
+		handler: PeerHandler | StreamHandler | SubscriptionHandler,
+	): (() => void) => {
+		const name = procedure as string
+		procedureHandlers.set(name, handler)
+
+		return () => {
+			if (procedureHandlers.get(name) === handler) {
+				procedureHandlers.delete(name)
+			}
+		}
+	}
+
+	const on = (
+		event: PropertyKey,
+		listener: (data: unknown) => void,
+	): (() => void) => {
+		const name = event as string
+		let listeners = eventListeners.get(name)
+		if (!listeners) {
+			listeners = new Set()
+			eventListeners.set(name, listeners)
+		}
+		listeners.add(listener)
+
+		return () => {
+			listeners.delete(listener)
+			if (listeners.size === 0 && eventListeners.get(name) === listeners) {
+				eventListeners.delete(name)
+			}
+		}
+	}
+
+	const reset = (error: WebViewRPCError): void => {
+		// Nothing is sent to the new peer for what only the old one knew about
+		batcher?.clear()
+		transport.setRemoteEncodings?.([])
+		remoteNames = undefined
+		for (const [id, open] of Array.from(openStreams)) {
+			if (open.pending.sent) {
+				open.pending.sent = false
+				closeStream(id, error)
+			}
+		}
+		for (const [id, pending] of Array.from(pendingRequests)) {
+			if (pending.sent) {
+				rejectPending(id, error)
+			}
+		}
+		for (const subscription of Array.from(subscriptions.values())) {
+			if (subscription.sent) {
+				endSubscription(subscription.id, error)
+			}
+		}
+		for (const controller of Array.from(activeRequests.values())) {
+			controller.abort()
+		}
+
+		if (handshakeTimeoutId !== undefined) {
+			clearTimeout(handshakeTimeoutId)
+			handshakeTimeoutId = undefined
+		}
+		handshakeStarted = false
+		descriptionSent = false
+		peerReady = false
+		if (handshakeSettled) {
+			handshakeSettled = false
+			ready = createReady()
+		}
+		connect()
+	}
+
+	const close = (): void => {
+		// Discard queued messages, their pending requests are rejected below
+		outboundQueue?.clear()
+
+		const error = new WebViewRPCError('Client cleanup called', 'CLEANUP')
+		for (const id of Array.from(pendingRequests.keys())) {
+			rejectPending(id, error)
+		}
+		settleHandshake(error)
+		for (const id of Array.from(openStreams.keys())) {
+			closeStream(id, error)
+		}
+		// Subscribers already know the client is closing, so they are not notified
+		for (const subscription of Array.from(subscriptions.values())) {
+			if (subscription.sent) {
+				post({ id: subscription.id, type: 'cancel', timestamp: Date.now() })
+			}
+		}
+		subscriptions.clear()
+		subscriptionsByKey.clear()
+
+		for (const controller of activeRequests.values()) {
+			controller.abort()
+		}
+		activeRequests.clear()
+
+		procedureHandlers.clear()
+		eventListeners.clear()
+
+		// Send the cancels and anything else still waiting for its batch
+		batcher?.flush()
+		unsubscribe()
+		unsubscribeProgress?.()
+		transport.close()
+	}
+
+	connect()
+
+	return {
+		call,
+		stream: openStream,
+		subscribe,
+		emit,
+		handle,
+		on,
+		get ready() {
+			return ready
+		},
+		reset,
+		close,
+	} as Peer<TContract, TSide>
+}
@@ -4,14 +4,17 @@
  */
 
 import type { StandardSchemaV1 } from '@standard-schema/spec'
-import type { ProcedureSchema } from './types'
+import type { ErrorSchemas, ProcedureSchema } from './types'
 
 /**
- * Mark a schema as a procedure by adding a returns() method.
+ * Mark a schema as a procedure by adding returns() and errors() methods.
  * This distinguishes procedures (request-response) from events (fire-and-forget).
  *
+ * `errors()` declares the typed errors a handler may throw as a `RemoteError`,
+ * keyed by error code.
+ *
  * @param inputSchema - The input schema for the procedure
- * @returns A procedure schema with a returns() method
+ * @returns A procedure schema with returns() and errors() methods
  *
  * @example
  * ```typescript
@@ -23,7 +26,9 @@ import type { ProcedureSchema } from './types'
  *   title: z.string()
  * })).returns(z.object({
  *   success: z.boolean()
- * }))
+ * })).errors({
+ *   CANCELLED_BY_USER: z.object({ activity: z.string() })
+ * })
  * ```
  */
 export function procedure<T extends StandardSchemaV1>(
@@ -37,5 +42,12 @@ export function procedure<T extends StandardSchemaV1>(
 		result._returnSchema = returnSchema
 		return result
 	}
+	schema.errors = <TDeclared extends ErrorSchemas>(
+		errorSchemas: TDeclared,
+	): ProcedureSchema<T, undefined, TDeclared> => {
+		const result = schema as unknown as ProcedureSchema<T, undefined, TDeclared>
+		result._errorSchemas = errorSchemas
+		return result
+	}
 	return schema
 }
@@ -0,0 +1,123 @@
+import { describe, expect, expectTypeOf, it, vi } from 'vitest'
+import { z } from 'zod'
+import { defineContract } from './contract'
+import { procedure } from './procedure'
+import { createEmitProxy, createProcedureProxy } from './proxy'
+import { stream } from './stream'
+import { subscription } from './subscription'
+
+const contract = defineContract({
+	web: {
+		pathChanged: z.object({ path: z.string() }),
+		navigate: procedure(z.object({ path: z.string() })),
+	},
+	native: {
+		share: procedure(z.object({ url: z.string() })).returns(z.boolean()),
+		search: stream(z.object({ query: z.string() })).yields(z.string()),
+		location: subscription(z.object({})).emits(z.number()),
+		appStateChange: z.object({ state: z.string() }),
+		payments: {
+			charge: procedure(z.object({ amount: z.number() })).returns(z.string()),
+			refunded: z.object({ id: z.string() }),
+		},
+	},
+})
+
+function createTarget() {
+	return {
+		call: vi.fn(async () => true),
+		stream: vi.fn(async function* () {}),
+		subscribe: vi.fn(() => () => {}),
+	}
+}
+
+describe('createProcedureProxy', () => {
+	it('should forward each kind to the matching string-based method', async () => {
+		// GIVEN: Proxy over the native side
+		const target = createTarget()
+		const $ = createProcedureProxy(contract.native, target)
+		const onData = () => {}
+
+		// WHEN: Calling, streaming and subscribing through it
+		const result = await $.share({ url: 'https://example.com' }, { timeout: 5 })
+		$.search({ query: 'rpc' })
+		$.location({}, onData)
+
+		// THEN: Forwarded by name with data and options
+		expect(result).toBe(true)
+		expect(target.call).toHaveBeenCalledWith(
+			'share',
+			{ url: 'https://example.com' },
+			{ timeout: 5 },
+		)
+		expect(target.stream).toHaveBeenCalledWith(
+			'search',
+			{ query: 'rpc' },
+			undefined,
+		)
+		expect(target.subscribe).toHaveBeenCalledWith(
+			'location',
+			{},
+			onData,
+			undefined,
+		)
+	})
+
+	it('should nest namespaced names and leave out events', async () => {
+		// GIVEN: Proxy over the native side
+		const target = createTarget()
+		const $ = createProcedureProxy(contract.native, target)
+
+		// WHEN: Calling a namespaced procedure
+		await $.payments.charge({ amount: 5 })
+
+		// THEN: Called by its dotted name, events absent
+		expect(target.call).toHaveBeenCalledWith(
+			'payments.charge',
+			{ amount: 5 },
+			undefined,
+		)
+		expect(Object.keys($)).toEqual(['share', 'search', 'location', 'payments'])
+		expect(Object.keys($.payments)).toEqual(['charge'])
+	})
+
+	it('should type methods from the contract', () => {
+		const $ = createProcedureProxy(contract.native, createTarget())
+
+		expectTypeOf($.share).returns.toEqualTypeOf<Promise<boolean>>()
+		expectTypeOf($.search).returns.toEqualTypeOf<
+			AsyncIterableIterator<string>
+		>()
+		expectTypeOf($.payments.charge).parameter(0).toEqualTypeOf<{
+			amount: number
+		}>()
+		expectTypeOf($).not.toHaveProperty('appStateChange')
+	})
+
+	it('should be empty for a missing side', () => {
+		expect(createProcedureProxy(undefined, createTarget())).toEqual({})
+	})
+})
+
+describe('createEmitProxy', () => {
+	it('should emit events by name and leave out procedures', () => {
+		// GIVEN: Emit proxies over both sides
+		const emit = vi.fn()
+		const $emit = createEmitProxy(contract.native, emit)
+		const $webEmit = createEmitProxy(contract.web, emit)
+
+		// WHEN: Emitting through them
+		$emit.appStateChange({ state: 'active' })
+		$emit.payments.refunded({ id: '1' })
+		$webEmit.pathChanged({ path: '/home' })
+
+		// THEN: Emitted by dotted name, procedures absent
+		expect(emit.mock.calls).toEqual([
+			['appStateChange', { state: 'active' }],
+			['payments.refunded', { id: '1' }],
+			['pathChanged', { path: '/home' }],
+		])
+		expect(Object.keys($webEmit)).toEqual(['pathChanged'])
+		expectTypeOf($webEmit).not.toHaveProperty('navigate')
+	})
+})
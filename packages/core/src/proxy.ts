@@ -0,0 +1,187 @@
+/**
+ * Proxy-style API calling and emitting by property access
+ * @module proxy
+ */
+
+import type { CallOptions, StreamOptions, SubscribeOptions } from './peer'
+import type {
+	InferChunk,
+	InferEmits,
+	InferInput,
+	InferReturns,
+	SchemaDefinition,
+} from './types'
+import { isProcedure, isStream, isSubscription } from './types'
+
+/**
+ * Function calling a procedure, stream or subscription, depending on how the
+ * contract defines it
+ */
+export type ProxyMethod<T> = T extends { yields: unknown }
+	? (
+			data: InferInput<T>,
+			options?: StreamOptions,
+		) => AsyncIterableIterator<InferChunk<T>>
+	: T extends { emits: unknown }
+		? (
+				data: InferInput<T>,
+				onData: (data: InferEmits<T>) => void,
+				options?: SubscribeOptions,
+			) => () => void
+		: (data: InferInput<T>, options?: CallOptions) => Promise<InferReturns<T>>
+
+/**
+ * Nest functions keyed by dotted names under their namespaces
+ */
+type Nest<T> = {
+	[K in keyof T & string as K extends `${infer THead}.${string}`
+		? THead
+		: K]: K extends `${infer THead}.${string}`
+		? Nest<{
+				[P in keyof T & string as P extends `${THead}.${infer TRest}`
+					? TRest
+					: never]: T[P]
+			}>
+		: T[K]
+}
+
+type IsCallable<T> = T extends
+	| { returns: unknown }
+	| { yields: unknown }
+	| { emits: unknown }
+	? true
+	: false
+
+/**
+ * Procedures, streams and subscriptions of one side as methods, nested by
+ * namespace
+ */
+export type ProcedureProxy<TDefinitions> = Nest<{
+	[K in keyof TDefinitions & string as IsCallable<TDefinitions[K]> extends true
+		? K
+		: never]: ProxyMethod<TDefinitions[K]>
+}>
+
+/**
+ * Events of one side as methods emitting them, nested by namespace
+ */
+export type EmitProxy<TDefinitions> = Nest<{
+	[K in keyof TDefinitions & string as IsCallable<TDefinitions[K]> extends true
+		? never
+		: K]: (data: InferInput<TDefinitions[K]>) => void
+}>
+
+/**
+ * String-based API the proxies call into
+ */
+export interface ProxyTarget {
+	call: (name: string, data: unknown, options?: CallOptions) => Promise<unknown>
+	stream: (
+		name: string,
+		data: unknown,
+		options?: StreamOptions,
+	) => AsyncIterableIterator<unknown>
+	subscribe: (
+		name: string,
+		data: unknown,
+		onData: (data: unknown) => void,
+		options?: SubscribeOptions,
+	) => () => void
+}
+
+/**
+ * Place a function at the dotted path of a name
+ */
+function assign(
+	root: Record<string, unknown>,
+	name: string,
+	method: unknown,
+): void {
+	const path = name.split('.')
+	let node = root
+	for (const segment of path.slice(0, -1)) {
+		node[segment] ??= {}
+		node = node[segment] as Record<string, unknown>
+	}
+	node[path[path.length - 1]] = method
+}
+
+/**
+ * Creates methods for the procedures, streams and subscriptions of one side of
+ * a contract, nested by namespace. Each method forwards to the string-based
+ * API: `$.share(data)` is `call('share', data)`, `$.payments.charge(data)` is
+ * `call('payments.charge', data)`.
+ *
+ * Names are told apart like everywhere else: schemas with `returns` are
+ * procedures, with `yields` streams, with `emits` subscriptions. Events are
+ * left out; see `createEmitProxy`.
+ *
+ * @param definitions - One side of the contract
+ * @param target - String-based API to forward to
+ * @returns Object of methods
+ *
+ * @example
+ * ```typescript
+ * const $ = createProcedureProxy(contract.native, { call, stream, subscribe })
+ * const { success } = await $.share({ url: 'https://example.com' })
+ * ```
+ */
+export function createProcedureProxy<TDefinitions>(
+	definitions: TDefinitions,
+	target: ProxyTarget,
+): ProcedureProxy<TDefinitions> {
+	const proxy: Record<string, unknown> = {}
+	const entries = Object.entries(
+		(definitions ?? {}) as Record<string, SchemaDefinition>,
+	)
+
+	for (const [name, schema] of entries) {
+		if (isStream(schema)) {
+			assign(proxy, name, (data: unknown, options?: StreamOptions) =>
+				target.stream(name, data, options),
+			)
+		} else if (isSubscription(schema)) {
+			assign(
+				proxy,
+				name,
+				(
+					data: unknown,
+					onData: (data: unknown) => void,
+					options?: SubscribeOptions,
+				) => target.subscribe(name, data, onData, options),
+			)
+		} else if (isProcedure(schema)) {
+			assign(proxy, name, (data: unknown, options?: CallOptions) =>
+				target.call(name, data, options),
+			)
+		}
+	}
+
+	return proxy as ProcedureProxy<TDefinitions>
+}
+
+/**
+ * Creates methods emitting the events of one side of a contract, nested by
+ * namespace: `$emit.pathChanged(data)` is `emit('pathChanged', data)`.
+ *
+ * @param definitions - One side of the contract
+ * @param emit - String-based emit to forward to
+ * @returns Object of methods
+ */
+export function createEmitProxy<TDefinitions>(
+	definitions: TDefinitions,
+	emit: (name: string, data: unknown) => void,
+): EmitProxy<TDefinitions> {
+	const proxy: Record<string, unknown> = {}
+	const entries = Object.entries(
+		(definitions ?? {}) as Record<string, SchemaDefinition>,
+	)
+
+	for (const [name, schema] of entries) {
+		if (!isProcedure(schema) && !isStream(schema) && !isSubscription(schema)) {
+			assign(proxy, name, (data: unknown) => emit(name, data))
+		}
+	}
+
+	return proxy as EmitProxy<TDefinitions>
+}
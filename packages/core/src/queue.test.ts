@@ -0,0 +1,161 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { WebViewRPCError } from './errors'
+import { createOutboundQueue } from './queue'
+
+describe('createOutboundQueue', () => {
+	beforeEach(() => {
+		vi.useFakeTimers()
+	})
+
+	afterEach(() => {
+		vi.useRealTimers()
+	})
+
+	describe('flush', () => {
+		it('should send queued messages in order', () => {
+			// GIVEN: Queue with three messages
+			const queue = createOutboundQueue<number>()
+			queue.enqueue(1, vi.fn())
+			queue.enqueue(2, vi.fn())
+			queue.enqueue(3, vi.fn())
+
+			// WHEN: Flushing
+			const sent: number[] = []
+			queue.flush((item) => sent.push(item))
+
+			// THEN: Sent in FIFO order and queue emptied
+			expect(sent).toEqual([1, 2, 3])
+			expect(queue.size).toBe(0)
+		})
+	})
+
+	describe('maxSize', () => {
+		it('should evict oldest message with QUEUE_FULL by default', () => {
+			// GIVEN: Full queue of size 2
+			const queue = createOutboundQueue<number>({ maxSize: 2 })
+			const onDrop1 = vi.fn()
+			queue.enqueue(1, onDrop1)
+			queue.enqueue(2, vi.fn())
+
+			// WHEN: Enqueuing one more
+			queue.enqueue(3, vi.fn())
+
+			// THEN: Oldest dropped
+			expect(onDrop1).toHaveBeenCalledWith(expect.any(WebViewRPCError))
+			expect(onDrop1.mock.calls[0][0].code).toBe('QUEUE_FULL')
+			const sent: number[] = []
+			queue.flush((item) => sent.push(item))
+			expect(sent).toEqual([2, 3])
+		})
+
+		it('should refuse newest message with drop-newest policy', () => {
+			// GIVEN: Full queue with drop-newest
+			const queue = createOutboundQueue<number>({
+				maxSize: 1,
+				dropPolicy: 'drop-newest',
+			})
+			queue.enqueue(1, vi.fn())
+			const onDrop2 = vi.fn()
+
+			// WHEN: Enqueuing one more
+			queue.enqueue(2, onDrop2)
+
+			// THEN: New message dropped
+			expect(onDrop2.mock.calls[0][0].code).toBe('QUEUE_FULL')
+			expect(queue.size).toBe(1)
+		})
+
+		it('should drop every message when maxSize is 0', () => {
+			// GIVEN: Queue that holds nothing
+			const queue = createOutboundQueue<number>({ maxSize: 0 })
+			const onDrop = vi.fn()
+
+			// WHEN: Enqueuing
+			queue.enqueue(1, onDrop)
+
+			// THEN: Dropped immediately
+			expect(onDrop).toHaveBeenCalled()
+			expect(queue.size).toBe(0)
+		})
+	})
+
+	describe('maxAge', () => {
+		it('should expire messages with QUEUE_EXPIRED', () => {
+			// GIVEN: Queue with maxAge
+			const queue = createOutboundQueue<number>({ maxAge: 1000 })
+			const onDrop = vi.fn()
+			queue.enqueue(1, onDrop)
+
+			// WHEN: Time passes
+			vi.advanceTimersByTime(1001)
+
+			// THEN: Message expired
+			expect(onDrop.mock.calls[0][0].code).toBe('QUEUE_EXPIRED')
+			expect(queue.size).toBe(0)
+		})
+
+		it('should not expire flushed messages', () => {
+			// GIVEN: Queue with maxAge flushed before expiry
+			const queue = createOutboundQueue<number>({ maxAge: 1000 })
+			const onDrop = vi.fn()
+			queue.enqueue(1, onDrop)
+			queue.flush(() => {})
+
+			// WHEN: Time passes
+			vi.advanceTimersByTime(1001)
+
+			// THEN: Not dropped
+			expect(onDrop).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('removal', () => {
+		it('should remove a message without calling onDrop', () => {
+			// GIVEN: Queued message
+			const queue = createOutboundQueue<number>()
+			const onDrop = vi.fn()
+			const remove = queue.enqueue(1, onDrop)
+
+			// WHEN: Removing it twice
+			remove()
+			remove()
+
+			// THEN: Gone silently
+			expect(queue.size).toBe(0)
+			expect(onDrop).not.toHaveBeenCalled()
+		})
+	})
+
+	describe('clear', () => {
+		it('should drop every message with the given error', () => {
+			// GIVEN: Queue with messages
+			const queue = createOutboundQueue<number>({ maxAge: 1000 })
+			const onDrop = vi.fn()
+			queue.enqueue(1, onDrop)
+			queue.enqueue(2, onDrop)
+
+			// WHEN: Clearing with an error
+			const error = new WebViewRPCError('mismatch', 'PROTOCOL_MISMATCH')
+			queue.clear(error)
+
+			// THEN: All dropped with error
+			expect(onDrop).toHaveBeenCalledTimes(2)
+			expect(onDrop).toHaveBeenCalledWith(error)
+			expect(queue.size).toBe(0)
+		})
+
+		it('should discard silently without an error', () => {
+			// GIVEN: Queue with a message
+			const queue = createOutboundQueue<number>()
+			const onDrop = vi.fn()
+			queue.enqueue(1, onDrop)
+
+			// WHEN: Clearing
+			queue.clear()
+
+			// THEN: Nothing reported
+			expect(onDrop).not.toHaveBeenCalled()
+			expect(queue.size).toBe(0)
+		})
+	})
+})
@@ -0,0 +1,182 @@
+/**
+ * Outbound message queue used to buffer messages until the other side is ready
+ * @module queue
+ */
+
+import { WebViewRPCError } from './errors'
+
+/**
+ * What to do when a message is enqueued into a full queue
+ * - `drop-oldest` evicts the oldest queued message to make room
+ * - `drop-newest` refuses the message being enqueued
+ */
+export type QueueDropPolicy = 'drop-oldest' | 'drop-newest'
+
+/**
+ * Configuration for the outbound queue of a client
+ */
+export interface QueueOptions {
+	/**
+	 * Maximum number of queued messages (default: 100)
+	 */
+	maxSize?: number
+
+	/**
+	 * Maximum time in milliseconds a message may wait in the queue (default: no limit)
+	 */
+	maxAge?: number
+
+	/**
+	 * Policy applied when the queue is full (default: 'drop-oldest')
+	 */
+	dropPolicy?: QueueDropPolicy
+
+	/**
+	 * When the request timeout starts counting (default: 'enqueue')
+	 * - `enqueue` when `call()` is invoked, so time spent queued counts
+	 * - `flush` when the request is actually sent to the other side
+	 */
+	timeoutFrom?: 'enqueue' | 'flush'
+}
+
+/**
+ * FIFO queue of outbound messages
+ */
+export interface OutboundQueue<T> {
+	/**
+	 * Number of queued messages
+	 */
+	readonly size: number
+
+	/**
+	 * Add a message to the queue.
+	 *
+	 * @param item - Message to queue
+	 * @param onDrop - Called if the message is evicted, expires or the queue is failed
+	 * @returns Function removing the message from the queue without calling onDrop
+	 */
+	enqueue: (item: T, onDrop: (error: WebViewRPCError) => void) => () => void
+
+	/**
+	 * Remove every message in order and pass it to `send`
+	 */
+	flush: (send: (item: T) => void) => void
+
+	/**
+	 * Remove every message. If an error is given, each message's onDrop is called with it.
+	 */
+	clear: (error?: WebViewRPCError) => void
+}
+
+interface QueueEntry<T> {
+	item: T
+	onDrop: (error: WebViewRPCError) => void
+	expiryId?: ReturnType<typeof setTimeout>
+}
+
+/**
+ * Creates an outbound queue honouring size, age and drop policy limits.
+ *
+ * @param options - Queue configuration
+ * @returns Outbound queue instance
+ *
+ * @example
+ * ```typescript
+ * const queue = createOutboundQueue<Message>({ maxSize: 50, maxAge: 10000 })
+ *
+ * queue.enqueue(message, (error) => console.warn('Dropped', error.code))
+ *
+ * // Once the other side is ready
+ * queue.flush((message) => transport.send(message))
+ * ```
+ */
+export function createOutboundQueue<T>(
+	options: QueueOptions = {},
+): OutboundQueue<T> {
+	const maxSize = options.maxSize ?? 100
+	const dropPolicy = options.dropPolicy ?? 'drop-oldest'
+	const entries: QueueEntry<T>[] = []
+
+	const clearExpiry = (entry: QueueEntry<T>): void => {
+		if (entry.expiryId !== undefined) {
+			clearTimeout(entry.expiryId)
+		}
+	}
+
+	const remove = (entry: QueueEntry<T>): void => {
+		const index = entries.indexOf(entry)
+		if (index !== -1) {
+			entries.splice(index, 1)
+		}
+		clearExpiry(entry)
+	}
+
+	const enqueue = (
+		item: T,
+		onDrop: (error: WebViewRPCError) => void,
+	): (() => void) => {
+		const entry: QueueEntry<T> = { item, onDrop }
+
+		if (entries.length >= maxSize) {
+			const error = new WebViewRPCError(
+				`Outbound queue is full (${maxSize} messages)`,
+				'QUEUE_FULL',
+			)
+
+			if (dropPolicy === 'drop-newest' || maxSize <= 0) {
+				onDrop(error)
+				return () => {}
+			}
+
+			const oldest = entries[0]
+			remove(oldest)
+			oldest.onDrop(error)
+		}
+
+		if (options.maxAge !== undefined) {
+			const maxAge = options.maxAge
+			entry.expiryId = setTimeout(() => {
+				remove(entry)
+				entry.onDrop(
+					new WebViewRPCError(
+						`Message expired after ${maxAge}ms in outbound queue`,
+						'QUEUE_EXPIRED',
+					),
+				)
+			}, maxAge)
+		}
+
+		entries.push(entry)
+
+		return () => {
+			remove(entry)
+		}
+	}
+
+	const flush = (send: (item: T) => void): void => {
+		while (entries.length > 0) {
+			const entry = entries[0]
+			remove(entry)
+			send(entry.item)
+		}
+	}
+
+	const clear = (error?: WebViewRPCError): void => {
+		const dropped = entries.splice(0, entries.length)
+		for (const entry of dropped) {
+			clearExpiry(entry)
+			if (error) {
+				entry.onDrop(error)
+			}
+		}
+	}
+
+	return {
+		get size() {
+			return entries.length
+		},
+		enqueue,
+		flush,
+		clear,
+	}
+}
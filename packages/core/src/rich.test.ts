@@ -0,0 +1,206 @@
+import { describe, expect, it } from 'vitest'
+import { z } from 'zod'
+import { defineContract } from './contract'
+import { createTestHarness } from './harness'
+import { procedure } from './procedure'
+import {
+	RICH_FORMAT_VERSION,
+	type RichType,
+	createRichSerializer,
+	richDeserializer,
+	richSerializer,
+} from './rich'
+
+class Money {
+	constructor(
+		readonly amount: number,
+		readonly currency: string,
+	) {}
+}
+
+const money: RichType<Money, [number, string]> = {
+	name: 'Money',
+	test: (value) => value instanceof Money,
+	encode: (value) => [value.amount, value.currency],
+	decode: ([amount, currency]) => new Money(amount, currency),
+}
+
+function roundTrip<T>(value: T): T {
+	return richDeserializer(richSerializer(value)) as T
+}
+
+describe('richSerializer / richDeserializer', () => {
+	it('should restore built-in types anywhere in a payload', () => {
+		// GIVEN: Payload nesting every built-in type
+		const payload = {
+			at: new Date('2024-05-01T10:00:00.000Z'),
+			counts: new Map<string, bigint>([['views', 12345678901234567890n]]),
+			tags: new Set(['a', 'b']),
+			pattern: /^scan-\d+$/gi,
+			nested: [{ when: new Date(0), missing: undefined }],
+			lookup: new Map<object, Set<number>>([[{ id: 1 }, new Set([1, 2])]]),
+		}
+
+		// WHEN: Round-tripping
+		const restored = roundTrip(payload)
+
+		// THEN: Same types and values
+		expect(restored.at).toBeInstanceOf(Date)
+		expect(restored.at.toISOString()).toBe('2024-05-01T10:00:00.000Z')
+		expect(restored.counts).toBeInstanceOf(Map)
+		expect(restored.counts.get('views')).toBe(12345678901234567890n)
+		expect(restored.tags).toEqual(new Set(['a', 'b']))
+		expect(restored.pattern.source).toBe('^scan-\\d+$')
+		expect(restored.pattern.flags).toBe('gi')
+		expect(restored.nested[0].when).toEqual(new Date(0))
+		expect(restored.nested[0]).toHaveProperty('missing', undefined)
+		expect(Array.from(restored.lookup)).toEqual([[{ id: 1 }, new Set([1, 2])]])
+	})
+
+	it('should keep undefined array items, non-finite numbers and negative zero', () => {
+		// GIVEN: Values JSON turns into null or 0
+		const payload = [
+			undefined,
+			Number.NaN,
+			Number.POSITIVE_INFINITY,
+			Number.NEGATIVE_INFINITY,
+			-0,
+			0,
+		]
+
+		// WHEN: Round-tripping
+		const restored = roundTrip(payload)
+
+		// THEN: Each value restored exactly
+		expect(restored).toHaveLength(6)
+		expect(restored[0]).toBeUndefined()
+		expect(restored[1]).toBeNaN()
+		expect(restored[2]).toBe(Number.POSITIVE_INFINITY)
+		expect(restored[3]).toBe(Number.NEGATIVE_INFINITY)
+		expect(Object.is(restored[4], -0)).toBe(true)
+		expect(Object.is(restored[5], 0)).toBe(true)
+	})
+
+	it('should restore invalid dates as invalid dates', () => {
+		const restored = roundTrip(new Date(Number.NaN))
+
+		expect(restored).toBeInstanceOf(Date)
+		expect(restored.getTime()).toBeNaN()
+	})
+
+	it('should escape plain objects with a $t key of their own', () => {
+		// GIVEN: Object shaped like a tagged value
+		const payload = { $t: 'Date', v: 'not a date' }
+
+		// WHEN: Round-tripping
+		const restored = roundTrip(payload)
+
+		// THEN: Object restored as is
+		expect(restored).toEqual({ $t: 'Date', v: 'not a date' })
+	})
+
+	it('should write the documented versioned format', () => {
+		// GIVEN: Payload with a Date and a Set
+		const payload = { at: new Date(0), tags: new Set(['a']) }
+
+		// WHEN: Serializing
+		const serialized = richSerializer(payload)
+
+		// THEN: Wrapped with the format version and tagged values
+		expect(JSON.parse(serialized)).toEqual({
+			$rich: RICH_FORMAT_VERSION,
+			data: {
+				at: { $t: 'Date', v: '1970-01-01T00:00:00.000Z' },
+				tags: { $t: 'Set', v: ['a'] },
+			},
+		})
+	})
+
+	it('should read plain JSON as is', () => {
+		expect(richDeserializer('{"id":"1","type":"event"}')).toEqual({
+			id: '1',
+			type: 'event',
+		})
+	})
+
+	it('should reject newer format versions', () => {
+		// GIVEN: Message written by a newer release
+		const serialized = JSON.stringify({
+			$rich: RICH_FORMAT_VERSION + 1,
+			data: {},
+		})
+
+		// THEN: Rejected rather than misread
+		expect(() => richDeserializer(serialized)).toThrow(
+			expect.objectContaining({ code: 'UNSUPPORTED_FORMAT' }),
+		)
+	})
+})
+
+describe('createRichSerializer', () => {
+	it('should carry registered custom classes', () => {
+		// GIVEN: Serializer with a custom type
+		const { serializer, deserializer } = createRichSerializer({
+			types: [money],
+		})
+
+		// WHEN: Round-tripping instances nested in built-in types
+		const restored = deserializer(
+			serializer({ prices: new Map([['total', new Money(12.5, 'EUR')]]) }),
+		) as { prices: Map<string, Money> }
+
+		// THEN: Instance restored
+		const total = restored.prices.get('total')
+		expect(total).toBeInstanceOf(Money)
+		expect(total).toEqual(new Money(12.5, 'EUR'))
+	})
+
+	it('should reject custom types unknown to the reader', () => {
+		// GIVEN: Message carrying a type only the writer registered
+		const { serializer } = createRichSerializer({ types: [money] })
+		const serialized = serializer(new Money(1, 'USD'))
+
+		// THEN: Rejected with the missing type
+		expect(() => richDeserializer(serialized)).toThrow(
+			expect.objectContaining({ code: 'UNKNOWN_RICH_TYPE' }),
+		)
+	})
+
+	it('should reject duplicate and built-in type names', () => {
+		expect(() => createRichSerializer({ types: [money, money] })).toThrow(
+			expect.objectContaining({ code: 'DUPLICATE_RICH_TYPE' }),
+		)
+		expect(() =>
+			createRichSerializer({ types: [{ ...money, name: 'Date' }] }),
+		).toThrow(expect.objectContaining({ code: 'DUPLICATE_RICH_TYPE' }))
+	})
+})
+
+describe('rich serialization across peers', () => {
+	it('should deliver Dates to z.date() schemas', async () => {
+		// GIVEN: Validated procedure taking and returning dates
+		const contract = defineContract({
+			native: {
+				schedule: procedure(z.object({ at: z.date() })).returns(
+					z.object({ confirmed: z.date() }),
+				),
+			},
+		})
+		const harness = createTestHarness(contract, {
+			transport: { serializer: richSerializer, deserializer: richDeserializer },
+			native: { validate: true },
+			web: { validate: true },
+		})
+		harness.native.handle('schedule', async ({ at }) => ({
+			confirmed: new Date(at.getTime() + 1000),
+		}))
+
+		// WHEN: Calling with a Date
+		const result = await harness.web.call('schedule', { at: new Date(0) })
+
+		// THEN: Date validated and received on both sides
+		expect(result.confirmed).toBeInstanceOf(Date)
+		expect(result.confirmed.getTime()).toBe(1000)
+		harness.close()
+	})
+})
@@ -0,0 +1,330 @@
+/**
+ * Serializer preserving Date, Map, Set, BigInt, undefined, RegExp and custom classes
+ * @module rich
+ */
+
+import { WebViewRPCError } from './errors'
+import type { Deserializer, Serializer } from './transport'
+
+/**
+ * Version of the rich wire format written by this release.
+ *
+ * Format 1 wraps the payload as `{"$rich":1,"data":...}`. Inside `data`, values
+ * JSON cannot represent are replaced by `{"$t":<tag>,"v":<value>}`:
+ * - `undefined`: no `v` (also used for functions and symbols)
+ * - `Number`: `"NaN"`, `"Infinity"`, `"-Infinity"` or `"-0"`
+ * - `BigInt`: decimal string
+ * - `Date`: ISO string, or null for an invalid date
+ * - `RegExp`: `[source, flags]`
+ * - `Map`: array of `[key, value]` pairs
+ * - `Set`: array of values
+ * - `Object`: a plain object with a `$t` key of its own
+ * - name of a registered type: whatever the type encodes
+ *
+ * Values inside `v` are encoded the same way. Readers reject newer versions.
+ */
+export const RICH_FORMAT_VERSION = 1
+
+/**
+ * Custom class carried by the rich serializer
+ *
+ * @example
+ * ```typescript
+ * const money: RichType<Money, [number, string]> = {
+ *   name: 'Money',
+ *   test: (value) => value instanceof Money,
+ *   encode: (money) => [money.amount, money.currency],
+ *   decode: ([amount, currency]) => new Money(amount, currency),
+ * }
+ * ```
+ */
+export interface RichType<T = unknown, TEncoded = unknown> {
+	/**
+	 * Tag written to the wire. Must be registered under the same name on both
+	 * sides and must not clash with a built-in tag.
+	 */
+	name: string
+
+	/**
+	 * Whether a value is of this type. Registered types are tested before the
+	 * built-in ones, in registration order.
+	 */
+	test: (value: unknown) => boolean
+
+	/**
+	 * Convert a value to data the rich serializer can carry, which may itself
+	 * hold rich values
+	 */
+	encode: (value: T) => TEncoded
+
+	/**
+	 * Rebuild a value from its encoded data
+	 */
+	decode: (encoded: TEncoded) => T
+}
+
+/**
+ * Options for creating a rich serializer pair
+ */
+export interface RichSerializerOptions {
+	/**
+	 * Custom classes to carry, registered identically on both sides
+	 */
+	// biome-ignore lint/suspicious/noExplicitAny: Types of any value and encoding can be registered together
+	types?: RichType<any, any>[]
+}
+
+/**
+ * Serializer and deserializer sharing the same registered types
+ */
+export interface RichSerializerPair {
+	serializer: Serializer
+	deserializer: Deserializer
+}
+
+/**
+ * Tagged value in the rich wire format
+ */
+interface Tagged {
+	$t: string
+	v?: unknown
+}
+
+const BUILT_IN_TAGS = new Set([
+	'undefined',
+	'Number',
+	'BigInt',
+	'Date',
+	'RegExp',
+	'Map',
+	'Set',
+	'Object',
+])
+
+/**
+ * Check whether a value is a tagged value
+ */
+function isTagged(value: object): value is Tagged {
+	return typeof (value as Tagged).$t === 'string'
+}
+
+/**
+ * Tag of a number JSON cannot represent, or undefined for finite numbers
+ */
+function specialNumber(value: number): string | undefined {
+	if (Number.isNaN(value)) {
+		return 'NaN'
+	}
+	if (value === Number.POSITIVE_INFINITY) {
+		return 'Infinity'
+	}
+	if (value === Number.NEGATIVE_INFINITY) {
+		return '-Infinity'
+	}
+	if (Object.is(value, -0)) {
+		return '-0'
+	}
+	return undefined
+}
+
+/**
+ * Creates a serializer pair carrying Date, Map, Set, BigInt, undefined, RegExp,
+ * non-finite numbers and the registered custom classes in a versioned JSON
+ * format (see `RICH_FORMAT_VERSION`).
+ *
+ * The deserializer also accepts plain JSON, so it can read messages from a side
+ * still using the default serializer.
+ *
+ * @param options - Custom classes to carry
+ * @returns Serializer and deserializer
+ *
+ * @example
+ * ```typescript
+ * const { serializer, deserializer } = createRichSerializer({ types: [money] })
+ *
+ * const client = createWebClient(contract, { serializer, deserializer })
+ * ```
+ */
+export function createRichSerializer(
+	options: RichSerializerOptions = {},
+): RichSerializerPair {
+	const types = options.types ?? []
+	const typesByName = new Map<string, RichType>()
+	for (const type of types) {
+		if (BUILT_IN_TAGS.has(type.name) || typesByName.has(type.name)) {
+			throw new WebViewRPCError(
+				`Rich type name is already taken: ${type.name}`,
+				'DUPLICATE_RICH_TYPE',
+			)
+		}
+		typesByName.set(type.name, type)
+	}
+
+	const encode = (value: unknown): unknown => {
+		for (const type of types) {
+			if (type.test(value)) {
+				return { $t: type.name, v: encode(type.encode(value)) }
+			}
+		}
+
+		switch (typeof value) {
+			case 'undefined':
+			case 'function':
+			case 'symbol':
+				return { $t: 'undefined' }
+			case 'bigint':
+				return { $t: 'BigInt', v: value.toString() }
+			case 'number': {
+				const special = specialNumber(value)
+				return special === undefined ? value : { $t: 'Number', v: special }
+			}
+			case 'object':
+				break
+			default:
+				return value
+		}
+
+		if (value === null) {
+			return null
+		}
+		if (Array.isArray(value)) {
+			return value.map(encode)
+		}
+		if (value instanceof Date) {
+			return {
+				$t: 'Date',
+				v: Number.isNaN(value.getTime()) ? null : value.toISOString(),
+			}
+		}
+		if (value instanceof RegExp) {
+			return { $t: 'RegExp', v: [value.source, value.flags] }
+		}
+		if (value instanceof Map) {
+			return {
+				$t: 'Map',
+				v: Array.from(value, ([key, entry]) => [encode(key), encode(entry)]),
+			}
+		}
+		if (value instanceof Set) {
+			return { $t: 'Set', v: Array.from(value, encode) }
+		}
+
+		// Other objects travel as JSON would send them
+		const json = value as { toJSON?: () => unknown }
+		if (typeof json.toJSON === 'function') {
+			return encode(json.toJSON())
+		}
+
+		const encoded: Record<string, unknown> = {}
+		for (const [key, entry] of Object.entries(value)) {
+			encoded[key] = encode(entry)
+		}
+		return Object.prototype.hasOwnProperty.call(value, '$t')
+			? { $t: 'Object', v: encoded }
+			: encoded
+	}
+
+	const decodeEntries = (value: object): Record<string, unknown> => {
+		const decoded: Record<string, unknown> = {}
+		for (const [key, entry] of Object.entries(value)) {
+			decoded[key] = decode(entry)
+		}
+		return decoded
+	}
+
+	const decode = (value: unknown): unknown => {
+		if (typeof value !== 'object' || value === null) {
+			return value
+		}
+		if (Array.isArray(value)) {
+			return value.map(decode)
+		}
+		if (!isTagged(value)) {
+			return decodeEntries(value)
+		}
+
+		const { $t: tag, v } = value
+		switch (tag) {
+			case 'undefined':
+				return undefined
+			case 'Number':
+				return v === '-0' ? -0 : Number(v)
+			case 'BigInt':
+				return BigInt(v as string)
+			case 'Date':
+				return new Date(v === null ? Number.NaN : (v as string))
+			case 'RegExp': {
+				const [source, flags] = v as [string, string]
+				return new RegExp(source, flags)
+			}
+			case 'Map':
+				return new Map(
+					(v as [unknown, unknown][]).map(([key, entry]) => [
+						decode(key),
+						decode(entry),
+					]),
+				)
+			case 'Set':
+				return new Set((v as unknown[]).map(decode))
+			case 'Object':
+				return decodeEntries(v as object)
+		}
+
+		const type = typesByName.get(tag)
+		if (!type) {
+			throw new WebViewRPCError(
+				`Unknown rich type: ${tag}. Register it on both sides.`,
+				'UNKNOWN_RICH_TYPE',
+			)
+		}
+		return type.decode(decode(v))
+	}
+
+	const serializer: Serializer = (data: unknown): string =>
+		JSON.stringify({ $rich: RICH_FORMAT_VERSION, data: encode(data) })
+
+	const deserializer: Deserializer = (data: string): unknown => {
+		const parsed: unknown = JSON.parse(data)
+		if (
+			typeof parsed !== 'object' ||
+			parsed === null ||
+			typeof (parsed as { $rich?: unknown }).$rich !== 'number'
+		) {
+			return parsed
+		}
+
+		const { $rich: version, data: payload } = parsed as {
+			$rich: number
+			data: unknown
+		}
+		if (version > RICH_FORMAT_VERSION) {
+			throw new WebViewRPCError(
+				`Rich format version ${version} is newer than the supported version ${RICH_FORMAT_VERSION}`,
+				'UNSUPPORTED_FORMAT',
+			)
+		}
+		return decode(payload)
+	}
+
+	return { serializer, deserializer }
+}
+
+const builtIn = createRichSerializer()
+
+/**
+ * Serializer carrying Date, Map, Set, BigInt, undefined, RegExp and non-finite
+ * numbers. Use `createRichSerializer` to register custom classes.
+ *
+ * @example
+ * ```typescript
+ * richSerializer({ at: new Date(0), tags: new Set(['a']) })
+ * // '{"$rich":1,"data":{"at":{"$t":"Date","v":"1970-01-01T00:00:00.000Z"},"tags":{"$t":"Set","v":["a"]}}}'
+ * ```
+ */
+export const richSerializer: Serializer = builtIn.serializer
+
+/**
+ * Deserializer restoring the values written by `richSerializer`, and reading
+ * plain JSON as is
+ */
+export const richDeserializer: Deserializer = builtIn.deserializer
@@ -0,0 +1,115 @@
+import { describe, expect, it, vi } from 'vitest'
+import type { StandardSchemaV1 } from '@standard-schema/spec'
+import { createStreamReader, stream } from './stream'
+import { isProcedure, isStream } from './types'
+
+const createMockSchema = (): StandardSchemaV1 => ({
+	'~standard': {
+		version: 1,
+		vendor: 'test',
+		validate: (value: unknown) => ({ value }),
+	},
+})
+
+const createReader = (creditBatch = 2) => {
+	const onCredit = vi.fn()
+	const onReturn = vi.fn()
+	const reader = createStreamReader<number>({ creditBatch, onCredit, onReturn })
+	return { reader, onCredit, onReturn }
+}
+
+describe('stream', () => {
+	it('should mark a schema as a stream with a chunk schema', () => {
+		// GIVEN: Input and chunk schemas
+		const chunks = createMockSchema()
+
+		// WHEN: Declaring a stream
+		const schema = stream(createMockSchema()).yields(chunks)
+
+		// THEN: Recognised as a stream, not a procedure
+		expect(isStream(schema)).toBe(true)
+		expect(isProcedure(schema)).toBe(false)
+		expect(schema._chunkSchema).toBe(chunks)
+	})
+})
+
+describe('createStreamReader', () => {
+	it('should hand buffered chunks to the caller, then complete', async () => {
+		// GIVEN: Chunks pushed before reading
+		const { reader } = createReader()
+		reader.push(1)
+		reader.push(2)
+		reader.end()
+
+		// WHEN: Iterating
+		const chunks: number[] = []
+		for await (const chunk of reader.iterator) {
+			chunks.push(chunk)
+		}
+
+		// THEN: Every chunk read in order
+		expect(chunks).toEqual([1, 2])
+	})
+
+	it('should resolve a pending read when a chunk arrives', async () => {
+		// GIVEN: Caller waiting
+		const { reader } = createReader()
+		const read = reader.iterator.next()
+
+		// WHEN: Chunk arrives
+		reader.push(7)
+
+		// THEN: Read resolves with it
+		await expect(read).resolves.toEqual({ value: 7, done: false })
+	})
+
+	it('should hand back credits once a batch is read', async () => {
+		// GIVEN: Reader granting credits every two chunks
+		const { reader, onCredit } = createReader(2)
+		reader.push(1)
+		reader.push(2)
+		reader.push(3)
+
+		// WHEN: Reading two chunks
+		await reader.iterator.next()
+		expect(onCredit).not.toHaveBeenCalled()
+		await reader.iterator.next()
+
+		// THEN: Two credits granted
+		expect(onCredit).toHaveBeenCalledWith(2)
+	})
+
+	it('should report a failure after buffered chunks, then complete', async () => {
+		// GIVEN: Chunk followed by a failure
+		const { reader } = createReader()
+		reader.push(1)
+		reader.fail(new Error('Broken'))
+
+		// THEN: Chunk, error, then done
+		await expect(reader.iterator.next()).resolves.toEqual({ value: 1, done: false })
+		await expect(reader.iterator.next()).rejects.toThrow('Broken')
+		await expect(reader.iterator.next()).resolves.toEqual({
+			value: undefined,
+			done: true,
+		})
+	})
+
+	it('should notify an early return once and drop later chunks', async () => {
+		// GIVEN: Open stream with a waiting read
+		const { reader, onReturn } = createReader()
+		const read = reader.iterator.next()
+
+		// WHEN: Caller stops iterating
+		await reader.iterator.return?.()
+		await reader.iterator.return?.()
+		reader.push(1)
+
+		// THEN: Waiting read completes, nothing else is delivered
+		expect(onReturn).toHaveBeenCalledTimes(1)
+		await expect(read).resolves.toEqual({ value: undefined, done: true })
+		await expect(reader.iterator.next()).resolves.toEqual({
+			value: undefined,
+			done: true,
+		})
+	})
+})
@@ -0,0 +1,191 @@
+/**
+ * Stream schema helper and the reader behind stream calls
+ * @module stream
+ */
+
+import type { StandardSchemaV1 } from '@standard-schema/spec'
+import type { StreamSchema } from './types'
+
+/**
+ * Mark a schema as a stream by adding a yields() method.
+ * A stream is called with one input and answers with any number of chunks,
+ * produced by an async generator handler on the other side.
+ *
+ * @param inputSchema - The input schema for the stream
+ * @returns A stream schema with a yields() method
+ *
+ * @example
+ * ```typescript
+ * import { stream } from '@webview-rpc/core'
+ * import { z } from 'zod'
+ *
+ * const search = stream(z.object({
+ *   query: z.string()
+ * })).yields(z.object({
+ *   id: z.string(),
+ *   title: z.string()
+ * }))
+ * ```
+ */
+export function stream<T extends StandardSchemaV1>(
+	inputSchema: T,
+): StreamSchema<T, undefined> {
+	const schema = inputSchema as unknown as StreamSchema<T, undefined>
+	schema.yields = <TYield extends StandardSchemaV1>(
+		chunkSchema: TYield,
+	): StreamSchema<T, TYield> => {
+		const result = schema as unknown as StreamSchema<T, TYield>
+		result._chunkSchema = chunkSchema
+		return result
+	}
+	return schema
+}
+
+/**
+ * Receiving end of a stream call, read by the caller as an async iterator
+ */
+export interface StreamReader<T> {
+	/**
+	 * Iterator handed to the caller
+	 */
+	iterator: AsyncIterableIterator<T>
+
+	/**
+	 * Buffer a chunk received from the other side
+	 */
+	push: (chunk: T) => void
+
+	/**
+	 * Complete the stream once buffered chunks are read
+	 */
+	end: () => void
+
+	/**
+	 * Fail the stream once buffered chunks are read
+	 */
+	fail: (error: Error) => void
+}
+
+/**
+ * Options for creating a stream reader
+ */
+export interface StreamReaderOptions {
+	/**
+	 * Called with the number of chunks read since the last call, once at
+	 * least `creditBatch` chunks were read from an open stream
+	 */
+	onCredit: (credits: number) => void
+
+	/**
+	 * Number of chunks read before credits are handed back
+	 */
+	creditBatch: number
+
+	/**
+	 * Called when the caller stops iterating before the stream completed
+	 */
+	onReturn: () => void
+}
+
+/**
+ * Creates the reader of a stream call. Chunks are buffered until the caller
+ * asks for them, and read chunks are handed back as credits so the other
+ * side never sends more than the caller's window.
+ *
+ * @param options - Credit and early return callbacks
+ * @returns Reader whose iterator is returned to the caller
+ */
+export function createStreamReader<T>(
+	options: StreamReaderOptions,
+): StreamReader<T> {
+	const buffer: T[] = []
+	let finished = false
+	let failure: Error | undefined
+	let read = 0
+	let waiting:
+		| {
+				resolve: (result: IteratorResult<T>) => void
+				reject: (error: Error) => void
+			}
+		| undefined
+
+	const take = (): Promise<IteratorResult<T>> => {
+		if (buffer.length > 0) {
+			const value = buffer.shift() as T
+			read++
+			if (!finished && read >= options.creditBatch) {
+				options.onCredit(read)
+				read = 0
+			}
+			return Promise.resolve({ value, done: false })
+		}
+
+		if (failure) {
+			// Reported once, later reads see a completed stream
+			const error = failure
+			failure = undefined
+			return Promise.reject(error)
+		}
+
+		if (finished) {
+			return Promise.resolve({ value: undefined, done: true })
+		}
+
+		return new Promise((resolve, reject) => {
+			waiting = { resolve, reject }
+		})
+	}
+
+	/**
+	 * Hand buffered state to a caller blocked in next()
+	 */
+	const wake = (): void => {
+		const waiter = waiting
+		if (!waiter) {
+			return
+		}
+
+		waiting = undefined
+		take().then(waiter.resolve, waiter.reject)
+	}
+
+	const iterator: AsyncIterableIterator<T> = {
+		next: take,
+		return: () => {
+			if (!finished) {
+				finished = true
+				buffer.length = 0
+				options.onReturn()
+			}
+			failure = undefined
+			wake()
+			return Promise.resolve({ value: undefined, done: true })
+		},
+		[Symbol.asyncIterator]() {
+			return iterator
+		},
+	}
+
+	return {
+		iterator,
+		push: (chunk) => {
+			if (finished) {
+				return
+			}
+			buffer.push(chunk)
+			wake()
+		},
+		end: () => {
+			finished = true
+			wake()
+		},
+		fail: (error) => {
+			if (finished) {
+				return
+			}
+			finished = true
+			failure = error
+			wake()
+		},
+	}
+}
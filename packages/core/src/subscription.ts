@@ -0,0 +1,42 @@
+/**
+ * Subscription schema helper
+ * @module subscription
+ */
+
+import type { StandardSchemaV1 } from '@standard-schema/spec'
+import type { SubscriptionSchema } from './types'
+
+/**
+ * Mark a schema as a subscription by adding an emits() method.
+ * The handler of a subscription starts when the other side subscribes, pushes
+ * data for as long as it is subscribed and is torn down on unsubscribe.
+ *
+ * @param inputSchema - The input schema for the subscription
+ * @returns A subscription schema with an emits() method
+ *
+ * @example
+ * ```typescript
+ * import { subscription } from '@webview-rpc/core'
+ * import { z } from 'zod'
+ *
+ * const location = subscription(z.object({
+ *   accuracy: z.enum(['low', 'high'])
+ * })).emits(z.object({
+ *   latitude: z.number(),
+ *   longitude: z.number()
+ * }))
+ * ```
+ */
+export function subscription<T extends StandardSchemaV1>(
+	inputSchema: T,
+): SubscriptionSchema<T, undefined> {
+	const schema = inputSchema as unknown as SubscriptionSchema<T, undefined>
+	schema.emits = <TEmit extends StandardSchemaV1>(
+		dataSchema: TEmit,
+	): SubscriptionSchema<T, TEmit> => {
+		const result = schema as unknown as SubscriptionSchema<T, TEmit>
+		result._dataSchema = dataSchema
+		return result
+	}
+	return schema
+}
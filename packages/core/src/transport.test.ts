@@ -2,6 +2,7 @@ import { describe, it, expect, expectTypeOf } from 'vitest'
 import {
 	defaultSerializer,
 	defaultDeserializer,
+	isChannelMessage,
 	type Serializer,
 	type Deserializer,
 } from './transport'
@@ -459,4 +460,20 @@ describe('transport', () => {
 			expect(result).toEqual({ test: 'data' })
 		})
 	})
+
+	describe('isChannelMessage', () => {
+		it('should accept envelopes tagged with the channel only', () => {
+			// GIVEN: Tagged, foreign and untagged data
+			const tagged = { id: '1', type: 'event', channel: 'webview-rpc' }
+
+			// THEN: Only the matching tag is accepted
+			expect(isChannelMessage(tagged, 'webview-rpc')).toBe(true)
+			expect(isChannelMessage(tagged, 'other')).toBe(false)
+			expect(isChannelMessage({ id: '1', type: 'event' }, 'webview-rpc')).toBe(
+				false,
+			)
+			expect(isChannelMessage('webview-rpc', 'webview-rpc')).toBe(false)
+			expect(isChannelMessage(null, 'webview-rpc')).toBe(false)
+		})
+	})
 })
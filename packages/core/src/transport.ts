@@ -1,8 +1,93 @@
 /**
- * Transport layer utilities for message serialization
+ * Transport layer utilities for message serialization and delivery
  * @module transport
  */
 
+import type { TransferProgress } from './chunking'
+import type { Message } from './types'
+
+/**
+ * Channel carrying messages between two peers.
+ *
+ * Implementations own serialization and the underlying channel (a WebView bridge,
+ * an iframe, a worker or an in-memory pipe). `createPeer` builds the RPC engine on top.
+ */
+export interface Transport {
+	/**
+	 * Deliver a message to the other side.
+	 * Throws if the message cannot be delivered.
+	 */
+	send: (message: Message) => void
+
+	/**
+	 * Register a listener for messages from the other side
+	 *
+	 * @returns Function removing the listener
+	 */
+	subscribe: (listener: (message: Message) => void) => () => void
+
+	/**
+	 * Register a listener for the progress of messages sent or received in
+	 * chunks. Only transports splitting large messages implement it.
+	 *
+	 * @returns Function removing the listener
+	 */
+	subscribeProgress?: (
+		listener: (progress: TransferProgress) => void,
+	) => () => void
+
+	/**
+	 * Compression encodings the transport can read, announced to the other
+	 * side during the handshake. Only compressing transports define it.
+	 */
+	readonly encodings?: string[]
+
+	/**
+	 * Record the compression encodings the other side announced during the
+	 * handshake, or an empty list for a side that announced none
+	 */
+	setRemoteEncodings?: (encodings: string[]) => void
+
+	/**
+	 * Release the underlying channel. No messages are delivered afterwards.
+	 */
+	close: () => void
+
+	/**
+	 * Whether the channel can currently deliver messages
+	 */
+	isReady: () => boolean
+}
+
+/**
+ * Channel tag of envelopes sent over the WebView bridge when none is configured
+ */
+export const DEFAULT_CHANNEL = 'webview-rpc'
+
+/**
+ * Check whether deserialized data is an envelope tagged with a channel
+ *
+ * @param data - Deserialized data
+ * @param channel - Expected channel tag
+ * @returns True if the data is a message of the channel
+ *
+ * @example
+ * ```typescript
+ * isChannelMessage({ id: '1', type: 'event', channel: 'webview-rpc' }, 'webview-rpc') // true
+ * isChannelMessage({ source: 'devtools' }, 'webview-rpc') // false
+ * ```
+ */
+export function isChannelMessage(
+	data: unknown,
+	channel: string,
+): data is Message {
+	return (
+		typeof data === 'object' &&
+		data !== null &&
+		(data as { channel?: unknown }).channel === channel
+	)
+}
+
 /**
  * Serializer function type that converts data to string
  */
@@ -44,3 +129,13 @@ export const defaultSerializer: Serializer = (data: unknown): string => {
 export const defaultDeserializer: Deserializer = (data: string): unknown => {
 	return JSON.parse(data)
 }
+
+export {
+	RICH_FORMAT_VERSION,
+	createRichSerializer,
+	richDeserializer,
+	richSerializer,
+	type RichSerializerOptions,
+	type RichSerializerPair,
+	type RichType,
+} from './rich'
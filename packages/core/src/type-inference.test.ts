@@ -9,11 +9,17 @@ import type {
 	InferInput,
 	InferOutput,
 	InferReturns,
+	InferChunk,
+	InferEmits,
 	ProcedureSchema,
 	Contract,
 } from './types'
 import { procedure } from './procedure'
+import { stream } from './stream'
+import { subscription } from './subscription'
 import { defineContract } from './contract'
+import type { InferErrors, RemoteError } from './errors'
+import { type BinaryData, binaryDeserializer, binarySerializer } from './binary'
 import type { StandardSchemaV1 } from '@standard-schema/spec'
 
 describe('Type Inference', () => {
@@ -276,6 +282,81 @@ describe('Type Inference', () => {
 		})
 	})
 
+	describe('InferChunk', () => {
+		it('should extract input and chunk types from a stream', () => {
+			// GIVEN: A stream with known input and chunk types
+			const search = stream(z.object({ query: z.string() })).yields(
+				z.object({ title: z.string() }),
+			)
+
+			// THEN: Input from the schema, chunks from yields
+			expectTypeOf<InferInput<typeof search>>().toEqualTypeOf<{
+				query: string
+			}>()
+			expectTypeOf<InferChunk<typeof search>>().toEqualTypeOf<{
+				title: string
+			}>()
+		})
+
+		it('should return never for procedures and events', () => {
+			// GIVEN: A procedure and an event
+			const proc = procedure(z.string()).returns(z.number())
+			const event = z.string()
+
+			// THEN: Neither yields chunks
+			expectTypeOf<InferChunk<typeof proc>>().toEqualTypeOf<never>()
+			expectTypeOf<InferChunk<typeof event>>().toEqualTypeOf<never>()
+		})
+	})
+
+	describe('InferEmits', () => {
+		it('should extract input and data types from a subscription', () => {
+			// GIVEN: A subscription with known input and data types
+			const location = subscription(z.object({ accuracy: z.string() })).emits(
+				z.object({ latitude: z.number() }),
+			)
+
+			// THEN: Input from the schema, data from emits
+			expectTypeOf<InferInput<typeof location>>().toEqualTypeOf<{
+				accuracy: string
+			}>()
+			expectTypeOf<InferEmits<typeof location>>().toEqualTypeOf<{
+				latitude: number
+			}>()
+		})
+	})
+
+	describe('InferErrors', () => {
+		it('should build a union of declared errors narrowed on code', () => {
+			// GIVEN: A procedure declaring two errors
+			const getNote = procedure(z.object({ id: z.string() }))
+				.returns(z.object({ text: z.string() }))
+				.errors({
+					NOT_FOUND: z.object({ id: z.string() }),
+					LOCKED: z.object({ until: z.number() }),
+				})
+
+			// THEN: One RemoteError per code, return type untouched
+			expectTypeOf<InferErrors<typeof getNote>>().toEqualTypeOf<
+				| RemoteError<'NOT_FOUND', { id: string }>
+				| RemoteError<'LOCKED', { until: number }>
+			>()
+			expectTypeOf<InferReturns<typeof getNote>>().toEqualTypeOf<{
+				text: string
+			}>()
+		})
+
+		it('should fall back to RemoteError without declared errors', () => {
+			// GIVEN: A procedure without errors
+			const share = procedure(z.object({ url: z.string() })).returns(
+				z.object({ success: z.boolean() }),
+			)
+
+			// THEN: Any RemoteError
+			expectTypeOf<InferErrors<typeof share>>().toEqualTypeOf<RemoteError>()
+		})
+	})
+
 	describe('ProcedureSchema generics flow', () => {
 		it('should preserve input type through returns method', () => {
 			// GIVEN: Procedure with specific input
@@ -600,6 +681,40 @@ describe('Type Inference', () => {
 		})
 	})
 
+	describe('Binary payloads', () => {
+		it('should keep binary types of schemas end to end', () => {
+			// GIVEN: Procedure taking a Blob and returning bytes
+			const contract = defineContract({
+				native: {
+					scanDocument: procedure(
+						z.object({ image: z.instanceof(Blob), pages: z.number() }),
+					).returns(z.object({ pdf: z.instanceof(Uint8Array) })),
+				},
+			})
+
+			// THEN: Input and return types carry the binary types, Blobs as they
+			// may arrive on React Native
+			type Input = InferInput<typeof contract.native.scanDocument>
+			type Returns = InferReturns<typeof contract.native.scanDocument>
+			expectTypeOf<Input['image']>().toEqualTypeOf<Blob | Uint8Array>()
+			expectTypeOf<Input['pages']>().toEqualTypeOf<number>()
+			expectTypeOf<Returns['pdf']>().toExtend<BinaryData>()
+			expectTypeOf<Returns['pdf']>().toExtend<Uint8Array>()
+		})
+
+		it('should validate payloads restored by the binary codec', () => {
+			// GIVEN: Schema expecting bytes and a serialized payload
+			const schema = z.object({ pdf: z.instanceof(Uint8Array) })
+			const serialized = binarySerializer({ pdf: new Uint8Array([37, 80]) })
+
+			// WHEN: Restoring and validating
+			const result = schema.safeParse(binaryDeserializer(serialized))
+
+			// THEN: Restored bytes satisfy the schema
+			expect(result.success).toBe(true)
+		})
+	})
+
 	describe('Negative tests - compile errors', () => {
 		it('should error when using InferReturns on non-procedure', () => {
 			// GIVEN: Plain schema (event)
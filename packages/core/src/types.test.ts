@@ -8,28 +8,37 @@ import type {
 	Contract,
 	SchemaDefinition,
 	ProcedureSchema,
+	StreamMessage,
+	StreamSchema,
+	SubscriptionSchema,
 } from './types'
-import { isProcedure } from './types'
+import { isProcedure, isStream, isSubscription } from './types'
 import type { StandardSchemaV1 } from '@standard-schema/spec'
 
 describe('types', () => {
 	describe('MessageType', () => {
-		it('should include request, response, and event', () => {
+		it('should include request, response, event, handshake and cancel types', () => {
 			// GIVEN: MessageType union
 			const request: MessageType = 'request'
 			const response: MessageType = 'response'
 			const event: MessageType = 'event'
+			const hello: MessageType = 'hello'
+			const ready: MessageType = 'ready'
+			const cancel: MessageType = 'cancel'
 
 			// THEN: All should be valid
 			expect(request).toBe('request')
 			expect(response).toBe('response')
 			expect(event).toBe('event')
+			expect(hello).toBe('hello')
+			expect(ready).toBe('ready')
+			expect(cancel).toBe('cancel')
 		})
 
 		it('should enforce type at compile time', () => {
 			// Type-only test
 			expectTypeOf<MessageType>().toEqualTypeOf<
-				'request' | 'response' | 'event'
+				'request' | 'response' | 'event' | 'hello' | 'ready' | 'cancel'
 			>()
 		})
 	})
@@ -66,6 +75,22 @@ describe('types', () => {
 			expect(typeof message.timestamp).toBe('number')
 		})
 
+		it('should allow optional meta headers and deadline', () => {
+			// GIVEN: A request message with meta and deadline
+			const message: RequestMessage = {
+				id: 'test-id',
+				type: 'request',
+				procedure: 'test',
+				data: {},
+				meta: { traceId: 'abc' },
+				deadline: Date.now() + 500,
+			}
+
+			// THEN: Both should be present
+			expect(message.meta).toEqual({ traceId: 'abc' })
+			expect(typeof message.deadline).toBe('number')
+		})
+
 		it('should enforce correct type literal', () => {
 			// Type-only test
 			expectTypeOf<RequestMessage['type']>().toEqualTypeOf<'request'>()
@@ -204,6 +229,29 @@ describe('types', () => {
 			expect(message.type).toBe('event')
 		})
 
+		it('should accept handshake messages', () => {
+			// GIVEN: Hello and ready messages
+			const hello: Message = {
+				id: 'test',
+				type: 'hello',
+				version: 1,
+				fingerprint: 'abc',
+			}
+			const ready: Message = { ...hello, type: 'ready' }
+
+			// THEN: Should be valid
+			expect(hello.type).toBe('hello')
+			expect(ready.type).toBe('ready')
+		})
+
+		it('should accept cancel message', () => {
+			// GIVEN: A cancel message for a request
+			const message: Message = { id: 'request-id', type: 'cancel' }
+
+			// THEN: Should be valid
+			expect(message.type).toBe('cancel')
+		})
+
 		it('should be discriminated union by type', () => {
 			// GIVEN: A Message
 			const message: Message = {
@@ -326,6 +374,65 @@ describe('types', () => {
 		})
 	})
 
+	describe('isStream', () => {
+		it('should return true for schema with yields method only', () => {
+			// GIVEN: A stream schema and a procedure schema
+			const streamSchema = {
+				'~standard': { version: 1, vendor: 'test', validate: () => ({ value: {} }) },
+				yields: () => streamSchema,
+			} as StreamSchema
+			const procedureSchema = {
+				'~standard': { version: 1, vendor: 'test', validate: () => ({ value: {} }) },
+				returns: () => procedureSchema,
+			} as ProcedureSchema
+
+			// THEN: Only the stream is a stream, and it is not a procedure
+			expect(isStream(streamSchema)).toBe(true)
+			expect(isProcedure(streamSchema)).toBe(false)
+			expect(isStream(procedureSchema)).toBe(false)
+		})
+	})
+
+	describe('isSubscription', () => {
+		it('should return true for schema with emits method only', () => {
+			// GIVEN: A subscription schema and a stream schema
+			const subscriptionSchema = {
+				'~standard': { version: 1, vendor: 'test', validate: () => ({ value: {} }) },
+				emits: () => subscriptionSchema,
+			} as SubscriptionSchema
+			const streamSchema = {
+				'~standard': { version: 1, vendor: 'test', validate: () => ({ value: {} }) },
+				yields: () => streamSchema,
+			} as StreamSchema
+
+			// THEN: Only the subscription is a subscription
+			expect(isSubscription(subscriptionSchema)).toBe(true)
+			expect(isStream(subscriptionSchema)).toBe(false)
+			expect(isSubscription(streamSchema)).toBe(false)
+		})
+	})
+
+	describe('StreamMessage', () => {
+		it('should carry chunks, completion, errors and credits', () => {
+			// GIVEN: Messages of one stream
+			const messages: StreamMessage[] = [
+				{ id: 's1', type: 'stream-chunk', data: { progress: 0.5 } },
+				{ id: 's1', type: 'stream-credit', credits: 8 },
+				{ id: 's1', type: 'stream-error', error: { message: 'Gone', code: 'HANDLER_ERROR' } },
+				{ id: 's1', type: 'stream-end' },
+			]
+
+			// THEN: All belong to the message union
+			expectTypeOf(messages).toMatchTypeOf<Message[]>()
+			expect(messages.map((message) => message.type)).toEqual([
+				'stream-chunk',
+				'stream-credit',
+				'stream-error',
+				'stream-end',
+			])
+		})
+	})
+
 	describe('ProcedureSchema', () => {
 		it('should extend StandardSchemaV1', () => {
 			// Type-only test
@@ -4,11 +4,23 @@
  */
 
 import type { StandardSchemaV1 } from '@standard-schema/spec'
+import type { ContractDescription } from './fingerprint'
 
 /**
  * Message types used in WebView RPC communication
  */
-export type MessageType = 'request' | 'response' | 'event'
+export type MessageType =
+	| 'request'
+	| 'response'
+	| 'event'
+	| 'hello'
+	| 'ready'
+	| 'cancel'
+	| 'stream-chunk'
+	| 'stream-end'
+	| 'stream-error'
+	| 'stream-credit'
+	| 'batch'
 
 /**
  * Base message structure
@@ -17,6 +29,11 @@ export interface BaseMessage {
 	id: string
 	type: MessageType
 	timestamp?: number
+	/**
+	 * Channel tag added by the bridge transports, telling webview-rpc envelopes
+	 * apart from other `postMessage` traffic
+	 */
+	channel?: string
 }
 
 /**
@@ -26,6 +43,52 @@ export interface RequestMessage extends BaseMessage {
 	type: 'request'
 	procedure: string
 	data: unknown
+	/**
+	 * Caller-defined headers, passed to the handler untouched
+	 */
+	meta?: Record<string, unknown>
+	/**
+	 * Time in milliseconds since the epoch after which the caller stops waiting
+	 */
+	deadline?: number
+	/**
+	 * Chunks the caller is ready to receive, present only on stream requests
+	 */
+	credits?: number
+	/**
+	 * Set on subscription requests, whose data is pushed as stream chunks until
+	 * the caller cancels
+	 */
+	subscribe?: boolean
+}
+
+/**
+ * Error payload of a failed response or stream
+ */
+export interface ErrorPayload {
+	message: string
+	code: string
+	/**
+	 * Class name of the error thrown by the handler, present for a RemoteError or
+	 * when error details are forwarded
+	 */
+	name?: string
+	/**
+	 * Standard Schema issues, present when code is VALIDATION_ERROR
+	 */
+	issues?: ReadonlyArray<StandardSchemaV1.Issue>
+	/**
+	 * Data of a RemoteError
+	 */
+	data?: unknown
+	/**
+	 * Stack trace of the handler error, present only when error details are forwarded
+	 */
+	stack?: string
+	/**
+	 * Cause of the handler error, present only when error details are forwarded
+	 */
+	cause?: ErrorPayload
 }
 
 /**
@@ -34,10 +97,7 @@ export interface RequestMessage extends BaseMessage {
 export interface ResponseMessage extends BaseMessage {
 	type: 'response'
 	data?: unknown
-	error?: {
-		message: string
-		code: string
-	}
+	error?: ErrorPayload
 }
 
 /**
@@ -49,10 +109,129 @@ export interface EventMessage extends BaseMessage {
 	data: unknown
 }
 
+/**
+ * Cancellation of an in-flight request, carrying the id of the request
+ */
+export interface CancelMessage extends BaseMessage {
+	type: 'cancel'
+}
+
+/**
+ * Chunk yielded by a stream handler or emitted by a subscription handler,
+ * carrying the id of the stream or subscription request
+ */
+export interface StreamChunkMessage extends BaseMessage {
+	type: 'stream-chunk'
+	data: unknown
+}
+
+/**
+ * Completion of a stream or subscription, carrying the id of its request
+ */
+export interface StreamEndMessage extends BaseMessage {
+	type: 'stream-end'
+}
+
+/**
+ * Failure of a stream or subscription, carrying the id of its request
+ */
+export interface StreamErrorMessage extends BaseMessage {
+	type: 'stream-error'
+	error: ErrorPayload
+}
+
+/**
+ * Additional chunks the caller of a stream is ready to receive
+ */
+export interface StreamCreditMessage extends BaseMessage {
+	type: 'stream-credit'
+	credits: number
+}
+
+/**
+ * Union type of messages exchanged while a stream or subscription is open
+ */
+export type StreamMessage =
+	| StreamChunkMessage
+	| StreamEndMessage
+	| StreamErrorMessage
+	| StreamCreditMessage
+
+/**
+ * Handshake message sent by a client announcing its protocol version and contract
+ */
+export interface HelloMessage extends BaseMessage {
+	type: 'hello'
+	version: number
+	fingerprint: string
+
+	/**
+	 * Compression encodings the sender can read (absent from older builds)
+	 */
+	encodings?: string[]
+
+	/**
+	 * Names the sender's side of the contract defines (absent from older builds)
+	 */
+	names?: string[]
+
+	/**
+	 * Description of the sender's contract, only sent once the fingerprints
+	 * differ (absent from older builds)
+	 */
+	contract?: ContractDescription
+}
+
+/**
+ * Handshake reply acknowledging a hello, carrying the replier's protocol version and contract
+ */
+export interface ReadyMessage extends BaseMessage {
+	type: 'ready'
+	version: number
+	fingerprint: string
+
+	/**
+	 * Compression encodings the sender can read (absent from older builds)
+	 */
+	encodings?: string[]
+
+	/**
+	 * Names the sender's side of the contract defines (absent from older builds)
+	 */
+	names?: string[]
+
+	/**
+	 * Description of the sender's contract, only sent once the fingerprints
+	 * differ (absent from older builds)
+	 */
+	contract?: ContractDescription
+}
+
+/**
+ * Union type of handshake messages
+ */
+export type HandshakeMessage = HelloMessage | ReadyMessage
+
+/**
+ * Envelope carrying messages sent together, unpacked in order by the receiver
+ */
+export interface BatchMessage extends BaseMessage {
+	type: 'batch'
+	messages: Message[]
+}
+
 /**
  * Union type of all message types
  */
-export type Message = RequestMessage | ResponseMessage | EventMessage
+export type Message =
+	| RequestMessage
+	| ResponseMessage
+	| EventMessage
+	| HelloMessage
+	| ReadyMessage
+	| CancelMessage
+	| StreamMessage
+	| BatchMessage
 
 /**
  * Contract definition for RPC procedures and events
@@ -63,22 +242,166 @@ export interface Contract<T = unknown> {
 }
 
 /**
- * Schema definition that can be either a procedure (with returns) or an event
+ * Group of definitions and nested groups. Each definition is sent under its
+ * dotted path, e.g. `payments.charge`.
+ */
+export interface ContractNamespace {
+	[name: string]: SchemaDefinition | ContractNamespace
+}
+
+type UnionToIntersection<T> = (
+	T extends unknown
+		? (value: T) => void
+		: never
+) extends (value: infer I) => void
+	? I
+	: never
+
+type Simplify<T> = { [K in keyof T]: T[K] }
+
+type FlattenEntries<T, TPrefix extends string> = {
+	[K in keyof T & string]: T[K] extends StandardSchemaV1
+		? { [P in `${TPrefix}${K}`]: T[K] }
+		: FlattenEntries<T[K], `${TPrefix}${K}.`>
+}[keyof T & string]
+
+/**
+ * Definitions of one side with namespaces replaced by dotted names
+ */
+export type FlattenDefinitions<T> = Simplify<
+	UnionToIntersection<FlattenEntries<T, ''>>
+>
+
+type HasNamespaces<T> = true extends {
+	[K in keyof T]: T[K] extends StandardSchemaV1 ? false : true
+}[keyof T]
+	? true
+	: false
+
+/**
+ * Contract with namespaces replaced by dotted names, as returned by
+ * `defineContract`. Contracts without namespaces keep their type.
+ */
+export type FlattenContract<T extends Contract> =
+	true extends HasNamespaces<NonNullable<T['web']>>
+		? FlattenedContract<T>
+		: true extends HasNamespaces<NonNullable<T['native']>>
+			? FlattenedContract<T>
+			: T
+
+type FlattenedContract<T extends Contract> = {
+	[S in keyof T]: FlattenDefinitions<NonNullable<T[S]>>
+}
+
+type SideNames<T, TSide extends 'web' | 'native'> = T extends Contract
+	? keyof NonNullable<T[TSide]> & string
+	: never
+
+type DuplicateNames<
+	T extends readonly Contract[],
+	TSide extends 'web' | 'native',
+> = T extends readonly [
+	infer THead extends Contract,
+	...infer TRest extends readonly Contract[],
+]
+	?
+			| (SideNames<THead, TSide> & SideNames<TRest[number], TSide>)
+			| DuplicateNames<TRest, TSide>
+	: never
+
+/**
+ * Fails to type-check when contracts define the same name on one side,
+ * naming the duplicates in the error
+ */
+export type UniqueNames<T extends readonly Contract[]> = [
+	DuplicateNames<T, 'web'> | DuplicateNames<T, 'native'>,
+] extends [never]
+	? unknown
+	: {
+			duplicateNames: DuplicateNames<T, 'web'> | DuplicateNames<T, 'native'>
+		}
+
+type MergeSide<
+	T extends readonly Contract[],
+	TSide extends 'web' | 'native',
+> = Simplify<
+	UnionToIntersection<
+		{
+			[I in keyof T]: T[I] extends { [S in TSide]?: infer D }
+				? NonNullable<D>
+				: never
+		}[number]
+	>
+>
+
+/**
+ * Contract combining the definitions of several contracts
+ */
+export type MergeContracts<T extends readonly Contract[]> = {
+	web: MergeSide<T, 'web'>
+	native: MergeSide<T, 'native'>
+}
+
+/**
+ * Schema definition that can be a procedure (with returns), a stream (with yields),
+ * a subscription (with emits) or an event
+ */
+export type SchemaDefinition =
+	| StandardSchemaV1
+	| ProcedureSchema
+	| StreamSchema
+	| SubscriptionSchema
+
+/**
+ * Data schemas of the errors a procedure may fail with, keyed by error code
  */
-export type SchemaDefinition = StandardSchemaV1 | ProcedureSchema
+export type ErrorSchemas = Record<string, StandardSchemaV1>
 
 /**
- * Procedure schema with a returns() method
- * Generic over input schema and optional return schema
+ * Procedure schema with returns() and errors() methods
+ * Generic over input schema, optional return schema and optional error schemas
  */
 export type ProcedureSchema<
 	TInput extends StandardSchemaV1 = StandardSchemaV1,
 	TOutput extends StandardSchemaV1 | undefined = undefined,
+	TErrors extends ErrorSchemas | undefined = undefined,
 > = TInput & {
 	returns: <TReturn extends StandardSchemaV1>(
 		returnSchema: TReturn,
-	) => ProcedureSchema<TInput, TReturn>
+	) => ProcedureSchema<TInput, TReturn, TErrors>
+	errors: <TDeclared extends ErrorSchemas>(
+		errorSchemas: TDeclared,
+	) => ProcedureSchema<TInput, TOutput, TDeclared>
 	_returnSchema?: TOutput
+	_errorSchemas?: TErrors
+}
+
+/**
+ * Stream schema with a yields() method
+ * Generic over input schema and optional chunk schema
+ */
+export type StreamSchema<
+	TInput extends StandardSchemaV1 = StandardSchemaV1,
+	TChunk extends StandardSchemaV1 | undefined = undefined,
+> = TInput & {
+	yields: <TYield extends StandardSchemaV1>(
+		chunkSchema: TYield,
+	) => StreamSchema<TInput, TYield>
+	_chunkSchema?: TChunk
+}
+
+/**
+ * Subscription schema with an emits() method
+ * Generic over input schema and optional data schema
+ */
+export type SubscriptionSchema<
+	TInput extends StandardSchemaV1 = StandardSchemaV1,
+	TData extends StandardSchemaV1 | undefined = undefined,
+> = TInput & {
+	emits: <TEmit extends StandardSchemaV1>(
+		dataSchema: TEmit,
+	) => SubscriptionSchema<TInput, TEmit>
+	_dataSchema?: TData
 }
 
 /**
@@ -90,15 +413,90 @@ export function isProcedure(
 	return 'returns' in schema && typeof schema.returns === 'function'
 }
 
+/**
+ * Check if a schema is a stream (has yields method)
+ */
+export function isStream(schema: SchemaDefinition): schema is StreamSchema {
+	return 'yields' in schema && typeof schema.yields === 'function'
+}
+
+/**
+ * Check if a schema is a subscription (has emits method)
+ */
+export function isSubscription(
+	schema: SchemaDefinition,
+): schema is SubscriptionSchema {
+	return 'emits' in schema && typeof schema.emits === 'function'
+}
+
+/**
+ * Names of the procedures (schemas with returns) among definitions
+ */
+export type ProcedureNames<T> = {
+	[K in keyof T]-?: T[K] extends { returns: unknown } ? K : never
+}[keyof T]
+
+/**
+ * Names of the streams (schemas with yields) among definitions
+ */
+export type StreamNames<T> = {
+	[K in keyof T]-?: T[K] extends { yields: unknown } ? K : never
+}[keyof T]
+
+/**
+ * Names of the subscriptions (schemas with emits) among definitions
+ */
+export type SubscriptionNames<T> = {
+	[K in keyof T]-?: T[K] extends { emits: unknown } ? K : never
+}[keyof T]
+
+/**
+ * Names of the events (schemas without returns, yields or emits) among
+ * definitions
+ */
+export type EventNames<T> = {
+	[K in keyof T]-?: T[K] extends
+		| { returns: unknown }
+		| { yields: unknown }
+		| { emits: unknown }
+		? never
+		: K
+}[keyof T]
+
+/**
+ * Payload type with each Blob widened to `Blob | Uint8Array`. The binary codec
+ * restores Blobs as Uint8Array where the platform cannot build a Blob from
+ * bytes (React Native), so that is what the receiving side may get.
+ */
+export type ReceivedBlobs<T> = 0 extends 1 & T
+	? T
+	: T extends Blob
+		? Blob | Uint8Array
+		: T extends
+					| ArrayBuffer
+					| ArrayBufferView
+					| Date
+					| RegExp
+					| ((...args: never[]) => unknown)
+			? T
+			: T extends object
+				? { [K in keyof T]: ReceivedBlobs<T[K]> }
+				: T
+
 /**
  * Extract input type from a schema
  * Works with Standard Schema v1 compliant schemas (including Zod v4+)
- * Also handles ProcedureSchema by extracting from the underlying input schema
+ * Also handles ProcedureSchema by extracting from the underlying input schema.
+ * Blobs are typed as they may arrive (see `ReceivedBlobs`).
  */
-export type InferInput<T> = T extends ProcedureSchema<infer TInput, infer _TOutput>
-	? NonNullable<TInput['~standard']['types']>['input']
+export type InferInput<T> = T extends ProcedureSchema<
+	infer TInput,
+	infer _TOutput,
+	infer _TErrors
+>
+	? ReceivedBlobs<NonNullable<TInput['~standard']['types']>['input']>
 	: T extends StandardSchemaV1
-		? NonNullable<T['~standard']['types']>['input']
+		? ReceivedBlobs<NonNullable<T['~standard']['types']>['input']>
 		: unknown
 
 /**
@@ -106,10 +504,14 @@ export type InferInput<T> = T extends ProcedureSchema<infer TInput, infer _TOutp
  * Works with Standard Schema v1 compliant schemas (including Zod v4+)
  * Also handles ProcedureSchema by extracting from the underlying input schema
  */
-export type InferOutput<T> = T extends ProcedureSchema<infer TInput, infer _TOutput>
-	? NonNullable<TInput['~standard']['types']>['output']
+export type InferOutput<T> = T extends ProcedureSchema<
+	infer TInput,
+	infer _TOutput,
+	infer _TErrors
+>
+	? ReceivedBlobs<NonNullable<TInput['~standard']['types']>['output']>
 	: T extends StandardSchemaV1
-		? NonNullable<T['~standard']['types']>['output']
+		? ReceivedBlobs<NonNullable<T['~standard']['types']>['output']>
 		: unknown
 
 /**
@@ -117,9 +519,31 @@ export type InferOutput<T> = T extends ProcedureSchema<infer TInput, infer _TOut
  */
 export type InferReturns<T> = T extends ProcedureSchema<
 	infer _TInput,
-	infer TOutput
+	infer TOutput,
+	infer _TErrors
 >
 	? TOutput extends StandardSchemaV1
 		? InferOutput<TOutput>
 		: never
 	: never
+
+/**
+ * Extract chunk type from a stream schema
+ */
+export type InferChunk<T> = T extends StreamSchema<infer _TInput, infer TChunk>
+	? TChunk extends StandardSchemaV1
+		? InferOutput<TChunk>
+		: never
+	: never
+
+/**
+ * Extract emitted data type from a subscription schema
+ */
+export type InferEmits<T> = T extends SubscriptionSchema<
+	infer _TInput,
+	infer TData
+>
+	? TData extends StandardSchemaV1
+		? InferOutput<TData>
+		: never
+	: never
@@ -0,0 +1,231 @@
+import { describe, it, expect } from 'vitest'
+import type { StandardSchemaV1 } from '@standard-schema/spec'
+import { WebViewRPCError, WebViewRPCValidationError } from './errors'
+import { procedure } from './procedure'
+import { stream } from './stream'
+import { subscription } from './subscription'
+import {
+	checkKind,
+	getChunkSchema,
+	getEmitSchema,
+	getKind,
+	getReturnSchema,
+	getSchema,
+	shouldValidate,
+	validateSchema,
+} from './validation'
+
+// Mock schema that accepts strings only
+const createStringSchema = (async = false): StandardSchemaV1<string> => ({
+	'~standard': {
+		version: 1,
+		vendor: 'test',
+		validate: (value: unknown) => {
+			const result =
+				typeof value === 'string'
+					? { value: value.trim() }
+					: { issues: [{ message: 'Expected string', path: ['value'] }] }
+			return async ? Promise.resolve(result) : result
+		},
+	},
+})
+
+describe('validation', () => {
+	describe('shouldValidate', () => {
+		it('should not validate when setting is undefined or false', () => {
+			// THEN: Validation is opt-in
+			expect(shouldValidate(undefined, 'input', 'share')).toBe(false)
+			expect(shouldValidate(false, 'output', 'share')).toBe(false)
+		})
+
+		it('should validate every stage when setting is true', () => {
+			// THEN: All stages validated
+			expect(shouldValidate(true, 'input', 'share')).toBe(true)
+			expect(shouldValidate(true, 'output', 'share')).toBe(true)
+			expect(shouldValidate(true, 'events', 'changed')).toBe(true)
+		})
+
+		it('should default stage flags to true when options object given', () => {
+			// GIVEN: Options disabling only output validation
+			const setting = { output: false }
+
+			// THEN: Other stages remain enabled
+			expect(shouldValidate(setting, 'input', 'share')).toBe(true)
+			expect(shouldValidate(setting, 'output', 'share')).toBe(false)
+			expect(shouldValidate(setting, 'events', 'changed')).toBe(true)
+		})
+
+		it('should prefer per-name overrides over stage flags', () => {
+			// GIVEN: Everything disabled except one procedure
+			const setting = {
+				input: false,
+				output: false,
+				events: false,
+				overrides: { share: true, changed: false },
+			}
+
+			// THEN: Override wins
+			expect(shouldValidate(setting, 'input', 'share')).toBe(true)
+			expect(shouldValidate(setting, 'output', 'share')).toBe(true)
+			expect(shouldValidate(setting, 'events', 'changed')).toBe(false)
+			expect(shouldValidate(setting, 'input', 'other')).toBe(false)
+		})
+	})
+
+	describe('getSchema', () => {
+		it('should return schema defined in contract side', () => {
+			// GIVEN: A contract side
+			const schema = createStringSchema()
+			const definitions = { share: schema }
+
+			// THEN: Should find schema by name
+			expect(getSchema(definitions, 'share')).toBe(schema)
+		})
+
+		it('should return undefined for unknown names and missing sides', () => {
+			// THEN: Missing entries resolve to undefined
+			expect(getSchema({}, 'share')).toBeUndefined()
+			expect(getSchema({}, 'toString')).toBeUndefined()
+			expect(getSchema(undefined, 'share')).toBeUndefined()
+		})
+	})
+
+	describe('getKind', () => {
+		it('should tell kinds apart by the method of the schema', () => {
+			// THEN: returns, yields and emits decide, anything else is an event
+			expect(getKind(procedure(createStringSchema()))).toBe('procedure')
+			expect(getKind(stream(createStringSchema()))).toBe('stream')
+			expect(getKind(subscription(createStringSchema()))).toBe('subscription')
+			expect(getKind(createStringSchema())).toBe('event')
+		})
+	})
+
+	describe('checkKind', () => {
+		const definitions = {
+			share: procedure(createStringSchema()),
+			search: stream(createStringSchema()),
+			pathChanged: createStringSchema(),
+		}
+
+		it('should accept names used as their kind', () => {
+			// THEN: No error
+			expect(checkKind(definitions, 'share', 'procedure')).toBeUndefined()
+			expect(checkKind(definitions, 'search', 'stream')).toBeUndefined()
+			expect(checkKind(definitions, 'pathChanged', 'event')).toBeUndefined()
+		})
+
+		it('should leave names the contract does not define alone', () => {
+			// THEN: Unknown names are up to the unknown procedure policy
+			expect(checkKind(definitions, 'missing', 'event')).toBeUndefined()
+			expect(checkKind(undefined, 'share', 'event')).toBeUndefined()
+		})
+
+		it('should return a WRONG_KIND error for names used as another kind', () => {
+			// WHEN: Emitting a procedure and calling an event
+			const emitted = checkKind(definitions, 'share', 'event')
+			const called = checkKind(definitions, 'pathChanged', 'procedure')
+
+			// THEN: Errors naming both kinds
+			expect(emitted).toBeInstanceOf(WebViewRPCError)
+			expect(emitted).toMatchObject({
+				code: 'WRONG_KIND',
+				message: 'share is a procedure, not an event',
+			})
+			expect(called?.message).toBe('pathChanged is an event, not a procedure')
+		})
+	})
+
+	describe('getReturnSchema', () => {
+		it('should return the return schema of a procedure', () => {
+			// GIVEN: A procedure with returns
+			const returns = createStringSchema()
+			const schema = procedure(createStringSchema()).returns(returns)
+
+			// THEN: Should expose return schema
+			expect(getReturnSchema(schema)).toBe(returns)
+		})
+
+		it('should return undefined for events and missing schemas', () => {
+			// THEN: Events have no return schema
+			expect(getReturnSchema(createStringSchema())).toBeUndefined()
+			expect(getReturnSchema(undefined)).toBeUndefined()
+		})
+	})
+
+	describe('getChunkSchema', () => {
+		it('should return the chunk schema of a stream', () => {
+			// GIVEN: A stream with yields
+			const yields = createStringSchema()
+			const schema = stream(createStringSchema()).yields(yields)
+
+			// THEN: Should expose chunk schema
+			expect(getChunkSchema(schema)).toBe(yields)
+		})
+
+		it('should return undefined for procedures and events', () => {
+			// THEN: Non-streams have no chunk schema
+			const schema = procedure(createStringSchema()).returns(createStringSchema())
+			expect(getChunkSchema(schema)).toBeUndefined()
+			expect(getChunkSchema(createStringSchema())).toBeUndefined()
+		})
+	})
+
+	describe('getEmitSchema', () => {
+		it('should return the data schema of a subscription only', () => {
+			// GIVEN: A subscription with emits
+			const emits = createStringSchema()
+			const schema = subscription(createStringSchema()).emits(emits)
+
+			// THEN: Should expose data schema
+			expect(getEmitSchema(schema)).toBe(emits)
+			expect(getEmitSchema(createStringSchema())).toBeUndefined()
+		})
+	})
+
+	describe('validateSchema', () => {
+		it('should return validated output value', async () => {
+			// WHEN: Validating a valid value
+			const result = await validateSchema(
+				createStringSchema(),
+				'  hello  ',
+				'Invalid',
+			)
+
+			// THEN: Should return transformed value
+			expect(result).toBe('hello')
+		})
+
+		it('should support async validators', async () => {
+			// WHEN: Validating with an async schema
+			const result = await validateSchema(
+				createStringSchema(true),
+				'hi',
+				'Invalid',
+			)
+
+			// THEN: Should await validation result
+			expect(result).toBe('hi')
+		})
+
+		it('should throw WebViewRPCValidationError with issues on failure', async () => {
+			// WHEN: Validating an invalid value
+			const promise = validateSchema(createStringSchema(true), 42, 'Invalid input')
+
+			// THEN: Should reject with issues
+			await expect(promise).rejects.toBeInstanceOf(WebViewRPCValidationError)
+			await expect(promise).rejects.toMatchObject({
+				message: 'Invalid input',
+				code: 'VALIDATION_ERROR',
+				issues: [{ message: 'Expected string', path: ['value'] }],
+			})
+		})
+
+		it('should pass value through when schema has no validate function', async () => {
+			// GIVEN: A schema stub without validate
+			const schema = { '~standard': { version: 1 } } as unknown as StandardSchemaV1
+
+			// THEN: Value returned unchanged
+			expect(await validateSchema(schema, 42, 'Invalid')).toBe(42)
+		})
+	})
+})
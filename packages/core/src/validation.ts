@@ -0,0 +1,267 @@
+/**
+ * Runtime Standard Schema validation helpers
+ * @module validation
+ */
+
+import type { StandardSchemaV1 } from '@standard-schema/spec'
+import { WebViewRPCError, WebViewRPCValidationError } from './errors'
+import type { DefinitionKind } from './fingerprint'
+import type { SchemaDefinition } from './types'
+import { isProcedure, isStream, isSubscription } from './types'
+
+/**
+ * Fine-grained validation settings for a client
+ */
+export interface ValidationOptions {
+	/**
+	 * Validate incoming request data before invoking a handler (default: true)
+	 */
+	input?: boolean
+
+	/**
+	 * Validate handler return values, stream chunks, subscription data and
+	 * declared error data before sending them (default: true)
+	 */
+	output?: boolean
+
+	/**
+	 * Validate incoming event data before dispatching to listeners (default: true)
+	 */
+	events?: boolean
+
+	/**
+	 * Per-procedure and per-event overrides, keyed by name.
+	 * An override takes precedence over the input/output/events flags.
+	 */
+	overrides?: Record<string, boolean>
+}
+
+/**
+ * Validation setting accepted by clients: `true` validates everything,
+ * `false` or `undefined` validates nothing
+ */
+export type ValidationSetting = boolean | ValidationOptions
+
+/**
+ * Stage of message handling at which a payload is validated
+ */
+export type ValidationStage = 'input' | 'output' | 'events'
+
+/**
+ * Resolve whether a payload should be validated for a given stage and name.
+ *
+ * @param setting - Client validation setting
+ * @param stage - Which payload is being validated
+ * @param name - Procedure or event name
+ * @returns True if the payload should be validated
+ *
+ * @example
+ * ```typescript
+ * shouldValidate({ output: false, overrides: { share: true } }, 'output', 'share') // true
+ * ```
+ */
+export function shouldValidate(
+	setting: ValidationSetting | undefined,
+	stage: ValidationStage,
+	name: string,
+): boolean {
+	if (typeof setting !== 'object') {
+		return setting === true
+	}
+
+	const override = setting.overrides?.[name]
+	if (override !== undefined) {
+		return override
+	}
+
+	return setting[stage] ?? true
+}
+
+/**
+ * Look up the schema for a procedure or event in one side of a contract.
+ *
+ * @param definitions - The `web` or `native` half of a contract
+ * @param name - Procedure or event name
+ * @returns The schema, or undefined if the contract does not define it
+ */
+export function getSchema(
+	definitions: unknown,
+	name: string,
+): SchemaDefinition | undefined {
+	if (
+		typeof definitions !== 'object' ||
+		definitions === null ||
+		!Object.prototype.hasOwnProperty.call(definitions, name)
+	) {
+		return undefined
+	}
+
+	return (definitions as Record<string, SchemaDefinition>)[name]
+}
+
+/**
+ * Tell a procedure, stream, subscription or event apart by the method its
+ * schema carries.
+ *
+ * @param schema - Schema of a contract definition
+ * @returns Kind of the definition
+ */
+export function getKind(schema: SchemaDefinition): DefinitionKind {
+	if (isProcedure(schema)) {
+		return 'procedure'
+	}
+	if (isStream(schema)) {
+		return 'stream'
+	}
+	if (isSubscription(schema)) {
+		return 'subscription'
+	}
+	return 'event'
+}
+
+/**
+ * Check that a name is used as the kind the contract defines it as, e.g. that
+ * only procedures are called and only events emitted.
+ *
+ * @param definitions - The `web` or `native` half of a contract
+ * @param name - Procedure or event name
+ * @param kind - Kind the name is used as
+ * @returns A WRONG_KIND error, or undefined if the kinds match or the contract
+ * does not define the name
+ *
+ * @example
+ * ```typescript
+ * const error = checkKind(contract.native, 'share', 'event')
+ * // error.message: 'share is a procedure, not an event'
+ * ```
+ */
+export function checkKind(
+	definitions: unknown,
+	name: string,
+	kind: DefinitionKind,
+): WebViewRPCError | undefined {
+	const schema = getSchema(definitions, name)
+	if (!schema) {
+		return undefined
+	}
+
+	const defined = getKind(schema)
+	if (defined === kind) {
+		return undefined
+	}
+
+	return new WebViewRPCError(
+		`${name} is ${withArticle(defined)}, not ${withArticle(kind)}`,
+		'WRONG_KIND',
+	)
+}
+
+/**
+ * Prefix a kind with its indefinite article
+ */
+function withArticle(kind: DefinitionKind): string {
+	return kind === 'event' ? `an ${kind}` : `a ${kind}`
+}
+
+/**
+ * Get the return schema of a procedure, if it declares one.
+ *
+ * @param schema - Procedure or event schema
+ * @returns The return schema, or undefined for events and procedures without returns
+ */
+export function getReturnSchema(
+	schema: SchemaDefinition | undefined,
+): StandardSchemaV1 | undefined {
+	if (!schema || !isProcedure(schema)) {
+		return undefined
+	}
+
+	return schema._returnSchema
+}
+
+/**
+ * Get the data schema a procedure declares for an error code.
+ *
+ * @param schema - Procedure or event schema
+ * @param code - Error code
+ * @returns The error data schema, or undefined if the code is not declared
+ */
+export function getErrorSchema(
+	schema: SchemaDefinition | undefined,
+	code: string,
+): StandardSchemaV1 | undefined {
+	if (!schema || !isProcedure(schema) || !schema._errorSchemas) {
+		return undefined
+	}
+
+	return Object.prototype.hasOwnProperty.call(schema._errorSchemas, code)
+		? schema._errorSchemas[code]
+		: undefined
+}
+
+/**
+ * Get the chunk schema of a stream, if it declares one.
+ *
+ * @param schema - Stream, procedure or event schema
+ * @returns The chunk schema, or undefined for non-streams and streams without yields
+ */
+export function getChunkSchema(
+	schema: SchemaDefinition | undefined,
+): StandardSchemaV1 | undefined {
+	if (!schema || !isStream(schema)) {
+		return undefined
+	}
+
+	return schema._chunkSchema
+}
+
+/**
+ * Get the data schema of a subscription, if it declares one.
+ *
+ * @param schema - Subscription, stream, procedure or event schema
+ * @returns The data schema, or undefined for non-subscriptions and subscriptions without emits
+ */
+export function getEmitSchema(
+	schema: SchemaDefinition | undefined,
+): StandardSchemaV1 | undefined {
+	if (!schema || !isSubscription(schema)) {
+		return undefined
+	}
+
+	return schema._dataSchema
+}
+
+/**
+ * Validate a value against a Standard Schema.
+ * Supports both synchronous and asynchronous validators.
+ *
+ * Schemas that do not expose a `validate` function are treated as pass-through.
+ *
+ * @param schema - Standard Schema to validate against
+ * @param value - Value to validate
+ * @param message - Error message used if validation fails
+ * @returns The validated (and possibly transformed) output value
+ * @throws WebViewRPCValidationError if the value does not match the schema
+ *
+ * @example
+ * ```typescript
+ * const data = await validateSchema(z.object({ url: z.string() }), input, 'Invalid input')
+ * ```
+ */
+export async function validateSchema(
+	schema: StandardSchemaV1,
+	value: unknown,
+	message: string,
+): Promise<unknown> {
+	const validate = schema['~standard']?.validate
+	if (typeof validate !== 'function') {
+		return value
+	}
+
+	const result = await validate(value)
+	if (result.issues) {
+		throw new WebViewRPCValidationError(message, result.issues)
+	}
+
+	return result.value
+}
@@ -1,11 +1,13 @@
 import { defineConfig } from 'tsdown'
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: ['src/index.ts', 'src/transport.ts', 'src/bin.ts'],
   format: ['esm'],
   dts: true,
   clean: true,
   platform: 'neutral',
   target: 'es2022',
   outDir: 'dist',
+  // The command line interface runs on Node
+  external: [/^node:/],
 })
@@ -2,8 +2,22 @@
  * Tests for Native client implementation
  */
 
-import { WebViewRPCError, WebViewRPCTimeoutError } from '@webview-rpc/core'
-import type { Contract, EventMessage, RequestMessage, ResponseMessage } from '@webview-rpc/core'
+import {
+  RemoteError,
+  WebViewRPCError,
+  WebViewRPCTimeoutError,
+  WebViewRPCValidationError,
+  PROTOCOL_VERSION,
+  createMemoryTransportPair,
+  createPeer,
+  defineContract,
+  getContractFingerprint,
+  procedure,
+  splitMessage,
+  stream,
+  subscription,
+} from '@webview-rpc/core'
+import type { Contract, Message, StandardSchemaV1 } from '@webview-rpc/core'
 import type { RefObject } from 'react'
 import type { WebView } from 'react-native-webview'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
@@ -61,7 +75,7 @@ describe('createNativeClient', () => {
 
   // Helper to simulate incoming message
   // biome-ignore lint/suspicious/noExplicitAny: Test utility needs to access internal handleMessage method
-  function simulateMessage(client: any, message: ResponseMessage | RequestMessage | EventMessage) {
+  function simulateMessage(client: any, message: Message) {
     const event = {
       nativeEvent: {
         data: JSON.stringify(message),
@@ -411,6 +425,188 @@ describe('createNativeClient', () => {
     })
   })
 
+  describe('proxy API', () => {
+    const createSchema = <T>(): StandardSchemaV1<T> => ({
+      '~standard': { version: 1, vendor: 'mock', validate: (value) => ({ value: value as T }) },
+    })
+
+    const proxyContract = defineContract({
+      web: {
+        navigate: procedure(createSchema<{ path: string }>()).returns(createSchema<boolean>()),
+        tabs: {
+          open: procedure(createSchema<{ id: string }>()),
+        },
+        pathChanged: createSchema<{ path: string }>(),
+      },
+      native: {
+        share: procedure(createSchema<{ url: string }>()),
+        appStateChange: createSchema<{ state: string }>(),
+      },
+    })
+
+    it('should call web procedures as methods nested by namespace', () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: proxyContract,
+      })
+
+      client.web.$.navigate({ path: '/home' }).catch(() => {})
+      client.web.$.tabs.open({ id: '1' }).catch(() => {})
+
+      const messages = vi
+        .mocked(mockWebView.postMessage)
+        .mock.calls.map((args) => JSON.parse(args[0]))
+        .filter((message) => message.type === 'request')
+      expect(messages).toMatchObject([
+        { procedure: 'navigate', data: { path: '/home' } },
+        { procedure: 'tabs.open', data: { id: '1' } },
+      ])
+      expect(client.web.$).not.toHaveProperty('pathChanged')
+
+      client.cleanup()
+    })
+
+    it('should emit native events as methods', () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: proxyContract,
+      })
+
+      client.native.$emit.appStateChange({ state: 'active' })
+
+      const call = vi.mocked(mockWebView.postMessage).mock.calls[0]
+      expect(JSON.parse(call[0])).toMatchObject({
+        type: 'event',
+        event: 'appStateChange',
+        data: { state: 'active' },
+      })
+      expect(client.native.$emit).not.toHaveProperty('share')
+    })
+  })
+
+  describe('wrong kind', () => {
+    it('should reject calls of web events without sending them', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+      })
+
+      await expect(client.web.call('pathChanged', { path: '/home' })).rejects.toMatchObject({
+        code: 'WRONG_KIND',
+        message: 'pathChanged is an event, not a procedure',
+      })
+      await expect(client.web.stream('navigate', {}).next()).rejects.toMatchObject({
+        code: 'WRONG_KIND',
+        message: 'navigate is a procedure, not a stream',
+      })
+      expect(mockWebView.postMessage).not.toHaveBeenCalled()
+    })
+
+    it('should report emits of procedures to onError without sending them', () => {
+      const onError = vi.fn()
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+        onError,
+      })
+
+      client.native.emit('share', {})
+      client.web.emit('navigate', {})
+      client.web.subscribe('navigate', {}, () => {})
+
+      expect(onError).toHaveBeenCalledTimes(3)
+      expect(onError.mock.calls.map(([error]) => error.code)).toEqual([
+        'WRONG_KIND',
+        'WRONG_KIND',
+        'WRONG_KIND',
+      ])
+      expect(mockWebView.postMessage).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('handler registries', () => {
+    const collidingContract: Contract = {
+      web: { sync: { '~standard': { version: 1 } } },
+      native: { sync: { '~standard': { version: 1 }, returns: vi.fn() } },
+    }
+
+    function findResponse() {
+      const call = vi
+        .mocked(mockWebView.postMessage)
+        .mock.calls.find((args) => args[0].includes('"type":"response"'))
+      return call ? JSON.parse(call[0]) : undefined
+    }
+
+    it('should keep a native procedure and a web event of the same name apart', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: collidingContract,
+      })
+      const procedure = vi.fn(async () => 'synced')
+      const listener = vi.fn()
+      client.native.handle('sync', procedure)
+      client.web.handle('sync', listener)
+
+      simulateMessage(client, { id: 'evt-1', type: 'event', event: 'sync', data: { at: 1 } })
+      simulateMessage(client, { id: 'req-1', type: 'request', procedure: 'sync', data: {} })
+
+      await vi.waitFor(() => expect(findResponse()).toBeDefined())
+      expect(findResponse().data).toBe('synced')
+      expect(procedure).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith({ at: 1 })
+      expect(client.registeredHandlers()).toEqual([
+        { side: 'native', name: 'sync', kind: 'procedure', count: 1 },
+        { side: 'web', name: 'sync', kind: 'event', count: 1 },
+      ])
+    })
+
+    it('should not answer requests or events with handlers of the other side', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: {
+          web: { sync: { '~standard': { version: 1 }, returns: vi.fn() } },
+          native: { sync: { '~standard': { version: 1 } } },
+        } as Contract,
+      })
+      const webHandler = vi.fn(async () => 'web')
+      const nativeListener = vi.fn()
+      client.web.handle('sync', webHandler)
+      client.native.handle('sync', nativeListener)
+
+      simulateMessage(client, { id: 'evt-1', type: 'event', event: 'sync', data: { at: 1 } })
+      simulateMessage(client, { id: 'req-1', type: 'request', procedure: 'sync', data: {} })
+
+      await vi.waitFor(() => expect(findResponse()).toBeDefined())
+      expect(findResponse().error).toMatchObject({ code: 'NO_HANDLER' })
+      expect(webHandler).not.toHaveBeenCalled()
+      expect(nativeListener).not.toHaveBeenCalled()
+    })
+
+    it('should apply the duplicate policy to a second procedure handler', () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+        duplicateHandlers: 'throw',
+      })
+      client.native.handle('share', vi.fn())
+
+      expect(() => client.native.handle('share', vi.fn())).toThrow(WebViewRPCError)
+    })
+
+    it('should drop every handler on cleanup', () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+      })
+      client.native.handle('share', vi.fn())
+      client.web.handle('pathChanged', vi.fn())
+
+      client.cleanup()
+
+      expect(client.registeredHandlers()).toEqual([])
+    })
+  })
+
   describe('web.handle (handle incoming events from web)', () => {
     it('should register handler for incoming events from web', () => {
       const client = createNativeClient({
@@ -514,7 +710,10 @@ describe('createNativeClient', () => {
 
       // Wait for async handler
       await vi.waitFor(() => {
-        expect(handler).toHaveBeenCalledWith({ url: 'https://example.com', title: 'Example' })
+        expect(handler).toHaveBeenCalledWith(
+          { url: 'https://example.com', title: 'Example' },
+          expect.objectContaining({ signal: expect.any(AbortSignal), meta: {} })
+        )
       })
     })
 
@@ -594,6 +793,38 @@ describe('createNativeClient', () => {
       expect(response.error.code).toBe('HANDLER_ERROR')
     })
 
+    it('should send a RemoteError with its code and data', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+      })
+
+      client.native.handle('share', () => {
+        throw new RemoteError('SHARE_DISABLED', { reason: 'policy' }, 'Sharing disabled')
+      })
+      vi.mocked(mockWebView.postMessage).mockClear()
+
+      simulateMessage(client, {
+        type: 'request',
+        procedure: 'share',
+        data: { url: 'https://example.com', title: 'Example' },
+        id: 'test-id',
+        timestamp: Date.now(),
+      })
+
+      await vi.waitFor(() => {
+        expect(mockWebView.postMessage).toHaveBeenCalled()
+      })
+
+      const response = JSON.parse(vi.mocked(mockWebView.postMessage).mock.calls[0][0])
+      expect(response.error).toEqual({
+        message: 'Sharing disabled',
+        code: 'SHARE_DISABLED',
+        name: 'RemoteError',
+        data: { reason: 'policy' },
+      })
+    })
+
     it('should allow multiple handlers for same event', async () => {
       const client = createNativeClient({
         webViewRef: mockWebViewRef,
@@ -603,20 +834,20 @@ describe('createNativeClient', () => {
       const handler1 = vi.fn()
       const handler2 = vi.fn()
 
-      client.native.handle('appStateChange', handler1)
-      client.native.handle('appStateChange', handler2)
+      client.web.handle('pathChanged', handler1)
+      client.web.handle('pathChanged', handler2)
 
       // Simulate incoming event
       simulateMessage(client, {
         type: 'event',
-        event: 'appStateChange',
-        data: { state: 'active' },
+        event: 'pathChanged',
+        data: { path: '/home' },
         id: 'test-id',
         timestamp: Date.now(),
       })
 
-      expect(handler1).toHaveBeenCalledWith({ state: 'active' })
-      expect(handler2).toHaveBeenCalledWith({ state: 'active' })
+      expect(handler1).toHaveBeenCalledWith({ path: '/home' })
+      expect(handler2).toHaveBeenCalledWith({ path: '/home' })
     })
 
     it('should unregister handler when unsubscribe called', () => {
@@ -739,13 +970,13 @@ describe('createNativeClient', () => {
         throw new Error('Handler error')
       })
 
-      client.native.handle('appStateChange', handler)
+      client.web.handle('pathChanged', handler)
 
       // Simulate event
       simulateMessage(client, {
         type: 'event',
-        event: 'appStateChange',
-        data: { state: 'active' },
+        event: 'pathChanged',
+        data: { path: '/home' },
         id: 'test-id',
         timestamp: Date.now(),
       })
@@ -985,4 +1216,890 @@ describe('createNativeClient', () => {
       // This is more of a safety check - in normal flow this shouldn't happen
     })
   })
+
+  describe('validation', () => {
+    // Schema that validates asynchronously with a predicate
+    const createCheckedSchema = (check: (value: unknown) => boolean): StandardSchemaV1 => ({
+      '~standard': {
+        version: 1,
+        vendor: 'mock',
+        validate: async (value: unknown) =>
+          check(value) ? { value } : { issues: [{ message: 'Invalid value', path: ['x'] }] },
+      },
+    })
+
+    const hasString = (key: string) => (value: unknown) =>
+      typeof (value as Record<string, unknown>)?.[key] === 'string'
+
+    const validatingContract: Contract = {
+      web: {
+        pathChanged: createCheckedSchema(hasString('path')),
+      },
+      native: {
+        share: procedure(createCheckedSchema(hasString('url'))).returns(
+          createCheckedSchema(hasString('status'))
+        ),
+      },
+    }
+
+    function findResponse() {
+      const call = vi
+        .mocked(mockWebView.postMessage)
+        .mock.calls.find((args) => args[0].includes('"type":"response"'))
+      return call ? JSON.parse(call[0]) : undefined
+    }
+
+    it('should reject invalid request data before invoking handler', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: validatingContract,
+        validate: true,
+      })
+      const handler = vi.fn(async () => ({ status: 'ok' }))
+      client.native.handle('share', handler)
+
+      simulateMessage(client, {
+        id: 'req-1',
+        type: 'request',
+        procedure: 'share',
+        data: { url: 42 },
+      })
+
+      await vi.waitFor(() => expect(findResponse()).toBeDefined())
+      expect(findResponse().error).toEqual({
+        message: 'Invalid input for procedure: share',
+        code: 'VALIDATION_ERROR',
+        issues: [{ message: 'Invalid value', path: ['x'] }],
+      })
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('should reject invalid return values and report them locally', async () => {
+      const onError = vi.fn()
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: validatingContract,
+        validate: { input: false },
+        onError,
+      })
+      client.native.handle('share', async () => ({ status: 1 }))
+
+      simulateMessage(client, {
+        id: 'req-1',
+        type: 'request',
+        procedure: 'share',
+        data: { url: 42 },
+      })
+
+      await vi.waitFor(() => expect(findResponse()).toBeDefined())
+      expect(findResponse().error.code).toBe('VALIDATION_ERROR')
+      expect(onError).toHaveBeenCalledWith(expect.any(WebViewRPCValidationError))
+    })
+
+    it('should send validated return values', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: validatingContract,
+        validate: true,
+      })
+      client.native.handle('share', async () => ({ status: 'ok' }))
+
+      simulateMessage(client, {
+        id: 'req-1',
+        type: 'request',
+        procedure: 'share',
+        data: { url: 'https://example.com' },
+      })
+
+      await vi.waitFor(() => expect(findResponse()).toBeDefined())
+      expect(findResponse().data).toEqual({ status: 'ok' })
+    })
+
+    it('should validate event data from web before dispatch', async () => {
+      const onError = vi.fn()
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: validatingContract,
+        validate: true,
+        onError,
+      })
+      const handler = vi.fn()
+      client.web.handle('pathChanged', handler)
+
+      simulateMessage(client, { id: 'e-1', type: 'event', event: 'pathChanged', data: {} })
+      simulateMessage(client, {
+        id: 'e-2',
+        type: 'event',
+        event: 'pathChanged',
+        data: { path: '/home' },
+      })
+
+      await vi.waitFor(() => expect(handler).toHaveBeenCalledWith({ path: '/home' }))
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(onError).toHaveBeenCalledWith(expect.any(WebViewRPCValidationError))
+    })
+
+    it('should skip validation for names disabled via overrides', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: validatingContract,
+        validate: { overrides: { pathChanged: false } },
+      })
+      const handler = vi.fn()
+      client.web.handle('pathChanged', handler)
+
+      simulateMessage(client, { id: 'e-1', type: 'event', event: 'pathChanged', data: {} })
+
+      expect(handler).toHaveBeenCalledWith({})
+    })
+
+    it('should reject call with WebViewRPCValidationError on VALIDATION_ERROR response', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+      })
+
+      const promise = client.web.call('navigate', { path: '/home' })
+      const request = JSON.parse(vi.mocked(mockWebView.postMessage).mock.calls[0][0])
+
+      simulateMessage(client, {
+        id: request.id,
+        type: 'response',
+        error: { message: 'Invalid input', code: 'VALIDATION_ERROR' },
+      })
+
+      await expect(promise).rejects.toBeInstanceOf(WebViewRPCValidationError)
+      await expect(promise).rejects.toMatchObject({ issues: [] })
+    })
+  })
+
+  describe('handshake', () => {
+    it('should reply ready to hello and resolve ready', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+      })
+      const fingerprint = getContractFingerprint(mockContract)
+
+      simulateMessage(client, {
+        id: 'hello-id',
+        type: 'hello',
+        version: PROTOCOL_VERSION,
+        fingerprint,
+      })
+
+      const reply = JSON.parse(vi.mocked(mockWebView.postMessage).mock.calls[0][0])
+      expect(reply).toMatchObject({
+        id: 'hello-id',
+        type: 'ready',
+        version: PROTOCOL_VERSION,
+        fingerprint,
+      })
+      await expect(client.ready).resolves.toBeUndefined()
+    })
+
+    it('should resolve ready when the contracts differ only by added names', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+      })
+
+      simulateMessage(client, {
+        id: 'hello-id',
+        type: 'hello',
+        version: PROTOCOL_VERSION,
+        fingerprint: 'other',
+        contract: { web: { reload: { kind: 'procedure', input: {} } }, native: {} },
+      })
+
+      await expect(client.ready).resolves.toBeUndefined()
+    })
+
+    it('should reject ready with PROTOCOL_MISMATCH when contracts break', async () => {
+      const onError = vi.fn()
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+        onError,
+      })
+
+      simulateMessage(client, {
+        id: 'hello-id',
+        type: 'hello',
+        version: PROTOCOL_VERSION,
+        fingerprint: 'other',
+        contract: { web: { navigate: { kind: 'event', input: {} } }, native: {} },
+      })
+
+      // The reply still goes out so the page can detect the mismatch too
+      expect(mockWebView.postMessage).toHaveBeenCalledWith(
+        expect.stringContaining('"type":"ready"')
+      )
+      await expect(client.ready).rejects.toThrow(/Contract mismatch/)
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'PROTOCOL_MISMATCH' }))
+    })
+
+    it('should resolve ready on ready message', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+      })
+
+      simulateMessage(client, {
+        id: 'id',
+        type: 'ready',
+        version: PROTOCOL_VERSION,
+        fingerprint: getContractFingerprint(mockContract),
+      })
+
+      await expect(client.ready).resolves.toBeUndefined()
+      expect(mockWebView.postMessage).not.toHaveBeenCalled()
+    })
+
+    it('should ignore hello reply when WebView ref is null', async () => {
+      const client = createNativeClient({
+        webViewRef: { current: null },
+        contract: mockContract,
+      })
+
+      expect(() =>
+        simulateMessage(client, {
+          id: 'hello-id',
+          type: 'hello',
+          version: PROTOCOL_VERSION,
+          fingerprint: getContractFingerprint(mockContract),
+        })
+      ).not.toThrow()
+      await expect(client.ready).resolves.toBeUndefined()
+    })
+
+    it('should reject pending ready on cleanup', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+      })
+
+      client.cleanup()
+
+      await expect(client.ready).rejects.toThrow(WebViewRPCError)
+    })
+  })
+
+  describe('outbound queue', () => {
+    const sayHello = (client: unknown) => {
+      simulateMessage(client, {
+        id: 'hello-id',
+        type: 'hello',
+        version: PROTOCOL_VERSION,
+        fingerprint: getContractFingerprint(mockContract),
+      })
+    }
+
+    const postedTypes = () =>
+      vi
+        .mocked(mockWebView.postMessage)
+        .mock.calls.map((call) => JSON.parse(call[0] as string).type)
+
+    it('should hold messages until the web page says hello, then flush in order', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+        queue: true,
+      })
+
+      const promise = client.web.call('navigate', { path: '/home' })
+      client.native.emit('appStateChange', { state: 'active' })
+      expect(mockWebView.postMessage).not.toHaveBeenCalled()
+
+      sayHello(client)
+
+      expect(postedTypes()).toEqual(['ready', 'request', 'event'])
+      const request = JSON.parse(vi.mocked(mockWebView.postMessage).mock.calls[1][0])
+      simulateMessage(client, { id: request.id, type: 'response', data: { ok: true } })
+      await expect(promise).resolves.toEqual({ ok: true })
+    })
+
+    it('should queue while the WebView ref is null instead of rejecting', async () => {
+      mockWebViewRef = { current: null } as unknown as RefObject<WebView>
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+        queue: true,
+      })
+      sayHello(client)
+
+      const promise = client.web.call('navigate', { path: '/home' })
+      let settled = false
+      promise
+        .catch(() => {})
+        .finally(() => {
+          settled = true
+        })
+      await Promise.resolve()
+      expect(settled).toBe(false)
+
+      // WebView mounted, next incoming message triggers the flush
+      ;(mockWebViewRef as { current: WebView }).current = mockWebView as WebView
+      simulateMessage(client, {
+        id: 'e1',
+        type: 'event',
+        event: 'pathChanged',
+        data: { path: '/' },
+      })
+
+      expect(postedTypes()).toEqual(['request'])
+    })
+
+    it('should reject queued requests with QUEUE_EXPIRED after maxAge', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+        queue: { maxAge: 500 },
+        timeout: 10000,
+      })
+
+      const promise = client.web.call('navigate', { path: '/home' })
+      vi.advanceTimersByTime(501)
+
+      await expect(promise).rejects.toMatchObject({ code: 'QUEUE_EXPIRED' })
+      sayHello(client)
+      expect(postedTypes()).toEqual(['ready'])
+    })
+
+    it('should start the timeout on flush when timeoutFrom is flush', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+        queue: { timeoutFrom: 'flush' },
+        timeout: 1000,
+      })
+
+      const promise = client.web.call('navigate', { path: '/home' })
+      promise.catch(() => {})
+      vi.advanceTimersByTime(5000)
+
+      sayHello(client)
+      vi.advanceTimersByTime(1001)
+
+      await expect(promise).rejects.toBeInstanceOf(WebViewRPCTimeoutError)
+    })
+
+    it('should report dropped events through onError', () => {
+      const onError = vi.fn()
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+        queue: { maxSize: 1, dropPolicy: 'drop-newest' },
+        onError,
+      })
+
+      client.native.emit('appStateChange', { state: 'active' })
+      client.native.emit('appStateChange', { state: 'background' })
+
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'QUEUE_FULL' }))
+    })
+
+    it('should reject queued requests on handshake mismatch', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+        queue: true,
+        onError: vi.fn(),
+      })
+
+      const promise = client.web.call('navigate', { path: '/home' })
+      simulateMessage(client, {
+        id: 'hello-id',
+        type: 'hello',
+        version: PROTOCOL_VERSION,
+        fingerprint: 'other',
+        contract: { web: { navigate: { kind: 'event', input: {} } }, native: {} },
+      })
+
+      await expect(promise).rejects.toMatchObject({ code: 'PROTOCOL_MISMATCH' })
+      expect(postedTypes()).toEqual(['ready'])
+    })
+  })
+
+  describe('cancellation', () => {
+    it('should reject with ABORTED and send cancel when the signal aborts', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+      })
+      const controller = new AbortController()
+
+      const promise = client.web.call('navigate', { path: '/home' }, { signal: controller.signal })
+      controller.abort()
+
+      await expect(promise).rejects.toMatchObject({ code: 'ABORTED' })
+      const [request, cancel] = vi
+        .mocked(mockWebView.postMessage)
+        .mock.calls.map((call) => JSON.parse(call[0] as string))
+      expect(cancel).toMatchObject({ id: request.id, type: 'cancel' })
+    })
+
+    it('should abort the handler signal when the web side cancels a request', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+      })
+      let signal: AbortSignal | undefined
+      client.native.handle('share', (_data, context) => {
+        signal = context.signal
+        return new Promise(() => {})
+      })
+
+      simulateMessage(client, { id: 'req-1', type: 'request', procedure: 'share', data: {} })
+      await vi.waitFor(() => expect(signal).toBeDefined())
+      simulateMessage(client, { id: 'req-1', type: 'cancel' })
+
+      expect(signal?.aborted).toBe(true)
+      expect(mockWebView.postMessage).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('call options', () => {
+    it('should expose meta and deadline of incoming requests to handlers', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+      })
+      const handler = vi.fn(() => ({ success: true }))
+      client.native.handle('share', handler)
+
+      simulateMessage(client, {
+        id: 'req-1',
+        type: 'request',
+        procedure: 'share',
+        data: {},
+        meta: { locale: 'en' },
+        deadline: Date.now() + 60000,
+      })
+
+      await vi.waitFor(() => {
+        expect(handler).toHaveBeenCalledWith(
+          {},
+          expect.objectContaining({ meta: { locale: 'en' }, deadline: expect.any(Number) })
+        )
+      })
+    })
+
+    it('should time out after the per-call timeout', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+        timeout: 60000,
+      })
+
+      const promise = client.web.call('navigate', { path: '/' }, { timeout: 200 })
+      vi.advanceTimersByTime(201)
+
+      await expect(promise).rejects.toBeInstanceOf(WebViewRPCTimeoutError)
+    })
+  })
+
+  describe('chunking', () => {
+    it('should report the progress of a call sent and answered in chunks', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+        chunking: { threshold: 50 },
+      })
+      const onProgress = vi.fn()
+
+      const promise = client.web.call('navigate', { path: `/${'a'.repeat(100)}` }, { onProgress })
+
+      const frames = vi
+        .mocked(mockWebView.postMessage)
+        .mock.calls.map((call) => JSON.parse(call[0] as string))
+      expect(frames.length).toBeGreaterThan(1)
+      const id = frames[0].messageId
+      expect(onProgress).toHaveBeenLastCalledWith(
+        expect.objectContaining({ id, direction: 'outbound' })
+      )
+
+      const response = JSON.stringify({ id, type: 'response', data: { success: true } })
+      for (const frame of splitMessage(response, id, 20)) {
+        client.handleMessage({ nativeEvent: { data: JSON.stringify(frame) } })
+      }
+
+      await expect(promise).resolves.toEqual({ success: true })
+      expect(onProgress).toHaveBeenLastCalledWith({
+        id,
+        direction: 'inbound',
+        loaded: response.length,
+        total: response.length,
+      })
+    })
+  })
+
+  describe('compression', () => {
+    it('should compress large messages after the page announced lzw in its hello', () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+        compression: { threshold: 1000 },
+      })
+
+      simulateMessage(client, {
+        id: 'hello-id',
+        type: 'hello',
+        version: PROTOCOL_VERSION,
+        fingerprint: getContractFingerprint(mockContract),
+        encodings: ['lzw'],
+      })
+      client.web.emit('pathChanged', { path: `/${'catalog/'.repeat(200)}` })
+
+      const [ready, event] = vi
+        .mocked(mockWebView.postMessage)
+        .mock.calls.map((call) => JSON.parse(call[0] as string))
+      expect(ready).toMatchObject({ type: 'ready', encodings: ['lzw'] })
+      expect(event).toMatchObject({ type: 'compressed', encoding: 'lzw' })
+      expect(client.compressionStats.messages).toBe(1)
+    })
+
+    it('should send uncompressed messages to a page that announced no encodings', () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+        compression: { threshold: 100 },
+      })
+
+      simulateMessage(client, {
+        id: 'hello-id',
+        type: 'hello',
+        version: PROTOCOL_VERSION,
+        fingerprint: getContractFingerprint(mockContract),
+      })
+      client.web.emit('pathChanged', { path: `/${'catalog/'.repeat(50)}` })
+
+      const event = JSON.parse(vi.mocked(mockWebView.postMessage).mock.calls[1][0] as string)
+      expect(event.type).toBe('event')
+      expect(client.compressionStats.messages).toBe(0)
+    })
+  })
+
+  describe('lifecycle', () => {
+    const hello = (client: ReturnType<typeof createNativeClient>) =>
+      simulateMessage(client, {
+        id: 'hello-id',
+        type: 'hello',
+        version: PROTOCOL_VERSION,
+        fingerprint: getContractFingerprint(mockContract),
+      })
+
+    it('should reject calls in flight with PEER_RELOADED when another page loads', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+      })
+      const events = vi.fn()
+      client.onLifecycle(events)
+
+      const promise = client.web.call('navigate', { path: '/' })
+      client.webViewProps.onLoadStart({ nativeEvent: { url: 'https://example.com/' } })
+
+      await expect(promise).rejects.toMatchObject({ code: 'PEER_RELOADED' })
+      expect(events).toHaveBeenCalledWith({ type: 'loadStart', url: 'https://example.com/' })
+    })
+
+    it('should wait for a new handshake after a reload and report it', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+      })
+      const events = vi.fn()
+      client.onLifecycle(events)
+
+      hello(client)
+      const firstReady = client.ready
+      await firstReady
+      client.webViewProps.onLoadStart({ nativeEvent: { url: 'https://example.com/' } })
+      client.webViewProps.onLoadEnd({ nativeEvent: { url: 'https://example.com/' } })
+
+      expect(client.ready).not.toBe(firstReady)
+      hello(client)
+      await client.ready
+
+      expect(events.mock.calls.map(([event]) => event.type)).toEqual([
+        'ready',
+        'loadStart',
+        'loadEnd',
+        'ready',
+      ])
+    })
+
+    it('should reject calls in flight when the content process terminates', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+      })
+      const events = vi.fn()
+      client.onLifecycle(events)
+
+      const promise = client.web.call('navigate', { path: '/' })
+      client.webViewProps.onContentProcessDidTerminate()
+
+      await expect(promise).rejects.toMatchObject({ code: 'PEER_RELOADED' })
+      expect(events).toHaveBeenCalledWith({ type: 'terminated' })
+      expect(client.webViewProps.onMessage).toBe(client.handleMessage)
+    })
+  })
+
+  describe('middleware', () => {
+    const posted = () =>
+      vi.mocked(mockWebView.postMessage).mock.calls.map((call) => JSON.parse(call[0] as string))
+
+    it('should refuse requests rejected by an inbound hook', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+        middleware: [
+          {
+            inbound: (message) => {
+              if (message.type === 'request' && message.meta?.token !== 'secret') {
+                throw new RemoteError('UNAUTHORIZED', undefined, 'Missing token')
+              }
+            },
+          },
+        ],
+      })
+      const handler = vi.fn(() => ({ success: true }))
+      client.native.handle('share', handler)
+
+      simulateMessage(client, { id: 'req-1', type: 'request', procedure: 'share', data: {} })
+
+      await vi.waitFor(() => expect(posted()).toHaveLength(1))
+      expect(posted()[0]).toMatchObject({
+        id: 'req-1',
+        type: 'response',
+        error: { code: 'UNAUTHORIZED', message: 'Missing token' },
+      })
+      expect(handler).not.toHaveBeenCalled()
+    })
+
+    it('should let outbound hooks observe responses with their request', async () => {
+      const observed: unknown[] = []
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+        middleware: [
+          {
+            outbound: (message, context) => {
+              if (message.type === 'response') {
+                observed.push([context.request?.procedure, message.data])
+              }
+            },
+          },
+        ],
+      })
+      client.native.handle('share', () => ({ success: true }))
+
+      simulateMessage(client, { id: 'req-1', type: 'request', procedure: 'share', data: {} })
+
+      await vi.waitFor(() => expect(observed).toEqual([['share', { success: true }]]))
+    })
+  })
+
+  describe('batching', () => {
+    it('should post events emitted in the same tick as one batch envelope', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+        batch: true,
+      })
+
+      client.native.emit('appStateChange', { state: 'background' })
+      client.native.emit('appStateChange', { state: 'active' })
+      await Promise.resolve()
+
+      expect(mockWebView.postMessage).toHaveBeenCalledTimes(1)
+      const envelope = JSON.parse(vi.mocked(mockWebView.postMessage).mock.calls[0][0])
+      expect(envelope).toMatchObject({
+        type: 'batch',
+        channel: 'webview-rpc',
+        messages: [{ data: { state: 'background' } }, { data: { state: 'active' } }],
+      })
+    })
+
+    it('should unpack batches from the web side in order', () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: mockContract,
+      })
+      const listener = vi.fn()
+      client.web.handle('pathChanged', listener)
+
+      simulateMessage(client, {
+        id: 'batch-1',
+        type: 'batch',
+        messages: [
+          { id: 'evt-1', type: 'event', event: 'pathChanged', data: { path: '/a' } },
+          { id: 'evt-2', type: 'event', event: 'pathChanged', data: { path: '/b' } },
+        ],
+      })
+
+      expect(listener.mock.calls).toEqual([[{ path: '/a' }], [{ path: '/b' }]])
+    })
+  })
+
+  describe('streams', () => {
+    const schema = { '~standard': { version: 1 } } as StandardSchemaV1
+    const streamContract = {
+      web: { suggest: stream(schema).yields(schema) },
+      native: { locate: stream(schema).yields(schema) },
+    }
+    const posted = () =>
+      vi.mocked(mockWebView.postMessage).mock.calls.map((call) => JSON.parse(call[0] as string))
+
+    it('should answer stream requests with the chunks of a generator handler', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: streamContract,
+      })
+      client.native.handle('locate', async function* () {
+        yield { lat: 1 }
+        yield { lat: 2 }
+      })
+
+      simulateMessage(client, {
+        id: 'req-1',
+        type: 'request',
+        procedure: 'locate',
+        data: {},
+        credits: 16,
+      })
+
+      await vi.waitFor(() => {
+        expect(posted().map((message) => message.type)).toEqual([
+          'stream-chunk',
+          'stream-chunk',
+          'stream-end',
+        ])
+      })
+      expect(posted()[1]).toMatchObject({ id: 'req-1', data: { lat: 2 } })
+    })
+
+    it('should read chunks of a web stream', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: streamContract,
+      })
+
+      const iterator = client.web.stream('suggest', { prefix: 'a' })
+      const [request] = posted()
+      simulateMessage(client, { id: request.id, type: 'stream-chunk', data: 'apple' })
+      simulateMessage(client, {
+        id: request.id,
+        type: 'stream-error',
+        error: { message: 'Index closed', code: 'HANDLER_ERROR' },
+      })
+
+      await expect(iterator.next()).resolves.toEqual({ value: 'apple', done: false })
+      await expect(iterator.next()).rejects.toBeInstanceOf(WebViewRPCError)
+    })
+  })
+
+  describe('subscriptions', () => {
+    const schema = { '~standard': { version: 1 } } as StandardSchemaV1
+    const subscriptionContract = {
+      web: { visibility: subscription(schema).emits(schema) },
+      native: { location: subscription(schema).emits(schema) },
+    }
+    const posted = () =>
+      vi.mocked(mockWebView.postMessage).mock.calls.map((call) => JSON.parse(call[0] as string))
+
+    it('should start the handler on subscribe and tear it down on cancel', async () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: subscriptionContract,
+      })
+      const stopWatching = vi.fn()
+      client.native.handle('location', (_data, { emit }) => {
+        emit({ latitude: 52 })
+        return stopWatching
+      })
+
+      simulateMessage(client, {
+        id: 'sub-1',
+        type: 'request',
+        procedure: 'location',
+        data: {},
+        subscribe: true,
+      })
+      await vi.waitFor(() => expect(posted()).toHaveLength(1))
+      expect(stopWatching).not.toHaveBeenCalled()
+
+      simulateMessage(client, { id: 'sub-1', type: 'cancel' })
+
+      await vi.waitFor(() => expect(stopWatching).toHaveBeenCalled())
+      expect(posted()[0]).toMatchObject({
+        id: 'sub-1',
+        type: 'stream-chunk',
+        data: { latitude: 52 },
+      })
+    })
+
+    it('should deliver data of a web subscription', () => {
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract: subscriptionContract,
+      })
+      const onData = vi.fn()
+
+      client.web.subscribe('visibility', {}, onData)
+      const [request] = posted()
+      simulateMessage(client, { id: request.id, type: 'stream-chunk', data: 'hidden' })
+
+      expect(request).toMatchObject({ procedure: 'visibility', subscribe: true })
+      expect(onData).toHaveBeenCalledWith('hidden')
+    })
+  })
+
+  describe('transport option', () => {
+    const createSchema = <T>(): StandardSchemaV1<T> => ({
+      '~standard': { version: 1, vendor: 'mock', validate: (value) => ({ value: value as T }) },
+    })
+
+    const contract = defineContract({
+      web: {
+        navigate: procedure(createSchema<{ path: string }>()).returns(
+          createSchema<{ success: boolean }>()
+        ),
+      },
+      native: {
+        share: procedure(createSchema<{ url: string }>()).returns(
+          createSchema<{ success: boolean }>()
+        ),
+      },
+    })
+
+    it('should talk to a web peer over the given transport instead of the WebView', async () => {
+      const link = createMemoryTransportPair()
+      const client = createNativeClient({
+        webViewRef: mockWebViewRef,
+        contract,
+        transport: link.native,
+      })
+      const web = createPeer(contract, { transport: link.web, side: 'web' })
+      client.native.handle('share', ({ url }) => ({ success: url !== '' }))
+      web.handle('navigate', () => ({ success: true }))
+
+      await expect(web.call('share', { url: 'https://example.com' })).resolves.toEqual({
+        success: true,
+      })
+      await expect(client.web.call('navigate', { path: '/home' })).resolves.toEqual({
+        success: true,
+      })
+      expect(client.registeredHandlers()).toEqual([
+        { side: 'native', name: 'share', kind: 'procedure', count: 1 },
+      ])
+      expect(client.compressionStats.messages).toBe(0)
+      expect(mockWebView.postMessage).not.toHaveBeenCalled()
+
+      client.cleanup()
+      web.close()
+    })
+  })
 })
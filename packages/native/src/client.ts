@@ -5,21 +5,38 @@
 
 import {
   WebViewRPCError,
-  WebViewRPCTimeoutError,
-  defaultDeserializer,
-  defaultSerializer,
-  generateCorrelationId,
+  checkKind,
+  createEmitProxy,
+  createPeer,
+  createProcedureProxy,
+  getKind,
+  getSchema,
 } from '@webview-rpc/core'
 import type {
+  CallOptions,
+  CompressionStats,
   Contract,
-  EventMessage,
+  EventNames,
+  InferChunk,
+  InferEmits,
   InferInput,
   InferReturns,
-  Message,
-  RequestMessage,
-  ResponseMessage,
+  ProcedureNames,
+  ProxyTarget,
+  StreamNames,
+  StreamOptions,
+  SubscribeOptions,
+  SubscriptionNames,
 } from '@webview-rpc/core'
-import type { Handler, NativeClient, NativeClientOptions } from './types'
+import { type HandlerSide, createHandlerRegistry } from './registry'
+import { type WebViewTransport, createWebViewTransport } from './transport'
+import type {
+  HandlerFor,
+  LifecycleEvent,
+  NativeClient,
+  NativeClientOptions,
+  WebViewProps,
+} from './types'
 
 /**
  * Creates a type-safe RPC client for React Native WebView communication.
@@ -35,11 +52,13 @@ import type { Handler, NativeClient, NativeClientOptions } from './types'
  *   timeout: 5000
  * })
  *
- * // Call web procedure
- * const result = await client.web.myProcedure(data)
+ * // Call web procedure, by name or as a method
+ * const result = await client.web.call('myProcedure', data)
+ * const same = await client.web.$.myProcedure(data)
  *
- * // Emit event to web
- * client.native.emit.myEvent(data)
+ * // Emit event to web, by name or as a method
+ * client.native.emit('myEvent', data)
+ * client.native.$emit.myEvent(data)
  *
  * // Handle events from web
  * client.native.handle('myEvent', (data) => {
@@ -55,240 +74,160 @@ export function createNativeClient<TContract extends Contract>(
 ): NativeClient<TContract> {
   const {
     webViewRef,
-    serializer = defaultSerializer,
-    deserializer = defaultDeserializer,
-    timeout = 5000,
+    contract,
+    serializer,
+    deserializer,
+    timeout,
     onError,
+    validate,
+    queue,
+    forwardErrorDetails,
+    middleware,
+    channel,
+    batch,
+    chunking,
+    compression,
+    unknownProcedures,
+    toJSONSchema,
+    duplicateHandlers,
   } = options
 
-  // Track pending requests for correlation
-  const pendingRequests = new Map<
-    string,
-    {
-      resolve: (value: unknown) => void
-      reject: (error: Error) => void
-      timeoutId: ReturnType<typeof setTimeout>
-    }
-  >()
-
-  // Track handlers for native procedures and events
-  const nativeHandlers = new Map<string, Set<Handler>>()
-
-  /**
-   * Send a message to the WebView
-   */
-  function postMessage(message: Message): void {
-    const webView = webViewRef.current
-
-    if (!webView) {
-      // For events, silently ignore if WebView is not available
-      if (message.type === 'event') {
-        return
-      }
-      // For requests, reject the pending promise
-      // biome-ignore lint/style/noNonNullAssertion: Safe - pending is guaranteed to exist since we add it right before calling postMessage in callWeb
-      const pending = pendingRequests.get(message.id)!
-      clearTimeout(pending.timeoutId)
-      pendingRequests.delete(message.id)
-      pending.reject(new WebViewRPCError('WebView ref is null', 'WEBVIEW_NULL'))
-      return
-    }
-
-    try {
-      const serialized = serializer(message)
-      webView.postMessage(serialized)
-    } catch (error) {
-      onError?.(error as Error)
-
-      // If it's a request, reject the pending promise
-      if (message.type === 'request') {
-        // biome-ignore lint/style/noNonNullAssertion: Safe - pending is guaranteed to exist since we add it right before calling postMessage in callWeb
-        const pending = pendingRequests.get(message.id)!
-        clearTimeout(pending.timeoutId)
-        pendingRequests.delete(message.id)
-        pending.reject(error as Error)
-      }
-    }
-  }
+  // A transport from the options, such as a memory transport in tests, replaces the bridge
+  const bridge = options.transport
+    ? undefined
+    : createWebViewTransport({
+        webViewRef,
+        serializer,
+        deserializer,
+        onError,
+        channel,
+        chunking,
+        compression,
+      })
+  const transport = options.transport ?? (bridge as WebViewTransport)
+  const handleMessage = bridge?.handleMessage ?? (() => {})
+
+  const peer = createPeer(contract as Contract<Record<string, unknown>>, {
+    transport,
+    side: 'native',
+    timeout,
+    queue,
+    onError,
+    validate,
+    forwardErrorDetails,
+    middleware,
+    batch,
+    unknownProcedures,
+    toJSONSchema,
+    serializer,
+  })
+
+  const registry = createHandlerRegistry({
+    target: {
+      handle: (name, handler) => peer.handle(name, handler as never),
+      on: (name, listener) => peer.on(name, listener),
+    },
+    duplicates: duplicateHandlers,
+    onError,
+  })
 
   /**
-   * Handle incoming messages from WebView
+   * Register a procedure, stream or subscription handler or an event listener for one side,
+   * depending on how the contract defines the name
    */
-  function handleMessage(event: { nativeEvent: { data: string } }): void {
-    try {
-      const message = deserializer(event.nativeEvent.data) as Message
-
-      if (message.type === 'response') {
-        handleResponse(message)
-      } else if (message.type === 'request') {
-        handleRequest(message)
-      } else if (message.type === 'event') {
-        handleEvent(message)
-      }
-    } catch (error) {
-      onError?.(error as Error)
+  function register(side: HandlerSide, name: string, handler: unknown): () => void {
+    const schema = getSchema(contract[side], name)
+    const kind = schema ? getKind(schema) : 'event'
+    if (kind !== 'event') {
+      return registry.handle(side, name, kind, handler as (...args: never[]) => unknown)
     }
+    // Event listeners are called with the data only
+    return registry.on(side, name, handler as (data: unknown) => void)
   }
 
   /**
-   * Handle response message (completes a pending request)
+   * Emit an event unless the contract defines its name as a procedure, stream or subscription
    */
-  function handleResponse(message: ResponseMessage): void {
-    const pending = pendingRequests.get(message.id)
-
-    if (!pending) {
-      // Response for unknown request, ignore
+  function emitChecked(definitions: unknown, event: string, data: unknown): void {
+    const wrongKind = checkKind(definitions, event, 'event')
+    if (wrongKind) {
+      onError?.(wrongKind)
       return
     }
-
-    clearTimeout(pending.timeoutId)
-    pendingRequests.delete(message.id)
-
-    if (message.error) {
-      pending.reject(new WebViewRPCError(message.error.message, message.error.code))
-    } else {
-      pending.resolve(message.data)
-    }
+    peer.emit(event, data)
   }
 
   /**
-   * Handle request message (invoke native handler and send response)
+   * Call a procedure on the web side
    */
-  async function handleRequest(message: RequestMessage): Promise<void> {
-    const handlers = nativeHandlers.get(message.procedure)
-
-    if (!handlers || handlers.size === 0) {
-      // No handler registered, send error response
-      const errorResponse: ResponseMessage = {
-        id: message.id,
-        type: 'response',
-        error: {
-          message: `No handler registered for procedure: ${message.procedure}`,
-          code: 'NO_HANDLER',
-        },
-        timestamp: Date.now(),
-      }
-      postMessage(errorResponse)
-      return
-    }
-
-    // Execute the first handler (procedures should only have one handler)
-    const handler = Array.from(handlers)[0]
-
-    try {
-      const result = await handler(message.data)
-
-      const response: ResponseMessage = {
-        id: message.id,
-        type: 'response',
-        data: result,
-        timestamp: Date.now(),
-      }
-      postMessage(response)
-    } catch (error) {
-      const errorResponse: ResponseMessage = {
-        id: message.id,
-        type: 'response',
-        error: {
-          message: (error as Error).message,
-          code: 'HANDLER_ERROR',
-        },
-        timestamp: Date.now(),
-      }
-      postMessage(errorResponse)
-
-      onError?.(error as Error)
+  function callWeb<K extends ProcedureNames<NonNullable<TContract['web']>>>(
+    procedure: K,
+    data: InferInput<NonNullable<TContract['web']>[K]>,
+    callOptions?: CallOptions
+  ): Promise<InferReturns<NonNullable<TContract['web']>[K]>> {
+    const wrongKind = checkKind(contract.web, procedure as string, 'procedure')
+    if (wrongKind) {
+      return Promise.reject(wrongKind)
     }
+    return peer.call(procedure as string, data, callOptions) as Promise<never>
   }
 
   /**
-   * Handle event message (invoke all registered handlers)
+   * Call a stream on the web side
    */
-  function handleEvent(message: EventMessage): void {
-    const handlers = nativeHandlers.get(message.event)
-
-    if (!handlers || handlers.size === 0) {
-      return
-    }
-
-    // Execute all handlers for this event
-    for (const handler of handlers) {
-      try {
-        handler(message.data)
-      } catch (error) {
-        onError?.(error as Error)
-      }
+  function streamWeb<K extends StreamNames<NonNullable<TContract['web']>>>(
+    procedure: K,
+    data: InferInput<NonNullable<TContract['web']>[K]>,
+    streamOptions?: StreamOptions
+  ): AsyncIterableIterator<InferChunk<NonNullable<TContract['web']>[K]>> {
+    const wrongKind = checkKind(contract.web, procedure as string, 'stream')
+    if (wrongKind) {
+      return rejectedStream(wrongKind)
     }
+    return peer.stream(procedure as string, data, streamOptions) as AsyncIterableIterator<never>
   }
 
   /**
-   * Call a procedure on the web side
+   * Subscribe to a web subscription
    */
-  function callWeb<K extends keyof TContract['web']>(
-    procedure: K,
-    data: InferInput<TContract['web'][K]>
-  ): Promise<
-    TContract['web'][K] extends { returns: unknown } ? InferReturns<TContract['web'][K]> : never
-  > {
-    const id = generateCorrelationId()
-    const message: RequestMessage = {
-      id,
-      type: 'request',
-      procedure: procedure as string,
-      data,
-      timestamp: Date.now(),
+  function subscribeWeb<K extends SubscriptionNames<NonNullable<TContract['web']>>>(
+    subscription: K,
+    data: InferInput<NonNullable<TContract['web']>[K]>,
+    onData: (data: InferEmits<NonNullable<TContract['web']>[K]>) => void,
+    subscribeOptions?: SubscribeOptions
+  ): () => void {
+    const wrongKind = checkKind(contract.web, subscription as string, 'subscription')
+    if (wrongKind) {
+      const report = subscribeOptions?.onError ?? onError
+      report?.(wrongKind)
+      return () => {}
     }
-
-    return new Promise((resolve, reject) => {
-      const timeoutId = setTimeout(() => {
-        pendingRequests.delete(id)
-        reject(new WebViewRPCTimeoutError(`Request timed out after ${timeout}ms`, timeout))
-      }, timeout)
-
-      pendingRequests.set(id, {
-        resolve: resolve as (value: unknown) => void,
-        reject,
-        timeoutId,
-      })
-
-      postMessage(message)
-    })
+    return peer.subscribe(
+      subscription as string,
+      data,
+      onData as (data: unknown) => void,
+      subscribeOptions
+    )
   }
 
   /**
    * Emit an event to the web side
    */
-  function emitWeb<K extends keyof TContract['web']>(
+  function emitWeb<K extends EventNames<NonNullable<TContract['web']>>>(
     event: K,
-    data: InferInput<TContract['web'][K]>
+    data: InferInput<NonNullable<TContract['web']>[K]>
   ): void {
-    const message: EventMessage = {
-      id: generateCorrelationId(),
-      type: 'event',
-      event: event as string,
-      data,
-      timestamp: Date.now(),
-    }
-
-    postMessage(message)
+    emitChecked(contract.web, event as string, data)
   }
 
   /**
    * Emit an event from native
    */
-  function emitNative<K extends keyof TContract['native']>(
+  function emitNative<K extends EventNames<NonNullable<TContract['native']>>>(
     event: K,
-    data: InferInput<TContract['native'][K]>
+    data: InferInput<NonNullable<TContract['native']>[K]>
   ): void {
-    const message: EventMessage = {
-      id: generateCorrelationId(),
-      type: 'event',
-      event: event as string,
-      data,
-      timestamp: Date.now(),
-    }
-
-    postMessage(message)
+    emitChecked(contract.native, event as string, data)
   }
 
   /**
@@ -296,27 +235,9 @@ export function createNativeClient<TContract extends Contract>(
    */
   function registerWebHandler<K extends keyof TContract['web']>(
     name: K,
-    handler: Handler<
-      InferInput<TContract['web'][K]>,
-      TContract['web'][K] extends { returns: unknown } ? InferReturns<TContract['web'][K]> : void
-    >
+    handler: HandlerFor<TContract['web'][K]>
   ): () => void {
-    const nameStr = name as string
-    if (!nativeHandlers.has(nameStr)) {
-      nativeHandlers.set(nameStr, new Set())
-    }
-
-    // biome-ignore lint/style/noNonNullAssertion: Safe - handlers is guaranteed to exist after has() check
-    const handlers = nativeHandlers.get(nameStr)!
-    handlers.add(handler as Handler)
-
-    // Return unsubscribe function
-    return () => {
-      handlers.delete(handler as Handler)
-      if (handlers.size === 0) {
-        nativeHandlers.delete(nameStr)
-      }
-    }
+    return register('web', name as string, handler)
   }
 
   /**
@@ -324,58 +245,138 @@ export function createNativeClient<TContract extends Contract>(
    */
   function registerNativeHandler<K extends keyof TContract['native']>(
     name: K,
-    handler: Handler<
-      InferInput<TContract['native'][K]>,
-      TContract['native'][K] extends { returns: unknown } ? InferReturns<TContract['native'][K]> : void
-    >
+    handler: HandlerFor<TContract['native'][K]>
   ): () => void {
-    const nameStr = name as string
-    if (!nativeHandlers.has(nameStr)) {
-      nativeHandlers.set(nameStr, new Set())
-    }
+    return register('native', name as string, handler)
+  }
 
-    // biome-ignore lint/style/noNonNullAssertion: Safe - handlers is guaranteed to exist after has() check
-    const handlers = nativeHandlers.get(nameStr)!
-    handlers.add(handler as Handler)
+  const lifecycleListeners = new Set<(event: LifecycleEvent) => void>()
 
-    // Return unsubscribe function
-    return () => {
-      handlers.delete(handler as Handler)
-      if (handlers.size === 0) {
-        nativeHandlers.delete(nameStr)
+  /**
+   * Tell lifecycle listeners what happened to the page
+   */
+  function notifyLifecycle(event: LifecycleEvent): void {
+    for (const listener of Array.from(lifecycleListeners)) {
+      try {
+        listener(event)
+      } catch (error) {
+        onError?.(error as Error)
       }
     }
   }
 
+  // Handshake promise a `ready` lifecycle event is pending for
+  let watchedReady: Promise<void> | undefined
+
   /**
-   * Cleanup all pending requests and handlers
+   * Report `ready` once the current page completes the handshake
    */
-  function cleanup(): void {
-    // Reject all pending requests
-    for (const [, pending] of pendingRequests) {
-      clearTimeout(pending.timeoutId)
-      pending.reject(new Error('Client cleanup called'))
+  function watchReady(): void {
+    const current = peer.ready
+    if (current === watchedReady) {
+      return
     }
-    pendingRequests.clear()
 
-    // Clear all handlers
-    nativeHandlers.clear()
+    watchedReady = current
+    current.then(
+      () => notifyLifecycle({ type: 'ready' }),
+      () => {}
+    )
   }
 
+  /**
+   * The page is gone: fail what it had in flight and wait for the next one
+   */
+  function resetPeer(message: string): void {
+    peer.reset(new WebViewRPCError(message, 'PEER_RELOADED'))
+    watchReady()
+  }
+
+  const webViewProps: WebViewProps = {
+    onMessage: handleMessage,
+    onLoadStart: (event) => {
+      resetPeer('WebView page reloaded')
+      notifyLifecycle({ type: 'loadStart', url: event.nativeEvent.url })
+    },
+    onLoadEnd: (event) => {
+      notifyLifecycle({ type: 'loadEnd', url: event.nativeEvent.url })
+    },
+    onContentProcessDidTerminate: () => {
+      resetPeer('WebView content process terminated')
+      notifyLifecycle({ type: 'terminated' })
+    },
+    onRenderProcessGone: () => {
+      resetPeer('WebView render process gone')
+      notifyLifecycle({ type: 'terminated' })
+    },
+  }
+
+  watchReady()
+
   // Build the client API
   const client: NativeClient<TContract> = {
     web: {
       call: callWeb,
+      stream: streamWeb,
+      subscribe: subscribeWeb,
       emit: emitWeb,
       handle: registerWebHandler,
+      $: createProcedureProxy(
+        contract.web as NonNullable<TContract['web']>,
+        {
+          call: callWeb,
+          stream: streamWeb,
+          subscribe: subscribeWeb,
+        } as ProxyTarget
+      ),
     },
     native: {
       emit: emitNative,
       handle: registerNativeHandler,
+      $emit: createEmitProxy(
+        contract.native as NonNullable<TContract['native']>,
+        emitNative as (name: string, data: unknown) => void
+      ),
+    },
+    get ready() {
+      return peer.ready
+    },
+    get compressionStats() {
+      return bridge?.compressionStats ?? { ...NO_COMPRESSION }
+    },
+    onLifecycle: (listener) => {
+      lifecycleListeners.add(listener)
+      return () => {
+        lifecycleListeners.delete(listener)
+      }
+    },
+    webViewProps,
+    registeredHandlers: registry.list,
+    cleanup: () => {
+      lifecycleListeners.clear()
+      registry.clear()
+      peer.close()
     },
-    cleanup,
     handleMessage,
   }
 
   return client
 }
+
+/**
+ * Compression totals of a client sending through a transport from the options
+ */
+const NO_COMPRESSION: CompressionStats = {
+  messages: 0,
+  originalBytes: 0,
+  compressedBytes: 0,
+  bytesSaved: 0,
+}
+
+/**
+ * Stream failing with an error on its first read
+ */
+// biome-ignore lint/correctness/useYield: Fails before producing any chunk
+async function* rejectedStream(error: WebViewRPCError): AsyncIterableIterator<never> {
+  throw error
+}
@@ -0,0 +1,102 @@
+/**
+ * Tests for the native client linked to a web client by the core test harness
+ */
+
+import { WebViewRPCError, createTestHarness, defineContract, procedure } from '@webview-rpc/core'
+import type { StandardSchemaV1 } from '@webview-rpc/core'
+import { describe, expect, it, vi } from 'vitest'
+import { createWebClient } from '../../web/src/client'
+import type { WebClientOptions } from '../../web/src/types'
+import { createNativeClient } from './client'
+import type { NativeClientOptions } from './types'
+
+const createMockSchema = <T>(): StandardSchemaV1<T> => ({
+  '~standard': {
+    version: 1,
+    vendor: 'test',
+    validate: (value: unknown) => ({ value: value as T }),
+  },
+})
+
+const contract = defineContract({
+  web: {
+    navigate: procedure(createMockSchema<{ path: string }>()).returns(
+      createMockSchema<{ success: boolean }>()
+    ),
+    pathChanged: createMockSchema<{ path: string }>(),
+  },
+  native: {
+    share: procedure(createMockSchema<{ url: string }>()).returns(
+      createMockSchema<{ success: boolean }>()
+    ),
+    appStateChange: createMockSchema<{ state: string }>(),
+  },
+})
+
+type NativeOptions = Partial<Omit<NativeClientOptions<typeof contract>, 'contract'>>
+
+const createClients = (web: WebClientOptions = {}, native: NativeOptions = {}) =>
+  createTestHarness(contract, {
+    clients: {
+      web: (transport) => createWebClient(contract, { ...web, transport }),
+      native: (transport) =>
+        createNativeClient({ webViewRef: { current: null }, ...native, contract, transport }),
+    },
+  })
+
+describe('createTestHarness with clients', () => {
+  it('should call procedures and deliver events between the clients', async () => {
+    const harness = createClients()
+    const listener = vi.fn()
+    harness.native.native.handle('share', ({ url }) => ({ success: url !== '' }))
+    harness.web.web.handle('navigate', async () => ({ success: true }))
+    harness.web.native.handle('appStateChange', listener)
+
+    await harness.ready
+    await expect(harness.web.native.call('share', { url: 'https://example.com' })).resolves.toEqual(
+      { success: true }
+    )
+    await expect(harness.native.web.call('navigate', { path: '/home' })).resolves.toEqual({
+      success: true,
+    })
+    harness.native.native.emit('appStateChange', { state: 'active' })
+    await harness.transport.settle()
+
+    expect(listener).toHaveBeenCalledWith({ state: 'active' })
+    harness.close()
+  })
+
+  it('should report WRONG_KIND when the web client handles a native procedure', () => {
+    const onError = vi.fn()
+    const harness = createClients({ onError })
+
+    harness.web.native.handle('share' as never, vi.fn())
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'WRONG_KIND' }))
+    harness.close()
+  })
+
+  it('should apply the native duplicate policy and list registered handlers', () => {
+    const harness = createClients({}, { duplicateHandlers: 'throw' })
+    harness.native.native.handle('share', vi.fn())
+
+    expect(() => harness.native.native.handle('share', vi.fn())).toThrow(WebViewRPCError)
+    expect(harness.native.registeredHandlers()).toEqual([
+      expect.objectContaining({ side: 'native', name: 'share' }),
+    ])
+    harness.close()
+  })
+
+  it('should reject native calls in flight when the page reloads', async () => {
+    const harness = createClients()
+    harness.web.web.handle('navigate', () => new Promise(() => {}))
+    await harness.ready
+
+    const promise = harness.native.web.call('navigate', { path: '/home' })
+    await harness.transport.settle()
+    harness.native.webViewProps.onLoadStart({ nativeEvent: { url: 'https://example.com/' } })
+
+    await expect(promise).rejects.toMatchObject({ code: 'PEER_RELOADED' })
+    harness.close()
+  })
+})
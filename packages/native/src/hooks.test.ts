@@ -229,7 +229,7 @@ describe('useEvent', () => {
 			expect(handler).toHaveBeenCalledWith({ path: '/test' })
 		})
 
-		it('should register handler for native side events', () => {
+		it('should not call native side listeners for incoming events', () => {
 			// GIVEN: Client and native event handler
 			const client = createNativeClient({
 				webViewRef: mockWebViewRef,
@@ -256,8 +256,8 @@ describe('useEvent', () => {
 			// biome-ignore lint/suspicious/noExplicitAny: Test needs to access internal handleMessage method
 		;(client as any).handleMessage(event)
 
-			// THEN: Handler should be called
-			expect(handler).toHaveBeenCalledWith({ state: 'active' })
+			// THEN: Handler should not be called, events only come in from web
+			expect(handler).not.toHaveBeenCalled()
 		})
 	})
 
@@ -3,10 +3,10 @@
  * @module hooks
  */
 
-import type { Contract, InferInput, InferReturns } from '@webview-rpc/core'
+import type { Contract, InferInput } from '@webview-rpc/core'
 import { useEffect, useMemo, useRef } from 'react'
 import { createNativeClient } from './client'
-import type { Handler, NativeClient, NativeClientOptions } from './types'
+import type { NativeClient, NativeClientOptions } from './types'
 
 /**
  * Hook to create a native client for WebView RPC communication.
@@ -97,12 +97,7 @@ export function useEvent<
   client: NativeClient<TContract>,
   side: TSide,
   eventName: TEventName,
-  handler: Handler<
-    InferInput<TContract[TSide][TEventName]>,
-    TContract[TSide][TEventName] extends { returns: unknown }
-      ? InferReturns<TContract[TSide][TEventName]>
-      : void
-  >
+  handler: (data: InferInput<TContract[TSide][TEventName]>) => void
 ): void {
   // Use a ref to track the latest handler without causing re-registration
   const handlerRef = useRef(handler)
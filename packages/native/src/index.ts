@@ -35,6 +35,13 @@
 // Client creation
 export { createNativeClient } from './client'
 
+// Handler registries
+export type { DuplicateHandlerPolicy, HandlerSide, RegisteredHandler } from './registry'
+
+// Transport
+export { createWebViewTransport } from './transport'
+export type { WebViewTransport, WebViewTransportOptions } from './transport'
+
 // React hooks
 export { useNativeClient, useEvent } from './hooks'
 
@@ -43,5 +50,8 @@ export type {
   NativeClient,
   NativeClientOptions,
   Handler,
+  HandlerFor,
   Handlers,
+  LifecycleEvent,
+  WebViewProps,
 } from './types'
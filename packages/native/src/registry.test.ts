@@ -0,0 +1,162 @@
+/**
+ * Tests for the native client handler registries
+ */
+
+import { describe, expect, it, vi } from 'vitest'
+import { type HandlerTarget, createHandlerRegistry } from './registry'
+
+type Dispatcher = (...args: unknown[]) => unknown
+
+function createTarget() {
+  const procedures = new Map<string, Dispatcher>()
+  const events = new Map<string, (data: unknown) => void>()
+  const target: HandlerTarget = {
+    handle: vi.fn((name: string, handler: Dispatcher) => {
+      procedures.set(name, handler)
+      return () => procedures.delete(name)
+    }) as HandlerTarget['handle'],
+    on: vi.fn((name: string, listener: (data: unknown) => void) => {
+      events.set(name, listener)
+      return () => events.delete(name)
+    }),
+  }
+  return { target, procedures, events }
+}
+
+describe('createHandlerRegistry', () => {
+  it('should keep sides and kinds of the same name apart', () => {
+    const { target, procedures, events } = createTarget()
+    const registry = createHandlerRegistry({ target })
+    const nativeHandler = vi.fn(() => 'native')
+    const webHandler = vi.fn(() => 'web')
+    const webListener = vi.fn()
+    const nativeListener = vi.fn()
+
+    registry.handle('web', 'sync', 'procedure', webHandler)
+    registry.handle('native', 'sync', 'procedure', nativeHandler)
+    registry.on('web', 'sync', webListener)
+    registry.on('native', 'sync', nativeListener)
+
+    expect(procedures.get('sync')?.({ id: 1 })).toBe('native')
+    events.get('sync')?.({ id: 2 })
+    expect(webListener).toHaveBeenCalledWith({ id: 2 })
+    expect(nativeListener).not.toHaveBeenCalled()
+    expect(target.handle).toHaveBeenCalledTimes(1)
+    expect(target.on).toHaveBeenCalledTimes(1)
+  })
+
+  it('should not dispatch to web procedures or native listeners', () => {
+    const { target, procedures, events } = createTarget()
+    const registry = createHandlerRegistry({ target })
+    const webHandler = vi.fn()
+    const nativeListener = vi.fn()
+
+    const unregisterNative = registry.handle('native', 'sync', 'procedure', () => 'native')
+    registry.handle('web', 'sync', 'procedure', webHandler)
+    const unregisterWeb = registry.on('web', 'tick', vi.fn())
+    registry.on('native', 'tick', nativeListener)
+
+    unregisterNative()
+    unregisterWeb()
+
+    expect(procedures.has('sync')).toBe(false)
+    expect(events.has('tick')).toBe(false)
+    expect(webHandler).not.toHaveBeenCalled()
+    expect(nativeListener).not.toHaveBeenCalled()
+  })
+
+  it('should remove the peer dispatcher with the last handler of a name', () => {
+    const { target, procedures, events } = createTarget()
+    const registry = createHandlerRegistry({ target })
+
+    const unregisterHandler = registry.handle('native', 'share', 'procedure', vi.fn())
+    const unregisterListener = registry.on('web', 'pathChanged', vi.fn())
+    unregisterHandler()
+    unregisterListener()
+
+    expect(procedures.has('share')).toBe(false)
+    expect(events.has('pathChanged')).toBe(false)
+  })
+
+  it('should warn about and replace duplicate handlers by default', () => {
+    const { target, procedures } = createTarget()
+    const onError = vi.fn()
+    const registry = createHandlerRegistry({ target, onError })
+
+    const unregisterFirst = registry.handle('native', 'share', 'procedure', () => 'first')
+    registry.handle('native', 'share', 'procedure', () => 'second')
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: 'DUPLICATE_HANDLER',
+        message: 'Handler already registered for native.share',
+      })
+    )
+    expect(procedures.get('share')?.()).toBe('second')
+
+    // The replaced registration no longer owns the name
+    unregisterFirst()
+    expect(procedures.get('share')?.()).toBe('second')
+  })
+
+  it('should throw and keep the first handler with the throw policy', () => {
+    const { target, procedures } = createTarget()
+    const registry = createHandlerRegistry({ target, duplicates: 'throw' })
+
+    registry.handle('native', 'share', 'procedure', () => 'first')
+
+    expect(() => registry.handle('native', 'share', 'procedure', () => 'second')).toThrow(
+      expect.objectContaining({ code: 'DUPLICATE_HANDLER' })
+    )
+    expect(procedures.get('share')?.()).toBe('first')
+  })
+
+  it('should replace silently with the replace policy', () => {
+    const { target, procedures } = createTarget()
+    const onError = vi.fn()
+    const registry = createHandlerRegistry({ target, duplicates: 'replace', onError })
+
+    registry.handle('native', 'share', 'procedure', () => 'first')
+    registry.handle('native', 'share', 'procedure', () => 'second')
+
+    expect(onError).not.toHaveBeenCalled()
+    expect(procedures.get('share')?.()).toBe('second')
+  })
+
+  it('should report listener errors and keep dispatching', () => {
+    const { target, events } = createTarget()
+    const onError = vi.fn()
+    const registry = createHandlerRegistry({ target, onError })
+    const failure = new Error('listener failed')
+    const next = vi.fn()
+
+    registry.on('web', 'tick', () => {
+      throw failure
+    })
+    registry.on('web', 'tick', next)
+    events.get('tick')?.(1)
+
+    expect(onError).toHaveBeenCalledWith(failure)
+    expect(next).toHaveBeenCalledWith(1)
+  })
+
+  it('should list and clear registered handlers', () => {
+    const { target, procedures, events } = createTarget()
+    const registry = createHandlerRegistry({ target })
+
+    registry.handle('native', 'search', 'stream', vi.fn())
+    registry.on('web', 'pathChanged', vi.fn())
+    registry.on('web', 'pathChanged', vi.fn())
+
+    expect(registry.list()).toEqual([
+      { side: 'native', name: 'search', kind: 'stream', count: 1 },
+      { side: 'web', name: 'pathChanged', kind: 'event', count: 2 },
+    ])
+
+    registry.clear()
+
+    expect(registry.list()).toEqual([])
+    expect(procedures.size).toBe(0)
+    expect(events.size).toBe(0)
+  })
+})
@@ -0,0 +1,293 @@
+/**
+ * Handler registries of the native client, kept apart per side and kind
+ * @module registry
+ */
+
+import { WebViewRPCError } from '@webview-rpc/core'
+import type { DefinitionKind } from '@webview-rpc/core'
+
+/**
+ * Side of the contract a handler was registered for
+ */
+export type HandlerSide = 'web' | 'native'
+
+/**
+ * Handling of a second handler registered for a procedure that already has one:
+ * - `throw` throw a DUPLICATE_HANDLER error and keep the first handler
+ * - `replace` replace the first handler silently
+ * - `warn` report a DUPLICATE_HANDLER error to onError and replace the first handler
+ */
+export type DuplicateHandlerPolicy = 'throw' | 'replace' | 'warn'
+
+/**
+ * Handler or listeners registered for a name, as listed for debugging
+ */
+export interface RegisteredHandler {
+  side: HandlerSide
+  name: string
+  kind: DefinitionKind
+  /**
+   * Number of listeners of an event, 1 for procedures, streams and subscriptions
+   */
+  count: number
+}
+
+/**
+ * Procedure, stream or subscription handler, called with the arguments the peer passes
+ */
+type ProcedureHandler = (...args: never[]) => unknown
+
+/**
+ * Event listener, called with the event data
+ */
+type EventListener = (data: unknown) => void
+
+/**
+ * Where the registry installs one dispatcher per name
+ */
+export interface HandlerTarget {
+  handle: (name: string, handler: ProcedureHandler) => () => void
+  on: (name: string, listener: EventListener) => () => void
+}
+
+/**
+ * Options for creating a handler registry
+ */
+export interface HandlerRegistryOptions {
+  /**
+   * Peer receiving the dispatchers
+   */
+  target: HandlerTarget
+
+  /**
+   * Handling of duplicate procedure registrations (default: 'warn')
+   */
+  duplicates?: DuplicateHandlerPolicy
+
+  /**
+   * Error handler receiving duplicate registration warnings and listener errors
+   */
+  onError?: (error: Error) => void
+}
+
+/**
+ * Handlers of the native client by side and kind
+ */
+export interface HandlerRegistry {
+  /**
+   * Register the handler of a procedure, stream or subscription
+   *
+   * @returns Function unregistering this handler, leaving later registrations in place
+   */
+  handle: (
+    side: HandlerSide,
+    name: string,
+    kind: DefinitionKind,
+    handler: ProcedureHandler
+  ) => () => void
+
+  /**
+   * Register a listener of an event
+   *
+   * @returns Function unregistering the listener
+   */
+  on: (side: HandlerSide, name: string, listener: EventListener) => () => void
+
+  /**
+   * Handlers and listeners currently registered
+   */
+  list: () => RegisteredHandler[]
+
+  /**
+   * Drop every handler and listener
+   */
+  clear: () => void
+}
+
+interface RegisteredProcedure {
+  kind: DefinitionKind
+  handler: ProcedureHandler
+}
+
+interface SideRegistry {
+  procedures: Map<string, RegisteredProcedure>
+  events: Map<string, Set<EventListener>>
+}
+
+const SIDES: HandlerSide[] = ['native', 'web']
+
+/**
+ * Creates the handler registries of a native client. Handlers registered for the
+ * web and native sides, and procedures and events of the same name, are stored
+ * apart. Requests only come in for native procedures and events only from the
+ * web side, so the peer receives a single dispatcher per name calling the native
+ * handler of a request or the web listeners of an event. Web procedure handlers
+ * and native event listeners are listed but never called for incoming messages.
+ *
+ * @param options - Peer to install the dispatchers on and the duplicate policy
+ * @returns Handler registry
+ */
+export function createHandlerRegistry(options: HandlerRegistryOptions): HandlerRegistry {
+  const { target, duplicates = 'warn', onError } = options
+
+  const sides: Record<HandlerSide, SideRegistry> = {
+    native: { procedures: new Map(), events: new Map() },
+    web: { procedures: new Map(), events: new Map() },
+  }
+
+  // Dispatchers installed on the peer, removed with the last handler of their name
+  const boundProcedures = new Map<string, () => void>()
+  const boundEvents = new Map<string, () => void>()
+
+  /**
+   * Handler answering a request for a native procedure
+   */
+  function findProcedure(name: string): ProcedureHandler | undefined {
+    return sides.native.procedures.get(name)?.handler
+  }
+
+  /**
+   * Listeners of an event coming in from the web side
+   */
+  function findListeners(name: string): Set<EventListener> | undefined {
+    return sides.web.events.get(name)
+  }
+
+  /**
+   * Install the dispatcher of a procedure name on the peer
+   */
+  function bindProcedure(name: string): void {
+    if (boundProcedures.has(name)) {
+      return
+    }
+
+    const unbind = target.handle(name, (...args: never[]) => {
+      const handler = findProcedure(name)
+      return handler?.(...args)
+    })
+    boundProcedures.set(name, unbind)
+  }
+
+  /**
+   * Install the dispatcher of an event name on the peer
+   */
+  function bindEvent(name: string): void {
+    if (boundEvents.has(name)) {
+      return
+    }
+
+    const unbind = target.on(name, (data) => {
+      const listeners = findListeners(name)
+      for (const listener of Array.from(listeners ?? [])) {
+        try {
+          listener(data)
+        } catch (error) {
+          onError?.(error as Error)
+        }
+      }
+    })
+    boundEvents.set(name, unbind)
+  }
+
+  /**
+   * Remove the dispatcher of a procedure name once neither side handles it
+   */
+  function unbindProcedure(name: string): void {
+    if (findProcedure(name)) {
+      return
+    }
+    boundProcedures.get(name)?.()
+    boundProcedures.delete(name)
+  }
+
+  /**
+   * Remove the dispatcher of an event name once neither side listens to it
+   */
+  function unbindEvent(name: string): void {
+    if (findListeners(name)) {
+      return
+    }
+    boundEvents.get(name)?.()
+    boundEvents.delete(name)
+  }
+
+  const handle: HandlerRegistry['handle'] = (side, name, kind, handler) => {
+    const procedures = sides[side].procedures
+    if (procedures.has(name)) {
+      const error = new WebViewRPCError(
+        `Handler already registered for ${side}.${name}`,
+        'DUPLICATE_HANDLER'
+      )
+      if (duplicates === 'throw') {
+        throw error
+      }
+      if (duplicates === 'warn') {
+        onError?.(error)
+      }
+    }
+
+    const registered: RegisteredProcedure = { kind, handler }
+    procedures.set(name, registered)
+    if (side === 'native') {
+      bindProcedure(name)
+    }
+
+    return () => {
+      // A later registration replaced this one, so it is not ours to remove
+      if (procedures.get(name) !== registered) {
+        return
+      }
+      procedures.delete(name)
+      unbindProcedure(name)
+    }
+  }
+
+  const on: HandlerRegistry['on'] = (side, name, listener) => {
+    const events = sides[side].events
+    let listeners = events.get(name)
+    if (!listeners) {
+      listeners = new Set()
+      events.set(name, listeners)
+    }
+    listeners.add(listener)
+    if (side === 'web') {
+      bindEvent(name)
+    }
+
+    const current = listeners
+    return () => {
+      current.delete(listener)
+      if (current.size === 0 && events.get(name) === current) {
+        events.delete(name)
+        unbindEvent(name)
+      }
+    }
+  }
+
+  const list = (): RegisteredHandler[] => {
+    const entries: RegisteredHandler[] = []
+    for (const side of SIDES) {
+      for (const [name, { kind }] of sides[side].procedures) {
+        entries.push({ side, name, kind, count: 1 })
+      }
+      for (const [name, listeners] of sides[side].events) {
+        entries.push({ side, name, kind: 'event', count: listeners.size })
+      }
+    }
+    return entries
+  }
+
+  const clear = (): void => {
+    for (const side of SIDES) {
+      sides[side].procedures.clear()
+      sides[side].events.clear()
+    }
+    for (const unbind of [...boundProcedures.values(), ...boundEvents.values()]) {
+      unbind()
+    }
+    boundProcedures.clear()
+    boundEvents.clear()
+  }
+
+  return { handle, on, list, clear }
+}
@@ -0,0 +1,169 @@
+/**
+ * Tests for WebView transport
+ */
+
+import { type Message, compressText, splitMessage } from '@webview-rpc/core'
+import type { RefObject } from 'react'
+import type { WebView } from 'react-native-webview'
+import { describe, expect, it, vi } from 'vitest'
+import { createWebViewTransport } from './transport'
+
+const request: Message = { id: 'id-1', type: 'request', procedure: 'navigate', data: {} }
+const event: Message = { id: 'id-2', type: 'event', event: 'pathChanged', data: {} }
+
+function createRef(): RefObject<WebView | null> {
+  return { current: { postMessage: vi.fn() } as unknown as WebView }
+}
+
+describe('createWebViewTransport', () => {
+  it('should serialize and post messages to the WebView, tagged with the channel', () => {
+    const webViewRef = createRef()
+    const transport = createWebViewTransport({ webViewRef })
+
+    transport.send(event)
+
+    expect(transport.isReady()).toBe(true)
+    expect(webViewRef.current?.postMessage).toHaveBeenCalledWith(
+      JSON.stringify({ ...event, channel: 'webview-rpc' })
+    )
+  })
+
+  it('should tag messages with a custom channel', () => {
+    const webViewRef = createRef()
+    const transport = createWebViewTransport({ webViewRef, channel: 'checkout' })
+
+    transport.send(event)
+
+    expect(webViewRef.current?.postMessage).toHaveBeenCalledWith(
+      JSON.stringify({ ...event, channel: 'checkout' })
+    )
+  })
+
+  it('should throw WEBVIEW_NULL for requests and drop other messages while the ref is null', () => {
+    const transport = createWebViewTransport({ webViewRef: { current: null } })
+
+    expect(transport.isReady()).toBe(false)
+    expect(() => transport.send(request)).toThrow(/WebView ref is null/)
+    expect(() => transport.send(event)).not.toThrow()
+  })
+
+  it('should throw WEBVIEW_NULL for batches carrying a request while the ref is null', () => {
+    const transport = createWebViewTransport({ webViewRef: { current: null } })
+
+    expect(() =>
+      transport.send({ id: 'batch-1', type: 'batch', messages: [event, request] })
+    ).toThrow(/WebView ref is null/)
+    expect(() =>
+      transport.send({ id: 'batch-2', type: 'batch', messages: [event, event] })
+    ).not.toThrow()
+  })
+
+  it('should deliver messages passed to handleMessage to subscribers', () => {
+    const transport = createWebViewTransport({ webViewRef: createRef() })
+    const listener = vi.fn()
+    const unsubscribe = transport.subscribe(listener)
+
+    transport.handleMessage({ nativeEvent: { data: JSON.stringify(event) } })
+    unsubscribe()
+    transport.handleMessage({ nativeEvent: { data: JSON.stringify(event) } })
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith(event)
+  })
+
+  it('should report messages that cannot be deserialized', () => {
+    const onError = vi.fn()
+    const transport = createWebViewTransport({ webViewRef: createRef(), onError })
+
+    transport.handleMessage({ nativeEvent: { data: 'not json' } })
+
+    expect(onError).toHaveBeenCalledWith(expect.any(Error))
+  })
+
+  it('should stop delivering after close', () => {
+    const transport = createWebViewTransport({ webViewRef: createRef() })
+    const listener = vi.fn()
+    transport.subscribe(listener)
+
+    transport.close()
+    transport.handleMessage({ nativeEvent: { data: JSON.stringify(event) } })
+
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  it('should post messages above the chunking threshold as frames and report progress', () => {
+    const webViewRef = createRef()
+    const transport = createWebViewTransport({ webViewRef, chunking: { threshold: 40 } })
+    const onProgress = vi.fn()
+    transport.subscribeProgress?.(onProgress)
+    const large: Message = { ...request, data: { image: 'a'.repeat(100) } }
+
+    transport.send(large)
+
+    const frames = vi
+      .mocked(webViewRef.current?.postMessage)
+      ?.mock.calls.map((call) => JSON.parse(call[0] as string))
+    expect(
+      frames?.every((frame) => frame.type === 'chunk' && frame.channel === 'webview-rpc')
+    ).toBe(true)
+    expect(frames?.map((frame) => frame.data).join('')).toBe(
+      JSON.stringify({ ...large, channel: 'webview-rpc' })
+    )
+    expect(onProgress).toHaveBeenLastCalledWith(
+      expect.objectContaining({ id: 'id-1', direction: 'outbound' })
+    )
+  })
+
+  it('should reassemble chunk frames before delivering them', () => {
+    const onError = vi.fn()
+    const transport = createWebViewTransport({ webViewRef: createRef(), onError })
+    const listener = vi.fn()
+    transport.subscribe(listener)
+
+    for (const frame of splitMessage(JSON.stringify(event), 'id-2', 10)) {
+      transport.handleMessage({ nativeEvent: { data: JSON.stringify(frame) } })
+    }
+
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith(event)
+    expect(onError).not.toHaveBeenCalled()
+  })
+
+  it('should compress large messages once the web side announced it reads them', () => {
+    const webViewRef = createRef()
+    const transport = createWebViewTransport({ webViewRef, compression: { threshold: 40 } })
+    const large: Message = { ...event, data: { catalog: 'product '.repeat(50) } }
+
+    transport.send(large)
+    transport.setRemoteEncodings?.(['lzw'])
+    transport.send(large)
+
+    const posted = vi
+      .mocked(webViewRef.current?.postMessage)
+      ?.mock.calls.map((call) => JSON.parse(call[0] as string))
+    expect(posted?.[0]).toEqual({ ...large, channel: 'webview-rpc' })
+    expect(posted?.[1]).toMatchObject({ type: 'compressed', id: 'id-2', channel: 'webview-rpc' })
+    expect(transport.compressionStats.messages).toBe(1)
+    expect(transport.compressionStats.bytesSaved).toBeGreaterThan(0)
+  })
+
+  it('should deliver compressed messages decompressed', () => {
+    const transport = createWebViewTransport({ webViewRef: createRef() })
+    const listener = vi.fn()
+    transport.subscribe(listener)
+
+    transport.handleMessage({
+      nativeEvent: {
+        data: JSON.stringify({
+          type: 'compressed',
+          id: 'id-2',
+          encoding: 'lzw',
+          data: compressText(JSON.stringify(event)),
+        }),
+      },
+    })
+
+    expect(transport.encodings).toEqual(['lzw'])
+    expect(listener).toHaveBeenCalledWith(event)
+  })
+})
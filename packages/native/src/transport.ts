@@ -0,0 +1,232 @@
+/**
+ * Transport over a React Native WebView ref
+ * @module transport
+ */
+
+import {
+  DEFAULT_CHANNEL,
+  DEFAULT_CHUNK_THRESHOLD,
+  WebViewRPCError,
+  createCompressor,
+  createReassembler,
+  defaultDeserializer,
+  defaultSerializer,
+  isChunkFrame,
+  isCompressedFrame,
+  splitMessage,
+} from '@webview-rpc/core'
+import type {
+  ChunkingOptions,
+  CompressionOptions,
+  CompressionStats,
+  Deserializer,
+  Message,
+  Serializer,
+  TransferProgress,
+  Transport,
+} from '@webview-rpc/core'
+import type { RefObject } from 'react'
+import type { WebView } from 'react-native-webview'
+
+/**
+ * Options for creating a WebView transport
+ */
+export interface WebViewTransportOptions {
+  /**
+   * Reference to the WebView component
+   */
+  webViewRef: RefObject<WebView | null>
+
+  /**
+   * Custom serializer for messages (optional, defaults to JSON.stringify)
+   */
+  serializer?: Serializer
+
+  /**
+   * Custom deserializer for messages (optional, defaults to JSON.parse)
+   */
+  deserializer?: Deserializer
+
+  /**
+   * Error handler for messages that cannot be deserialized or handled
+   */
+  onError?: (error: Error) => void
+
+  /**
+   * Channel tag added to every envelope, required by the web client (default: 'webview-rpc')
+   */
+  channel?: string
+
+  /**
+   * Split serialized messages above a threshold into chunk frames (default: disabled).
+   * Frames from the web side are reassembled either way.
+   */
+  chunking?: boolean | ChunkingOptions
+
+  /**
+   * Compress serialized messages above a threshold once the web side announced it can read
+   * them (default: disabled). Compressed messages from the web side are read either way.
+   */
+  compression?: boolean | CompressionOptions
+}
+
+/**
+ * Transport fed by the WebView `onMessage` prop
+ */
+export interface WebViewTransport extends Transport {
+  /**
+   * Compression encodings this transport reads, announced during the handshake
+   */
+  readonly encodings: string[]
+
+  /**
+   * Totals of the messages sent compressed
+   */
+  readonly compressionStats: CompressionStats
+
+  /**
+   * Message handler for WebView `onMessage` prop
+   */
+  handleMessage: (event: { nativeEvent: { data: string } }) => void
+}
+
+/**
+ * Creates a transport sending through `webViewRef.current.postMessage` and receiving
+ * whatever is passed to `handleMessage`.
+ *
+ * While the ref is null, requests and batches carrying requests fail with WEBVIEW_NULL and
+ * other messages are dropped. With `compression`, messages serialized above its threshold are
+ * compressed once the handshake showed the web side reads them. With `chunking`, messages
+ * still above the chunking threshold are posted as a sequence of chunk frames.
+ *
+ * @example
+ * ```typescript
+ * const transport = createWebViewTransport({ webViewRef })
+ * const peer = createPeer(contract, { transport, side: 'native' })
+ *
+ * <WebView ref={webViewRef} onMessage={transport.handleMessage} />
+ * ```
+ *
+ * @param options - WebView ref plus serialization and error handling options
+ * @returns Transport instance with an `onMessage` handler
+ */
+export function createWebViewTransport(options: WebViewTransportOptions): WebViewTransport {
+  const {
+    webViewRef,
+    serializer = defaultSerializer,
+    deserializer = defaultDeserializer,
+    onError,
+    channel = DEFAULT_CHANNEL,
+  } = options
+  const chunking = options.chunking === true ? {} : options.chunking || undefined
+  const threshold = chunking?.threshold ?? DEFAULT_CHUNK_THRESHOLD
+  const chunkSize = chunking?.chunkSize ?? threshold
+  const compressor = createCompressor(
+    options.compression === true ? {} : options.compression || undefined
+  )
+
+  const listeners = new Set<(message: Message) => void>()
+  const progressListeners = new Set<(progress: TransferProgress) => void>()
+
+  const reportProgress = (progress: TransferProgress): void => {
+    for (const listener of progressListeners) {
+      listener(progress)
+    }
+  }
+
+  const reassembler = createReassembler({
+    timeout: chunking?.reassemblyTimeout,
+    onProgress: reportProgress,
+    onError,
+  })
+
+  const hasRequest = (message: Message): boolean =>
+    message.type === 'request' || (message.type === 'batch' && message.messages.some(hasRequest))
+
+  function send(message: Message): void {
+    const webView = webViewRef.current
+
+    if (!webView) {
+      // Only requests have a caller waiting to hear about it
+      if (hasRequest(message)) {
+        throw new WebViewRPCError('WebView ref is null', 'WEBVIEW_NULL')
+      }
+      return
+    }
+
+    let serialized = serializer({ ...message, channel })
+    const compressed = compressor.compress(serialized, message.id)
+    if (compressed) {
+      serialized = serializer({ ...compressed, channel })
+    }
+    if (!chunking || serialized.length <= threshold) {
+      webView.postMessage(serialized)
+      return
+    }
+
+    for (const frame of splitMessage(serialized, message.id, chunkSize)) {
+      webView.postMessage(serializer({ ...frame, channel }))
+      reportProgress({
+        id: message.id,
+        direction: 'outbound',
+        loaded: Math.min((frame.index + 1) * chunkSize, frame.length),
+        total: frame.length,
+      })
+    }
+  }
+
+  function subscribe(listener: (message: Message) => void): () => void {
+    listeners.add(listener)
+    return () => {
+      listeners.delete(listener)
+    }
+  }
+
+  function subscribeProgress(listener: (progress: TransferProgress) => void): () => void {
+    progressListeners.add(listener)
+    return () => {
+      progressListeners.delete(listener)
+    }
+  }
+
+  function handleMessage(event: { nativeEvent: { data: string } }): void {
+    try {
+      let data = deserializer(event.nativeEvent.data)
+      if (isChunkFrame(data)) {
+        const serialized = reassembler.receive(data)
+        if (serialized === undefined) {
+          return
+        }
+        data = deserializer(serialized)
+      }
+      if (isCompressedFrame(data)) {
+        data = deserializer(compressor.decompress(data))
+      }
+
+      const message = data as Message
+      for (const listener of listeners) {
+        listener(message)
+      }
+    } catch (error) {
+      onError?.(error as Error)
+    }
+  }
+
+  return {
+    send,
+    subscribe,
+    subscribeProgress,
+    close: () => {
+      listeners.clear()
+      progressListeners.clear()
+      reassembler.clear()
+    },
+    isReady: () => webViewRef.current != null,
+    encodings: compressor.encodings,
+    setRemoteEncodings: compressor.setRemoteEncodings,
+    get compressionStats() {
+      return compressor.stats
+    },
+    handleMessage,
+  }
+}
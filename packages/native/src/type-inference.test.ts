@@ -122,7 +122,7 @@ describe('Type Inference - NativeClient', () => {
 	})
 
 	describe('web.call() - procedure name inference', () => {
-		it('should constrain procedure parameter to web keys', () => {
+		it('should constrain procedure parameter to web procedure names', () => {
 			// GIVEN: A typed client
 			type Client = NativeClient<typeof testContract>
 
@@ -134,9 +134,9 @@ describe('Type Inference - NativeClient', () => {
 			expectTypeOf<'showToast'>().toMatchTypeOf<FirstParam>()
 			expectTypeOf<'getUserData'>().toMatchTypeOf<FirstParam>()
 
-			// Should also accept event names (they're valid keys)
-			expectTypeOf<'counterChanged'>().toMatchTypeOf<FirstParam>()
-			expectTypeOf<'userLoggedIn'>().toMatchTypeOf<FirstParam>()
+			// Should NOT accept event names
+			expectTypeOf<'counterChanged'>().not.toMatchTypeOf<FirstParam>()
+			expectTypeOf<'userLoggedIn'>().not.toMatchTypeOf<FirstParam>()
 
 			// Should NOT accept native names
 			expectTypeOf<'navigate'>().not.toMatchTypeOf<FirstParam>()
@@ -182,10 +182,10 @@ describe('Type Inference - NativeClient', () => {
 			type EmitFunction = Client['web']['emit']
 			type FirstParam = Parameters<EmitFunction>[0]
 
-			// Should accept valid web names
+			// Should accept web event names only
 			expectTypeOf<'counterChanged'>().toMatchTypeOf<FirstParam>()
 			expectTypeOf<'userLoggedIn'>().toMatchTypeOf<FirstParam>()
-			expectTypeOf<'showToast'>().toMatchTypeOf<FirstParam>()
+			expectTypeOf<'showToast'>().not.toMatchTypeOf<FirstParam>()
 
 			// Should NOT accept native names
 			expectTypeOf<'navigate'>().not.toMatchTypeOf<FirstParam>()
@@ -256,9 +256,9 @@ describe('Type Inference - NativeClient', () => {
 			type EmitFunction = Client['native']['emit']
 			type FirstParam = Parameters<EmitFunction>[0]
 
-			// Should accept valid native names
-			expectTypeOf<'navigate'>().toMatchTypeOf<FirstParam>()
-			expectTypeOf<'share'>().toMatchTypeOf<FirstParam>()
+			// Should accept native event names only
+			expectTypeOf<'navigate'>().not.toMatchTypeOf<FirstParam>()
+			expectTypeOf<'share'>().not.toMatchTypeOf<FirstParam>()
 			expectTypeOf<'appStateChanged'>().toMatchTypeOf<FirstParam>()
 			expectTypeOf<'batteryLevelChanged'>().toMatchTypeOf<FirstParam>()
 
@@ -4,14 +4,39 @@
  */
 
 import type {
+  BatchOptions,
+  CallOptions,
+  ChunkingOptions,
+  CompressionOptions,
+  CompressionStats,
   Contract,
+  DescribeOptions,
   Deserializer,
+  EmitProxy,
+  EventNames,
+  HandlerContext,
+  InferChunk,
+  InferEmits,
   InferInput,
   InferReturns,
+  Middleware,
+  ProcedureNames,
+  ProcedureProxy,
+  QueueOptions,
   Serializer,
+  StreamHandler,
+  StreamNames,
+  StreamOptions,
+  SubscribeOptions,
+  SubscriptionHandler,
+  SubscriptionNames,
+  Transport,
+  UnknownProcedurePolicy,
+  ValidationSetting,
 } from '@webview-rpc/core'
 import type { RefObject } from 'react'
 import type { WebView } from 'react-native-webview'
+import type { DuplicateHandlerPolicy, RegisteredHandler } from './registry'
 
 /**
  * Options for creating a native client
@@ -42,19 +67,119 @@ export interface NativeClientOptions<TContract extends Contract = Contract> {
    */
   timeout?: number
 
+  /**
+   * Buffer requests and events until the web page is ready, then flush them in order.
+   * Pass `true` for defaults or an object to configure size, age, drop policy and when
+   * request timeouts start (default: disabled, requests fail with WEBVIEW_NULL and events
+   * are dropped while the WebView is unavailable).
+   */
+  queue?: boolean | QueueOptions
+
+  /**
+   * Channel tag added to every envelope (default: 'webview-rpc'). Must match the `channel`
+   * of the web client, which ignores messages tagged otherwise.
+   */
+  channel?: string
+
   /**
    * Error handler for uncaught errors
    */
   onError?: (error: Error) => void
+
+  /**
+   * Runtime validation of incoming request data, handler return values and
+   * incoming event data against the contract schemas (default: false).
+   * Pass an object to enable stages or individual procedures selectively.
+   */
+  validate?: ValidationSetting
+
+  /**
+   * Send the stack trace and cause chain of handler errors to the caller (default: false).
+   * Enable in development builds only, as stacks reveal source paths.
+   */
+  forwardErrorDetails?: boolean
+
+  /**
+   * Hooks run in order on every message sent to and received from the web side, except
+   * the handshake. Outbound hooks run before the message is posted, inbound hooks before it
+   * is dispatched.
+   */
+  middleware?: Middleware[]
+
+  /**
+   * Coalesce messages posted within the same microtask, or within `window` milliseconds, into
+   * a single `batch` envelope so they cross the bridge at once (default: disabled). The
+   * web side unpacks batches in order whether or not it batches itself.
+   */
+  batch?: boolean | BatchOptions
+
+  /**
+   * Split serialized messages above `threshold` characters into sequenced chunk frames, so
+   * large payloads stay below bridge size limits (default: disabled). Frames from the
+   * web side are reassembled and checked whether or not this is enabled. Pass
+   * `onProgress` to a call to follow the transfer.
+   */
+  chunking?: boolean | ChunkingOptions
+
+  /**
+   * Compress serialized messages above `threshold` characters with a pure-JS codec, once the
+   * handshake showed the web side can read them (default: disabled). Peers on older
+   * versions keep receiving uncompressed messages. Compressed messages from the web side
+   * are read whether or not this is enabled.
+   */
+  compression?: boolean | CompressionOptions
+
+  /**
+   * Transport replacing the WebView bridge, such as one side of `createMemoryTransportPair()`
+   * to run the client against a web client in tests. The serializer, channel, chunking and
+   * compression options configure the bridge and are ignored, and `handleMessage` drops what
+   * it receives.
+   */
+  transport?: Transport
+
+  /**
+   * Handling of calls to procedures the web side's contract does not define, as announced
+   * in its handshake (default: 'reject', failing them with UNKNOWN_PROCEDURE). Use 'warn' to
+   * report them to `onError` and send them anyway. Older web builds announce nothing, so
+   * calls to them are never checked.
+   */
+  unknownProcedures?: UnknownProcedurePolicy
+
+  /**
+   * Convert schemas to JSON Schema for the contract fingerprint and the description compared
+   * during the handshake, for libraries that only offer a standalone converter, such as
+   * `z.toJSONSchema` in Zod 4.1. Without it, schema changes of such libraries go unnoticed
+   * by the handshake; pass the same converter to both clients.
+   */
+  toJSONSchema?: DescribeOptions['toJSONSchema']
+
+  /**
+   * Handling of a second handler registered for the same procedure on the same side
+   * (default: 'warn', reporting a DUPLICATE_HANDLER error to `onError` and replacing the
+   * first handler). Use 'throw' to keep the first handler and throw from `handle`, or
+   * 'replace' to replace it silently.
+   */
+  duplicateHandlers?: DuplicateHandlerPolicy
 }
 
 /**
  * Handler function type for procedures and events
  */
 export type Handler<TInput = unknown, TOutput = unknown> = (
-  data: TInput
+  data: TInput,
+  context: HandlerContext
 ) => TOutput | Promise<TOutput>
 
+/**
+ * Handler for a procedure, stream, subscription or event, depending on how the contract
+ * defines it
+ */
+export type HandlerFor<T> = T extends { yields: unknown }
+  ? StreamHandler<InferInput<T>, InferChunk<T>>
+  : T extends { emits: unknown }
+    ? SubscriptionHandler<InferInput<T>, InferEmits<T>>
+    : Handler<InferInput<T>, T extends { returns: unknown } ? InferReturns<T> : void>
+
 /**
  * Map of procedure/event names to handler functions
  */
@@ -65,6 +190,38 @@ export type Handlers<T> = {
   >
 }
 
+/**
+ * Lifecycle of the page loaded in the WebView
+ * - `loadStart` a page started loading; calls the previous page had in flight were
+ *   rejected with PEER_RELOADED
+ * - `loadEnd` the page finished loading
+ * - `terminated` the WebView content process died; calls in flight were rejected with
+ *   PEER_RELOADED
+ * - `ready` the page completed the handshake and can be called
+ */
+export type LifecycleEvent =
+  | { type: 'loadStart'; url: string }
+  | { type: 'loadEnd'; url: string }
+  | { type: 'terminated' }
+  | { type: 'ready' }
+
+/**
+ * WebView props the native client handles
+ */
+export interface WebViewProps {
+  onMessage: (event: { nativeEvent: { data: string } }) => void
+  onLoadStart: (event: { nativeEvent: { url: string } }) => void
+  onLoadEnd: (event: { nativeEvent: { url: string } }) => void
+  /**
+   * iOS: the web content process was terminated
+   */
+  onContentProcessDidTerminate: () => void
+  /**
+   * Android: the render process exited
+   */
+  onRenderProcessGone: () => void
+}
+
 /**
  * Native client interface
  */
@@ -74,33 +231,57 @@ export interface NativeClient<TContract extends Contract = Contract> {
    */
   web: {
     /**
-     * Call a procedure on the web side
+     * Call a procedure on the web side. Rejects with a WRONG_KIND error for names the
+     * contract defines as another kind.
      */
-    call: <K extends keyof TContract['web']>(
+    call: <K extends ProcedureNames<NonNullable<TContract['web']>>>(
       procedure: K,
-      data: InferInput<TContract['web'][K]>
-    ) => Promise<
-      TContract['web'][K] extends { returns: unknown } ? InferReturns<TContract['web'][K]> : never
-    >
+      data: InferInput<NonNullable<TContract['web']>[K]>,
+      options?: CallOptions
+    ) => Promise<InferReturns<NonNullable<TContract['web']>[K]>>
+
+    /**
+     * Call a stream on the web side, reading its chunks with `for await`
+     */
+    stream: <K extends StreamNames<NonNullable<TContract['web']>>>(
+      procedure: K,
+      data: InferInput<NonNullable<TContract['web']>[K]>,
+      options?: StreamOptions
+    ) => AsyncIterableIterator<InferChunk<NonNullable<TContract['web']>[K]>>
+
+    /**
+     * Subscribe to a web subscription, returning a function that unsubscribes
+     */
+    subscribe: <K extends SubscriptionNames<NonNullable<TContract['web']>>>(
+      subscription: K,
+      data: InferInput<NonNullable<TContract['web']>[K]>,
+      onData: (data: InferEmits<NonNullable<TContract['web']>[K]>) => void,
+      options?: SubscribeOptions
+    ) => () => void
 
     /**
      * Emit an event to the web side
      */
-    emit: <K extends keyof TContract['web']>(
+    emit: <K extends EventNames<NonNullable<TContract['web']>>>(
       event: K,
-      data: InferInput<TContract['web'][K]>
+      data: InferInput<NonNullable<TContract['web']>[K]>
     ) => void
 
     /**
-     * Register a handler for a procedure or event from native
+     * Register a listener for an event the web side emits. Handlers of web procedures,
+     * streams and subscriptions are listed by `registeredHandlers` but never called, as
+     * requests only come in for native ones.
      */
     handle: <K extends keyof TContract['web']>(
       name: K,
-      handler: Handler<
-        InferInput<TContract['web'][K]>,
-        TContract['web'][K] extends { returns: unknown } ? InferReturns<TContract['web'][K]> : void
-      >
+      handler: HandlerFor<TContract['web'][K]>
     ) => () => void
+
+    /**
+     * Web procedures, streams and subscriptions as methods, nested by namespace:
+     * `$.navigate(data)` is `call('navigate', data)`
+     */
+    $: ProcedureProxy<NonNullable<TContract['web']>>
   }
 
   /**
@@ -108,27 +289,71 @@ export interface NativeClient<TContract extends Contract = Contract> {
    */
   native: {
     /**
-     * Emit an event from native
+     * Emit an event from native. Names the contract defines as procedures are not sent and
+     * reported to `onError` as WRONG_KIND errors.
      */
-    emit: <K extends keyof TContract['native']>(
+    emit: <K extends EventNames<NonNullable<TContract['native']>>>(
       event: K,
-      data: InferInput<TContract['native'][K]>
+      data: InferInput<NonNullable<TContract['native']>[K]>
     ) => void
 
     /**
-     * Register a handler for a procedure or event from web
+     * Register a handler for a procedure, stream or subscription the web side calls. A second
+     * handler for the same procedure is handled by `duplicateHandlers`; unregistering only
+     * removes the handler it was returned for. Listeners of native events are listed by
+     * `registeredHandlers` but never called, as events only come in from the web side.
      */
     handle: <K extends keyof TContract['native']>(
       name: K,
-      handler: Handler<
-        InferInput<TContract['native'][K]>,
-        TContract['native'][K] extends { returns: unknown }
-          ? InferReturns<TContract['native'][K]>
-          : void
-      >
+      handler: HandlerFor<TContract['native'][K]>
     ) => () => void
+
+    /**
+     * Native events as methods emitting them, nested by namespace:
+     * `$emit.appStateChange(data)` is `emit('appStateChange', data)`
+     */
+    $emit: EmitProxy<NonNullable<TContract['native']>>
   }
 
+  /**
+   * Resolves once the web page has completed the handshake.
+   * Rejects with a PROTOCOL_MISMATCH error if the web and native bundles disagree
+   * on the protocol version or on a name both contracts define. Replaced by a new promise when another page
+   * loads.
+   */
+  readonly ready: Promise<void>
+
+  /**
+   * Totals of the messages sent compressed: count, bytes before and after compression, and
+   * bytes saved
+   */
+  readonly compressionStats: CompressionStats
+
+  /**
+   * Listen to the lifecycle of the page in the WebView. Requires `webViewProps` to be
+   * spread onto the WebView.
+   *
+   * @returns Function removing the listener
+   */
+  onLifecycle: (listener: (event: LifecycleEvent) => void) => () => void
+
+  /**
+   * Props to spread onto the WebView: `onMessage` plus the load and termination callbacks
+   * that let the client fail calls the previous page can no longer answer
+   *
+   * @example
+   * ```tsx
+   * <WebView ref={webViewRef} source={{ uri }} {...client.webViewProps} />
+   * ```
+   */
+  webViewProps: WebViewProps
+
+  /**
+   * Handlers and event listeners currently registered through `web.handle` and
+   * `native.handle`, by side and kind, for debugging
+   */
+  registeredHandlers: () => RegisteredHandler[]
+
   /**
    * Cleanup function to remove all handlers and cancel pending requests
    */
@@ -4,7 +4,20 @@
  */
 
 import type { StandardSchemaV1 } from '@standard-schema/spec'
-import { WebViewRPCError, WebViewRPCTimeoutError, defineContract } from '@webview-rpc/core'
+import {
+  RemoteError,
+  WebViewRPCError,
+  WebViewRPCTimeoutError,
+  WebViewRPCValidationError,
+  PROTOCOL_VERSION,
+  createMemoryTransportPair,
+  createPeer,
+  defineContract,
+  getContractFingerprint,
+  procedure,
+  stream,
+  subscription,
+} from '@webview-rpc/core'
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
 import { createWebClient } from './client'
 
@@ -75,6 +88,39 @@ const createProcedureSchema = <TInput, TOutput>(inputDefault?: TInput, outputDef
   }
 }
 
+// Helper to create schema that validates asynchronously with a predicate
+const createCheckedSchema = <T>(check: (value: unknown) => boolean): StandardSchemaV1<T> => ({
+  '~standard': {
+    version: 1,
+    vendor: 'mock',
+    validate: async (value: unknown) =>
+      check(value)
+        ? { value: value as T }
+        : { issues: [{ message: 'Invalid value', path: ['x'] }] },
+  },
+})
+
+// Helper to get posted RPC messages, skipping handshake frames
+const sentMessages = () =>
+  mockPostMessage.mock.calls
+    .map((call) => JSON.parse(call[0]))
+    .filter((message) => message.type !== 'hello' && message.type !== 'ready')
+
+// Helper to deliver a message from native
+const receive = (message: object) => {
+  window.dispatchEvent(
+    new MessageEvent('message', { data: JSON.stringify({ ...message, channel: 'webview-rpc' }) })
+  )
+}
+
+// Helper to find the posted response message
+const findResponse = () => {
+  const responseCall = mockPostMessage.mock.calls.find((call) =>
+    call[0].includes('"type":"response"')
+  )
+  return responseCall ? JSON.parse(responseCall[0]) : undefined
+}
+
 describe('createWebClient', () => {
   describe('initialization', () => {
     it('SHOULD create client with minimal options', () => {
@@ -249,8 +295,7 @@ describe('createWebClient', () => {
       // THEN: Should post message with correct structure
       expect(mockPostMessage).toHaveBeenCalledWith(expect.stringContaining('"type":"request"'))
 
-      const callArg = mockPostMessage.mock.calls[0][0]
-      const message = JSON.parse(callArg)
+      const message = sentMessages()[0]
 
       expect(message).toMatchObject({
         type: 'request',
@@ -280,10 +325,7 @@ describe('createWebClient', () => {
       client.native.call('test', { value: 3 }).catch(() => {})
 
       // THEN: Should use unique IDs
-      const ids = mockPostMessage.mock.calls.map((call) => {
-        const message = JSON.parse(call[0])
-        return message.id
-      })
+      const ids = sentMessages().map((message) => message.id)
 
       expect(new Set(ids).size).toBe(3)
 
@@ -305,8 +347,7 @@ describe('createWebClient', () => {
       const promise = client.native.call('share', { url: 'https://example.com' })
 
       // Get the correlation ID from the posted message
-      const callArg = mockPostMessage.mock.calls[0][0]
-      const sentMessage = JSON.parse(callArg)
+      const sentMessage = sentMessages()[0]
 
       // Simulate response from native
       const responseMessage = {
@@ -317,7 +358,7 @@ describe('createWebClient', () => {
 
       // Trigger the message event
       const messageEvent = new MessageEvent('message', {
-        data: JSON.stringify(responseMessage),
+        data: JSON.stringify({ ...responseMessage, channel: 'webview-rpc' }),
       })
       window.dispatchEvent(messageEvent)
 
@@ -388,8 +429,7 @@ describe('createWebClient', () => {
       const promise = client.native.call('share', { url: 'https://example.com' })
 
       // Get correlation ID
-      const callArg = mockPostMessage.mock.calls[0][0]
-      const sentMessage = JSON.parse(callArg)
+      const sentMessage = sentMessages()[0]
 
       // Simulate error response
       const errorMessage = {
@@ -402,7 +442,7 @@ describe('createWebClient', () => {
       }
 
       const messageEvent = new MessageEvent('message', {
-        data: JSON.stringify(errorMessage),
+        data: JSON.stringify({ ...errorMessage, channel: 'webview-rpc' }),
       })
       window.dispatchEvent(messageEvent)
 
@@ -414,6 +454,43 @@ describe('createWebClient', () => {
       })
     })
 
+    it('SHOULD reject with a RemoteError carrying the declared error data', async () => {
+      // GIVEN: Client with native procedure
+      const contract = defineContract({
+        native: {
+          share: createProcedureSchema<{ url: string }, { success: boolean }>(),
+        },
+      })
+
+      const client = createWebClient(contract)
+
+      // WHEN: Native side fails with a RemoteError
+      const promise = client.native.call('share', { url: 'https://example.com' })
+      const sentMessage = sentMessages()[0]
+      window.dispatchEvent(
+        new MessageEvent('message', {
+          data: JSON.stringify({
+            id: sentMessage.id,
+            type: 'response',
+            channel: 'webview-rpc',
+            error: {
+              message: 'Sharing disabled',
+              code: 'SHARE_DISABLED',
+              name: 'RemoteError',
+              data: { reason: 'policy' },
+            },
+          }),
+        })
+      )
+
+      // THEN: Should reject with the code and data
+      await expect(promise).rejects.toThrow(RemoteError)
+      await expect(promise).rejects.toMatchObject({
+        code: 'SHARE_DISABLED',
+        data: { reason: 'policy' },
+      })
+    })
+
     it('SHOULD cleanup pending request after resolution', async () => {
       // GIVEN: Client with native procedure
       const contract = defineContract({
@@ -427,8 +504,7 @@ describe('createWebClient', () => {
       // WHEN: Making call and resolving it
       const promise = client.native.call('share', { url: 'https://example.com' })
 
-      const callArg = mockPostMessage.mock.calls[0][0]
-      const sentMessage = JSON.parse(callArg)
+      const sentMessage = sentMessages()[0]
 
       const responseMessage = {
         id: sentMessage.id,
@@ -437,7 +513,7 @@ describe('createWebClient', () => {
       }
 
       const messageEvent = new MessageEvent('message', {
-        data: JSON.stringify(responseMessage),
+        data: JSON.stringify({ ...responseMessage, channel: 'webview-rpc' }),
       })
       window.dispatchEvent(messageEvent)
 
@@ -461,8 +537,7 @@ describe('createWebClient', () => {
       // WHEN: Making call that times out
       const promise = client.native.call('share', { url: 'https://example.com' })
 
-      const callArg = mockPostMessage.mock.calls[0][0]
-      const sentMessage = JSON.parse(callArg)
+      const sentMessage = sentMessages()[0]
 
       vi.advanceTimersByTime(1001)
 
@@ -476,7 +551,7 @@ describe('createWebClient', () => {
       }
 
       const messageEvent = new MessageEvent('message', {
-        data: JSON.stringify(responseMessage),
+        data: JSON.stringify({ ...responseMessage, channel: 'webview-rpc' }),
       })
       window.dispatchEvent(messageEvent)
       // Should not throw or cause issues
@@ -545,8 +620,7 @@ describe('createWebClient', () => {
       // THEN: Should post message with type=event
       expect(mockPostMessage).toHaveBeenCalledWith(expect.stringContaining('"type":"event"'))
 
-      const callArg = mockPostMessage.mock.calls[0][0]
-      const message = JSON.parse(callArg)
+      const message = sentMessages()[0]
 
       expect(message).toMatchObject({
         type: 'event',
@@ -593,6 +667,147 @@ describe('createWebClient', () => {
     })
   })
 
+  describe('proxy API', () => {
+    it('SHOULD call native procedures as methods nested by namespace', () => {
+      // GIVEN: Client with plain and namespaced native procedures and an event
+      const contract = defineContract({
+        native: {
+          share: createProcedureSchema<{ url: string }, { success: boolean }>(),
+          payments: {
+            charge: createProcedureSchema<{ amount: number }, string>(),
+          },
+          appStateChange: createMockSchema<{ state: string }>(),
+        },
+      })
+
+      const client = createWebClient(contract)
+
+      // WHEN: Calling through the proxy
+      client.native.$.share({ url: 'https://example.com' }).catch(() => {})
+      client.native.$.payments.charge({ amount: 5 }).catch(() => {})
+
+      // THEN: Should send the same requests as the string API, without events
+      expect(sentMessages()).toMatchObject([
+        { type: 'request', procedure: 'share', data: { url: 'https://example.com' } },
+        { type: 'request', procedure: 'payments.charge', data: { amount: 5 } },
+      ])
+      expect(client.native.$).not.toHaveProperty('appStateChange')
+
+      // Cleanup
+      client.cleanup()
+    })
+
+    it('SHOULD emit web events as methods', () => {
+      // GIVEN: Client with a web event and a web procedure
+      const contract = defineContract({
+        web: {
+          pathChanged: createMockSchema<{ path: string }>(),
+          navigate: createProcedureSchema<{ path: string }, void>(),
+        },
+      })
+
+      const client = createWebClient(contract)
+
+      // WHEN: Emitting through the proxy
+      client.web.$emit.pathChanged({ path: '/home' })
+
+      // THEN: Should send the event, without procedures on the proxy
+      expect(sentMessages()[0]).toMatchObject({
+        type: 'event',
+        event: 'pathChanged',
+        data: { path: '/home' },
+      })
+      expect(client.web.$emit).not.toHaveProperty('navigate')
+    })
+  })
+
+  describe('wrong kind', () => {
+    const contract = defineContract({
+      web: {
+        pathChanged: createMockSchema<{ path: string }>(),
+        navigate: createProcedureSchema<{ path: string }, void>(),
+      },
+      native: {
+        share: createProcedureSchema<{ url: string }, { success: boolean }>(),
+        appStateChange: createMockSchema<{ state: string }>(),
+      },
+    })
+
+    it('SHOULD reject calls and streams of native events without sending them', async () => {
+      // GIVEN: Client with a native event
+      const client = createWebClient(contract)
+
+      // WHEN: Calling and streaming the event
+      const call = client.native.call('appStateChange' as never, { state: 'active' } as never)
+      const stream = client.native.stream('appStateChange' as never, {} as never)
+
+      // THEN: Should fail with WRONG_KIND and post nothing
+      await expect(call).rejects.toMatchObject({
+        code: 'WRONG_KIND',
+        message: 'appStateChange is an event, not a procedure',
+      })
+      await expect(stream.next()).rejects.toMatchObject({ code: 'WRONG_KIND' })
+      expect(sentMessages()).toEqual([])
+
+      // Cleanup
+      client.cleanup()
+    })
+
+    it('SHOULD report emits of web procedures to onError without sending them', () => {
+      // GIVEN: Client with a web procedure
+      const onError = vi.fn()
+      const client = createWebClient(contract, { onError })
+
+      // WHEN: Emitting the procedure
+      client.web.emit('navigate' as never, { path: '/home' } as never)
+
+      // THEN: Should report WRONG_KIND and post nothing
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'WRONG_KIND',
+          message: 'navigate is a procedure, not an event',
+        })
+      )
+      expect(sentMessages()).toEqual([])
+    })
+
+    it('SHOULD report subscriptions to native procedures to the subscriber', () => {
+      // GIVEN: Client with a native procedure
+      const client = createWebClient(contract)
+      const onError = vi.fn()
+
+      // WHEN: Subscribing to the procedure
+      client.native.subscribe('share' as never, {} as never, () => {}, { onError })
+
+      // THEN: Should report WRONG_KIND and post nothing
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'WRONG_KIND' }))
+      expect(sentMessages()).toEqual([])
+
+      // Cleanup
+      client.cleanup()
+    })
+
+    it('SHOULD report listeners of native procedures to onError without registering them', () => {
+      // GIVEN: Client with a native procedure
+      const onError = vi.fn()
+      const client = createWebClient(contract, { onError })
+      const listener = vi.fn()
+
+      // WHEN: Listening to the procedure as an event
+      client.native.handle('share' as never, listener)
+      receive({ id: 'evt-1', type: 'event', event: 'share', data: {} })
+
+      // THEN: Should report WRONG_KIND and never call the listener
+      expect(onError).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'WRONG_KIND',
+          message: 'share is a procedure, not an event',
+        })
+      )
+      expect(listener).not.toHaveBeenCalled()
+    })
+  })
+
   describe('native.handle (event listeners)', () => {
     it('SHOULD register event handler', () => {
       // GIVEN: Client with native event
@@ -634,7 +849,7 @@ describe('createWebClient', () => {
       }
 
       const messageEvent = new MessageEvent('message', {
-        data: JSON.stringify(eventMessage),
+        data: JSON.stringify({ ...eventMessage, channel: 'webview-rpc' }),
       })
       window.dispatchEvent(messageEvent)
 
@@ -666,7 +881,7 @@ describe('createWebClient', () => {
       }
 
       const messageEvent = new MessageEvent('message', {
-        data: JSON.stringify(eventMessage),
+        data: JSON.stringify({ ...eventMessage, channel: 'webview-rpc' }),
       })
       window.dispatchEvent(messageEvent)
 
@@ -700,7 +915,7 @@ describe('createWebClient', () => {
       }
 
       const messageEvent = new MessageEvent('message', {
-        data: JSON.stringify(eventMessage),
+        data: JSON.stringify({ ...eventMessage, channel: 'webview-rpc' }),
       })
       window.dispatchEvent(messageEvent)
 
@@ -752,13 +967,16 @@ describe('createWebClient', () => {
       }
 
       const messageEvent = new MessageEvent('message', {
-        data: JSON.stringify(requestMessage),
+        data: JSON.stringify({ ...requestMessage, channel: 'webview-rpc' }),
       })
       window.dispatchEvent(messageEvent)
 
       // Wait for async handler
       await vi.waitFor(() => {
-        expect(handler).toHaveBeenCalledWith({ path: '/home' })
+        expect(handler).toHaveBeenCalledWith(
+          { path: '/home' },
+          expect.objectContaining({ signal: expect.any(AbortSignal), meta: {} })
+        )
       })
 
       // THEN: Should send response back
@@ -805,7 +1023,7 @@ describe('createWebClient', () => {
       }
 
       const messageEvent = new MessageEvent('message', {
-        data: JSON.stringify(requestMessage),
+        data: JSON.stringify({ ...requestMessage, channel: 'webview-rpc' }),
       })
       window.dispatchEvent(messageEvent)
 
@@ -855,7 +1073,7 @@ describe('createWebClient', () => {
       }
 
       const messageEvent = new MessageEvent('message', {
-        data: JSON.stringify(requestMessage),
+        data: JSON.stringify({ ...requestMessage, channel: 'webview-rpc' }),
       })
       window.dispatchEvent(messageEvent)
 
@@ -864,6 +1082,139 @@ describe('createWebClient', () => {
     })
   })
 
+  describe('duplicate handlers', () => {
+    const contract = defineContract({
+      web: {
+        navigate: procedure(createMockSchema<{ path: string }>()).returns(
+          createMockSchema<string>()
+        ),
+      },
+      native: {
+        appStateChange: createMockSchema<{ state: string }>(),
+      },
+    })
+
+    it('SHOULD keep a replacing handler when the replaced one unregisters', async () => {
+      // GIVEN: Two registrations of the same procedure, replacing silently
+      const client = createWebClient(contract, { duplicateHandlers: 'replace' })
+      const unregisterFirst = client.web.handle('navigate', () => 'first')
+      client.web.handle('navigate', () => 'second')
+
+      // WHEN: The first registration unregisters, e.g. a StrictMode effect cleanup
+      unregisterFirst()
+      receive({ id: 'req-1', type: 'request', procedure: 'navigate', data: { path: '/' } })
+
+      // THEN: Should still answer with the second handler
+      await vi.waitFor(() => expect(findResponse()).toBeDefined())
+      expect(findResponse().data).toBe('second')
+    })
+
+    it('SHOULD report duplicates with where both were registered by default', () => {
+      // GIVEN: Client describing registration sites
+      const onError = vi.fn()
+      const stacks = ['\n    in First', '\n    in Second']
+      const client = createWebClient(contract, {
+        onError,
+        captureStack: () => stacks.shift(),
+      })
+
+      // WHEN: Registering the procedure twice
+      client.web.handle('navigate', () => 'first')
+      client.web.handle('navigate', () => 'second')
+
+      // THEN: Should report DUPLICATE_HANDLER naming both sites
+      expect(onError).toHaveBeenCalledTimes(1)
+      const [error] = onError.mock.calls[0]
+      expect(error).toBeInstanceOf(WebViewRPCError)
+      expect(error.code).toBe('DUPLICATE_HANDLER')
+      expect(error.message).toBe(
+        'Handler already registered for web.navigate\n\n' +
+          'Registered first at:\n    in First\n\n' +
+          'Registered again at:\n    in Second'
+      )
+    })
+
+    it('SHOULD warn on the console when no onError is configured', () => {
+      // GIVEN: Client without onError
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const client = createWebClient(contract)
+
+      // WHEN: Registering the procedure twice
+      client.web.handle('navigate', () => 'first')
+      client.web.handle('navigate', () => 'second')
+
+      // THEN: Should warn once with the DUPLICATE_HANDLER message
+      expect(warn).toHaveBeenCalledTimes(1)
+      expect(warn).toHaveBeenCalledWith('Handler already registered for web.navigate')
+      warn.mockRestore()
+    })
+
+    it('SHOULD not warn on the console in production builds', () => {
+      // GIVEN: Production build without onError
+      vi.stubEnv('NODE_ENV', 'production')
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const client = createWebClient(contract)
+
+      // WHEN: Registering the procedure twice
+      client.web.handle('navigate', () => 'first')
+      client.web.handle('navigate', () => 'second')
+
+      // THEN: Should stay silent
+      expect(warn).not.toHaveBeenCalled()
+      warn.mockRestore()
+      vi.unstubAllEnvs()
+    })
+
+    it('SHOULD warn on the console in production builds describing registrations', () => {
+      // GIVEN: Production build capturing registration sites
+      vi.stubEnv('NODE_ENV', 'production')
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+      const client = createWebClient(contract, { captureStack: () => '\n    in Router' })
+
+      // WHEN: Registering the procedure twice
+      client.web.handle('navigate', () => 'first')
+      client.web.handle('navigate', () => 'second')
+
+      // THEN: Should warn naming the sites
+      expect(warn).toHaveBeenCalledWith(expect.stringContaining('in Router'))
+      warn.mockRestore()
+      vi.unstubAllEnvs()
+    })
+
+    it('SHOULD throw and keep the first handler with the throw policy', async () => {
+      // GIVEN: Client throwing on duplicates
+      const client = createWebClient(contract, { duplicateHandlers: 'throw' })
+      client.web.handle('navigate', () => 'first')
+
+      // WHEN: Registering again
+      const register = () => client.web.handle('navigate', () => 'second')
+
+      // THEN: Should throw and still answer with the first handler
+      expect(register).toThrow('Handler already registered for web.navigate')
+      receive({ id: 'req-1', type: 'request', procedure: 'navigate', data: { path: '/' } })
+      await vi.waitFor(() => expect(findResponse()).toBeDefined())
+      expect(findResponse().data).toBe('first')
+    })
+
+    it('SHOULD need one unregister per registration of the same listener', () => {
+      // GIVEN: The same listener registered twice
+      const client = createWebClient(contract)
+      const listener = vi.fn()
+      const unregisterFirst = client.native.handle('appStateChange', listener)
+      const unregisterSecond = client.native.handle('appStateChange', listener)
+
+      // WHEN: Unregistering one of them
+      unregisterFirst()
+      receive({ id: 'evt-1', type: 'event', event: 'appStateChange', data: { state: 'active' } })
+
+      // THEN: Should still call the other registration
+      expect(listener).toHaveBeenCalledTimes(1)
+      unregisterSecond()
+      receive({ id: 'evt-2', type: 'event', event: 'appStateChange', data: { state: 'idle' } })
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+  })
+
   describe('cleanup', () => {
     it('SHOULD cancel all pending requests', async () => {
       // GIVEN: Client with pending requests
@@ -911,7 +1262,7 @@ describe('createWebClient', () => {
       }
 
       const messageEvent = new MessageEvent('message', {
-        data: JSON.stringify(eventMessage),
+        data: JSON.stringify({ ...eventMessage, channel: 'webview-rpc' }),
       })
       window.dispatchEvent(messageEvent)
 
@@ -965,7 +1316,7 @@ describe('createWebClient', () => {
       }
 
       const messageEvent = new MessageEvent('message', {
-        data: JSON.stringify(requestMessage),
+        data: JSON.stringify({ ...requestMessage, channel: 'webview-rpc' }),
       })
       window.dispatchEvent(messageEvent)
 
@@ -984,7 +1335,7 @@ describe('createWebClient', () => {
       })
 
       const onError = vi.fn()
-      createWebClient(contract, { onError })
+      const client = createWebClient(contract, { onError })
 
       // WHEN: Receiving invalid message
       const messageEvent = new MessageEvent('message', {
@@ -996,8 +1347,9 @@ describe('createWebClient', () => {
         window.dispatchEvent(messageEvent)
       }).not.toThrow()
 
-      // And should call onError
-      expect(onError).toHaveBeenCalledWith(expect.any(Error))
+      // And should ignore it as foreign traffic
+      expect(onError).not.toHaveBeenCalled()
+      expect(client.rejectedMessages).toBe(1)
     })
 
     it('SHOULD use custom deserializer when provided', () => {
@@ -1026,7 +1378,7 @@ describe('createWebClient', () => {
       }
 
       const messageEvent = new MessageEvent('message', {
-        data: JSON.stringify(eventMessage),
+        data: JSON.stringify({ ...eventMessage, channel: 'webview-rpc' }),
       })
       window.dispatchEvent(messageEvent)
 
@@ -1087,7 +1439,7 @@ describe('createWebClient', () => {
       }
 
       const messageEvent = new MessageEvent('message', {
-        data: JSON.stringify(eventMessage),
+        data: JSON.stringify({ ...eventMessage, channel: 'webview-rpc' }),
       })
       window.dispatchEvent(messageEvent)
 
@@ -1158,7 +1510,7 @@ describe('createWebClient', () => {
       }
 
       const messageEvent = new MessageEvent('message', {
-        data: JSON.stringify(requestMessage),
+        data: JSON.stringify({ ...requestMessage, channel: 'webview-rpc' }),
       })
       window.dispatchEvent(messageEvent)
 
@@ -1196,7 +1548,7 @@ describe('createWebClient', () => {
       }
 
       const messageEvent = new MessageEvent('message', {
-        data: JSON.stringify(requestMessage),
+        data: JSON.stringify({ ...requestMessage, channel: 'webview-rpc' }),
       })
       window.dispatchEvent(messageEvent)
 
@@ -1241,7 +1593,7 @@ describe('createWebClient', () => {
       }
 
       const messageEvent = new MessageEvent('message', {
-        data: JSON.stringify(unknownMessage),
+        data: JSON.stringify({ ...unknownMessage, channel: 'webview-rpc' }),
       })
 
       // THEN: Should not throw (gracefully ignores unknown message types)
@@ -1280,7 +1632,7 @@ describe('createWebClient', () => {
       }
 
       const messageEvent = new MessageEvent('message', {
-        data: JSON.stringify(eventMessage),
+        data: JSON.stringify({ ...eventMessage, channel: 'webview-rpc' }),
       })
       window.dispatchEvent(messageEvent)
 
@@ -1292,4 +1644,866 @@ describe('createWebClient', () => {
       unregister2()
     })
   })
+
+  describe('validation', () => {
+    const isPath = (value: unknown) => typeof (value as { path?: unknown })?.path === 'string'
+    const isSuccess = (value: unknown) =>
+      typeof (value as { success?: unknown })?.success === 'boolean'
+
+    const createContract = () =>
+      defineContract({
+        web: {
+          navigate: procedure(createCheckedSchema<{ path: string }>(isPath)).returns(
+            createCheckedSchema<{ success: boolean }>(isSuccess)
+          ),
+        },
+        native: {
+          appStateChange: createCheckedSchema<{ state: string }>(
+            (value) => typeof (value as { state?: unknown })?.state === 'string'
+          ),
+        },
+      })
+
+    it('SHOULD not validate unless enabled', async () => {
+      // GIVEN: Client without validate option
+      const client = createWebClient(createContract())
+      const handler = vi.fn(async () => ({ success: true }))
+      client.web.handle('navigate', handler)
+
+      // WHEN: Receiving invalid request
+      receive({ id: 'req-1', type: 'request', procedure: 'navigate', data: { path: 1 } })
+
+      // THEN: Handler invoked with raw data
+      await vi.waitFor(() => expect(findResponse()).toBeDefined())
+      expect(handler).toHaveBeenCalledWith({ path: 1 }, expect.anything())
+    })
+
+    it('SHOULD reject invalid request data with VALIDATION_ERROR before invoking handler', async () => {
+      // GIVEN: Client with validation enabled
+      const onError = vi.fn()
+      const client = createWebClient(createContract(), { validate: true, onError })
+      const handler = vi.fn(async () => ({ success: true }))
+      client.web.handle('navigate', handler)
+
+      // WHEN: Receiving invalid request
+      receive({ id: 'req-1', type: 'request', procedure: 'navigate', data: { path: 1 } })
+
+      // THEN: Error response carries issues, handler not invoked
+      await vi.waitFor(() => expect(findResponse()).toBeDefined())
+      expect(findResponse()).toMatchObject({
+        id: 'req-1',
+        error: {
+          code: 'VALIDATION_ERROR',
+          message: 'Invalid input for procedure: navigate',
+          issues: [{ message: 'Invalid value', path: ['x'] }],
+        },
+      })
+      expect(handler).not.toHaveBeenCalled()
+      expect(onError).not.toHaveBeenCalled()
+    })
+
+    it('SHOULD reject invalid return values with VALIDATION_ERROR', async () => {
+      // GIVEN: Handler returning wrong shape
+      const onError = vi.fn()
+      const client = createWebClient(createContract(), { validate: true, onError })
+      // biome-ignore lint/suspicious/noExplicitAny: Returning invalid data on purpose
+      client.web.handle('navigate', async () => ({ success: 'yes' }) as any)
+
+      // WHEN: Receiving valid request
+      receive({ id: 'req-1', type: 'request', procedure: 'navigate', data: { path: '/home' } })
+
+      // THEN: Error response sent and reported locally
+      await vi.waitFor(() => expect(findResponse()).toBeDefined())
+      expect(findResponse().error).toMatchObject({
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid return value for procedure: navigate',
+      })
+      expect(onError).toHaveBeenCalledWith(expect.any(WebViewRPCValidationError))
+    })
+
+    it('SHOULD send valid return values when output validation passes', async () => {
+      // GIVEN: Client validating everything
+      const client = createWebClient(createContract(), { validate: true })
+      client.web.handle('navigate', async () => ({ success: true }))
+
+      // WHEN: Receiving valid request
+      receive({ id: 'req-1', type: 'request', procedure: 'navigate', data: { path: '/home' } })
+
+      // THEN: Response carries data
+      await vi.waitFor(() => expect(findResponse()).toBeDefined())
+      expect(findResponse()).toMatchObject({ id: 'req-1', data: { success: true } })
+    })
+
+    it('SHOULD honour per-procedure overrides', async () => {
+      // GIVEN: Validation enabled globally but disabled for navigate
+      const client = createWebClient(createContract(), {
+        validate: { overrides: { navigate: false } },
+      })
+      const handler = vi.fn(async () => ({ success: true }))
+      client.web.handle('navigate', handler)
+
+      // WHEN: Receiving invalid request
+      receive({ id: 'req-1', type: 'request', procedure: 'navigate', data: { path: 1 } })
+
+      // THEN: Handler still invoked
+      await vi.waitFor(() => expect(findResponse()).toBeDefined())
+      expect(handler).toHaveBeenCalled()
+    })
+
+    it('SHOULD validate event data before dispatch', async () => {
+      // GIVEN: Client validating events
+      const onError = vi.fn()
+      const client = createWebClient(createContract(), { validate: true, onError })
+      const handler = vi.fn()
+      client.native.handle('appStateChange', handler)
+
+      // WHEN: Receiving invalid then valid events
+      receive({ id: 'e-1', type: 'event', event: 'appStateChange', data: { state: 1 } })
+      receive({ id: 'e-2', type: 'event', event: 'appStateChange', data: { state: 'active' } })
+
+      // THEN: Only valid event dispatched, invalid one reported
+      await vi.waitFor(() => expect(handler).toHaveBeenCalledWith({ state: 'active' }))
+      expect(handler).toHaveBeenCalledTimes(1)
+      expect(onError).toHaveBeenCalledWith(expect.any(WebViewRPCValidationError))
+    })
+
+    it('SHOULD reject call with WebViewRPCValidationError when native reports VALIDATION_ERROR', async () => {
+      // GIVEN: Pending call
+      const contract = defineContract({
+        native: {
+          share: createProcedureSchema<{ url: string }, { success: boolean }>(),
+        },
+      })
+      const client = createWebClient(contract)
+      const promise = client.native.call('share', { url: 'https://example.com' })
+      const request = sentMessages()[0]
+
+      // WHEN: Native responds with validation error
+      const issues = [{ message: 'Invalid url', path: ['url'] }]
+      receive({
+        id: request.id,
+        type: 'response',
+        error: { message: 'Invalid input', code: 'VALIDATION_ERROR', issues },
+      })
+
+      // THEN: Rejects with issues
+      await expect(promise).rejects.toBeInstanceOf(WebViewRPCValidationError)
+      await expect(promise).rejects.toMatchObject({ code: 'VALIDATION_ERROR', issues })
+    })
+  })
+
+  describe('handshake', () => {
+    const contract = defineContract({
+      native: {
+        share: createProcedureSchema<{ url: string }, { success: boolean }>(),
+      },
+    })
+    const fingerprint = getContractFingerprint(contract)
+
+    it('SHOULD send hello with protocol version and contract fingerprint on creation', () => {
+      // WHEN: Creating client inside WebView
+      createWebClient(contract)
+
+      // THEN: First message is a hello
+      const hello = JSON.parse(mockPostMessage.mock.calls[0][0])
+      expect(hello).toMatchObject({ type: 'hello', version: PROTOCOL_VERSION, fingerprint })
+    })
+
+    it('SHOULD fingerprint the JSON Schema from toJSONSchema', () => {
+      // GIVEN: Converter for a library without built-in JSON Schema
+      const toJSONSchema = () => ({ type: 'object' })
+
+      // WHEN: Creating client with it
+      createWebClient(contract, { toJSONSchema })
+
+      // THEN: Hello carries the fingerprint of the converted schemas
+      const hello = JSON.parse(mockPostMessage.mock.calls[0][0])
+      expect(hello.fingerprint).toBe(getContractFingerprint(contract, { toJSONSchema }))
+      expect(hello.fingerprint).not.toBe(fingerprint)
+    })
+
+    it('SHOULD resolve ready when native acknowledges with matching fingerprint', async () => {
+      // GIVEN: Client that sent hello
+      const client = createWebClient(contract)
+      const hello = JSON.parse(mockPostMessage.mock.calls[0][0])
+
+      // WHEN: Native replies ready
+      receive({ id: hello.id, type: 'ready', version: PROTOCOL_VERSION, fingerprint })
+
+      // THEN: Ready resolves
+      await expect(client.ready).resolves.toBeUndefined()
+    })
+
+    it('SHOULD reject ready with PROTOCOL_MISMATCH when bundles disagree', async () => {
+      // GIVEN: Client with error handler
+      const onError = vi.fn()
+      const client = createWebClient(contract, { onError })
+
+      // WHEN: Native replies with a different protocol version
+      receive({ id: 'h', type: 'ready', version: PROTOCOL_VERSION + 1, fingerprint })
+
+      // THEN: Ready rejects and error reported
+      await expect(client.ready).rejects.toMatchObject({ code: 'PROTOCOL_MISMATCH' })
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'PROTOCOL_MISMATCH' }))
+    })
+
+    it('SHOULD reply ready when native says hello', async () => {
+      // GIVEN: Client
+      const client = createWebClient(contract)
+
+      // WHEN: Native initiates handshake
+      receive({ id: 'native-hello', type: 'hello', version: PROTOCOL_VERSION, fingerprint })
+
+      // THEN: Ready reply echoes the hello id
+      const reply = mockPostMessage.mock.calls
+        .map((call) => JSON.parse(call[0]))
+        .find((message) => message.type === 'ready')
+      expect(reply).toMatchObject({ id: 'native-hello', version: PROTOCOL_VERSION, fingerprint })
+      await expect(client.ready).resolves.toBeUndefined()
+    })
+
+    it('SHOULD reject ready with NOT_IN_WEBVIEW outside a WebView', async () => {
+      // GIVEN: No ReactNativeWebView bridge
+      // biome-ignore lint/suspicious/noExplicitAny: Test code modifying window global
+      ;(window as any).ReactNativeWebView = undefined
+
+      // WHEN: Creating client
+      const client = createWebClient(contract)
+
+      // THEN: Ready rejects, no hello sent
+      await expect(client.ready).rejects.toMatchObject({ code: 'NOT_IN_WEBVIEW' })
+      expect(mockPostMessage).not.toHaveBeenCalled()
+    })
+
+    it('SHOULD reject ready after handshakeTimeout', async () => {
+      // GIVEN: Client with handshake timeout and no native reply
+      const client = createWebClient(contract, { handshakeTimeout: 1000 })
+
+      // WHEN: Timeout elapses
+      vi.advanceTimersByTime(1001)
+
+      // THEN: Ready rejects with timeout
+      await expect(client.ready).rejects.toBeInstanceOf(WebViewRPCTimeoutError)
+    })
+
+    it('SHOULD reject pending ready on cleanup', async () => {
+      // GIVEN: Client waiting for handshake
+      const client = createWebClient(contract)
+
+      // WHEN: Cleaning up
+      client.cleanup()
+
+      // THEN: Ready rejects
+      await expect(client.ready).rejects.toMatchObject({ code: 'CLEANUP' })
+    })
+  })
+
+  describe('outbound queue', () => {
+    const contract = defineContract({
+      web: {
+        pathChanged: createMockSchema<{ path: string }>(),
+      },
+      native: {
+        share: createProcedureSchema<{ url: string }, { success: boolean }>(),
+      },
+    })
+    const fingerprint = getContractFingerprint(contract)
+
+    const acknowledgeHello = () => {
+      receive({ id: 'hello', type: 'ready', version: PROTOCOL_VERSION, fingerprint })
+    }
+
+    it('SHOULD hold requests and events until native is ready, then flush in order', async () => {
+      // GIVEN: Client with queue enabled
+      const client = createWebClient(contract, { queue: true })
+
+      // WHEN: Calling and emitting before handshake completes
+      const promise = client.native.call('share', { url: 'https://example.com' })
+      client.web.emit('pathChanged', { path: '/home' })
+
+      // THEN: Nothing but the hello is sent
+      expect(sentMessages()).toHaveLength(0)
+
+      // WHEN: Native acknowledges
+      acknowledgeHello()
+
+      // THEN: Queued messages flushed in order
+      const [request, event] = sentMessages()
+      expect(request).toMatchObject({ type: 'request', procedure: 'share' })
+      expect(event).toMatchObject({ type: 'event', event: 'pathChanged' })
+
+      receive({ id: request.id, type: 'response', data: { success: true } })
+      await expect(promise).resolves.toEqual({ success: true })
+    })
+
+    it('SHOULD send directly once ready', () => {
+      // GIVEN: Ready client with queue
+      const client = createWebClient(contract, { queue: true })
+      acknowledgeHello()
+
+      // WHEN: Emitting
+      client.web.emit('pathChanged', { path: '/home' })
+
+      // THEN: Sent immediately
+      expect(sentMessages()).toHaveLength(1)
+    })
+
+    it('SHOULD start timeouts on enqueue by default and drop expired requests', async () => {
+      // GIVEN: Queued request
+      const client = createWebClient(contract, { queue: true, timeout: 1000 })
+      const promise = client.native.call('share', { url: 'https://example.com' })
+
+      // WHEN: Timeout elapses before native is ready
+      vi.advanceTimersByTime(1001)
+
+      // THEN: Rejected and never sent
+      await expect(promise).rejects.toBeInstanceOf(WebViewRPCTimeoutError)
+      acknowledgeHello()
+      expect(sentMessages()).toHaveLength(0)
+    })
+
+    it('SHOULD start timeouts on flush when timeoutFrom is flush', async () => {
+      // GIVEN: Queued request with timeout counted from flush
+      const client = createWebClient(contract, {
+        queue: { timeoutFrom: 'flush' },
+        timeout: 1000,
+      })
+      const promise = client.native.call('share', { url: 'https://example.com' })
+      let settled = false
+      promise
+        .catch(() => {})
+        .finally(() => {
+          settled = true
+        })
+
+      // WHEN: Waiting longer than the timeout while queued
+      vi.advanceTimersByTime(5000)
+      await Promise.resolve()
+
+      // THEN: Still pending
+      expect(settled).toBe(false)
+
+      // WHEN: Flushed and timeout elapses
+      acknowledgeHello()
+      vi.advanceTimersByTime(1001)
+
+      // THEN: Times out
+      await expect(promise).rejects.toBeInstanceOf(WebViewRPCTimeoutError)
+    })
+
+    it('SHOULD reject queued requests with QUEUE_FULL and report dropped events', async () => {
+      // GIVEN: Queue holding a single message
+      const onError = vi.fn()
+      const client = createWebClient(contract, { queue: { maxSize: 1 }, onError })
+      const promise = client.native.call('share', { url: 'https://example.com' })
+
+      // WHEN: Enqueuing two events
+      client.web.emit('pathChanged', { path: '/a' })
+      client.web.emit('pathChanged', { path: '/b' })
+
+      // THEN: Request evicted, then first event evicted
+      await expect(promise).rejects.toMatchObject({ code: 'QUEUE_FULL' })
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'QUEUE_FULL' }))
+
+      acknowledgeHello()
+      expect(sentMessages()).toEqual([expect.objectContaining({ data: { path: '/b' } })])
+    })
+
+    it('SHOULD reject queued requests when the handshake fails', async () => {
+      // GIVEN: Queued request
+      const client = createWebClient(contract, { queue: true })
+      const promise = client.native.call('share', { url: 'https://example.com' })
+
+      // WHEN: Native defines share as an event
+      receive({
+        id: 'hello',
+        type: 'ready',
+        version: PROTOCOL_VERSION,
+        fingerprint: 'other',
+        contract: { web: {}, native: { share: { kind: 'event', input: {} } } },
+      })
+
+      // THEN: Request rejected with mismatch
+      await expect(promise).rejects.toMatchObject({ code: 'PROTOCOL_MISMATCH' })
+    })
+
+    it('SHOULD queue outside a WebView and say hello once the bridge appears', () => {
+      // GIVEN: No bridge at construction
+      // biome-ignore lint/suspicious/noExplicitAny: Test code modifying window global
+      const bridge = (globalThis.window as any).ReactNativeWebView
+      // biome-ignore lint/suspicious/noExplicitAny: Test code modifying window global
+      ;(globalThis.window as any).ReactNativeWebView = undefined
+      const client = createWebClient(contract, { queue: true })
+
+      // WHEN: Calling without bridge
+      const promise = client.native.call('share', { url: 'https://example.com' })
+      promise.catch(() => {})
+
+      // THEN: Not rejected with NOT_IN_WEBVIEW, nothing sent
+      expect(mockPostMessage).not.toHaveBeenCalled()
+
+      // WHEN: Bridge injected and another message queued
+      // biome-ignore lint/suspicious/noExplicitAny: Test code modifying window global
+      ;(globalThis.window as any).ReactNativeWebView = bridge
+      client.web.emit('pathChanged', { path: '/home' })
+
+      // THEN: Hello sent, messages flushed after ready
+      expect(JSON.parse(mockPostMessage.mock.calls[0][0]).type).toBe('hello')
+      acknowledgeHello()
+      expect(sentMessages().map((message) => message.type)).toEqual(['request', 'event'])
+    })
+
+    it('SHOULD discard queued messages on cleanup', async () => {
+      // GIVEN: Queued request
+      const client = createWebClient(contract, { queue: true })
+      const promise = client.native.call('share', { url: 'https://example.com' })
+
+      // WHEN: Cleaning up
+      client.cleanup()
+
+      // THEN: Rejected with cleanup error
+      await expect(promise).rejects.toMatchObject({ code: 'CLEANUP' })
+    })
+  })
+
+  describe('cancellation', () => {
+    const contract = defineContract({
+      web: {
+        navigate: createProcedureSchema<{ path: string }, { success: boolean }>(),
+      },
+      native: {
+        share: createProcedureSchema<{ url: string }, { success: boolean }>(),
+      },
+    })
+
+    it('SHOULD reject with ABORTED and send cancel when the signal aborts', async () => {
+      // GIVEN: Call in flight with a signal
+      const client = createWebClient(contract)
+      const controller = new AbortController()
+      const promise = client.native.call(
+        'share',
+        { url: 'https://example.com' },
+        { signal: controller.signal }
+      )
+      const [request] = sentMessages()
+
+      // WHEN: Aborting
+      controller.abort()
+
+      // THEN: Rejected locally and native told to cancel
+      await expect(promise).rejects.toMatchObject({ code: 'ABORTED' })
+      expect(sentMessages().at(-1)).toMatchObject({ id: request.id, type: 'cancel' })
+    })
+
+    it('SHOULD abort the handler signal when native cancels a request', async () => {
+      // GIVEN: Long running web handler
+      const client = createWebClient(contract)
+      let signal: AbortSignal | undefined
+      client.web.handle('navigate', (_data, context) => {
+        signal = context.signal
+        return new Promise(() => {})
+      })
+      receive({ id: 'req-1', type: 'request', procedure: 'navigate', data: { path: '/' } })
+      await vi.waitFor(() => expect(signal).toBeDefined())
+
+      // WHEN: Native cancels
+      receive({ id: 'req-1', type: 'cancel' })
+
+      // THEN: Handler signal aborted
+      expect(signal?.aborted).toBe(true)
+    })
+  })
+
+  describe('call options', () => {
+    const contract = defineContract({
+      native: {
+        share: createProcedureSchema<{ url: string }, { success: boolean }>(),
+      },
+    })
+
+    it('SHOULD send meta headers and deadline, and time out per call', async () => {
+      // GIVEN: Client with a long default timeout
+      vi.setSystemTime(10000)
+      const client = createWebClient(contract, { timeout: 60000 })
+
+      // WHEN: Calling with a short timeout and meta
+      const promise = client.native.call(
+        'share',
+        { url: 'https://example.com' },
+        { timeout: 500, meta: { source: 'analytics' } }
+      )
+
+      // THEN: Envelope carries meta and deadline
+      expect(sentMessages()[0]).toMatchObject({
+        meta: { source: 'analytics' },
+        deadline: 10500,
+      })
+
+      // THEN: Rejects after the per-call timeout
+      vi.advanceTimersByTime(501)
+      await expect(promise).rejects.toMatchObject({ code: 'TIMEOUT', timeout: 500 })
+    })
+  })
+
+  describe('middleware', () => {
+    const contract = defineContract({
+      native: {
+        share: createProcedureSchema<{ url: string }, { success: boolean }>(),
+        appStateChange: createMockSchema<{ state: string }>(),
+      },
+    })
+
+    it('SHOULD run outbound hooks before posting and inbound hooks before dispatch', () => {
+      // GIVEN: Middleware tagging requests and dropping background events
+      const client = createWebClient(contract, {
+        middleware: [
+          {
+            outbound: (message) => {
+              if (message.type === 'request') {
+                message.meta = { client: 'web' }
+              }
+            },
+            inbound: (message) =>
+              message.type === 'event' && (message.data as { state: string }).state === 'background'
+                ? null
+                : undefined,
+          },
+        ],
+      })
+      const listener = vi.fn()
+      client.native.handle('appStateChange', listener)
+
+      // WHEN: Calling and receiving two events
+      client.native.call('share', { url: 'https://example.com' }).catch(() => {})
+      receive({
+        id: 'evt-1',
+        type: 'event',
+        event: 'appStateChange',
+        data: { state: 'background' },
+      })
+      receive({ id: 'evt-2', type: 'event', event: 'appStateChange', data: { state: 'active' } })
+
+      // THEN: Request tagged, background event dropped
+      expect(sentMessages()[0]).toMatchObject({ type: 'request', meta: { client: 'web' } })
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith({ state: 'active' })
+    })
+  })
+
+  describe('message filtering', () => {
+    const contract = defineContract({
+      native: {
+        appStateChange: createMockSchema<{ state: string }>(),
+      },
+    })
+    const event = { id: 'evt-1', type: 'event', event: 'appStateChange', data: { state: 'active' } }
+
+    it('SHOULD ignore foreign messages without reporting them and count them', () => {
+      // GIVEN: Client allowing its embedding page
+      const onError = vi.fn()
+      const client = createWebClient(contract, {
+        onError,
+        allowedOrigins: ['https://app.example.com'],
+      })
+      const listener = vi.fn()
+      client.native.handle('appStateChange', listener)
+
+      // WHEN: Receiving an untagged envelope, one from an ad frame and one from the page
+      window.dispatchEvent(new MessageEvent('message', { data: JSON.stringify(event) }))
+      window.dispatchEvent(
+        new MessageEvent('message', {
+          data: JSON.stringify({ ...event, channel: 'webview-rpc' }),
+          origin: 'https://ads.example.net',
+        })
+      )
+      window.dispatchEvent(
+        new MessageEvent('message', {
+          data: JSON.stringify({ ...event, channel: 'webview-rpc' }),
+          origin: 'https://app.example.com',
+        })
+      )
+
+      // THEN: Only the allowed envelope is dispatched
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(onError).not.toHaveBeenCalled()
+      expect(client.rejectedMessages).toBe(2)
+    })
+
+    it('SHOULD tag envelopes with the configured channel', () => {
+      // GIVEN: Client on a custom channel
+      const client = createWebClient(contract, { channel: 'checkout' })
+
+      // WHEN: Receiving on the default channel and on its own
+      const listener = vi.fn()
+      client.native.handle('appStateChange', listener)
+      receive(event)
+      window.dispatchEvent(
+        new MessageEvent('message', { data: JSON.stringify({ ...event, channel: 'checkout' }) })
+      )
+
+      // THEN: Hello tagged with it, only its own envelope dispatched
+      expect(JSON.parse(mockPostMessage.mock.calls[0][0])).toMatchObject({
+        type: 'hello',
+        channel: 'checkout',
+      })
+      expect(listener).toHaveBeenCalledTimes(1)
+    })
+  })
+
+  describe('batching', () => {
+    const contract = defineContract({
+      web: {
+        scrolled: createMockSchema<{ y: number }>(),
+      },
+      native: {
+        appStateChange: createMockSchema<{ state: string }>(),
+      },
+    })
+
+    it('SHOULD post events emitted in the same tick as one batch envelope', async () => {
+      // GIVEN: Client with batching enabled
+      const client = createWebClient(contract, { batch: true })
+      mockPostMessage.mockClear()
+
+      // WHEN: Emitting three scroll events synchronously
+      client.web.emit('scrolled', { y: 10 })
+      client.web.emit('scrolled', { y: 20 })
+      client.web.emit('scrolled', { y: 30 })
+      await Promise.resolve()
+
+      // THEN: One postMessage carrying the events in order, tagged with the channel
+      expect(mockPostMessage).toHaveBeenCalledTimes(1)
+      const envelope = JSON.parse(mockPostMessage.mock.calls[0][0])
+      expect(envelope).toMatchObject({ type: 'batch', channel: 'webview-rpc' })
+      expect(envelope.messages.map((message: { data: { y: number } }) => message.data.y)).toEqual([
+        10, 20, 30,
+      ])
+    })
+
+    it('SHOULD unpack received batches in order without batching itself', () => {
+      // GIVEN: Client without batching
+      const client = createWebClient(contract)
+      const listener = vi.fn()
+      client.native.handle('appStateChange', listener)
+
+      // WHEN: Receiving a batch of two events
+      receive({
+        id: 'batch-1',
+        type: 'batch',
+        messages: [
+          { id: 'evt-1', type: 'event', event: 'appStateChange', data: { state: 'background' } },
+          { id: 'evt-2', type: 'event', event: 'appStateChange', data: { state: 'active' } },
+        ],
+      })
+
+      // THEN: Both dispatched in order
+      expect(listener.mock.calls).toEqual([[{ state: 'background' }], [{ state: 'active' }]])
+    })
+  })
+
+  describe('streams', () => {
+    const contract = defineContract({
+      web: {
+        suggest: stream(createMockSchema<{ prefix: string }>()).yields(
+          createMockSchema<{ word: string }>()
+        ),
+      },
+      native: {
+        search: stream(createMockSchema<{ query: string }>()).yields(
+          createMockSchema<{ title: string }>()
+        ),
+      },
+    })
+
+    it('SHOULD yield chunks streamed by native until the stream ends', async () => {
+      // GIVEN: Stream call in flight
+      const client = createWebClient(contract)
+      const iterator = client.native.stream('search', { query: 'cat' }, { credits: 8 })
+      const [request] = sentMessages()
+      expect(request).toMatchObject({ type: 'request', procedure: 'search', credits: 8 })
+
+      // WHEN: Native sends chunks and ends
+      receive({ id: request.id, type: 'stream-chunk', data: { title: 'Cat 1' } })
+      receive({ id: request.id, type: 'stream-chunk', data: { title: 'Cat 2' } })
+      receive({ id: request.id, type: 'stream-end' })
+
+      // THEN: Chunks read in order
+      const chunks: Array<{ title: string }> = []
+      for await (const chunk of iterator) {
+        chunks.push(chunk)
+      }
+      expect(chunks).toEqual([{ title: 'Cat 1' }, { title: 'Cat 2' }])
+    })
+
+    it('SHOULD send chunks of a web stream handler as credits allow', async () => {
+      // GIVEN: Generator handler on web
+      const client = createWebClient(contract)
+      client.web.handle('suggest', async function* ({ prefix }) {
+        yield { word: `${prefix}a` }
+        yield { word: `${prefix}b` }
+      })
+
+      // WHEN: Native opens the stream with a single credit
+      receive({
+        id: 'req-1',
+        type: 'request',
+        procedure: 'suggest',
+        data: { prefix: 'x' },
+        credits: 1,
+      })
+      await vi.waitFor(() => expect(sentMessages()).toHaveLength(1))
+
+      // THEN: One chunk sent, the rest after more credits
+      expect(sentMessages()[0]).toMatchObject({ type: 'stream-chunk', data: { word: 'xa' } })
+      receive({ id: 'req-1', type: 'stream-credit', credits: 1 })
+      await vi.waitFor(() => expect(sentMessages()).toHaveLength(2))
+      receive({ id: 'req-1', type: 'stream-credit', credits: 1 })
+      await vi.waitFor(() => expect(sentMessages()).toHaveLength(3))
+      expect(sentMessages().map((message) => message.type)).toEqual([
+        'stream-chunk',
+        'stream-chunk',
+        'stream-end',
+      ])
+    })
+
+    it('SHOULD fail with NOT_IN_WEBVIEW outside a WebView', async () => {
+      // GIVEN: No React Native bridge
+      // biome-ignore lint/suspicious/noExplicitAny: Test code modifying window global
+      ;(globalThis.window as any).ReactNativeWebView = undefined
+      const client = createWebClient(contract)
+
+      // THEN: First read fails
+      await expect(client.native.stream('search', { query: 'x' }).next()).rejects.toMatchObject({
+        code: 'NOT_IN_WEBVIEW',
+      })
+    })
+  })
+
+  describe('subscriptions', () => {
+    const contract = defineContract({
+      native: {
+        location: subscription(createMockSchema<{ accuracy: string }>()).emits(
+          createMockSchema<{ latitude: number }>()
+        ),
+      },
+    })
+
+    it('SHOULD deliver native data until unsubscribed, then cancel once', () => {
+      // GIVEN: Two subscribers to the same input
+      const client = createWebClient(contract)
+      const first = vi.fn()
+      const second = vi.fn()
+      const unsubscribeFirst = client.native.subscribe('location', { accuracy: 'high' }, first)
+      const unsubscribeSecond = client.native.subscribe('location', { accuracy: 'high' }, second)
+
+      // THEN: A single subscribe request
+      const requests = sentMessages()
+      expect(requests).toHaveLength(1)
+      expect(requests[0]).toMatchObject({
+        type: 'request',
+        procedure: 'location',
+        data: { accuracy: 'high' },
+        subscribe: true,
+      })
+
+      // WHEN: Native pushes data
+      receive({ id: requests[0].id, type: 'stream-chunk', data: { latitude: 52 } })
+
+      // THEN: Both subscribers notified
+      expect(first).toHaveBeenCalledWith({ latitude: 52 })
+      expect(second).toHaveBeenCalledWith({ latitude: 52 })
+
+      // WHEN: Both unsubscribe
+      unsubscribeFirst()
+      expect(sentMessages()).toHaveLength(1)
+      unsubscribeSecond()
+
+      // THEN: Native told once
+      expect(sentMessages()).toHaveLength(2)
+      expect(sentMessages()[1]).toMatchObject({ id: requests[0].id, type: 'cancel' })
+    })
+
+    it('SHOULD run a web subscription handler until native cancels', async () => {
+      // GIVEN: Web subscription handler
+      const webContract = defineContract({
+        web: {
+          scroll: subscription(createMockSchema<Record<string, never>>()).emits(
+            createMockSchema<{ y: number }>()
+          ),
+        },
+      })
+      const client = createWebClient(webContract)
+      const teardown = vi.fn()
+      client.web.handle('scroll', (_data, { emit }) => {
+        emit({ y: 10 })
+        return teardown
+      })
+
+      // WHEN: Native subscribes, then cancels
+      receive({ id: 'sub-1', type: 'request', procedure: 'scroll', data: {}, subscribe: true })
+      await vi.waitFor(() => expect(sentMessages()).toHaveLength(1))
+      receive({ id: 'sub-1', type: 'cancel' })
+
+      // THEN: Data pushed, handler torn down
+      expect(sentMessages()[0]).toMatchObject({ type: 'stream-chunk', data: { y: 10 } })
+      await vi.waitFor(() => expect(teardown).toHaveBeenCalled())
+    })
+  })
+
+  describe('transport option', () => {
+    const contract = defineContract({
+      web: {
+        navigate: procedure(createMockSchema<{ path: string }>()).returns(
+          createMockSchema<{ success: boolean }>()
+        ),
+      },
+      native: {
+        share: procedure(createMockSchema<{ url: string }>()).returns(
+          createMockSchema<{ success: boolean }>()
+        ),
+        appStateChange: createMockSchema<{ state: string }>(),
+      },
+    })
+
+    it('SHOULD talk to a native peer over the given transport instead of the bridge', async () => {
+      // GIVEN: Client and native peer linked in memory
+      const link = createMemoryTransportPair()
+      const client = createWebClient(contract, { transport: link.web })
+      const native = createPeer(contract, { transport: link.native, side: 'native' })
+      native.handle('share', ({ url }) => ({ success: url !== '' }))
+      client.web.handle('navigate', () => ({ success: true }))
+
+      // WHEN: Calling in both directions
+      const shared = await client.native.call('share', { url: 'https://example.com' })
+      const navigated = await native.call('navigate', { path: '/home' })
+
+      // THEN: Should answer across the link without touching the bridge
+      expect(shared).toEqual({ success: true })
+      expect(navigated).toEqual({ success: true })
+      expect(client.isWebView).toBe(true)
+      expect(client.rejectedMessages).toBe(0)
+      expect(client.compressionStats.messages).toBe(0)
+      expect(mockPostMessage).not.toHaveBeenCalled()
+
+      // Cleanup
+      client.cleanup()
+      native.close()
+    })
+
+    it('SHOULD keep the kind checks of the client', async () => {
+      // GIVEN: Client over a memory transport
+      const link = createMemoryTransportPair()
+      const client = createWebClient(contract, { transport: link.web })
+
+      // WHEN: Calling a native event
+      const call = client.native.call('appStateChange' as never, { state: 'active' } as never)
+
+      // THEN: Should fail with WRONG_KIND and send nothing
+      await expect(call).rejects.toMatchObject({ code: 'WRONG_KIND' })
+      expect(link.traffic.map((entry) => entry.message.type)).toEqual(['hello'])
+
+      // Cleanup
+      client.cleanup()
+    })
+  })
 })
@@ -4,21 +4,31 @@
  */
 
 import type {
+  CallOptions,
+  CompressionStats,
   Contract,
-  EventMessage,
+  EventNames,
+  InferChunk,
+  InferEmits,
   InferInput,
   InferReturns,
-  Message,
-  RequestMessage,
-  ResponseMessage,
+  ProcedureNames,
+  ProxyTarget,
+  StreamHandler,
+  StreamNames,
+  StreamOptions,
+  SubscribeOptions,
+  SubscriptionHandler,
+  SubscriptionNames,
 } from '@webview-rpc/core'
 import {
   WebViewRPCError,
-  WebViewRPCTimeoutError,
-  defaultDeserializer,
-  defaultSerializer,
-  generateCorrelationId,
+  checkKind,
+  createEmitProxy,
+  createPeer,
+  createProcedureProxy,
 } from '@webview-rpc/core'
+import { type BridgeTransport, createBridgeTransport } from './transport'
 import type { Handler, WebClient, WebClientOptions } from './types'
 
 /**
@@ -26,10 +36,17 @@ import type { Handler, WebClient, WebClientOptions } from './types'
  *
  * The client provides:
  * - `native.call()` - Call procedures on native side (request-response)
+ * - `native.stream()` - Call streams on native side (async iterable of chunks)
+ * - `native.subscribe()` - Subscribe to native subscriptions
  * - `native.handle()` - Listen to events from native side
+ * - `native.$` - Procedures, streams and subscriptions on native side as methods
  * - `web.emit()` - Emit events to native side (fire-and-forget)
+ * - `web.$emit` - Web events as methods emitting them
  * - `web.handle()` - Handle procedure calls from native side
  * - `isWebView` - Detect if running inside a WebView
+ * - `ready` - Resolves once the native side acknowledged the handshake
+ * - `rejectedMessages` - Count of foreign `message` events that were ignored
+ * - `compressionStats` - Totals of the messages sent compressed
  * - `cleanup()` - Clean up resources
  *
  * @example
@@ -42,8 +59,9 @@ import type { Handler, WebClient, WebClientOptions } from './types'
  *   onError: (error) => console.error(error)
  * })
  *
- * // Call native procedure
+ * // Call native procedure, by name or as a method
  * const result = await client.native.call('share', { url: 'https://example.com' })
+ * const same = await client.native.$.share({ url: 'https://example.com' })
  *
  * // Listen to native events
  * client.native.handle('appStateChange', (data) => {
@@ -65,300 +83,288 @@ import type { Handler, WebClient, WebClientOptions } from './types'
  * @returns WebClient instance
  */
 export function createWebClient<TContract extends Contract>(
-  _contract: TContract,
+  contract: TContract,
   options?: WebClientOptions
 ): WebClient<TContract> {
-  // Configuration with defaults
-  const config = {
-    serializer: options?.serializer ?? defaultSerializer,
-    deserializer: options?.deserializer ?? defaultDeserializer,
-    timeout: options?.timeout ?? 5000,
-    onError: options?.onError,
-  }
+  // A transport from the options, such as a memory transport in tests, replaces the bridge
+  const bridge = options?.transport
+    ? undefined
+    : createBridgeTransport({
+        serializer: options?.serializer,
+        deserializer: options?.deserializer,
+        onError: options?.onError,
+        channel: options?.channel,
+        allowedOrigins: options?.allowedOrigins,
+        acceptMessage: options?.acceptMessage,
+        chunking: options?.chunking,
+        compression: options?.compression,
+      })
+  const transport = options?.transport ?? (bridge as BridgeTransport)
 
   // Detect WebView environment
-  const isWebView =
-    // biome-ignore lint/suspicious/noExplicitAny: Required for window global augmentation check
-    typeof window !== 'undefined' && typeof (window as any).ReactNativeWebView !== 'undefined'
-
-  // Pending requests map for correlation
-  const pendingRequests = new Map<
-    string,
-    {
-      resolve: (value: unknown) => void
-      reject: (error: Error) => void
-      timeoutId: ReturnType<typeof setTimeout>
-    }
-  >()
-
-  // Event handlers map
-  // biome-ignore lint/suspicious/noExplicitAny: Handlers are type-safe at registration, stored generically
-  const eventHandlers = new Map<string, Set<(data: any) => void>>()
-
-  // Procedure handlers map
-  // biome-ignore lint/suspicious/noExplicitAny: Handlers are type-safe at registration, stored generically
-  const procedureHandlers = new Map<string, (data: any) => any>()
+  const isWebView = transport.isReady()
+
+  const peer = createPeer(contract, {
+    transport,
+    side: 'web',
+    timeout: options?.timeout,
+    handshakeTimeout: options?.handshakeTimeout,
+    queue: options?.queue,
+    onError: options?.onError,
+    validate: options?.validate,
+    forwardErrorDetails: options?.forwardErrorDetails,
+    middleware: options?.middleware,
+    batch: options?.batch,
+    unknownProcedures: options?.unknownProcedures,
+    toJSONSchema: options?.toJSONSchema,
+    serializer: options?.serializer,
+  })
+
+  const duplicates = options?.duplicateHandlers ?? 'warn'
+
+  // With a queue, the peer waits for the bridge to appear instead of giving up
+  const queueing = Boolean(options?.queue)
+  const ready = isWebView || queueing ? peer.ready : Promise.reject(notInWebView())
+  // Avoid unhandled rejections when nobody awaits `ready`
+  ready.catch(() => {})
 
   /**
-   * Post message to native side
+   * Call a procedure on native side
    */
-  const postToNative = (message: Message): void => {
-    if (!isWebView) {
-      return
+  function call<K extends ProcedureNames<NonNullable<TContract['native']>>>(
+    procedure: K,
+    data: InferInput<NonNullable<TContract['native']>[K]>,
+    callOptions?: CallOptions
+  ): Promise<InferReturns<NonNullable<TContract['native']>[K]>> {
+    const wrongKind = checkKind(contract.native, procedure as string, 'procedure')
+    if (wrongKind) {
+      return Promise.reject(wrongKind)
     }
-
-    try {
-      const serialized = config.serializer(message)
-      // biome-ignore lint/suspicious/noExplicitAny: Required for window global augmentation access
-      ;(window as any).ReactNativeWebView.postMessage(serialized)
-    } catch (error) {
-      config.onError?.(error as Error)
+    if (!isWebView && !queueing) {
+      return Promise.reject(notInWebView())
     }
-  }
 
-  /**
-   * Handle incoming messages from native
-   */
-  const handleMessage = (event: MessageEvent): void => {
-    try {
-      const message = config.deserializer(event.data) as Message
-
-      if (message.type === 'response') {
-        handleResponse(message as ResponseMessage)
-      } else if (message.type === 'event') {
-        handleEvent(message as EventMessage)
-      } else if (message.type === 'request') {
-        handleRequest(message as RequestMessage)
-      }
-    } catch (error) {
-      config.onError?.(error as Error)
-    }
+    return peer.call(procedure, data, callOptions)
   }
 
   /**
-   * Handle response message
+   * Call a stream on native side
    */
-  const handleResponse = (message: ResponseMessage): void => {
-    const pending = pendingRequests.get(message.id)
-    if (!pending) {
-      return
+  function stream<K extends StreamNames<NonNullable<TContract['native']>>>(
+    procedure: K,
+    data: InferInput<NonNullable<TContract['native']>[K]>,
+    streamOptions?: StreamOptions
+  ): AsyncIterableIterator<InferChunk<NonNullable<TContract['native']>[K]>> {
+    const wrongKind = checkKind(contract.native, procedure as string, 'stream')
+    if (wrongKind) {
+      return rejectedStream(wrongKind)
     }
-
-    // Clear timeout
-    clearTimeout(pending.timeoutId)
-    pendingRequests.delete(message.id)
-
-    // Resolve or reject based on error
-    if (message.error) {
-      pending.reject(new WebViewRPCError(message.error.message, message.error.code))
-    } else {
-      pending.resolve(message.data)
+    if (!isWebView && !queueing) {
+      return rejectedStream(notInWebView())
     }
-  }
 
-  /**
-   * Handle event message
-   */
-  const handleEvent = (message: EventMessage): void => {
-    const handlers = eventHandlers.get(message.event)
-    if (!handlers || handlers.size === 0) {
-      return
-    }
-
-    handlers.forEach((handler) => {
-      try {
-        handler(message.data)
-      } catch (error) {
-        config.onError?.(error as Error)
-      }
-    })
+    return peer.stream(procedure, data, streamOptions)
   }
 
   /**
-   * Handle request message (procedure call from native)
+   * Subscribe to a native subscription
    */
-  const handleRequest = async (message: RequestMessage): Promise<void> => {
-    const handler = procedureHandlers.get(message.procedure)
-
-    if (!handler) {
-      // Send error response
-      const errorResponse: ResponseMessage = {
-        id: message.id,
-        type: 'response',
-        error: {
-          message: `No handler registered for procedure: ${message.procedure}`,
-          code: 'NO_HANDLER',
-        },
-      }
-      postToNative(errorResponse)
-      return
-    }
-
-    try {
-      const result = await handler(message.data)
-      const response: ResponseMessage = {
-        id: message.id,
-        type: 'response',
-        data: result,
-      }
-      postToNative(response)
-    } catch (error) {
-      config.onError?.(error as Error)
-
-      const errorResponse: ResponseMessage = {
-        id: message.id,
-        type: 'response',
-        error: {
-          message: (error as Error).message,
-          code: 'HANDLER_ERROR',
-        },
-      }
-      postToNative(errorResponse)
+  function subscribe<K extends SubscriptionNames<NonNullable<TContract['native']>>>(
+    subscription: K,
+    data: InferInput<NonNullable<TContract['native']>[K]>,
+    onData: (data: InferEmits<NonNullable<TContract['native']>[K]>) => void,
+    subscribeOptions?: SubscribeOptions
+  ): () => void {
+    const failure =
+      checkKind(contract.native, subscription as string, 'subscription') ??
+      (!isWebView && !queueing ? notInWebView() : undefined)
+    if (failure) {
+      const report = subscribeOptions?.onError ?? options?.onError
+      report?.(failure)
+      return () => {}
     }
-  }
-
-  /**
-   * Call a procedure on native side
-   */
-  function call<K extends keyof NonNullable<TContract['native']>>(
-    procedure: K,
-    data: InferInput<NonNullable<TContract['native']>[K]>
-  ): Promise<InferReturns<NonNullable<TContract['native']>[K]>> {
-    return new Promise((resolve, reject) => {
-      if (!isWebView) {
-        reject(new WebViewRPCError('Not running in WebView', 'NOT_IN_WEBVIEW'))
-        return
-      }
 
-      const id = generateCorrelationId()
-
-      // Setup timeout
-      const timeoutId = setTimeout(() => {
-        pendingRequests.delete(id)
-        reject(
-          new WebViewRPCTimeoutError(`Request timed out after ${config.timeout}ms`, config.timeout)
-        )
-      }, config.timeout)
-
-      // Store pending request
-      pendingRequests.set(id, { resolve: resolve as (value: unknown) => void, reject, timeoutId })
-
-      // Send request
-      const message: RequestMessage = {
-        id,
-        type: 'request',
-        procedure: procedure as string,
-        data,
-      }
-
-      postToNative(message)
-    })
+    return peer.subscribe(subscription, data, onData, subscribeOptions)
   }
 
   /**
    * Register event handler for native events
    */
-  function handleNativeEvent<K extends keyof NonNullable<TContract['native']>>(
+  function handleNativeEvent<K extends EventNames<NonNullable<TContract['native']>>>(
     event: K,
     handler: (data: InferInput<NonNullable<TContract['native']>[K]>) => void
   ): () => void {
-    const eventName = event as string
-
-    if (!eventHandlers.has(eventName)) {
-      eventHandlers.set(eventName, new Set())
-    }
-
-    // biome-ignore lint/style/noNonNullAssertion: Safe after has() check above
-    const handlers = eventHandlers.get(eventName)!
-    handlers.add(handler)
-
-    // Return unregister function
-    return () => {
-      handlers.delete(handler)
-      if (handlers.size === 0) {
-        eventHandlers.delete(eventName)
-      }
+    const wrongKind = checkKind(contract.native, event as string, 'event')
+    if (wrongKind) {
+      options?.onError?.(wrongKind)
+      return () => {}
     }
+    // A listener of its own per registration, so registering the same function twice
+    // needs two unregisters
+    return peer.on(event, (data: InferInput<NonNullable<TContract['native']>[K]>) => handler(data))
   }
 
   /**
    * Emit event to native side
    */
-  function emit<K extends keyof NonNullable<TContract['web']>>(
+  function emit<K extends EventNames<NonNullable<TContract['web']>>>(
     event: K,
     data: InferInput<NonNullable<TContract['web']>[K]>
   ): void {
-    if (!isWebView) {
+    const wrongKind = checkKind(contract.web, event as string, 'event')
+    if (wrongKind) {
+      options?.onError?.(wrongKind)
       return
     }
-
-    const message: EventMessage = {
-      id: generateCorrelationId(),
-      type: 'event',
-      event: event as string,
-      data,
+    if (!isWebView && !queueing) {
+      return
     }
 
-    postToNative(message)
+    peer.emit(event, data)
   }
 
+  // Current registration of each web procedure, the token its unregister function checks
+  const registrations = new Map<string, HandlerRegistration>()
+
   /**
-   * Register procedure handler for web procedures
+   * Register procedure, stream or subscription handler for web procedures
    */
   function handleWebProcedure<K extends keyof NonNullable<TContract['web']>>(
     procedure: K,
-    handler: Handler<
-      InferInput<NonNullable<TContract['web']>[K]>,
-      InferReturns<NonNullable<TContract['web']>[K]>
-    >
+    handler: Handler | StreamHandler | SubscriptionHandler
   ): () => void {
-    const procedureName = procedure as string
-    procedureHandlers.set(procedureName, handler)
-
-    // Return unregister function
-    return () => {
-      procedureHandlers.delete(procedureName)
+    const name = procedure as string
+    const registration: HandlerRegistration = { stack: options?.captureStack?.() ?? undefined }
+    const current = registrations.get(name)
+    if (current) {
+      const error = duplicateHandler(name, current, registration)
+      if (duplicates === 'throw') {
+        throw error
+      }
+      if (duplicates === 'warn') {
+        if (options?.onError) {
+          options.onError(error)
+        } else if (current.stack || registration.stack || isDevelopment()) {
+          // Without onError the warning would go unnoticed during development
+          console.warn(error.message)
+        }
+      }
     }
-  }
 
-  /**
-   * Cleanup all resources
-   */
-  const cleanup = (): void => {
-    // Cancel all pending requests
-    pendingRequests.forEach((pending, _id) => {
-      clearTimeout(pending.timeoutId)
-      pending.reject(new WebViewRPCError('Client cleanup', 'CLEANUP'))
-    })
-    pendingRequests.clear()
+    registrations.set(name, registration)
+    // A function of its own per registration, so the peer only drops this one
+    const unregister = peer.handle(procedure, ((...args: Parameters<Handler>) =>
+      (handler as Handler)(...args)) as never)
 
-    // Clear all handlers
-    eventHandlers.clear()
-    procedureHandlers.clear()
-
-    // Remove window listener
-    if (typeof window !== 'undefined') {
-      window.removeEventListener('message', handleMessage)
+    return () => {
+      // A later registration replaced this one, so it is not ours to remove
+      if (registrations.get(name) !== registration) {
+        return
+      }
+      registrations.delete(name)
+      unregister()
     }
   }
 
-  // Setup message listener
-  if (typeof window !== 'undefined') {
-    window.addEventListener('message', handleMessage)
-  }
-
   const client: WebClient<TContract> = {
     native: {
       call,
+      stream,
+      subscribe,
       handle: handleNativeEvent,
+      $: createProcedureProxy(
+        contract.native as NonNullable<TContract['native']>,
+        {
+          call,
+          stream,
+          subscribe,
+        } as ProxyTarget
+      ),
     },
     web: {
       emit,
-      handle: handleWebProcedure,
+      handle: handleWebProcedure as WebClient<TContract>['web']['handle'],
+      $emit: createEmitProxy(
+        contract.web as NonNullable<TContract['web']>,
+        emit as (name: string, data: unknown) => void
+      ),
     },
     isWebView,
-    cleanup,
+    ready,
+    get rejectedMessages() {
+      return bridge?.rejectedMessages ?? 0
+    },
+    get compressionStats() {
+      return bridge?.compressionStats ?? { ...NO_COMPRESSION }
+    },
+    cleanup: peer.close,
   }
 
   return client
 }
+
+/**
+ * Compression totals of a client sending through a transport from the options
+ */
+const NO_COMPRESSION: CompressionStats = {
+  messages: 0,
+  originalBytes: 0,
+  compressedBytes: 0,
+  bytesSaved: 0,
+}
+
+/**
+ * Error raised when the page is not running inside a React Native WebView
+ */
+function notInWebView(): WebViewRPCError {
+  return new WebViewRPCError('Not running in WebView', 'NOT_IN_WEBVIEW')
+}
+
+/**
+ * Registration of a web procedure handler
+ */
+interface HandlerRegistration {
+  /**
+   * Where the handler was registered from, when `captureStack` tells
+   */
+  stack?: string
+}
+
+// Replaced by bundlers, the web package does not depend on Node types
+declare const process: { env: { NODE_ENV?: string } }
+
+/**
+ * Whether this is a development build. Bundlers replace `process.env.NODE_ENV`; without one
+ * there is no `process` in the browser, and the build counts as production.
+ */
+function isDevelopment(): boolean {
+  try {
+    return process.env.NODE_ENV !== 'production'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * DUPLICATE_HANDLER error naming where both registrations come from, if known
+ */
+function duplicateHandler(
+  name: string,
+  current: HandlerRegistration,
+  next: HandlerRegistration
+): WebViewRPCError {
+  let message = `Handler already registered for web.${name}`
+  if (current.stack || next.stack) {
+    message += `\n\nRegistered first at:${current.stack ?? ' unknown'}`
+    message += `\n\nRegistered again at:${next.stack ?? ' unknown'}`
+  }
+  return new WebViewRPCError(message, 'DUPLICATE_HANDLER')
+}
+
+/**
+ * Stream failing with an error on its first read
+ */
+// biome-ignore lint/correctness/useYield: Fails before producing any chunk
+async function* rejectedStream(error: WebViewRPCError): AsyncIterableIterator<never> {
+  throw error
+}
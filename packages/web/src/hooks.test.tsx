@@ -167,7 +167,7 @@ describe('useEvent', () => {
     }
 
     const messageEvent = new MessageEvent('message', {
-      data: JSON.stringify(eventMessage),
+      data: JSON.stringify({ ...eventMessage, channel: 'webview-rpc' }),
     })
     window.dispatchEvent(messageEvent)
 
@@ -330,7 +330,7 @@ describe('useProcedure', () => {
 
     await act(async () => {
       const messageEvent = new MessageEvent('message', {
-        data: JSON.stringify(responseMessage),
+        data: JSON.stringify({ ...responseMessage, channel: 'webview-rpc' }),
       })
       window.dispatchEvent(messageEvent)
 
@@ -7,7 +7,7 @@
 
 import type { Contract, InferInput, InferReturns } from '@webview-rpc/core'
 import { useCallback, useEffect, useRef, useState } from 'react'
-import type { Handler } from './types'
+import type { EventHandler } from './types'
 import { useClient } from './provider'
 
 /**
@@ -38,12 +38,7 @@ export function useEvent<
 >(
   side: TSide,
   event: TEvent,
-  handler: Handler<
-    InferInput<NonNullable<TContract[TSide]>[TEvent]>,
-    NonNullable<TContract[TSide]>[TEvent] extends { returns: unknown }
-      ? InferReturns<NonNullable<TContract[TSide]>[TEvent]>
-      : void
-  >
+  handler: EventHandler<InferInput<NonNullable<TContract[TSide]>[TEvent]>>
 ): void {
   const client = useClient<TContract>()
 
@@ -10,6 +10,10 @@
 // Client
 export { createWebClient } from './client'
 
+// Transport
+export { createBridgeTransport } from './transport'
+export type { BridgeTransport, BridgeTransportOptions } from './transport'
+
 // Provider and hooks
 export { WebViewRPCProvider, useClient } from './provider'
 export { useEvent, useProcedure } from './hooks'
@@ -18,6 +22,7 @@ export { useEvent, useProcedure } from './hooks'
 export type {
   WebClient,
   WebClientOptions,
+  DuplicateHandlerPolicy,
   Handler,
   EventHandler,
 } from './types'
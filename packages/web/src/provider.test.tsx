@@ -5,7 +5,8 @@
 
 import type { StandardSchemaV1 } from '@standard-schema/spec'
 import { render, screen } from '@testing-library/react'
-import { defineContract } from '@webview-rpc/core'
+import { defineContract, procedure } from '@webview-rpc/core'
+import { StrictMode, useEffect } from 'react'
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 import { WebViewRPCProvider, useClient } from './provider'
 
@@ -123,6 +124,84 @@ describe('WebViewRPCProvider', () => {
       expect(clientInstance).toBeDefined()
     })
 
+    it('SHOULD name the components registering the same handler under StrictMode', () => {
+      // GIVEN: Two components handling the same web procedure
+      const contract = defineContract({
+        web: {
+          navigate: procedure(createMockSchema<{ path: string }>()).returns(
+            createMockSchema<{ success: boolean }>()
+          ),
+        },
+      })
+      const onError = vi.fn()
+
+      function useNavigateHandler() {
+        const client = useClient<typeof contract>()
+        useEffect(() => client.web.handle('navigate', () => ({ success: true })), [client])
+      }
+
+      function Router() {
+        useNavigateHandler()
+        return null
+      }
+
+      function Breadcrumbs() {
+        useNavigateHandler()
+        return null
+      }
+
+      // WHEN: Rendering both in StrictMode, which mounts every effect twice
+      render(
+        <StrictMode>
+          <WebViewRPCProvider contract={contract} options={{ onError }}>
+            <Router />
+            <Breadcrumbs />
+          </WebViewRPCProvider>
+        </StrictMode>
+      )
+
+      // THEN: Breadcrumbs competing with Router is reported once per mount, naming both
+      const duplicates = onError.mock.calls
+        .map(([error]) => error)
+        .filter((error) => error.code === 'DUPLICATE_HANDLER')
+      expect(duplicates).toHaveLength(2)
+      expect(duplicates[0].message).toMatch(/Registered first at:[\s\S]*Router/)
+      expect(duplicates[0].message).toMatch(/Registered again at:[\s\S]*Breadcrumbs/)
+    })
+
+    it('SHOULD name components when captureStack is passed as undefined', () => {
+      // GIVEN: Component registering the same web procedure twice
+      const contract = defineContract({
+        web: {
+          navigate: procedure(createMockSchema<{ path: string }>()).returns(
+            createMockSchema<{ success: boolean }>()
+          ),
+        },
+      })
+      const onError = vi.fn()
+
+      function Router() {
+        const client = useClient<typeof contract>()
+        useEffect(() => {
+          client.web.handle('navigate', () => ({ success: true }))
+          client.web.handle('navigate', () => ({ success: true }))
+        }, [client])
+        return null
+      }
+
+      // WHEN: Rendering with captureStack explicitly undefined
+      render(
+        <WebViewRPCProvider contract={contract} options={{ onError, captureStack: undefined }}>
+          <Router />
+        </WebViewRPCProvider>
+      )
+
+      // THEN: Should still name the component
+      const [error] = onError.mock.calls[0]
+      expect(error.code).toBe('DUPLICATE_HANDLER')
+      expect(error.message).toMatch(/Registered first at:[\s\S]*Router/)
+    })
+
     it('SHOULD provide same client instance to multiple children', () => {
       // GIVEN: Contract
       const contract = defineContract({
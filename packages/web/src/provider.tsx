@@ -16,6 +16,13 @@ import type { WebClient, WebClientOptions } from './types'
 // biome-ignore lint/suspicious/noExplicitAny: Context must accept any contract type for flexibility
 const WebViewRPCContext = createContext<WebClient<any> | null>(null)
 
+/**
+ * Component stack of the current render or effect, available in React development
+ * builds only
+ */
+const captureComponentStack =
+  typeof React.captureOwnerStack === 'function' ? React.captureOwnerStack : undefined
+
 /**
  * Props for WebViewRPCProvider
  */
@@ -69,7 +76,10 @@ export function WebViewRPCProvider<TContract extends Contract>(
   const clientRef = useRef<WebClient<TContract> | null>(null)
 
   if (!clientRef.current) {
-    clientRef.current = createWebClient(contract, options)
+    clientRef.current = createWebClient(contract, {
+      ...options,
+      captureStack: options?.captureStack ?? captureComponentStack,
+    })
   }
 
   const client = clientRef.current
@@ -0,0 +1,304 @@
+/**
+ * Tests for createBridgeTransport
+ * @module transport.test
+ */
+
+import { type Message, compressText, splitMessage } from '@webview-rpc/core'
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createBridgeTransport } from './transport'
+
+const message: Message = { id: 'id-1', type: 'event', event: 'pathChanged', data: { path: '/' } }
+const tagged: Message = { ...message, channel: 'webview-rpc' }
+
+// Helper to deliver a message from native, or from another window when an origin is given
+const receive = (data: unknown, origin = '') => {
+  window.dispatchEvent(new MessageEvent('message', { data, origin }))
+}
+
+describe('createBridgeTransport', () => {
+  const mockPostMessage = vi.fn()
+
+  beforeEach(() => {
+    // biome-ignore lint/suspicious/noExplicitAny: Test code modifying window global
+    ;(window as any).ReactNativeWebView = { postMessage: mockPostMessage }
+  })
+
+  afterEach(() => {
+    // biome-ignore lint/suspicious/noExplicitAny: Test code modifying window global
+    ;(window as any).ReactNativeWebView = undefined
+    vi.clearAllMocks()
+  })
+
+  it('SHOULD serialize and post messages through the bridge', () => {
+    // GIVEN: Transport with bridge available
+    const transport = createBridgeTransport()
+
+    // WHEN: Sending
+    transport.send(message)
+
+    // THEN: Posted as JSON, tagged with the channel
+    expect(transport.isReady()).toBe(true)
+    expect(mockPostMessage).toHaveBeenCalledWith(JSON.stringify(tagged))
+  })
+
+  it('SHOULD drop messages while the bridge is missing', () => {
+    // GIVEN: No bridge
+    // biome-ignore lint/suspicious/noExplicitAny: Test code modifying window global
+    ;(window as any).ReactNativeWebView = undefined
+    const transport = createBridgeTransport()
+
+    // WHEN: Sending
+    transport.send(message)
+
+    // THEN: Not ready, nothing posted
+    expect(transport.isReady()).toBe(false)
+    expect(mockPostMessage).not.toHaveBeenCalled()
+  })
+
+  it('SHOULD deliver deserialized window messages to subscribers until unsubscribed', () => {
+    // GIVEN: Subscribed listener
+    const transport = createBridgeTransport()
+    const listener = vi.fn()
+    const unsubscribe = transport.subscribe(listener)
+
+    // WHEN: Receiving, unsubscribing, receiving again
+    receive(JSON.stringify(tagged))
+    unsubscribe()
+    receive(JSON.stringify(tagged))
+
+    // THEN: Delivered once
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(listener).toHaveBeenCalledWith(tagged)
+  })
+
+  it('SHOULD silently count messages that are not envelopes of the channel', () => {
+    // GIVEN: Transport with error handler
+    const onError = vi.fn()
+    const transport = createBridgeTransport({ onError })
+    const listener = vi.fn()
+    transport.subscribe(listener)
+
+    // WHEN: Receiving invalid JSON, an object, an untagged and a foreign-tagged envelope
+    receive('not json')
+    receive({ source: 'react-devtools' })
+    receive(JSON.stringify(message))
+    receive(JSON.stringify({ ...message, channel: 'other' }))
+
+    // THEN: All ignored and counted, nothing reported
+    expect(listener).not.toHaveBeenCalled()
+    expect(onError).not.toHaveBeenCalled()
+    expect(transport.rejectedMessages).toBe(4)
+  })
+
+  it('SHOULD accept a custom channel on both ends', () => {
+    // GIVEN: Transport on its own channel
+    const transport = createBridgeTransport({ channel: 'checkout' })
+    const listener = vi.fn()
+    transport.subscribe(listener)
+
+    // WHEN: Sending and receiving
+    transport.send(message)
+    receive(JSON.stringify({ ...message, channel: 'checkout' }))
+    receive(JSON.stringify(tagged))
+
+    // THEN: Tagged with it, only its envelopes delivered
+    expect(JSON.parse(mockPostMessage.mock.calls[0][0])).toMatchObject({ channel: 'checkout' })
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(transport.rejectedMessages).toBe(1)
+  })
+
+  it('SHOULD ignore messages from other windows unless their origin is allowed', () => {
+    // GIVEN: Transport allowing the embedding page
+    const transport = createBridgeTransport({ allowedOrigins: ['https://app.example.com'] })
+    const listener = vi.fn()
+    transport.subscribe(listener)
+
+    // WHEN: Receiving from an ad iframe and from the allowed origin
+    receive(JSON.stringify(tagged), 'https://ads.example.net')
+    receive(JSON.stringify(tagged), 'https://app.example.com')
+
+    // THEN: Only the allowed origin is delivered
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(transport.rejectedMessages).toBe(1)
+  })
+
+  it('SHOULD let acceptMessage decide instead of the origin check', () => {
+    // GIVEN: Predicate rejecting everything but one origin
+    const acceptMessage = vi.fn((event: MessageEvent) => event.origin === 'https://trusted.dev')
+    const transport = createBridgeTransport({ acceptMessage })
+    const listener = vi.fn()
+    transport.subscribe(listener)
+
+    // WHEN: Receiving from the bridge and from the trusted origin
+    receive(JSON.stringify(tagged))
+    receive(JSON.stringify(tagged), 'https://trusted.dev')
+
+    // THEN: Predicate applied to each event
+    expect(acceptMessage).toHaveBeenCalledTimes(2)
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(transport.rejectedMessages).toBe(1)
+  })
+
+  it('SHOULD stop delivering after close', () => {
+    // GIVEN: Subscribed listener
+    const transport = createBridgeTransport()
+    const listener = vi.fn()
+    transport.subscribe(listener)
+
+    // WHEN: Closing
+    transport.close()
+    receive(JSON.stringify(tagged))
+
+    // THEN: Nothing delivered
+    expect(listener).not.toHaveBeenCalled()
+  })
+
+  describe('chunking', () => {
+    const large: Message = {
+      id: 'req-1',
+      type: 'request',
+      procedure: 'upload',
+      data: { image: 'a'.repeat(200) },
+    }
+    const serialized = JSON.stringify({ ...large, channel: 'webview-rpc' })
+
+    it('SHOULD post messages above the threshold as chunk frames and report progress', () => {
+      // GIVEN: Transport splitting above 100 characters
+      const transport = createBridgeTransport({ chunking: { threshold: 100 } })
+      const onProgress = vi.fn()
+      transport.subscribeProgress?.(onProgress)
+
+      // WHEN: Sending a small and a large message
+      transport.send(message)
+      transport.send(large)
+
+      // THEN: Small one posted as is, large one as tagged frames rebuilding it
+      const posted = mockPostMessage.mock.calls.map((call) => JSON.parse(call[0]))
+      expect(posted[0]).toEqual(tagged)
+      const frames = posted.slice(1)
+      expect(frames).toHaveLength(Math.ceil(serialized.length / 100))
+      expect(frames[0]).toMatchObject({ type: 'chunk', messageId: 'req-1', channel: 'webview-rpc' })
+      expect(frames.map((frame) => frame.data).join('')).toBe(serialized)
+      expect(onProgress).toHaveBeenCalledTimes(frames.length)
+      expect(onProgress).toHaveBeenLastCalledWith({
+        id: 'req-1',
+        direction: 'outbound',
+        loaded: serialized.length,
+        total: serialized.length,
+      })
+    })
+
+    it('SHOULD reassemble frames from native without chunking enabled', () => {
+      // GIVEN: Default transport
+      const transport = createBridgeTransport()
+      const listener = vi.fn()
+      transport.subscribe(listener)
+
+      // WHEN: Receiving the frames of a large message
+      for (const frame of splitMessage(serialized, 'req-1', 100)) {
+        receive(JSON.stringify({ ...frame, channel: 'webview-rpc' }))
+      }
+
+      // THEN: Delivered once, rebuilt
+      expect(listener).toHaveBeenCalledTimes(1)
+      expect(listener).toHaveBeenCalledWith({ ...large, channel: 'webview-rpc' })
+      expect(transport.rejectedMessages).toBe(0)
+    })
+
+    it('SHOULD report frames failing the integrity check', () => {
+      // GIVEN: Transport with an error handler
+      const onError = vi.fn()
+      const transport = createBridgeTransport({ onError })
+      const listener = vi.fn()
+      transport.subscribe(listener)
+
+      // WHEN: Receiving frames, one of them altered
+      const frames = splitMessage(serialized, 'req-1', 100)
+      frames[1] = { ...frames[1], data: frames[1].data.replace('a', 'b') }
+      for (const frame of frames) {
+        receive(JSON.stringify({ ...frame, channel: 'webview-rpc' }))
+      }
+
+      // THEN: Reported, nothing delivered
+      expect(onError).toHaveBeenCalledWith(expect.objectContaining({ code: 'CHUNK_INTEGRITY' }))
+      expect(listener).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('compression', () => {
+    const large: Message = {
+      id: 'req-1',
+      type: 'request',
+      procedure: 'saveForm',
+      data: { fields: Array.from({ length: 100 }, (_, index) => ({ name: `field${index}` })) },
+    }
+    const serialized = JSON.stringify({ ...large, channel: 'webview-rpc' })
+
+    it('SHOULD compress large messages once native announced it reads them', () => {
+      // GIVEN: Transport compressing above 100 characters
+      const transport = createBridgeTransport({ compression: { threshold: 100 } })
+
+      // WHEN: Sending before and after native announced lzw
+      transport.send(large)
+      transport.setRemoteEncodings?.(['lzw'])
+      transport.send(large)
+
+      // THEN: First posted as is, second as a compressed frame
+      const posted = mockPostMessage.mock.calls.map((call) => JSON.parse(call[0]))
+      expect(posted[0]).toEqual({ ...large, channel: 'webview-rpc' })
+      expect(posted[1]).toMatchObject({
+        type: 'compressed',
+        id: 'req-1',
+        encoding: 'lzw',
+        channel: 'webview-rpc',
+      })
+      expect(transport.encodings).toEqual(['lzw'])
+      expect(transport.compressionStats).toMatchObject({
+        messages: 1,
+        originalBytes: serialized.length,
+      })
+      expect(transport.compressionStats.bytesSaved).toBeGreaterThan(0)
+    })
+
+    it('SHOULD read compressed messages from native without compression enabled', () => {
+      // GIVEN: Default transport
+      const transport = createBridgeTransport()
+      const listener = vi.fn()
+      transport.subscribe(listener)
+
+      // WHEN: Receiving a compressed message
+      receive(
+        JSON.stringify({
+          type: 'compressed',
+          id: 'req-1',
+          encoding: 'lzw',
+          data: compressText(serialized),
+          channel: 'webview-rpc',
+        })
+      )
+
+      // THEN: Delivered decompressed
+      expect(listener).toHaveBeenCalledWith({ ...large, channel: 'webview-rpc' })
+    })
+
+    it('SHOULD split compressed messages still above the chunking threshold', () => {
+      // GIVEN: Transport compressing and chunking, native reading lzw
+      const transport = createBridgeTransport({
+        compression: { threshold: 100 },
+        chunking: { threshold: 50 },
+      })
+      transport.setRemoteEncodings?.(['lzw'])
+
+      // WHEN: Sending a large message
+      transport.send(large)
+
+      // THEN: Frames rebuild the compressed frame
+      const frames = mockPostMessage.mock.calls.map((call) => JSON.parse(call[0]))
+      expect(frames.length).toBeGreaterThan(1)
+      expect(JSON.parse(frames.map((frame) => frame.data).join(''))).toMatchObject({
+        type: 'compressed',
+        id: 'req-1',
+      })
+    })
+  })
+})
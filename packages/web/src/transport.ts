@@ -0,0 +1,299 @@
+/**
+ * Transport over the React Native WebView bridge, as seen from the page
+ * @module transport
+ */
+
+import type {
+  ChunkFrame,
+  ChunkingOptions,
+  CompressedFrame,
+  CompressionOptions,
+  CompressionStats,
+  Deserializer,
+  Message,
+  Reassembler,
+  Serializer,
+  TransferProgress,
+  Transport,
+} from '@webview-rpc/core'
+import {
+  DEFAULT_CHANNEL,
+  DEFAULT_CHUNK_THRESHOLD,
+  createCompressor,
+  createReassembler,
+  defaultDeserializer,
+  defaultSerializer,
+  isChannelMessage,
+  isChunkFrame,
+  isCompressedFrame,
+  splitMessage,
+} from '@webview-rpc/core'
+
+/**
+ * Options for creating a bridge transport
+ */
+export interface BridgeTransportOptions {
+  /**
+   * Custom serializer function (default: JSON.stringify)
+   */
+  serializer?: Serializer
+
+  /**
+   * Custom deserializer function (default: JSON.parse)
+   */
+  deserializer?: Deserializer
+
+  /**
+   * Error handler for messages that cannot be handled
+   */
+  onError?: (error: Error) => void
+
+  /**
+   * Channel tag added to every envelope and required on received ones (default:
+   * 'webview-rpc'). Must match the native client.
+   */
+  channel?: string
+
+  /**
+   * Origins of other windows allowed to deliver messages, such as a parent page embedding
+   * this one. Messages from the native bridge have no origin and are always allowed
+   * (default: none).
+   */
+  allowedOrigins?: string[]
+
+  /**
+   * Decide whether a `message` event may be delivered, replacing the origin check
+   */
+  acceptMessage?: (event: MessageEvent) => boolean
+
+  /**
+   * Split serialized messages above a threshold into chunk frames (default: disabled).
+   * Frames from the native side are reassembled either way.
+   */
+  chunking?: boolean | ChunkingOptions
+
+  /**
+   * Compress serialized messages above a threshold once the native side announced it can
+   * read them (default: disabled). Compressed messages from the native side are read either
+   * way.
+   */
+  compression?: boolean | CompressionOptions
+}
+
+/**
+ * Transport over the bridge, counting the `message` events it ignored
+ */
+export interface BridgeTransport extends Transport {
+  /**
+   * Number of `message` events ignored because of their origin, or because they were not
+   * envelopes of the channel
+   */
+  readonly rejectedMessages: number
+
+  /**
+   * Compression encodings this transport reads, announced during the handshake
+   */
+  readonly encodings: string[]
+
+  /**
+   * Totals of the messages sent compressed
+   */
+  readonly compressionStats: CompressionStats
+}
+
+/**
+ * Check whether the ReactNativeWebView bridge is available
+ */
+function hasBridge(): boolean {
+  // biome-ignore lint/suspicious/noExplicitAny: Required for window global augmentation check
+  return typeof window !== 'undefined' && typeof (window as any).ReactNativeWebView !== 'undefined'
+}
+
+/**
+ * Creates a transport sending through `window.ReactNativeWebView.postMessage` and
+ * receiving `message` events on `window`.
+ *
+ * The bridge may be injected after the page starts, so readiness is checked on
+ * every call. Messages sent while the bridge is missing are dropped.
+ *
+ * Other scripts, iframes and extensions post to `window` too, so received events are
+ * delivered only when their origin is allowed and their data is an envelope tagged with
+ * the channel. Everything else is silently counted in `rejectedMessages`.
+ *
+ * With `compression`, messages serialized above its threshold are compressed once the
+ * handshake showed the native side reads them. With `chunking`, messages still above the
+ * chunking threshold are posted as a sequence of chunk frames, reassembled by the native
+ * transport.
+ *
+ * @example
+ * ```typescript
+ * const transport = createBridgeTransport({ onError: console.error })
+ * const peer = createPeer(contract, { transport, side: 'web' })
+ * ```
+ *
+ * @param options - Serialization, filtering and error handling options
+ * @returns Transport instance
+ */
+export function createBridgeTransport(options?: BridgeTransportOptions): BridgeTransport {
+  const serializer = options?.serializer ?? defaultSerializer
+  const deserializer = options?.deserializer ?? defaultDeserializer
+  const onError = options?.onError
+  const channel = options?.channel ?? DEFAULT_CHANNEL
+  const allowedOrigins = options?.allowedOrigins ?? []
+  const acceptMessage =
+    options?.acceptMessage ??
+    // The native bridge dispatches its messages on the page itself, without an origin
+    ((event: MessageEvent) => event.origin === '' || allowedOrigins.includes(event.origin))
+  const chunking = options?.chunking === true ? {} : options?.chunking || undefined
+  const threshold = chunking?.threshold ?? DEFAULT_CHUNK_THRESHOLD
+  const chunkSize = chunking?.chunkSize ?? threshold
+  const compressor = createCompressor(
+    options?.compression === true ? {} : options?.compression || undefined
+  )
+  let rejectedMessages = 0
+
+  // Window listeners by subscriber, removed on unsubscribe or close
+  const windowListeners = new Map<(message: Message) => void, (event: MessageEvent) => void>()
+  const reassemblers = new Map<(message: Message) => void, Reassembler>()
+  const progressListeners = new Set<(progress: TransferProgress) => void>()
+
+  const reportProgress = (progress: TransferProgress): void => {
+    for (const listener of progressListeners) {
+      listener(progress)
+    }
+  }
+
+  const send = (message: Message): void => {
+    if (!hasBridge()) {
+      return
+    }
+    // biome-ignore lint/suspicious/noExplicitAny: Required for window global augmentation access
+    const bridge = (window as any).ReactNativeWebView
+
+    let serialized = serializer({ ...message, channel })
+    const compressed = compressor.compress(serialized, message.id)
+    if (compressed) {
+      serialized = serializer({ ...compressed, channel })
+    }
+    if (!chunking || serialized.length <= threshold) {
+      bridge.postMessage(serialized)
+      return
+    }
+
+    for (const frame of splitMessage(serialized, message.id, chunkSize)) {
+      bridge.postMessage(serializer({ ...frame, channel }))
+      reportProgress({
+        id: message.id,
+        direction: 'outbound',
+        loaded: Math.min((frame.index + 1) * chunkSize, frame.length),
+        total: frame.length,
+      })
+    }
+  }
+
+  /**
+   * Deserialize the data of an allowed event, or undefined if it is not an envelope of the
+   * channel
+   */
+  const receive = (event: MessageEvent): Message | ChunkFrame | CompressedFrame | undefined => {
+    if (!acceptMessage(event) || typeof event.data !== 'string') {
+      return undefined
+    }
+
+    let data: unknown
+    try {
+      data = deserializer(event.data)
+    } catch {
+      // Foreign traffic is often not in our format at all
+      return undefined
+    }
+    // Chunk frames are tagged like the envelopes they carry
+    return isChannelMessage(data, channel) ? data : undefined
+  }
+
+  const unsubscribe = (listener: (message: Message) => void): void => {
+    const windowListener = windowListeners.get(listener)
+    if (!windowListener) {
+      return
+    }
+
+    windowListeners.delete(listener)
+    reassemblers.get(listener)?.clear()
+    reassemblers.delete(listener)
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('message', windowListener)
+    }
+  }
+
+  const subscribe = (listener: (message: Message) => void): (() => void) => {
+    // Each subscriber sees every frame, so each reassembles on its own
+    const reassembler = createReassembler({
+      timeout: chunking?.reassemblyTimeout,
+      onProgress: reportProgress,
+      onError,
+    })
+
+    const windowListener = (event: MessageEvent): void => {
+      const data = receive(event)
+      if (!data) {
+        rejectedMessages++
+        return
+      }
+
+      try {
+        let message: unknown = data
+        if (isChunkFrame(message)) {
+          const serialized = reassembler.receive(message)
+          if (serialized === undefined) {
+            return
+          }
+          message = deserializer(serialized)
+        }
+        if (isCompressedFrame(message)) {
+          message = deserializer(compressor.decompress(message))
+        }
+        listener(message as Message)
+      } catch (error) {
+        onError?.(error as Error)
+      }
+    }
+
+    windowListeners.set(listener, windowListener)
+    reassemblers.set(listener, reassembler)
+    if (typeof window !== 'undefined') {
+      window.addEventListener('message', windowListener)
+    }
+
+    return () => unsubscribe(listener)
+  }
+
+  const subscribeProgress = (listener: (progress: TransferProgress) => void): (() => void) => {
+    progressListeners.add(listener)
+    return () => {
+      progressListeners.delete(listener)
+    }
+  }
+
+  const close = (): void => {
+    for (const listener of Array.from(windowListeners.keys())) {
+      unsubscribe(listener)
+    }
+    progressListeners.clear()
+  }
+
+  return {
+    send,
+    subscribe,
+    subscribeProgress,
+    close,
+    isReady: hasBridge,
+    encodings: compressor.encodings,
+    setRemoteEncodings: compressor.setRemoteEncodings,
+    get rejectedMessages() {
+      return rejectedMessages
+    },
+    get compressionStats() {
+      return compressor.stats
+    },
+  }
+}
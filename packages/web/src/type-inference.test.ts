@@ -119,7 +119,7 @@ describe('Type Inference - WebClient', () => {
   })
 
   describe('native.call() - procedure name inference', () => {
-    it('should constrain procedure parameter to native keys', () => {
+    it('should constrain procedure parameter to native procedure names', () => {
       // GIVEN: A typed client
       type Client = WebClient<typeof testContract>
 
@@ -131,8 +131,8 @@ describe('Type Inference - WebClient', () => {
       expectTypeOf<'navigate'>().toMatchTypeOf<FirstParam>()
       expectTypeOf<'share'>().toMatchTypeOf<FirstParam>()
 
-      // Should also accept event names (they're valid keys)
-      expectTypeOf<'appStateChanged'>().toMatchTypeOf<FirstParam>()
+      // Should NOT accept event names
+      expectTypeOf<'appStateChanged'>().not.toMatchTypeOf<FirstParam>()
 
       // Should NOT accept web names
       expectTypeOf<'showToast'>().not.toMatchTypeOf<FirstParam>()
@@ -174,17 +174,17 @@ describe('Type Inference - WebClient', () => {
   })
 
   describe('native.handle() - handler parameter types', () => {
-    it('should constrain event names to native keys', () => {
+    it('should constrain event names to native events', () => {
       // GIVEN: A typed client
       type Client = WebClient<typeof testContract>
 
-      // THEN: First parameter should be constrained to native keys
+      // THEN: First parameter should be constrained to native event names
       type HandleFunction = Client['native']['handle']
       type FirstParam = Parameters<HandleFunction>[0]
 
       expectTypeOf<'appStateChanged'>().toMatchTypeOf<FirstParam>()
-      expectTypeOf<'navigate'>().toMatchTypeOf<FirstParam>()
-      expectTypeOf<'share'>().toMatchTypeOf<FirstParam>()
+      expectTypeOf<'navigate'>().not.toMatchTypeOf<FirstParam>()
+      expectTypeOf<'share'>().not.toMatchTypeOf<FirstParam>()
     })
 
     it('should accept handler function as second parameter', () => {
@@ -207,7 +207,7 @@ describe('Type Inference - WebClient', () => {
   })
 
   describe('web.emit() - event name and data inference', () => {
-    it('should constrain event parameter to web names', () => {
+    it('should constrain event parameter to web event names', () => {
       // GIVEN: A typed client
       type Client = WebClient<typeof testContract>
 
@@ -215,10 +215,10 @@ describe('Type Inference - WebClient', () => {
       type EmitFunction = Client['web']['emit']
       type FirstParam = Parameters<EmitFunction>[0]
 
-      // Should accept valid web names
+      // Should accept web event names only
       expectTypeOf<'counterChanged'>().toMatchTypeOf<FirstParam>()
       expectTypeOf<'userLoggedIn'>().toMatchTypeOf<FirstParam>()
-      expectTypeOf<'showToast'>().toMatchTypeOf<FirstParam>()
+      expectTypeOf<'showToast'>().not.toMatchTypeOf<FirstParam>()
 
       // Should NOT accept native names
       expectTypeOf<'navigate'>().not.toMatchTypeOf<FirstParam>()
@@ -4,11 +4,35 @@
  */
 
 import type {
+  BatchOptions,
+  CallOptions,
+  ChunkingOptions,
+  CompressionOptions,
+  CompressionStats,
   Contract,
+  DescribeOptions,
   Deserializer,
+  EmitProxy,
+  EventNames,
+  HandlerContext,
+  InferChunk,
+  InferEmits,
   InferInput,
   InferReturns,
+  Middleware,
+  ProcedureNames,
+  ProcedureProxy,
+  QueueOptions,
   Serializer,
+  StreamHandler,
+  StreamNames,
+  StreamOptions,
+  SubscribeOptions,
+  SubscriptionHandler,
+  SubscriptionNames,
+  Transport,
+  UnknownProcedurePolicy,
+  ValidationSetting,
 } from '@webview-rpc/core'
 
 /**
@@ -20,20 +44,51 @@ export interface WebClient<TContract extends Contract> {
    */
   native: {
     /**
-     * Call a procedure on the native side (request-response)
+     * Call a procedure on the native side (request-response). Rejects with a WRONG_KIND
+     * error for names the contract defines as another kind.
      */
-    call: <K extends keyof NonNullable<TContract['native']>>(
+    call: <K extends ProcedureNames<NonNullable<TContract['native']>>>(
       procedure: K,
-      data: InferInput<NonNullable<TContract['native']>[K]>
+      data: InferInput<NonNullable<TContract['native']>[K]>,
+      options?: CallOptions
     ) => Promise<InferReturns<NonNullable<TContract['native']>[K]>>
 
     /**
-     * Register a handler for native events
+     * Call a stream on the native side, reading its chunks with `for await`
      */
-    handle: <K extends keyof NonNullable<TContract['native']>>(
+    stream: <K extends StreamNames<NonNullable<TContract['native']>>>(
+      procedure: K,
+      data: InferInput<NonNullable<TContract['native']>[K]>,
+      options?: StreamOptions
+    ) => AsyncIterableIterator<InferChunk<NonNullable<TContract['native']>[K]>>
+
+    /**
+     * Subscribe to a native subscription. The native handler starts with the first
+     * subscriber to the same input and stops after the last one unsubscribes.
+     *
+     * @returns Function unsubscribing
+     */
+    subscribe: <K extends SubscriptionNames<NonNullable<TContract['native']>>>(
+      subscription: K,
+      data: InferInput<NonNullable<TContract['native']>[K]>,
+      onData: (data: InferEmits<NonNullable<TContract['native']>[K]>) => void,
+      options?: SubscribeOptions
+    ) => () => void
+
+    /**
+     * Register a handler for native events. Names the contract defines as procedures, streams
+     * or subscriptions are not registered and reported to `onError` as WRONG_KIND errors.
+     */
+    handle: <K extends EventNames<NonNullable<TContract['native']>>>(
       event: K,
       handler: (data: InferInput<NonNullable<TContract['native']>[K]>) => void
     ) => () => void
+
+    /**
+     * Native procedures, streams and subscriptions as methods, nested by namespace:
+     * `$.share(data)` is `call('share', data)`
+     */
+    $: ProcedureProxy<NonNullable<TContract['native']>>
   }
 
   /**
@@ -41,24 +96,44 @@ export interface WebClient<TContract extends Contract> {
    */
   web: {
     /**
-     * Emit an event to the native side (fire-and-forget)
+     * Emit an event to the native side (fire-and-forget). Names the contract defines as
+     * procedures are not sent and reported to `onError` as WRONG_KIND errors.
      */
-    emit: <K extends keyof NonNullable<TContract['web']>>(
+    emit: <K extends EventNames<NonNullable<TContract['web']>>>(
       event: K,
       data: InferInput<NonNullable<TContract['web']>[K]>
     ) => void
 
     /**
-     * Register a handler for web procedures
+     * Register a handler for web procedures and subscriptions, or an async generator for
+     * web streams. The returned function only unregisters this handler, never one that
+     * replaced it.
      */
     handle: <K extends keyof NonNullable<TContract['web']>>(
       procedure: K,
-      handler: (
-        data: InferInput<NonNullable<TContract['web']>[K]>
-      ) =>
-        | Promise<InferReturns<NonNullable<TContract['web']>[K]>>
-        | InferReturns<NonNullable<TContract['web']>[K]>
+      handler: NonNullable<TContract['web']>[K] extends { yields: unknown }
+        ? StreamHandler<
+            InferInput<NonNullable<TContract['web']>[K]>,
+            InferChunk<NonNullable<TContract['web']>[K]>
+          >
+        : NonNullable<TContract['web']>[K] extends { emits: unknown }
+          ? SubscriptionHandler<
+              InferInput<NonNullable<TContract['web']>[K]>,
+              InferEmits<NonNullable<TContract['web']>[K]>
+            >
+          : (
+              data: InferInput<NonNullable<TContract['web']>[K]>,
+              context: HandlerContext
+            ) =>
+              | Promise<InferReturns<NonNullable<TContract['web']>[K]>>
+              | InferReturns<NonNullable<TContract['web']>[K]>
     ) => () => void
+
+    /**
+     * Web events as methods emitting them, nested by namespace:
+     * `$emit.pathChanged(data)` is `emit('pathChanged', data)`
+     */
+    $emit: EmitProxy<NonNullable<TContract['web']>>
   }
 
   /**
@@ -66,6 +141,25 @@ export interface WebClient<TContract extends Contract> {
    */
   isWebView: boolean
 
+  /**
+   * Resolves once the native side has acknowledged the handshake.
+   * Rejects with a PROTOCOL_MISMATCH error if the web and native bundles disagree
+   * on the protocol version or on a name both contracts define.
+   */
+  ready: Promise<void>
+
+  /**
+   * Number of `message` events ignored because of their origin or because they were not
+   * envelopes of the channel, e.g. traffic from iframes, ads or browser extensions
+   */
+  readonly rejectedMessages: number
+
+  /**
+   * Totals of the messages sent compressed: count, bytes before and after compression, and
+   * bytes saved
+   */
+  readonly compressionStats: CompressionStats
+
   /**
    * Cleanup resources (cancel pending requests, remove listeners)
    */
@@ -86,22 +180,146 @@ export interface WebClientOptions {
    */
   deserializer?: Deserializer
 
+  /**
+   * Channel tag added to every envelope and required on received ones (default:
+   * 'webview-rpc'). Must match the `channel` of the native client.
+   */
+  channel?: string
+
+  /**
+   * Origins of other windows allowed to deliver messages, such as a parent page embedding
+   * this one. Messages from the native bridge have no origin and are always allowed
+   * (default: none).
+   */
+  allowedOrigins?: string[]
+
+  /**
+   * Decide whether a `message` event may be delivered, replacing the `allowedOrigins` check
+   */
+  acceptMessage?: (event: MessageEvent) => boolean
+
+  /**
+   * Transport replacing the ReactNativeWebView bridge, such as one side of
+   * `createMemoryTransportPair()` to run the client against a native client in tests. The
+   * serializer, channel, origin, chunking and compression options configure the bridge and
+   * are ignored.
+   */
+  transport?: Transport
+
   /**
    * Request timeout in milliseconds (default: 5000)
    */
   timeout?: number
 
+  /**
+   * Reject `ready` if the native side does not answer the handshake within this many
+   * milliseconds (default: wait indefinitely)
+   */
+  handshakeTimeout?: number
+
+  /**
+   * Buffer requests and events until the native side is ready, then flush them in order.
+   * Pass `true` for defaults or an object to configure size, age, drop policy and when
+   * request timeouts start (default: disabled, messages are sent or dropped immediately).
+   */
+  queue?: boolean | QueueOptions
+
   /**
    * Error handler for unhandled errors
    */
   onError?: (error: Error) => void
+
+  /**
+   * Runtime validation of incoming request data, handler return values and
+   * incoming event data against the contract schemas (default: false).
+   * Pass an object to enable stages or individual procedures selectively.
+   */
+  validate?: ValidationSetting
+
+  /**
+   * Send the stack trace and cause chain of handler errors to the caller (default: false).
+   * Enable in development builds only, as stacks reveal source paths.
+   */
+  forwardErrorDetails?: boolean
+
+  /**
+   * Hooks run in order on every message sent to and received from the native side, except
+   * the handshake. Outbound hooks run before the message is posted, inbound hooks before it
+   * is dispatched.
+   */
+  middleware?: Middleware[]
+
+  /**
+   * Coalesce messages posted within the same microtask, or within `window` milliseconds, into
+   * a single `batch` envelope so they cross the bridge at once (default: disabled). The
+   * native side unpacks batches in order whether or not it batches itself.
+   */
+  batch?: boolean | BatchOptions
+
+  /**
+   * Split serialized messages above `threshold` characters into sequenced chunk frames, so
+   * large payloads stay below bridge size limits (default: disabled). Frames from the
+   * native side are reassembled and checked whether or not this is enabled. Pass
+   * `onProgress` to a call to follow the transfer.
+   */
+  chunking?: boolean | ChunkingOptions
+
+  /**
+   * Compress serialized messages above `threshold` characters with a pure-JS codec, once the
+   * handshake showed the native side can read them (default: disabled). Peers on older
+   * versions keep receiving uncompressed messages. Compressed messages from the native side
+   * are read whether or not this is enabled.
+   */
+  compression?: boolean | CompressionOptions
+
+  /**
+   * Handling of calls to procedures the native side's contract does not define, as announced
+   * in its handshake (default: 'reject', failing them with UNKNOWN_PROCEDURE). Use 'warn' to
+   * report them to `onError` and send them anyway. Older native builds announce nothing, so
+   * calls to them are never checked.
+   */
+  unknownProcedures?: UnknownProcedurePolicy
+
+  /**
+   * Convert schemas to JSON Schema for the contract fingerprint and the description compared
+   * during the handshake, for libraries that only offer a standalone converter, such as
+   * `z.toJSONSchema` in Zod 4.1. Without it, schema changes of such libraries go unnoticed
+   * by the handshake; pass the same converter to both clients.
+   */
+  toJSONSchema?: DescribeOptions['toJSONSchema']
+
+  /**
+   * Handling of a second handler registered for the same web procedure (default: 'warn',
+   * reporting a DUPLICATE_HANDLER error to `onError` and replacing the first handler).
+   * Without `onError`, the warning goes to `console.warn` in development builds, or when
+   * `captureStack` described a registration. Use 'throw' to keep the first handler and
+   * throw from `web.handle`, or 'replace' to replace it silently.
+   */
+  duplicateHandlers?: DuplicateHandlerPolicy
+
+  /**
+   * Describe where a handler is being registered from, named in DUPLICATE_HANDLER errors.
+   * `WebViewRPCProvider` passes React's `captureOwnerStack`, which returns the component
+   * stack in development builds only.
+   */
+  captureStack?: () => string | null | undefined
 }
 
+/**
+ * Handling of a second handler registered for a web procedure that already has one:
+ * - `throw` throw a DUPLICATE_HANDLER error and keep the first handler
+ * - `replace` replace the first handler silently
+ * - `warn` report a DUPLICATE_HANDLER error to onError and replace the first handler. Without
+ *   onError, development builds log it with `console.warn`.
+ */
+export type DuplicateHandlerPolicy = 'throw' | 'replace' | 'warn'
+
 /**
  * Handler function type for procedures
  */
 export type Handler<TData = unknown, TReturn = unknown> = (
-  data: TData
+  data: TData,
+  context: HandlerContext
 ) => Promise<TReturn> | TReturn
 
 /**